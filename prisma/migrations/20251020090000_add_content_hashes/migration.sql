@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."document_chunks" ADD COLUMN "content_hash" TEXT,
+ADD COLUMN "page_hash" TEXT;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "public"."sources" (
+    "id" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "options" JSONB NOT NULL,
+    "schedule" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "next_crawl_at" TIMESTAMP(3) NOT NULL,
+    "last_crawled_at" TIMESTAMP(3),
+    "last_job_id" TEXT,
+    "last_crawl_status" "public"."JobStatus",
+    "last_error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sources_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sources_enabled_next_crawl_at_idx" ON "public"."sources"("enabled", "next_crawl_at");
+
+-- CreateIndex
+CREATE INDEX "sources_last_job_id_idx" ON "public"."sources"("last_job_id");
@@ -0,0 +1,29 @@
+-- Rows created before ownership existed keep a NULL owner and are no longer
+-- visible through the API; assign them with an UPDATE if they should be kept.
+
+-- AlterTable
+ALTER TABLE "public"."document_chunks" ADD COLUMN "user_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."ingestion_jobs" ADD COLUMN "user_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."sources" ADD COLUMN "user_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "document_chunks_user_id_sourceUrl_idx" ON "public"."document_chunks"("user_id", "sourceUrl");
+
+-- CreateIndex
+CREATE INDEX "ingestion_jobs_user_id_createdAt_idx" ON "public"."ingestion_jobs"("user_id", "createdAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "sources_user_id_idx" ON "public"."sources"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."document_chunks" ADD CONSTRAINT "document_chunks_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ingestion_jobs" ADD CONSTRAINT "ingestion_jobs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."sources" ADD CONSTRAINT "sources_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "public"."collections" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "user_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "collections_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "public"."document_chunks" ADD COLUMN "collection_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."ingestion_jobs" ADD COLUMN "collection_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "collections_user_id_name_key" ON "public"."collections"("user_id", "name");
+
+-- CreateIndex
+CREATE INDEX "document_chunks_collection_id_sourceUrl_idx" ON "public"."document_chunks"("collection_id", "sourceUrl");
+
+-- CreateIndex
+CREATE INDEX "ingestion_jobs_collection_id_idx" ON "public"."ingestion_jobs"("collection_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."collections" ADD CONSTRAINT "collections_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."document_chunks" ADD CONSTRAINT "document_chunks_collection_id_fkey" FOREIGN KEY ("collection_id") REFERENCES "public"."collections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ingestion_jobs" ADD CONSTRAINT "ingestion_jobs_collection_id_fkey" FOREIGN KEY ("collection_id") REFERENCES "public"."collections"("id") ON DELETE SET NULL ON UPDATE CASCADE;
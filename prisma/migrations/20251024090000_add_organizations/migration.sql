@@ -0,0 +1,99 @@
+-- CreateEnum
+CREATE TYPE "public"."OrganizationRole" AS ENUM ('OWNER', 'ADMIN', 'EDITOR', 'VIEWER');
+
+-- CreateTable
+CREATE TABLE "public"."organizations" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "organizations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."memberships" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "role" "public"."OrganizationRole" NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "memberships_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."invitations" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" "public"."OrganizationRole" NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "invited_by_id" TEXT,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "accepted_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "invitations_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "public"."document_chunks" ADD COLUMN "organization_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."ingestion_jobs" ADD COLUMN "organization_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."collections" ADD COLUMN "organization_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."sources" ADD COLUMN "organization_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "memberships_organization_id_user_id_key" ON "public"."memberships"("organization_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "memberships_user_id_idx" ON "public"."memberships"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invitations_token_hash_key" ON "public"."invitations"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "invitations_organization_id_email_idx" ON "public"."invitations"("organization_id", "email");
+
+-- CreateIndex
+CREATE INDEX "document_chunks_organization_id_sourceUrl_idx" ON "public"."document_chunks"("organization_id", "sourceUrl");
+
+-- CreateIndex
+CREATE INDEX "ingestion_jobs_organization_id_createdAt_idx" ON "public"."ingestion_jobs"("organization_id", "createdAt" DESC);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "collections_organization_id_name_key" ON "public"."collections"("organization_id", "name");
+
+-- CreateIndex
+CREATE INDEX "sources_organization_id_idx" ON "public"."sources"("organization_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."memberships" ADD CONSTRAINT "memberships_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."memberships" ADD CONSTRAINT "memberships_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."invitations" ADD CONSTRAINT "invitations_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."invitations" ADD CONSTRAINT "invitations_invited_by_id_fkey" FOREIGN KEY ("invited_by_id") REFERENCES "public"."users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."document_chunks" ADD CONSTRAINT "document_chunks_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ingestion_jobs" ADD CONSTRAINT "ingestion_jobs_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."collections" ADD CONSTRAINT "collections_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."sources" ADD CONSTRAINT "sources_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
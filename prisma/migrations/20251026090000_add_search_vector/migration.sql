@@ -0,0 +1,10 @@
+-- Full-text search vector for keyword and hybrid search. Titles weigh most, then section
+-- headings, then body text; generated so every write path keeps it current.
+ALTER TABLE "public"."document_chunks" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("section", '')), 'B') ||
+  setweight(to_tsvector('english', coalesce("content", '')), 'D')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "document_chunks_search_vector_idx" ON "public"."document_chunks" USING GIN ("search_vector");
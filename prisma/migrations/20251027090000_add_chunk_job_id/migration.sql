@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."document_chunks" ADD COLUMN "job_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "document_chunks_job_id_idx" ON "public"."document_chunks"("job_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."document_chunks" ADD CONSTRAINT "document_chunks_job_id_fkey" FOREIGN KEY ("job_id") REFERENCES "public"."ingestion_jobs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
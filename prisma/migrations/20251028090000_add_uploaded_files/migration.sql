@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "public"."uploaded_files" (
+    "id" TEXT NOT NULL,
+    "job_id" TEXT NOT NULL,
+    "file_name" TEXT NOT NULL,
+    "content_type" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "data" BYTEA NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "uploaded_files_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "uploaded_files_job_id_key" ON "public"."uploaded_files"("job_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."uploaded_files" ADD CONSTRAINT "uploaded_files_job_id_fkey" FOREIGN KEY ("job_id") REFERENCES "public"."ingestion_jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Uploaded files are stored under synthetic upload:// source URIs
+ALTER TABLE "public"."document_chunks" DROP CONSTRAINT IF EXISTS chk_source_url_format;
+ALTER TABLE "public"."document_chunks" ADD CONSTRAINT chk_source_url_format
+CHECK ("sourceUrl" ~ '^(https?|upload)://');
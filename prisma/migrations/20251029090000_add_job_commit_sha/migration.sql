@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."ingestion_jobs" ADD COLUMN "commit_sha" TEXT;
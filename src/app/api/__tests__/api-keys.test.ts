@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as listApiKeys, POST as createApiKey } from '../api-keys/route'
+import { DELETE as revokeApiKey } from '../api-keys/[keyId]/route'
+import { apiKeyStore } from '../../../lib/api-keys/store'
+import { organizationStore } from '../../../lib/organizations/store'
+import { ApiKey } from '../../../lib/api-keys/types'
+
+const { mockAuth } = vi.hoisted(() => ({
+  mockAuth: vi.fn()
+}))
+
+vi.mock('../../../lib/auth', () => ({
+  auth: mockAuth
+}))
+
+vi.mock('../../../lib/organizations/store', () => ({
+  organizationStore: {
+    getMembership: vi.fn()
+  }
+}))
+
+// Mock the API key store
+vi.mock('../../../lib/api-keys/store', () => ({
+  apiKeyStore: {
+    create: vi.fn(),
+    list: vi.fn(),
+    revoke: vi.fn(),
+    verify: vi.fn(),
+    recordUsage: vi.fn()
+  }
+}))
+
+// Requests without an organization header act in the caller's personal workspace
+const personalScope = { userId: 'user-1', role: 'OWNER' }
+
+const apiKeysUrl = 'http://localhost:3000/api/api-keys'
+
+const jsonRequest = (body: unknown, headers: Record<string, string> = {}) => new NextRequest(apiKeysUrl, {
+  method: 'POST',
+  body: JSON.stringify(body),
+  headers: { 'Content-Type': 'application/json', ...headers }
+})
+
+describe('/api/api-keys', () => {
+  const apiKey: ApiKey = {
+    id: 'key-1',
+    name: 'CI pipeline',
+    prefix: 'kio_abcdefgh',
+    scopes: ['INGEST', 'SEARCH'],
+    userId: 'user-1',
+    createdAt: new Date('2024-05-01T00:00:00Z')
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockAuth.mockResolvedValue({ user: { id: 'user-1' } })
+  })
+
+  afterEach(() => {
+    vi.resetAllMocks()
+  })
+
+  describe('POST', () => {
+    it('should create a key and return it once', async () => {
+      vi.mocked(apiKeyStore.create).mockResolvedValue({ apiKey, key: 'kio_plain-key' })
+
+      const response = await createApiKey(jsonRequest({ name: ' CI pipeline ', scopes: ['ingest', 'search', 'ingest'] }))
+      const data = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(apiKeyStore.create).toHaveBeenCalledWith(
+        { name: 'CI pipeline', scopes: ['INGEST', 'SEARCH'], expiresAt: undefined },
+        personalScope
+      )
+      expect(data).toMatchObject({
+        id: 'key-1',
+        key: 'kio_plain-key',
+        prefix: 'kio_abcdefgh',
+        scopes: ['ingest', 'search'],
+        lastUsedAt: null
+      })
+    })
+
+    it('should set an expiry from expiresInDays', async () => {
+      vi.mocked(apiKeyStore.create).mockResolvedValue({ apiKey, key: 'kio_plain-key' })
+      const before = Date.now()
+
+      await createApiKey(jsonRequest({ name: 'CI pipeline', scopes: ['search'], expiresInDays: 30 }))
+
+      const [input] = vi.mocked(apiKeyStore.create).mock.calls[0]
+      expect(input.expiresAt!.getTime()).toBeGreaterThanOrEqual(before + 30 * 24 * 60 * 60 * 1000)
+    })
+
+    it('should reject unknown scopes', async () => {
+      const response = await createApiKey(jsonRequest({ name: 'CI pipeline', scopes: ['delete'] }))
+
+      expect(response.status).toBe(400)
+      expect(apiKeyStore.create).not.toHaveBeenCalled()
+    })
+
+    it('should only let organization admins create organization keys', async () => {
+      vi.mocked(organizationStore.getMembership).mockResolvedValue({
+        id: 'membership-1',
+        organizationId: 'org-1',
+        userId: 'user-1',
+        role: 'EDITOR',
+        createdAt: new Date(),
+        updatedAt: new Date()
+      })
+
+      const response = await createApiKey(
+        jsonRequest({ name: 'CI pipeline', scopes: ['ingest'] }, { 'x-organization-id': 'org-1' })
+      )
+
+      expect(response.status).toBe(403)
+      expect(apiKeyStore.create).not.toHaveBeenCalled()
+    })
+
+    it('should not let a key mint further keys', async () => {
+      mockAuth.mockResolvedValue(null)
+
+      const response = await createApiKey(
+        jsonRequest({ name: 'CI pipeline', scopes: ['admin'] }, { 'Authorization': 'Bearer kio_secret' })
+      )
+
+      expect(response.status).toBe(401)
+      expect(apiKeyStore.verify).not.toHaveBeenCalled()
+      expect(apiKeyStore.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('GET', () => {
+    it('should list keys with their last use', async () => {
+      vi.mocked(apiKeyStore.list).mockResolvedValue([
+        { ...apiKey, lastUsedAt: new Date('2024-05-02T00:00:00Z') }
+      ])
+
+      const response = await listApiKeys(new NextRequest(apiKeysUrl))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(apiKeyStore.list).toHaveBeenCalledWith(personalScope)
+      expect(data.apiKeys).toEqual([expect.objectContaining({
+        id: 'key-1',
+        lastUsedAt: '2024-05-02T00:00:00.000Z'
+      })])
+      expect(data.apiKeys[0]).not.toHaveProperty('key')
+    })
+  })
+
+  describe('DELETE', () => {
+    const params = { params: { keyId: 'key-1' } }
+
+    it('should revoke a key', async () => {
+      vi.mocked(apiKeyStore.revoke).mockResolvedValue({ ...apiKey, revokedAt: new Date('2024-05-03T00:00:00Z') })
+
+      const response = await revokeApiKey(new NextRequest(`${apiKeysUrl}/key-1`, { method: 'DELETE' }), params)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(apiKeyStore.revoke).toHaveBeenCalledWith('key-1', personalScope)
+      expect(data.revokedAt).toBe('2024-05-03T00:00:00.000Z')
+    })
+
+    it('should return 404 for keys outside the workspace', async () => {
+      vi.mocked(apiKeyStore.revoke).mockResolvedValue(null)
+
+      const response = await revokeApiKey(new NextRequest(`${apiKeysUrl}/key-1`, { method: 'DELETE' }), params)
+      const data = await response.json()
+
+      expect(response.status).toBe(404)
+      expect(data.code).toBe('API_KEY_NOT_FOUND')
+    })
+  })
+})
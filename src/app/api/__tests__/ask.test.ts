@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { VectorSearchResult } from '../../../lib/vector/types'
+
+const { mockEmbedQuery, mockAuth } = vi.hoisted(() => {
+  // Use the deterministic local generator and reranker instead of Bedrock
+  process.env.TEXT_GENERATION_PROVIDER = 'local'
+  process.env.RERANK_PROVIDER = 'local'
+  return { mockEmbedQuery: vi.fn(), mockAuth: vi.fn() }
+})
+
+vi.mock('../../../lib/auth', () => ({
+  auth: mockAuth
+}))
+
+vi.mock('../../../lib/organizations/store', () => ({
+  organizationStore: {
+    getMembership: vi.fn()
+  }
+}))
+
+vi.mock('../../../lib/api-keys/store', () => ({
+  apiKeyStore: {
+    verify: vi.fn(),
+    recordUsage: vi.fn()
+  }
+}))
+
+vi.mock('../../../lib/embed/service', () => ({
+  EmbeddingService: vi.fn().mockImplementation(() => ({
+    embedQuery: mockEmbedQuery
+  }))
+}))
+
+vi.mock('../../../lib/config/environment', () => ({
+  embeddingConfig: { provider: 'local' }
+}))
+
+vi.mock('../../../lib/vector/store', () => ({
+  vectorStore: {
+    search: vi.fn()
+  }
+}))
+
+import { POST } from '../ask/route'
+import { vectorStore } from '../../../lib/vector/store'
+
+const createRequest = (body: unknown, headers: Record<string, string> = {}) =>
+  new NextRequest('http://localhost:3000/api/ask', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers
+    }
+  })
+
+describe('/api/ask', () => {
+  const chunks: VectorSearchResult[] = [
+    {
+      id: 'chunk-1',
+      content: 'Webhooks are retried up to five times. Each retry doubles the delay.',
+      metadata: {},
+      similarity: 0.88,
+      sourceUrl: 'https://docs.example.com/webhooks',
+      title: 'Webhooks',
+      section: 'Retries',
+      chunkIndex: 7
+    }
+  ]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockAuth.mockResolvedValue({ user: { id: 'user-1' } })
+    mockEmbedQuery.mockResolvedValue(new Array(1536).fill(0.1))
+    vi.mocked(vectorStore.search).mockResolvedValue(chunks)
+  })
+
+  afterEach(() => {
+    vi.resetAllMocks()
+  })
+
+  it('should return an answer with citations', async () => {
+    const response = await POST(createRequest({ question: 'How are webhooks retried?', topK: 3 }))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(vectorStore.search).toHaveBeenCalledWith(expect.any(Array), {
+      limit: 3,
+      threshold: 0.5,
+      query: 'How are webhooks retried?',
+      userId: 'user-1'
+    })
+    expect(data.answer).toBe('Webhooks are retried up to five times. [1]')
+    expect(data.citations).toEqual([
+      {
+        index: 1,
+        chunkId: 'chunk-1',
+        sourceUrl: 'https://docs.example.com/webhooks',
+        chunkIndex: 7,
+        title: 'Webhooks',
+        section: 'Retries',
+        similarity: 0.88
+      }
+    ])
+    expect(data.modelId).toBe('local-extractive')
+  })
+
+  it('should stream the answer over server-sent events', async () => {
+    const response = await POST(createRequest({ question: 'How are webhooks retried?', stream: true }))
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream')
+
+    const body = await response.text()
+    const events = body
+      .trim()
+      .split('\n\n')
+      .map(block => {
+        const [eventLine, dataLine] = block.split('\n')
+        return {
+          event: eventLine.replace('event: ', ''),
+          data: JSON.parse(dataLine.replace('data: ', ''))
+        }
+      })
+
+    expect(events[0].event).toBe('citations')
+    expect(events[0].data.citations[0].sourceUrl).toBe('https://docs.example.com/webhooks')
+    expect(events[events.length - 1].event).toBe('done')
+
+    const text = events
+      .filter(event => event.event === 'delta')
+      .map(event => event.data.text)
+      .join('')
+    expect(text).toBe('Webhooks are retried up to five times. [1]')
+  })
+
+  it('should stream when the client accepts text/event-stream', async () => {
+    const response = await POST(createRequest(
+      { question: 'How are webhooks retried?' },
+      { Accept: 'text/event-stream' }
+    ))
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream')
+  })
+
+  it('should reject an empty question', async () => {
+    const response = await POST(createRequest({ question: '' }))
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.error).toBe('Invalid request data')
+    expect(mockEmbedQuery).not.toHaveBeenCalled()
+  })
+})
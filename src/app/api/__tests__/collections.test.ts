@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as listCollections, POST as createCollection } from '../collections/route'
+import { DELETE as deleteCollection } from '../collections/[collectionId]/route'
+import { collectionStore } from '../../../lib/collections/store'
+import { apiKeyStore } from '../../../lib/api-keys/store'
+import { Collection } from '../../../lib/collections/types'
+
+const { mockAuth } = vi.hoisted(() => ({
+  mockAuth: vi.fn()
+}))
+
+vi.mock('../../../lib/auth', () => ({
+  auth: mockAuth
+}))
+
+vi.mock('../../../lib/organizations/store', () => ({
+  organizationStore: {
+    getMembership: vi.fn()
+  }
+}))
+
+vi.mock('../../../lib/api-keys/store', () => ({
+  apiKeyStore: {
+    verify: vi.fn(),
+    recordUsage: vi.fn()
+  }
+}))
+
+// Mock the collection store
+vi.mock('../../../lib/collections/store', () => ({
+  collectionStore: {
+    list: vi.fn(),
+    create: vi.fn(),
+    findByName: vi.fn(),
+    delete: vi.fn()
+  }
+}))
+
+// Requests without an organization header act in the caller's personal workspace
+const personalScope = { userId: 'user-1', role: 'OWNER' }
+
+describe('/api/collections', () => {
+  const mockCollection: Collection = {
+    id: 'collection-123',
+    name: 'Vendor SDK docs',
+    description: 'Third-party SDK references',
+    userId: 'user-1',
+    createdAt: new Date('2024-05-01T00:00:00Z'),
+    updatedAt: new Date('2024-05-01T00:00:00Z')
+  }
+
+  const jsonRequest = (body: unknown) => new NextRequest('http://localhost:3000/api/collections', {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' }
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockAuth.mockResolvedValue({ user: { id: 'user-1' } })
+  })
+
+  afterEach(() => {
+    vi.resetAllMocks()
+  })
+
+  describe('POST', () => {
+    it('should create a collection for the signed-in user', async () => {
+      vi.mocked(collectionStore.findByName).mockResolvedValue(null)
+      vi.mocked(collectionStore.create).mockResolvedValue(mockCollection)
+
+      const response = await createCollection(jsonRequest({
+        name: '  Vendor SDK docs ',
+        description: 'Third-party SDK references'
+      }))
+      const data = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(collectionStore.create).toHaveBeenCalledWith({
+        name: 'Vendor SDK docs',
+        description: 'Third-party SDK references'
+      }, personalScope)
+      expect(data).toEqual({
+        id: 'collection-123',
+        name: 'Vendor SDK docs',
+        description: 'Third-party SDK references',
+        createdAt: '2024-05-01T00:00:00.000Z',
+        updatedAt: '2024-05-01T00:00:00.000Z'
+      })
+    })
+
+    it('should reject a duplicate name', async () => {
+      vi.mocked(collectionStore.findByName).mockResolvedValue(mockCollection)
+
+      const response = await createCollection(jsonRequest({ name: 'Vendor SDK docs' }))
+      const data = await response.json()
+
+      expect(response.status).toBe(409)
+      expect(data.code).toBe('COLLECTION_EXISTS')
+      expect(collectionStore.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject an empty name', async () => {
+      const response = await createCollection(jsonRequest({ name: '   ' }))
+
+      expect(response.status).toBe(400)
+      expect(collectionStore.create).not.toHaveBeenCalled()
+    })
+
+    it('should require a signed-in user', async () => {
+      mockAuth.mockResolvedValue(null)
+
+      const response = await createCollection(jsonRequest({ name: 'Vendor SDK docs' }))
+
+      expect(response.status).toBe(401)
+    })
+
+    it('should not accept API keys', async () => {
+      const response = await createCollection(new NextRequest('http://localhost:3000/api/collections', {
+        method: 'POST',
+        body: JSON.stringify({ name: 'Vendor SDK docs' }),
+        headers: { 'Content-Type': 'application/json', 'Authorization': 'Bearer kio_secret' }
+      }))
+      const data = await response.json()
+
+      expect(response.status).toBe(401)
+      expect(data.code).toBe('INVALID_API_KEY')
+      expect(apiKeyStore.verify).not.toHaveBeenCalled()
+      expect(collectionStore.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('GET', () => {
+    it('should list the caller\'s collections', async () => {
+      vi.mocked(collectionStore.list).mockResolvedValue({ collections: [mockCollection], total: 1 })
+
+      const response = await listCollections(new NextRequest('http://localhost:3000/api/collections?limit=10'))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(collectionStore.list).toHaveBeenCalledWith({ owner: personalScope, limit: 10, offset: 0 })
+      expect(data.total).toBe(1)
+      expect(data.collections[0].name).toBe('Vendor SDK docs')
+    })
+  })
+
+  describe('/api/collections/[collectionId]', () => {
+    const params = { params: { collectionId: 'collection-123' } }
+
+    it('should delete a collection', async () => {
+      vi.mocked(collectionStore.delete).mockResolvedValue(true)
+
+      const response = await deleteCollection(
+        new NextRequest('http://localhost:3000/api/collections/collection-123', { method: 'DELETE' }),
+        params
+      )
+
+      expect(response.status).toBe(200)
+      expect(collectionStore.delete).toHaveBeenCalledWith('collection-123', personalScope)
+      expect(await response.json()).toEqual({ id: 'collection-123', deleted: true })
+    })
+
+    it('should return 404 for unknown collections', async () => {
+      vi.mocked(collectionStore.delete).mockResolvedValue(false)
+
+      const response = await deleteCollection(
+        new NextRequest('http://localhost:3000/api/collections/collection-123', { method: 'DELETE' }),
+        params
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(404)
+      expect(data.code).toBe('COLLECTION_NOT_FOUND')
+    })
+  })
+})
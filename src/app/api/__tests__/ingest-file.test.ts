@@ -0,0 +1,180 @@
+// @vitest-environment node
+// Multipart bodies need the runtime's own FormData and Blob, which jsdom replaces
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST } from '../ingest-file/route'
+import { jobQueue } from '../../../lib/jobs/queue'
+import { collectionStore } from '../../../lib/collections/store'
+
+const { mockAuth } = vi.hoisted(() => ({
+  mockAuth: vi.fn()
+}))
+
+vi.mock('../../../lib/auth', () => ({
+  auth: mockAuth
+}))
+
+vi.mock('../../../lib/organizations/store', () => ({
+  organizationStore: {
+    getMembership: vi.fn()
+  }
+}))
+
+vi.mock('../../../lib/api-keys/store', () => ({
+  apiKeyStore: {
+    verify: vi.fn(),
+    recordUsage: vi.fn()
+  }
+}))
+
+vi.mock('../../../lib/collections/store', () => ({
+  collectionStore: {
+    get: vi.fn()
+  }
+}))
+
+vi.mock('../../../lib/jobs/queue', () => ({
+  jobQueue: {
+    enqueue: vi.fn()
+  }
+}))
+
+// Requests without an organization header act in the caller's personal workspace
+const personalScope = { userId: 'user-1', role: 'OWNER' }
+
+const uploadRequest = async (fields: Record<string, string | Blob>, fileName?: string) => {
+  const formData = new FormData()
+  for (const [name, value] of Object.entries(fields)) {
+    if (typeof value === 'string') {
+      formData.append(name, value)
+    } else {
+      formData.append(name, value, fileName)
+    }
+  }
+
+  // Serialize the form so the request declares its Content-Length like a browser upload does
+  const encoded = new Response(formData)
+  const body = await encoded.arrayBuffer()
+
+  return new NextRequest('http://localhost:3000/api/ingest-file', {
+    method: 'POST',
+    body,
+    headers: {
+      'content-type': encoded.headers.get('content-type')!,
+      'content-length': String(body.byteLength),
+      'x-forwarded-for': '10.0.0.5'
+    }
+  })
+}
+
+describe('/api/ingest-file', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockAuth.mockResolvedValue({ user: { id: 'user-1' } })
+  })
+
+  afterEach(() => {
+    vi.resetAllMocks()
+  })
+
+  describe('POST', () => {
+    it('should store the file with a queued job under a synthetic source URI', async () => {
+      vi.mocked(jobQueue.enqueue).mockResolvedValue('job-123')
+      const markdown = '# Setup\n\nRun the installer.'
+
+      const response = await POST(await uploadRequest(
+        { file: new Blob([markdown], { type: 'text/markdown' }) },
+        'Setup Guide.md'
+      ))
+      const data = await response.json()
+
+      expect(response.status).toBe(202)
+      expect(data).toMatchObject({
+        jobId: 'job-123',
+        sourceUri: 'upload://files/Setup%20Guide.md',
+        status: 'queued'
+      })
+
+      const [url, options, owner, file] = vi.mocked(jobQueue.enqueue).mock.calls[0]
+      expect(url).toBe('upload://files/Setup%20Guide.md')
+      expect(options).toEqual({})
+      expect(owner).toEqual(personalScope)
+      expect(file).toMatchObject({ fileName: 'Setup Guide.md', contentType: 'text/markdown' })
+      expect(new TextDecoder().decode(file!.data)).toBe(markdown)
+    })
+
+    it('should ingest into a collection owned by the caller', async () => {
+      vi.mocked(collectionStore.get).mockResolvedValue({
+        id: 'collection-1',
+        name: 'Internal API docs',
+        userId: 'user-1',
+        createdAt: new Date(),
+        updatedAt: new Date()
+      })
+      vi.mocked(jobQueue.enqueue).mockResolvedValue('job-123')
+
+      const response = await POST(await uploadRequest(
+        { file: new Blob(['%PDF-1.4'], { type: 'application/pdf' }), collectionId: 'collection-1' },
+        'spec.pdf'
+      ))
+
+      expect(response.status).toBe(202)
+      expect(collectionStore.get).toHaveBeenCalledWith('collection-1', personalScope)
+      expect(vi.mocked(jobQueue.enqueue).mock.calls[0][1]).toEqual({ collectionId: 'collection-1' })
+    })
+
+    it('should reject unsupported file types', async () => {
+      const response = await POST(await uploadRequest(
+        { file: new Blob(['binary'], { type: 'application/zip' }) },
+        'archive.zip'
+      ))
+      const data = await response.json()
+
+      expect(response.status).toBe(415)
+      expect(data.code).toBe('UNSUPPORTED_FILE_TYPE')
+      expect(jobQueue.enqueue).not.toHaveBeenCalled()
+    })
+
+    it('should reject oversized bodies before reading them', async () => {
+      const request = new NextRequest('http://localhost:3000/api/ingest-file', {
+        method: 'POST',
+        body: 'ignored',
+        headers: {
+          'content-type': 'multipart/form-data; boundary=upload',
+          'content-length': String(50 * 1024 * 1024),
+          'x-forwarded-for': '10.0.0.5'
+        }
+      })
+      const formDataSpy = vi.spyOn(request, 'formData')
+
+      const response = await POST(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(413)
+      expect(data.code).toBe('FILE_TOO_LARGE')
+      expect(formDataSpy).not.toHaveBeenCalled()
+      expect(jobQueue.enqueue).not.toHaveBeenCalled()
+    })
+
+    it('should require a file', async () => {
+      const response = await POST(await uploadRequest({ collectionId: 'collection-1' }))
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.code).toBe('VALIDATION_ERROR')
+      expect(jobQueue.enqueue).not.toHaveBeenCalled()
+    })
+
+    it('should require a signed-in user', async () => {
+      mockAuth.mockResolvedValue(null)
+
+      const response = await POST(await uploadRequest(
+        { file: new Blob(['hello'], { type: 'text/plain' }) },
+        'notes.txt'
+      ))
+
+      expect(response.status).toBe(401)
+      expect(jobQueue.enqueue).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -2,8 +2,30 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { NextRequest } from 'next/server'
 import { GET } from '../ingest-status/[jobId]/route'
 import { jobQueue } from '../../../lib/jobs/queue'
+import { organizationStore } from '../../../lib/organizations/store'
 import { IngestionJob } from '../../../lib/types'
 
+const { mockAuth } = vi.hoisted(() => ({
+  mockAuth: vi.fn()
+}))
+
+vi.mock('../../../lib/auth', () => ({
+  auth: mockAuth
+}))
+
+vi.mock('../../../lib/organizations/store', () => ({
+  organizationStore: {
+    getMembership: vi.fn()
+  }
+}))
+
+vi.mock('../../../lib/api-keys/store', () => ({
+  apiKeyStore: {
+    verify: vi.fn(),
+    recordUsage: vi.fn()
+  }
+}))
+
 // Mock the job queue
 vi.mock('../../../lib/jobs/queue', () => ({
   jobQueue: {
@@ -14,6 +36,7 @@ vi.mock('../../../lib/jobs/queue', () => ({
 describe('/api/ingest-status/[jobId]', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    mockAuth.mockResolvedValue({ user: { id: 'user-1' } })
   })
 
   afterEach(() => {
@@ -26,6 +49,7 @@ describe('/api/ingest-status/[jobId]', () => {
         id: 'job-123',
         url: 'https://api.example.com/docs',
         status: 'PROCESSING',
+        userId: 'user-1',
         options: { maxDepth: 2, followLinks: true },
         progress: {
           pagesProcessed: 1,
@@ -76,6 +100,73 @@ describe('/api/ingest-status/[jobId]', () => {
       expect(data.message).toBe('No job found with ID: clabcd1234567890123456789')
     })
 
+    it('should return 404 for a job owned by another user', async () => {
+      vi.mocked(jobQueue.getStatus).mockResolvedValue({
+        id: 'job-other',
+        url: 'https://api.example.com/docs',
+        status: 'COMPLETED',
+        userId: 'user-2',
+        options: {},
+        progress: {
+          pagesProcessed: 1,
+          chunksCreated: 1,
+          chunksEmbedded: 1,
+          errors: []
+        },
+        createdAt: new Date('2024-01-01T10:00:00Z')
+      })
+
+      const request = new NextRequest('http://localhost:3000/api/ingest-status/job-other')
+      const response = await GET(request, { params: { jobId: 'job-other' } })
+      const data = await response.json()
+
+      expect(response.status).toBe(404)
+      expect(data.code).toBe('JOB_NOT_FOUND')
+    })
+
+    it('should show organization jobs to members only', async () => {
+      vi.mocked(jobQueue.getStatus).mockResolvedValue({
+        id: 'job-org',
+        url: 'https://api.example.com/docs',
+        status: 'QUEUED',
+        organizationId: 'org-1',
+        options: {},
+        progress: {
+          pagesProcessed: 0,
+          chunksCreated: 0,
+          chunksEmbedded: 0,
+          errors: []
+        },
+        createdAt: new Date('2024-01-01T10:00:00Z')
+      })
+      vi.mocked(organizationStore.getMembership).mockResolvedValueOnce({
+        id: 'membership-1',
+        organizationId: 'org-1',
+        userId: 'user-1',
+        role: 'VIEWER',
+        createdAt: new Date(),
+        updatedAt: new Date()
+      })
+
+      const request = new NextRequest('http://localhost:3000/api/ingest-status/job-org')
+      const memberResponse = await GET(request, { params: { jobId: 'job-org' } })
+      const outsiderResponse = await GET(request, { params: { jobId: 'job-org' } })
+
+      expect(memberResponse.status).toBe(200)
+      expect(outsiderResponse.status).toBe(404)
+      expect(organizationStore.getMembership).toHaveBeenCalledWith('org-1', 'user-1')
+    })
+
+    it('should require a signed-in user', async () => {
+      mockAuth.mockResolvedValue(null)
+
+      const request = new NextRequest('http://localhost:3000/api/ingest-status/job-123')
+      const response = await GET(request, { params: { jobId: 'job-123' } })
+
+      expect(response.status).toBe(401)
+      expect(jobQueue.getStatus).not.toHaveBeenCalled()
+    })
+
     it('should return 400 when jobId is missing', async () => {
       const request = new NextRequest('http://localhost:3000/api/ingest-status/')
       const response = await GET(request, { params: { jobId: '' } })
@@ -104,6 +195,7 @@ describe('/api/ingest-status/[jobId]', () => {
         id: 'job-456',
         url: 'https://api.example.com/docs',
         status: 'COMPLETED',
+        userId: 'user-1',
         options: { respectRobots: true },
         progress: {
           pagesProcessed: 3,
@@ -135,6 +227,7 @@ describe('/api/ingest-status/[jobId]', () => {
         id: 'job-789',
         url: 'https://invalid-url.com',
         status: 'FAILED',
+        userId: 'user-1',
         options: {},
         progress: {
           pagesProcessed: 0,
@@ -188,6 +281,7 @@ describe('/api/ingest-status/[jobId]', () => {
         id: 'job-completed',
         url: 'https://api.example.com/docs',
         status: 'COMPLETED',
+        userId: 'user-1',
         options: {},
         progress: {
           pagesProcessed: 1,
@@ -206,7 +300,7 @@ describe('/api/ingest-status/[jobId]', () => {
       const response = await GET(request, { params: { jobId: 'job-completed' } })
 
       expect(response.status).toBe(200)
-      expect(response.headers.get('Cache-Control')).toBe('public, max-age=3600')
+      expect(response.headers.get('Cache-Control')).toBe('private, max-age=3600')
     })
 
     it('should not cache in-progress jobs', async () => {
@@ -214,6 +308,7 @@ describe('/api/ingest-status/[jobId]', () => {
         id: 'job-processing',
         url: 'https://api.example.com/docs',
         status: 'PROCESSING',
+        userId: 'user-1',
         options: {},
         progress: {
           pagesProcessed: 1,
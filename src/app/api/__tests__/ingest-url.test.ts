@@ -2,6 +2,37 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { NextRequest } from 'next/server'
 import { POST } from '../ingest-url/route'
 import { jobQueue } from '../../../lib/jobs/queue'
+import { collectionStore } from '../../../lib/collections/store'
+import { organizationStore } from '../../../lib/organizations/store'
+import { apiKeyStore } from '../../../lib/api-keys/store'
+import { Membership } from '../../../lib/organizations/types'
+
+const { mockAuth } = vi.hoisted(() => ({
+  mockAuth: vi.fn()
+}))
+
+vi.mock('../../../lib/auth', () => ({
+  auth: mockAuth
+}))
+
+vi.mock('../../../lib/organizations/store', () => ({
+  organizationStore: {
+    getMembership: vi.fn()
+  }
+}))
+
+vi.mock('../../../lib/api-keys/store', () => ({
+  apiKeyStore: {
+    verify: vi.fn(),
+    recordUsage: vi.fn()
+  }
+}))
+
+vi.mock('../../../lib/collections/store', () => ({
+  collectionStore: {
+    get: vi.fn()
+  }
+}))
 
 // Mock the job queue
 vi.mock('../../../lib/jobs/queue', () => ({
@@ -10,9 +41,13 @@ vi.mock('../../../lib/jobs/queue', () => ({
   }
 }))
 
+// Requests without an organization header act in the caller's personal workspace
+const personalScope = { userId: 'user-1', role: 'OWNER' }
+
 describe('/api/ingest-url', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    mockAuth.mockResolvedValue({ user: { id: 'user-1' } })
   })
 
   afterEach(() => {
@@ -55,10 +90,173 @@ describe('/api/ingest-url', () => {
           maxDepth: 2,
           followLinks: true,
           respectRobots: true
+        },
+        personalScope
+      )
+    })
+
+    it('should require a signed-in user', async () => {
+      mockAuth.mockResolvedValue(null)
+
+      const request = new NextRequest('http://localhost:3000/api/ingest-url', {
+        method: 'POST',
+        body: JSON.stringify({
+          url: 'https://api.example.com/docs'
+        }),
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      })
+
+      const response = await POST(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(401)
+      expect(data.code).toBe('UNAUTHORIZED')
+      expect(jobQueue.enqueue).not.toHaveBeenCalled()
+    })
+
+    it('should ingest into a collection owned by the caller', async () => {
+      vi.mocked(collectionStore.get).mockResolvedValue({
+        id: 'collection-1',
+        name: 'Internal API docs',
+        userId: 'user-1',
+        createdAt: new Date(),
+        updatedAt: new Date()
+      })
+      vi.mocked(jobQueue.enqueue).mockResolvedValue('job-123')
+
+      const request = new NextRequest('http://localhost:3000/api/ingest-url', {
+        method: 'POST',
+        body: JSON.stringify({
+          url: 'https://api.example.com/docs',
+          options: { collectionId: 'collection-1' }
+        }),
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      })
+
+      const response = await POST(request)
+
+      expect(response.status).toBe(202)
+      expect(collectionStore.get).toHaveBeenCalledWith('collection-1', personalScope)
+      expect(jobQueue.enqueue).toHaveBeenCalledWith(
+        'https://api.example.com/docs',
+        { collectionId: 'collection-1' },
+        personalScope
+      )
+    })
+
+    describe('in an organization', () => {
+      const membership = (role: Membership['role']): Membership => ({
+        id: 'membership-1',
+        organizationId: 'org-1',
+        userId: 'user-1',
+        role,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      })
+
+      const orgRequest = () => new NextRequest('http://localhost:3000/api/ingest-url', {
+        method: 'POST',
+        body: JSON.stringify({ url: 'https://api.example.com/docs' }),
+        headers: {
+          'Content-Type': 'application/json',
+          'x-organization-id': 'org-1',
+          // Keep these requests out of the rate limit budget the other tests share
+          'x-forwarded-for': '10.0.0.1'
+        }
+      })
+
+      it('should enqueue the job under the organization for editors', async () => {
+        vi.mocked(organizationStore.getMembership).mockResolvedValue(membership('EDITOR'))
+        vi.mocked(jobQueue.enqueue).mockResolvedValue('job-123')
+
+        const response = await POST(orgRequest())
+
+        expect(response.status).toBe(202)
+        expect(jobQueue.enqueue).toHaveBeenCalledWith(
+          'https://api.example.com/docs',
+          {},
+          { userId: 'user-1', organizationId: 'org-1', role: 'EDITOR' }
+        )
+      })
+
+      it('should forbid viewers from ingesting', async () => {
+        vi.mocked(organizationStore.getMembership).mockResolvedValue(membership('VIEWER'))
+
+        const response = await POST(orgRequest())
+        const data = await response.json()
+
+        expect(response.status).toBe(403)
+        expect(data.code).toBe('FORBIDDEN')
+        expect(jobQueue.enqueue).not.toHaveBeenCalled()
+      })
+    })
+
+    it('should accept an API key with the ingest scope for an organization', async () => {
+      mockAuth.mockResolvedValue(null)
+      vi.mocked(apiKeyStore.verify).mockResolvedValue({
+        id: 'key-1',
+        name: 'CI',
+        prefix: 'kio_abcdefgh',
+        scopes: ['INGEST'],
+        userId: 'user-1',
+        organizationId: 'org-1',
+        createdAt: new Date()
+      })
+      vi.mocked(apiKeyStore.recordUsage).mockResolvedValue()
+      vi.mocked(organizationStore.getMembership).mockResolvedValue({
+        id: 'membership-1',
+        organizationId: 'org-1',
+        userId: 'user-1',
+        role: 'EDITOR',
+        createdAt: new Date(),
+        updatedAt: new Date()
+      })
+      vi.mocked(jobQueue.enqueue).mockResolvedValue('job-123')
+
+      const response = await POST(new NextRequest('http://localhost:3000/api/ingest-url', {
+        method: 'POST',
+        body: JSON.stringify({ url: 'https://api.example.com/docs' }),
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': 'Bearer kio_secret',
+          'x-forwarded-for': '10.0.0.1'
         }
+      }))
+
+      expect(response.status).toBe(202)
+      expect(jobQueue.enqueue).toHaveBeenCalledWith(
+        'https://api.example.com/docs',
+        {},
+        { userId: 'user-1', organizationId: 'org-1', role: 'EDITOR', apiKeyId: 'key-1' }
       )
     })
 
+    it('should return 404 for a collection the caller does not own', async () => {
+      vi.mocked(collectionStore.get).mockResolvedValue(null)
+
+      const request = new NextRequest('http://localhost:3000/api/ingest-url', {
+        method: 'POST',
+        body: JSON.stringify({
+          url: 'https://api.example.com/docs',
+          options: { collectionId: 'collection-2' }
+        }),
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      })
+
+      const response = await POST(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(404)
+      expect(data.code).toBe('COLLECTION_NOT_FOUND')
+      expect(jobQueue.enqueue).not.toHaveBeenCalled()
+    })
+
     it('should handle invalid URL', async () => {
       const request = new NextRequest('http://localhost:3000/api/ingest-url', {
         method: 'POST',
@@ -142,7 +340,8 @@ describe('/api/ingest-url', () => {
 
       expect(jobQueue.enqueue).toHaveBeenCalledWith(
         'https://api.example.com/docs',
-        {}
+        {},
+        personalScope
       )
     })
 
@@ -206,7 +405,8 @@ describe('/api/ingest-url', () => {
 
       expect(jobQueue.enqueue).toHaveBeenCalledWith(
         'https://api.example.com/docs',
-        {}
+        {},
+        personalScope
       )
     })
 
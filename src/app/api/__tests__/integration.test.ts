@@ -5,6 +5,33 @@ import { GET as statusGet } from '../ingest-status/[jobId]/route'
 import { jobQueue } from '../../../lib/jobs/queue'
 import { IngestionJob } from '../../../lib/types'
 
+const { mockAuth } = vi.hoisted(() => ({
+  mockAuth: vi.fn()
+}))
+
+vi.mock('../../../lib/auth', () => ({
+  auth: mockAuth
+}))
+
+vi.mock('../../../lib/organizations/store', () => ({
+  organizationStore: {
+    getMembership: vi.fn()
+  }
+}))
+
+vi.mock('../../../lib/api-keys/store', () => ({
+  apiKeyStore: {
+    verify: vi.fn(),
+    recordUsage: vi.fn()
+  }
+}))
+
+vi.mock('../../../lib/collections/store', () => ({
+  collectionStore: {
+    get: vi.fn()
+  }
+}))
+
 // Mock the job queue
 vi.mock('../../../lib/jobs/queue', () => ({
   jobQueue: {
@@ -13,9 +40,13 @@ vi.mock('../../../lib/jobs/queue', () => ({
   }
 }))
 
+// Requests without an organization header act in the caller's personal workspace
+const personalScope = { userId: 'user-1', role: 'OWNER' }
+
 describe('API Integration Tests', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    mockAuth.mockResolvedValue({ user: { id: 'user-1' } })
   })
 
   afterEach(() => {
@@ -56,13 +87,14 @@ describe('API Integration Tests', () => {
         maxDepth: 3,
         followLinks: true,
         respectRobots: true
-      })
+      }, personalScope)
 
       // Step 2: Check initial status (queued)
       const queuedJob: IngestionJob = {
         id: mockJobId,
         url: testUrl,
         status: 'QUEUED',
+        userId: 'user-1',
         options: { maxDepth: 3, followLinks: true, respectRobots: true },
         progress: {
           pagesProcessed: 0,
@@ -135,7 +167,7 @@ describe('API Integration Tests', () => {
       expect(statusData3.progress.chunksEmbedded).toBe(20)
       expect(statusData3.progress.completionRate).toBe(100)
       expect(statusData3.timestamps.processingDuration).toBe(240000) // 4 minutes
-      expect(statusResponse3.headers.get('Cache-Control')).toBe('public, max-age=3600')
+      expect(statusResponse3.headers.get('Cache-Control')).toBe('private, max-age=3600')
     })
 
     it('should handle failed ingestion workflow', async () => {
@@ -167,6 +199,7 @@ describe('API Integration Tests', () => {
         id: mockJobId,
         url: testUrl,
         status: 'FAILED',
+        userId: 'user-1',
         options: {},
         progress: {
           pagesProcessed: 0,
@@ -191,7 +224,7 @@ describe('API Integration Tests', () => {
       expect(statusData.errorMessage).toBe('Failed to scrape content: Network timeout')
       expect(statusData.progress.errors).toEqual(['Network timeout', 'Site unreachable'])
       expect(statusData.timestamps.processingDuration).toBe(30000) // 30 seconds
-      expect(statusResponse.headers.get('Cache-Control')).toBe('public, max-age=3600')
+      expect(statusResponse.headers.get('Cache-Control')).toBe('private, max-age=3600')
     })
 
     it('should handle rate limiting across multiple requests', async () => {
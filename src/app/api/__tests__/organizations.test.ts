@@ -0,0 +1,318 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as listOrganizations, POST as createOrganization } from '../organizations/route'
+import { GET as listMembers } from '../organizations/[organizationId]/members/route'
+import {
+  PATCH as updateMember,
+  DELETE as removeMember
+} from '../organizations/[organizationId]/members/[userId]/route'
+import { POST as createInvitation } from '../organizations/[organizationId]/invitations/route'
+import { POST as acceptInvitation } from '../invitations/accept/route'
+import { organizationStore } from '../../../lib/organizations/store'
+import { sendInvitationEmail } from '../../../lib/auth/email'
+import { Invitation, Membership, OrganizationRole } from '../../../lib/organizations/types'
+
+const { mockAuth } = vi.hoisted(() => ({
+  mockAuth: vi.fn()
+}))
+
+vi.mock('../../../lib/auth', () => ({
+  auth: mockAuth
+}))
+
+vi.mock('../../../lib/auth/email', () => ({
+  sendInvitationEmail: vi.fn()
+}))
+
+vi.mock('../../../lib/api-keys/store', () => ({
+  apiKeyStore: {
+    verify: vi.fn(),
+    recordUsage: vi.fn()
+  }
+}))
+
+// Mock the organization store
+vi.mock('../../../lib/organizations/store', () => ({
+  organizationStore: {
+    create: vi.fn(),
+    get: vi.fn(),
+    listForUser: vi.fn(),
+    getMembership: vi.fn(),
+    listMembers: vi.fn(),
+    countOwners: vi.fn(),
+    updateRole: vi.fn(),
+    removeMember: vi.fn(),
+    createInvitation: vi.fn(),
+    findInvitationByToken: vi.fn(),
+    acceptInvitation: vi.fn()
+  }
+}))
+
+const membership = (userId: string, role: OrganizationRole): Membership => ({
+  id: `membership-${userId}`,
+  organizationId: 'org-1',
+  userId,
+  role,
+  createdAt: new Date('2024-05-01T00:00:00Z'),
+  updatedAt: new Date('2024-05-01T00:00:00Z')
+})
+
+// Resolve memberships by user id so the caller and the target can hold different roles
+const givenMembers = (members: Membership[]) => {
+  vi.mocked(organizationStore.getMembership).mockImplementation(async (_organizationId, userId) =>
+    members.find(member => member.userId === userId) ?? null
+  )
+}
+
+const jsonRequest = (url: string, method: string, body: unknown) => new NextRequest(url, {
+  method,
+  body: JSON.stringify(body),
+  headers: { 'Content-Type': 'application/json' }
+})
+
+describe('/api/organizations', () => {
+  const organization = {
+    id: 'org-1',
+    name: 'Docs Team',
+    createdAt: new Date('2024-05-01T00:00:00Z'),
+    updatedAt: new Date('2024-05-01T00:00:00Z')
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockAuth.mockResolvedValue({ user: { id: 'user-1', email: 'owner@example.com' } })
+  })
+
+  afterEach(() => {
+    vi.resetAllMocks()
+  })
+
+  describe('organizations', () => {
+    it('should create an organization owned by the caller', async () => {
+      vi.mocked(organizationStore.create).mockResolvedValue({ ...organization, role: 'OWNER' })
+
+      const response = await createOrganization(
+        jsonRequest('http://localhost:3000/api/organizations', 'POST', { name: ' Docs Team ' })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(organizationStore.create).toHaveBeenCalledWith('Docs Team', 'user-1')
+      expect(data).toMatchObject({ id: 'org-1', name: 'Docs Team', role: 'owner' })
+    })
+
+    it('should list the organizations the caller belongs to', async () => {
+      vi.mocked(organizationStore.listForUser).mockResolvedValue([{ ...organization, role: 'VIEWER' }])
+
+      const response = await listOrganizations()
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(organizationStore.listForUser).toHaveBeenCalledWith('user-1')
+      expect(data.organizations).toEqual([expect.objectContaining({ id: 'org-1', role: 'viewer' })])
+    })
+
+    it('should require a signed-in user', async () => {
+      mockAuth.mockResolvedValue(null)
+
+      const response = await listOrganizations()
+
+      expect(response.status).toBe(401)
+    })
+  })
+
+  describe('members', () => {
+    const membersUrl = 'http://localhost:3000/api/organizations/org-1/members'
+
+    it('should list members for any member', async () => {
+      givenMembers([membership('user-1', 'VIEWER')])
+      vi.mocked(organizationStore.listMembers).mockResolvedValue([
+        { ...membership('user-1', 'VIEWER'), email: 'owner@example.com' }
+      ])
+
+      const response = await listMembers(new NextRequest(membersUrl), { params: { organizationId: 'org-1' } })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.members).toEqual([expect.objectContaining({ userId: 'user-1', role: 'viewer' })])
+    })
+
+    it('should hide organizations from non-members', async () => {
+      givenMembers([])
+
+      const response = await listMembers(new NextRequest(membersUrl), { params: { organizationId: 'org-1' } })
+      const data = await response.json()
+
+      expect(response.status).toBe(404)
+      expect(data.code).toBe('ORGANIZATION_NOT_FOUND')
+    })
+
+    it('should let admins change editors and viewers', async () => {
+      givenMembers([membership('user-1', 'ADMIN'), membership('user-2', 'VIEWER')])
+      vi.mocked(organizationStore.updateRole).mockResolvedValue(membership('user-2', 'EDITOR'))
+
+      const response = await updateMember(
+        jsonRequest(`${membersUrl}/user-2`, 'PATCH', { role: 'editor' }),
+        { params: { organizationId: 'org-1', userId: 'user-2' } }
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(organizationStore.updateRole).toHaveBeenCalledWith('org-1', 'user-2', 'EDITOR')
+      expect(data.role).toBe('editor')
+    })
+
+    it('should forbid editors from managing members', async () => {
+      givenMembers([membership('user-1', 'EDITOR'), membership('user-2', 'VIEWER')])
+
+      const response = await updateMember(
+        jsonRequest(`${membersUrl}/user-2`, 'PATCH', { role: 'editor' }),
+        { params: { organizationId: 'org-1', userId: 'user-2' } }
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(403)
+      expect(data.code).toBe('FORBIDDEN')
+      expect(organizationStore.updateRole).not.toHaveBeenCalled()
+    })
+
+    it('should only let owners grant the owner role', async () => {
+      givenMembers([membership('user-1', 'ADMIN'), membership('user-2', 'EDITOR')])
+
+      const response = await updateMember(
+        jsonRequest(`${membersUrl}/user-2`, 'PATCH', { role: 'owner' }),
+        { params: { organizationId: 'org-1', userId: 'user-2' } }
+      )
+
+      expect(response.status).toBe(403)
+      expect(organizationStore.updateRole).not.toHaveBeenCalled()
+    })
+
+    it('should not demote the last owner', async () => {
+      givenMembers([membership('user-1', 'OWNER')])
+      vi.mocked(organizationStore.countOwners).mockResolvedValue(1)
+
+      const response = await updateMember(
+        jsonRequest(`${membersUrl}/user-1`, 'PATCH', { role: 'admin' }),
+        { params: { organizationId: 'org-1', userId: 'user-1' } }
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(409)
+      expect(data.code).toBe('LAST_OWNER')
+    })
+
+    it('should let a viewer leave the organization', async () => {
+      givenMembers([membership('user-1', 'VIEWER')])
+      vi.mocked(organizationStore.removeMember).mockResolvedValue(true)
+
+      const response = await removeMember(
+        new NextRequest(`${membersUrl}/user-1`, { method: 'DELETE' }),
+        { params: { organizationId: 'org-1', userId: 'user-1' } }
+      )
+
+      expect(response.status).toBe(200)
+      expect(organizationStore.removeMember).toHaveBeenCalledWith('org-1', 'user-1')
+    })
+
+    it('should forbid viewers from removing others', async () => {
+      givenMembers([membership('user-1', 'VIEWER'), membership('user-2', 'EDITOR')])
+
+      const response = await removeMember(
+        new NextRequest(`${membersUrl}/user-2`, { method: 'DELETE' }),
+        { params: { organizationId: 'org-1', userId: 'user-2' } }
+      )
+
+      expect(response.status).toBe(403)
+      expect(organizationStore.removeMember).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('invitations', () => {
+    const invitationsUrl = 'http://localhost:3000/api/organizations/org-1/invitations'
+    const invitation: Invitation = {
+      id: 'invitation-1',
+      organizationId: 'org-1',
+      email: 'new@example.com',
+      role: 'EDITOR',
+      invitedById: 'user-1',
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      createdAt: new Date('2024-05-01T00:00:00Z')
+    }
+
+    it('should create an invitation and email the token', async () => {
+      givenMembers([membership('user-1', 'ADMIN')])
+      vi.mocked(organizationStore.get).mockResolvedValue(organization)
+      vi.mocked(organizationStore.createInvitation).mockResolvedValue({ invitation, token: 'plain-token' })
+
+      const response = await createInvitation(
+        jsonRequest(invitationsUrl, 'POST', { email: 'New@Example.com', role: 'editor' }),
+        { params: { organizationId: 'org-1' } }
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(organizationStore.createInvitation).toHaveBeenCalledWith('org-1', {
+        email: 'new@example.com',
+        role: 'EDITOR',
+        invitedById: 'user-1'
+      })
+      expect(sendInvitationEmail).toHaveBeenCalledWith('new@example.com', 'Docs Team', 'EDITOR', 'plain-token')
+      expect(data).not.toHaveProperty('token')
+    })
+
+    it('should only let owners invite owners', async () => {
+      givenMembers([membership('user-1', 'ADMIN')])
+
+      const response = await createInvitation(
+        jsonRequest(invitationsUrl, 'POST', { email: 'new@example.com', role: 'owner' }),
+        { params: { organizationId: 'org-1' } }
+      )
+
+      expect(response.status).toBe(403)
+      expect(organizationStore.createInvitation).not.toHaveBeenCalled()
+    })
+
+    it('should accept an invitation sent to the caller', async () => {
+      mockAuth.mockResolvedValue({ user: { id: 'user-2', email: 'NEW@example.com' } })
+      vi.mocked(organizationStore.findInvitationByToken).mockResolvedValue(invitation)
+      vi.mocked(organizationStore.acceptInvitation).mockResolvedValue(membership('user-2', 'EDITOR'))
+
+      const response = await acceptInvitation(
+        jsonRequest('http://localhost:3000/api/invitations/accept', 'POST', { token: 'plain-token' })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(organizationStore.acceptInvitation).toHaveBeenCalledWith(invitation, 'user-2')
+      expect(data).toMatchObject({ organizationId: 'org-1', userId: 'user-2', role: 'editor' })
+    })
+
+    it('should reject invitations addressed to someone else', async () => {
+      vi.mocked(organizationStore.findInvitationByToken).mockResolvedValue(invitation)
+
+      const response = await acceptInvitation(
+        jsonRequest('http://localhost:3000/api/invitations/accept', 'POST', { token: 'plain-token' })
+      )
+
+      expect(response.status).toBe(403)
+      expect(organizationStore.acceptInvitation).not.toHaveBeenCalled()
+    })
+
+    it('should reject expired invitations', async () => {
+      mockAuth.mockResolvedValue({ user: { id: 'user-2', email: 'new@example.com' } })
+      vi.mocked(organizationStore.findInvitationByToken).mockResolvedValue({
+        ...invitation,
+        expiresAt: new Date(Date.now() - 1000)
+      })
+
+      const response = await acceptInvitation(
+        jsonRequest('http://localhost:3000/api/invitations/accept', 'POST', { token: 'plain-token' })
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(410)
+      expect(data.code).toBe('INVITATION_EXPIRED')
+    })
+  })
+})
@@ -0,0 +1,367 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { VectorSearchResult } from '../../../lib/vector/types'
+
+const { mockEmbedQuery, mockAuth } = vi.hoisted(() => {
+  // Use the deterministic local reranker instead of Bedrock
+  process.env.RERANK_PROVIDER = 'local'
+  return { mockEmbedQuery: vi.fn(), mockAuth: vi.fn() }
+})
+
+vi.mock('../../../lib/auth', () => ({
+  auth: mockAuth
+}))
+
+vi.mock('../../../lib/organizations/store', () => ({
+  organizationStore: {
+    getMembership: vi.fn()
+  }
+}))
+
+vi.mock('../../../lib/api-keys/store', () => ({
+  apiKeyStore: {
+    verify: vi.fn(),
+    recordUsage: vi.fn()
+  }
+}))
+
+// Mock the embedding service and vector store
+vi.mock('../../../lib/embed/service', () => ({
+  EmbeddingService: vi.fn().mockImplementation(() => ({
+    embedQuery: mockEmbedQuery
+  }))
+}))
+
+vi.mock('../../../lib/config/environment', () => ({
+  embeddingConfig: { provider: 'local' }
+}))
+
+vi.mock('../../../lib/vector/store', () => ({
+  vectorStore: {
+    search: vi.fn()
+  }
+}))
+
+import { POST } from '../search/route'
+import { vectorStore } from '../../../lib/vector/store'
+import { organizationStore } from '../../../lib/organizations/store'
+import { apiKeyStore } from '../../../lib/api-keys/store'
+import { ApiKey } from '../../../lib/api-keys/types'
+
+const createRequest = (body: unknown, headers: Record<string, string> = {}) =>
+  new NextRequest('http://localhost:3000/api/search', {
+    method: 'POST',
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers
+    }
+  })
+
+describe('/api/search', () => {
+  const queryEmbedding = new Array(1536).fill(0.1)
+
+  const mockResults: VectorSearchResult[] = [
+    {
+      id: 'chunk-1',
+      content: 'Use the refresh token to obtain a new access token.',
+      metadata: { chunkIndex: 3 },
+      similarity: 0.91,
+      sourceUrl: 'https://docs.example.com/auth',
+      title: 'Authentication',
+      section: 'Refresh tokens',
+      chunkIndex: 3
+    },
+    {
+      id: 'chunk-2',
+      content: 'Access tokens expire after one hour.',
+      metadata: { chunkIndex: 1 },
+      similarity: 0.84,
+      sourceUrl: 'https://docs.example.com/auth',
+      title: 'Authentication',
+      chunkIndex: 1
+    }
+  ]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockAuth.mockResolvedValue({ user: { id: 'user-1' } })
+  })
+
+  afterEach(() => {
+    vi.resetAllMocks()
+  })
+
+  describe('POST', () => {
+    it('should embed the query and return ranked results', async () => {
+      mockEmbedQuery.mockResolvedValue(queryEmbedding)
+      vi.mocked(vectorStore.search).mockResolvedValue(mockResults)
+
+      const response = await POST(createRequest({
+        query: 'How do I refresh a token?',
+        limit: 5,
+        threshold: 0.5,
+        userId: 'user-1'
+      }))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(mockEmbedQuery).toHaveBeenCalledWith('How do I refresh a token?')
+      expect(vectorStore.search).toHaveBeenCalledWith(queryEmbedding, {
+        limit: 5,
+        threshold: 0.5,
+        query: 'How do I refresh a token?',
+        userId: 'user-1'
+      })
+      expect(data.total).toBe(2)
+      expect(data.results[0]).toEqual({
+        id: 'chunk-1',
+        content: 'Use the refresh token to obtain a new access token.',
+        similarity: 0.91,
+        sourceUrl: 'https://docs.example.com/auth',
+        title: 'Authentication',
+        section: 'Refresh tokens',
+        chunkIndex: 3,
+        metadata: { chunkIndex: 3 }
+      })
+    })
+
+    it('should use store defaults when limit and threshold are omitted', async () => {
+      mockEmbedQuery.mockResolvedValue(queryEmbedding)
+      vi.mocked(vectorStore.search).mockResolvedValue([])
+
+      const response = await POST(createRequest({ query: 'pagination' }))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.results).toEqual([])
+      expect(vectorStore.search).toHaveBeenCalledWith(queryEmbedding, {
+        limit: undefined,
+        threshold: undefined,
+        query: 'pagination',
+        userId: 'user-1'
+      })
+    })
+
+    it('should restrict results to a collection', async () => {
+      mockEmbedQuery.mockResolvedValue(queryEmbedding)
+      vi.mocked(vectorStore.search).mockResolvedValue([])
+
+      const response = await POST(createRequest({ query: 'pagination', collectionId: 'collection-1' }))
+
+      expect(response.status).toBe(200)
+      expect(vectorStore.search).toHaveBeenCalledWith(queryEmbedding, expect.objectContaining({
+        userId: 'user-1',
+        collectionId: 'collection-1'
+      }))
+    })
+
+    it('should pass the search mode and report fused scores', async () => {
+      mockEmbedQuery.mockResolvedValue(queryEmbedding)
+      vi.mocked(vectorStore.search).mockResolvedValue([{ ...mockResults[0], score: 0.032 }])
+
+      const response = await POST(createRequest({ query: 'ERR_TOKEN_EXPIRED', mode: 'hybrid' }))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(vectorStore.search).toHaveBeenCalledWith(queryEmbedding, expect.objectContaining({
+        mode: 'hybrid',
+        query: 'ERR_TOKEN_EXPIRED'
+      }))
+      expect(data.results[0].score).toBe(0.032)
+    })
+
+    it('should parse metadata filters', async () => {
+      mockEmbedQuery.mockResolvedValue(queryEmbedding)
+      vi.mocked(vectorStore.search).mockResolvedValue([])
+
+      const response = await POST(createRequest({
+        query: 'pagination',
+        filters: {
+          domain: ' Docs.Example.com ',
+          ingestedAfter: '2024-05-01',
+          metadata: { version: 2 }
+        }
+      }, { 'x-forwarded-for': '10.0.0.2' }))
+
+      expect(response.status).toBe(200)
+      expect(vectorStore.search).toHaveBeenCalledWith(queryEmbedding, expect.objectContaining({
+        filters: {
+          domain: 'docs.example.com',
+          ingestedAfter: new Date('2024-05-01T00:00:00Z'),
+          metadata: { version: 2 }
+        }
+      }))
+    })
+
+    it('should reject inverted date ranges', async () => {
+      const response = await POST(createRequest({
+        query: 'pagination',
+        filters: { ingestedAfter: '2024-06-01', ingestedBefore: '2024-05-01' }
+      }, { 'x-forwarded-for': '10.0.0.2' }))
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.details[0].field).toBe('filters.ingestedAfter')
+      expect(vectorStore.search).not.toHaveBeenCalled()
+    })
+
+    it('should over-fetch and rerank candidates when asked', async () => {
+      mockEmbedQuery.mockResolvedValue(queryEmbedding)
+      vi.mocked(vectorStore.search).mockResolvedValue(mockResults)
+
+      const response = await POST(createRequest(
+        { query: 'access tokens expire', limit: 1, rerank: true },
+        { 'x-forwarded-for': '10.0.0.2' }
+      ))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(vectorStore.search).toHaveBeenCalledWith(queryEmbedding, expect.objectContaining({ limit: 4 }))
+      expect(data.total).toBe(1)
+      expect(data.results[0]).toMatchObject({ id: 'chunk-2', similarity: 0.84 })
+      expect(data.results[0].rerankScore).toBeGreaterThan(0)
+    })
+
+    it('should reject unknown search modes', async () => {
+      const response = await POST(createRequest({ query: 'pagination', mode: 'fuzzy' }))
+
+      expect(response.status).toBe(400)
+      expect(vectorStore.search).not.toHaveBeenCalled()
+    })
+
+    it('should let organization viewers search the shared corpus', async () => {
+      vi.mocked(organizationStore.getMembership).mockResolvedValue({
+        id: 'membership-1',
+        organizationId: 'org-1',
+        userId: 'user-1',
+        role: 'VIEWER',
+        createdAt: new Date(),
+        updatedAt: new Date()
+      })
+      mockEmbedQuery.mockResolvedValue(queryEmbedding)
+      vi.mocked(vectorStore.search).mockResolvedValue([])
+
+      const response = await POST(createRequest({ query: 'pagination' }, { 'x-organization-id': 'org-1' }))
+
+      expect(response.status).toBe(200)
+      expect(organizationStore.getMembership).toHaveBeenCalledWith('org-1', 'user-1')
+      expect(vectorStore.search).toHaveBeenCalledWith(queryEmbedding, expect.objectContaining({
+        organizationId: 'org-1'
+      }))
+    })
+
+    it('should return 404 for an organization the caller does not belong to', async () => {
+      vi.mocked(organizationStore.getMembership).mockResolvedValue(null)
+
+      const response = await POST(createRequest({ query: 'pagination' }, { 'x-organization-id': 'org-2' }))
+      const data = await response.json()
+
+      expect(response.status).toBe(404)
+      expect(data.code).toBe('ORGANIZATION_NOT_FOUND')
+      expect(vectorStore.search).not.toHaveBeenCalled()
+    })
+
+    describe('with an API key', () => {
+      const apiKey: ApiKey = {
+        id: 'key-1',
+        name: 'CI',
+        prefix: 'kio_abcdefgh',
+        scopes: ['SEARCH'],
+        userId: 'user-1',
+        createdAt: new Date()
+      }
+      const withKey = { authorization: 'Bearer kio_secret', 'x-forwarded-for': '10.0.0.1' }
+
+      it('should search the key\'s workspace without a session', async () => {
+        mockAuth.mockResolvedValue(null)
+        vi.mocked(apiKeyStore.verify).mockResolvedValue(apiKey)
+        vi.mocked(apiKeyStore.recordUsage).mockResolvedValue()
+        mockEmbedQuery.mockResolvedValue(queryEmbedding)
+        vi.mocked(vectorStore.search).mockResolvedValue([])
+
+        const response = await POST(createRequest({ query: 'pagination' }, withKey))
+
+        expect(response.status).toBe(200)
+        expect(apiKeyStore.verify).toHaveBeenCalledWith('kio_secret')
+        expect(apiKeyStore.recordUsage).toHaveBeenCalledWith('key-1')
+        expect(vectorStore.search).toHaveBeenCalledWith(queryEmbedding, expect.objectContaining({
+          userId: 'user-1'
+        }))
+      })
+
+      it('should reject keys without the search scope', async () => {
+        vi.mocked(apiKeyStore.verify).mockResolvedValue({ ...apiKey, scopes: ['INGEST'] })
+
+        const response = await POST(createRequest({ query: 'pagination' }, withKey))
+        const data = await response.json()
+
+        expect(response.status).toBe(403)
+        expect(data.code).toBe('FORBIDDEN')
+        expect(vectorStore.search).not.toHaveBeenCalled()
+      })
+
+      it('should reject unknown, revoked or expired keys', async () => {
+        vi.mocked(apiKeyStore.verify).mockResolvedValue(null)
+
+        const response = await POST(createRequest({ query: 'pagination' }, withKey))
+        const data = await response.json()
+
+        expect(response.status).toBe(401)
+        expect(data.code).toBe('INVALID_API_KEY')
+      })
+
+      it('should stop honouring organization keys once the creator leaves', async () => {
+        vi.mocked(apiKeyStore.verify).mockResolvedValue({ ...apiKey, organizationId: 'org-1' })
+        vi.mocked(organizationStore.getMembership).mockResolvedValue(null)
+
+        const response = await POST(createRequest({ query: 'pagination' }, withKey))
+
+        expect(response.status).toBe(401)
+        expect(vectorStore.search).not.toHaveBeenCalled()
+      })
+    })
+
+    it('should reject an empty query', async () => {
+      const response = await POST(createRequest({ query: '   ' }))
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error).toBe('Invalid request data')
+      expect(data.details[0].field).toBe('query')
+      expect(mockEmbedQuery).not.toHaveBeenCalled()
+    })
+
+    it('should reject out-of-range limits', async () => {
+      const response = await POST(createRequest({ query: 'pagination', limit: 500 }))
+
+      expect(response.status).toBe(400)
+      expect(vectorStore.search).not.toHaveBeenCalled()
+    })
+
+    it('should handle invalid JSON body', async () => {
+      const response = await POST(createRequest('not json'))
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error).toBe('Invalid JSON')
+    })
+
+    it('should enforce rate limiting', async () => {
+      mockEmbedQuery.mockResolvedValue(queryEmbedding)
+      vi.mocked(vectorStore.search).mockResolvedValue([])
+
+      const responses = await Promise.all(
+        Array.from({ length: 11 }, () =>
+          POST(createRequest({ query: 'rate limit' }, { 'x-forwarded-for': '10.0.0.42' }))
+        )
+      )
+
+      expect(responses.slice(0, 10).every(response => response.status === 200)).toBe(true)
+      expect(responses[10].status).toBe(429)
+
+      const data = await responses[10].json()
+      expect(data.error).toBe('Rate limit exceeded')
+    })
+  })
+})
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET as listSources, POST as createSource } from '../sources/route'
+import { GET as getSource, PATCH as updateSource, DELETE as deleteSource } from '../sources/[sourceId]/route'
+import { sourceStore } from '../../../lib/sources/store'
+import { Source } from '../../../lib/sources/types'
+
+const { mockAuth } = vi.hoisted(() => ({
+  mockAuth: vi.fn()
+}))
+
+vi.mock('../../../lib/auth', () => ({
+  auth: mockAuth
+}))
+
+vi.mock('../../../lib/organizations/store', () => ({
+  organizationStore: {
+    getMembership: vi.fn()
+  }
+}))
+
+vi.mock('../../../lib/api-keys/store', () => ({
+  apiKeyStore: {
+    verify: vi.fn(),
+    recordUsage: vi.fn()
+  }
+}))
+
+vi.mock('../../../lib/collections/store', () => ({
+  collectionStore: {
+    get: vi.fn()
+  }
+}))
+
+// Mock the source store
+vi.mock('../../../lib/sources/store', () => ({
+  sourceStore: {
+    list: vi.fn(),
+    create: vi.fn(),
+    get: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn()
+  }
+}))
+
+// Requests without an organization header act in the caller's personal workspace
+const personalScope = { userId: 'user-1', role: 'OWNER' }
+
+describe('/api/sources', () => {
+  const mockSource: Source = {
+    id: 'source-123',
+    url: 'https://docs.example.com',
+    options: { maxPages: 20 },
+    schedule: 'daily',
+    enabled: true,
+    nextCrawlAt: new Date('2024-06-02T12:00:00Z'),
+    lastCrawledAt: new Date('2024-06-01T12:00:00Z'),
+    lastJobId: 'job-1',
+    lastCrawlStatus: 'COMPLETED',
+    createdAt: new Date('2024-05-01T00:00:00Z'),
+    updatedAt: new Date('2024-06-01T12:00:00Z')
+  }
+
+  const jsonRequest = (url: string, method: string, body: unknown) => new NextRequest(url, {
+    method,
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' }
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockAuth.mockResolvedValue({ user: { id: 'user-1' } })
+  })
+
+  afterEach(() => {
+    vi.resetAllMocks()
+  })
+
+  describe('POST', () => {
+    it('should register a source', async () => {
+      vi.mocked(sourceStore.create).mockResolvedValue(mockSource)
+
+      const response = await createSource(jsonRequest('http://localhost:3000/api/sources', 'POST', {
+        url: 'https://docs.example.com',
+        options: { maxPages: 20 },
+        schedule: 'daily'
+      }))
+      const data = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(sourceStore.create).toHaveBeenCalledWith({
+        url: 'https://docs.example.com',
+        options: { maxPages: 20 },
+        schedule: 'daily'
+      }, personalScope)
+      expect(data).toEqual({
+        id: 'source-123',
+        url: 'https://docs.example.com',
+        options: { maxPages: 20 },
+        schedule: 'daily',
+        enabled: true,
+        lastCrawl: {
+          jobId: 'job-1',
+          status: 'completed',
+          crawledAt: '2024-06-01T12:00:00.000Z'
+        },
+        nextCrawlAt: '2024-06-02T12:00:00.000Z',
+        createdAt: '2024-05-01T00:00:00.000Z',
+        updatedAt: '2024-06-01T12:00:00.000Z'
+      })
+    })
+
+    it('should reject unknown schedules', async () => {
+      const response = await createSource(jsonRequest('http://localhost:3000/api/sources', 'POST', {
+        url: 'https://docs.example.com',
+        schedule: 'every-minute'
+      }))
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.code).toBe('VALIDATION_ERROR')
+      expect(data.details[0].field).toBe('schedule')
+      expect(sourceStore.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('GET', () => {
+    it('should list sources with pagination', async () => {
+      vi.mocked(sourceStore.list).mockResolvedValue({ sources: [mockSource], total: 1 })
+
+      const response = await listSources(new NextRequest('http://localhost:3000/api/sources?limit=10&offset=5'))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(sourceStore.list).toHaveBeenCalledWith({ owner: personalScope, limit: 10, offset: 5 })
+      expect(data.total).toBe(1)
+      expect(data.sources[0].id).toBe('source-123')
+    })
+  })
+
+  describe('/api/sources/[sourceId]', () => {
+    const params = { params: { sourceId: 'source-123' } }
+
+    it('should return 404 for unknown sources', async () => {
+      vi.mocked(sourceStore.get).mockResolvedValue(null)
+
+      const response = await getSource(new NextRequest('http://localhost:3000/api/sources/source-123'), params)
+      const data = await response.json()
+
+      expect(response.status).toBe(404)
+      expect(data.code).toBe('SOURCE_NOT_FOUND')
+    })
+
+    it('should update the schedule', async () => {
+      vi.mocked(sourceStore.update).mockResolvedValue({ ...mockSource, schedule: 'weekly' })
+
+      const response = await updateSource(
+        jsonRequest('http://localhost:3000/api/sources/source-123', 'PATCH', { schedule: 'weekly' }),
+        params
+      )
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(sourceStore.update).toHaveBeenCalledWith('source-123', { schedule: 'weekly' }, personalScope)
+      expect(data.schedule).toBe('weekly')
+    })
+
+    it('should reject empty updates', async () => {
+      const response = await updateSource(
+        jsonRequest('http://localhost:3000/api/sources/source-123', 'PATCH', {}),
+        params
+      )
+
+      expect(response.status).toBe(400)
+      expect(sourceStore.update).not.toHaveBeenCalled()
+    })
+
+    it('should delete a source', async () => {
+      vi.mocked(sourceStore.delete).mockResolvedValue(true)
+
+      const response = await deleteSource(
+        new NextRequest('http://localhost:3000/api/sources/source-123', { method: 'DELETE' }),
+        params
+      )
+
+      expect(response.status).toBe(200)
+      expect(await response.json()).toEqual({ id: 'source-123', deleted: true })
+    })
+  })
+})
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { apiKeyStore } from '../../../../lib/api-keys/store'
+import { apiKeyNotFound, formatApiKey } from '../../../../lib/api-keys/http'
+import { authorizeRequest } from '../../../../lib/organizations/access'
+import { apiErrorResponse } from '../../../../lib/api-response'
+import { ErrorContext } from '../../../../lib/errors'
+import { defaultErrorHandler } from '../../../../lib/error-handler'
+import { loggers } from '../../../../lib/logger'
+
+type RouteParams = { params: { keyId: string } }
+
+/**
+ * Revoke a key. It stops working immediately but stays listed with its last use.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const logger = loggers.api
+  const { keyId } = params
+  const context: ErrorContext = {
+    component: 'ApiKeysAPI',
+    operation: 'revokeApiKey',
+    timestamp: new Date(),
+    metadata: { keyId }
+  }
+
+  try {
+    const access = await authorizeRequest(request, 'ADMIN')
+    if (access instanceof NextResponse) {
+      return access
+    }
+
+    const apiKey = await defaultErrorHandler.executeWithRetry(
+      () => apiKeyStore.revoke(keyId, access),
+      context
+    )
+
+    if (!apiKey) {
+      return apiKeyNotFound(keyId)
+    }
+
+    logger.info('API key revoked', { apiKeyId: keyId }, context)
+
+    return NextResponse.json(formatApiKey(apiKey))
+  } catch (error) {
+    return apiErrorResponse(error, context, 'Failed to revoke API key')
+  }
+}
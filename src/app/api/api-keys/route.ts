@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { apiKeyStore } from '../../../lib/api-keys/store'
+import { createApiKeySchema } from '../../../lib/api-keys/schema'
+import { formatApiKey } from '../../../lib/api-keys/http'
+import { authorizeRequest } from '../../../lib/organizations/access'
+import { apiErrorResponse } from '../../../lib/api-response'
+import { ValidationError, ErrorContext } from '../../../lib/errors'
+import { defaultErrorHandler } from '../../../lib/error-handler'
+import { loggers } from '../../../lib/logger'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export async function GET(request: NextRequest) {
+  const logger = loggers.api
+  const context: ErrorContext = {
+    component: 'ApiKeysAPI',
+    operation: 'listApiKeys',
+    timestamp: new Date()
+  }
+
+  try {
+    // Keys are managed with a session only; a key cannot list or mint keys
+    const access = await authorizeRequest(request, 'ADMIN')
+    if (access instanceof NextResponse) {
+      return access
+    }
+
+    const apiKeys = await defaultErrorHandler.executeWithRetry(
+      () => apiKeyStore.list(access),
+      context
+    )
+
+    logger.debug('API keys listed', { count: apiKeys.length }, context)
+
+    return NextResponse.json({
+      apiKeys: apiKeys.map(formatApiKey)
+    })
+  } catch (error) {
+    return apiErrorResponse(error, context, 'Failed to list API keys')
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const logger = loggers.api
+  const context: ErrorContext = {
+    component: 'ApiKeysAPI',
+    operation: 'createApiKey',
+    timestamp: new Date()
+  }
+
+  try {
+    const access = await authorizeRequest(request, 'ADMIN')
+    if (access instanceof NextResponse) {
+      return access
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      const errorResponse = await defaultErrorHandler.handleError(
+        new ValidationError('Invalid JSON in request body', context, parseError as Error),
+        context
+      )
+
+      return NextResponse.json({
+        error: 'Invalid JSON',
+        message: errorResponse.userMessage,
+        code: errorResponse.errorCode
+      }, { status: 400 })
+    }
+
+    const { name, scopes, expiresInDays } = createApiKeySchema.parse(body)
+    const expiresAt = expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS) : undefined
+
+    const { apiKey, key } = await defaultErrorHandler.executeWithRetry(
+      () => apiKeyStore.create({ name, scopes, expiresAt }, access),
+      context
+    )
+
+    logger.info('API key created', {
+      apiKeyId: apiKey.id,
+      scopes,
+      organizationId: access.organizationId
+    }, context)
+
+    // The plain key is only ever returned here
+    return NextResponse.json({ ...formatApiKey(apiKey), key }, { status: 201 })
+  } catch (error) {
+    return apiErrorResponse(error, context, 'Failed to create API key')
+  }
+}
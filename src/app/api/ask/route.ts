@@ -0,0 +1,205 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { EmbeddingService } from '../../../lib/embed/service'
+import { createEmbeddingProvider } from '../../../lib/embed/providers'
+import { embeddingConfig } from '../../../lib/config/environment'
+import { vectorStore } from '../../../lib/vector/store'
+import { AnswerService } from '../../../lib/answer/service'
+import { createTextGenerator } from '../../../lib/answer/generators'
+import { RerankService } from '../../../lib/rerank/service'
+import { createReranker } from '../../../lib/rerank/rerankers'
+import { ValidationError, ErrorContext } from '../../../lib/errors'
+import { defaultErrorHandler } from '../../../lib/error-handler'
+import { loggers } from '../../../lib/logger'
+import { RateLimiter } from '../../../lib/rate-limit'
+import { authorizeRequest } from '../../../lib/organizations/access'
+import { searchFiltersSchema, searchModeSchema } from '../../../lib/vector/schema'
+
+// Request validation schema
+const AskRequestSchema = z.object({
+  question: z.string().trim().min(1, { message: 'Question must not be empty' }).max(2000),
+  topK: z.number().int().min(1).max(20).optional(),
+  threshold: z.number().min(0).max(1).optional(),
+  collectionId: z.string().min(1).optional(),
+  searchMode: searchModeSchema.optional(),
+  filters: searchFiltersSchema.optional(),
+  rerank: z.boolean().optional(),
+  diversity: z.number().min(0).max(1).optional(),
+  stream: z.boolean().optional()
+})
+
+// Rate limiting - same budget as /api/ingest-url
+const rateLimiter = new RateLimiter({ keyPrefix: 'rate_limit:ask' })
+
+const answerService = new AnswerService(
+  new EmbeddingService({ provider: createEmbeddingProvider(embeddingConfig) }),
+  vectorStore,
+  createTextGenerator(),
+  { rerankService: new RerankService(createReranker()) }
+)
+
+/**
+ * Encode a single server-sent event
+ */
+function encodeEvent(encoder: TextEncoder, event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+}
+
+export async function POST(request: NextRequest) {
+  const logger = loggers.api
+  const context: ErrorContext = {
+    component: 'AskAPI',
+    operation: 'answerQuestion',
+    timestamp: new Date()
+  }
+
+  try {
+    logger.info('Processing ask request', {}, context)
+
+    const access = await authorizeRequest(request, 'VIEWER')
+    if (access instanceof NextResponse) {
+      return access
+    }
+
+    // Check rate limiting
+    const rateLimitKey = rateLimiter.getKey(request)
+    const rateLimitResult = rateLimiter.check(rateLimitKey)
+
+    if (!rateLimitResult.allowed) {
+      const resetTime = rateLimitResult.resetTime!
+
+      logger.warn('Rate limit exceeded', {
+        rateLimitKey,
+        retryAfter: Math.ceil((resetTime - Date.now()) / 1000)
+      }, context)
+
+      return rateLimiter.createExceededResponse(resetTime)
+    }
+
+    // Parse and validate request body
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      const errorResponse = await defaultErrorHandler.handleError(
+        new ValidationError('Invalid JSON in request body', context, parseError as Error),
+        context
+      )
+
+      return NextResponse.json({
+        error: 'Invalid JSON',
+        message: errorResponse.userMessage,
+        code: errorResponse.errorCode
+      }, { status: 400 })
+    }
+
+    const {
+      question, topK, threshold, collectionId, searchMode, filters, rerank, diversity, stream
+    } = AskRequestSchema.parse(body)
+    const answerOptions = {
+      topK,
+      threshold,
+      searchMode,
+      rerank,
+      diversity,
+      userId: access.userId,
+      organizationId: access.organizationId,
+      collectionId,
+      filters
+    }
+    const wantsStream = stream ?? request.headers.get('accept')?.includes('text/event-stream') ?? false
+
+    if (!wantsStream) {
+      const result = await answerService.answer(question, answerOptions)
+
+      logger.info('Answer returned', {
+        modelId: result.modelId,
+        citationCount: result.citations.length
+      }, context)
+
+      return NextResponse.json({
+        question,
+        answer: result.answer,
+        citations: result.citations,
+        modelId: result.modelId
+      })
+    }
+
+    // Stream the answer as server-sent events: citations first, then text deltas, then done
+    const answerStream = await answerService.streamAnswer(question, answerOptions)
+    const encoder = new TextEncoder()
+
+    const eventStream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        controller.enqueue(encodeEvent(encoder, 'citations', {
+          citations: answerStream.citations,
+          modelId: answerStream.modelId
+        }))
+
+        try {
+          for await (const delta of answerStream.deltas) {
+            controller.enqueue(encodeEvent(encoder, 'delta', { text: delta }))
+          }
+          controller.enqueue(encodeEvent(encoder, 'done', {}))
+        } catch (streamError) {
+          const errorResponse = await defaultErrorHandler.handleError(streamError, context)
+          logger.error('Answer stream failed', {
+            error: errorResponse.logMessage,
+            errorCode: errorResponse.errorCode
+          }, context)
+          controller.enqueue(encodeEvent(encoder, 'error', {
+            message: errorResponse.userMessage,
+            code: errorResponse.errorCode
+          }))
+        } finally {
+          controller.close()
+        }
+      }
+    })
+
+    return new Response(eventStream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive'
+      }
+    })
+
+  } catch (error) {
+    const errorResponse = await defaultErrorHandler.handleError(error, context)
+
+    logger.error('Failed to process ask request', {
+      error: errorResponse.logMessage,
+      errorCode: errorResponse.errorCode
+    }, context)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        message: 'Request validation failed',
+        code: 'VALIDATION_ERROR',
+        details: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message
+        }))
+      }, { status: 400 })
+    }
+
+    const statusCode = errorResponse.severity === 'CRITICAL' ? 500 :
+                      errorResponse.severity === 'HIGH' ? 500 :
+                      errorResponse.canRetry ? 503 : 400
+
+    return NextResponse.json({
+      error: errorResponse.category.toLowerCase().replace('_', ' '),
+      message: errorResponse.userMessage,
+      code: errorResponse.errorCode,
+      retryable: errorResponse.canRetry,
+      ...(errorResponse.retryAfter && { retryAfter: Math.ceil(errorResponse.retryAfter / 1000) })
+    }, {
+      status: statusCode,
+      ...(errorResponse.retryAfter && {
+        headers: { 'Retry-After': Math.ceil(errorResponse.retryAfter / 1000).toString() }
+      })
+    })
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { collectionStore } from '../../../../lib/collections/store'
+import { collectionNotFound } from '../../../../lib/collections/http'
+import { apiErrorResponse } from '../../../../lib/api-response'
+import { ErrorContext } from '../../../../lib/errors'
+import { defaultErrorHandler } from '../../../../lib/error-handler'
+import { loggers } from '../../../../lib/logger'
+import { authorizeRequest } from '../../../../lib/organizations/access'
+
+type RouteParams = { params: { collectionId: string } }
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const logger = loggers.api
+  const { collectionId } = params
+  const context: ErrorContext = {
+    component: 'CollectionsAPI',
+    operation: 'deleteCollection',
+    timestamp: new Date(),
+    metadata: { collectionId }
+  }
+
+  try {
+    const access = await authorizeRequest(request, 'EDITOR')
+    if (access instanceof NextResponse) {
+      return access
+    }
+
+    // Chunks in the collection are removed by the database cascade
+    const deleted = await defaultErrorHandler.executeWithRetry(
+      () => collectionStore.delete(collectionId, access),
+      context
+    )
+
+    if (!deleted) {
+      return collectionNotFound(collectionId)
+    }
+
+    logger.info('Collection deleted', { collectionId }, context)
+
+    return NextResponse.json({ id: collectionId, deleted: true })
+  } catch (error) {
+    return apiErrorResponse(error, context, 'Failed to delete collection')
+  }
+}
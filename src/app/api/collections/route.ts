@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { collectionStore } from '../../../lib/collections/store'
+import { createCollectionSchema } from '../../../lib/collections/schema'
+import { formatCollection } from '../../../lib/collections/http'
+import { apiErrorResponse } from '../../../lib/api-response'
+import { ValidationError, ErrorContext } from '../../../lib/errors'
+import { defaultErrorHandler } from '../../../lib/error-handler'
+import { loggers } from '../../../lib/logger'
+import { authorizeRequest } from '../../../lib/organizations/access'
+
+export async function GET(request: NextRequest) {
+  const logger = loggers.api
+  const context: ErrorContext = {
+    component: 'CollectionsAPI',
+    operation: 'listCollections',
+    timestamp: new Date()
+  }
+
+  try {
+    const access = await authorizeRequest(request, 'VIEWER')
+    if (access instanceof NextResponse) {
+      return access
+    }
+
+    const { searchParams } = request.nextUrl
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 100)
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0', 10) || 0, 0)
+
+    const { collections, total } = await defaultErrorHandler.executeWithRetry(
+      () => collectionStore.list({ owner: access, limit, offset }),
+      context
+    )
+
+    logger.debug('Collections listed', { count: collections.length, total }, context)
+
+    return NextResponse.json({
+      collections: collections.map(formatCollection),
+      total,
+      limit,
+      offset
+    })
+  } catch (error) {
+    return apiErrorResponse(error, context, 'Failed to list collections')
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const logger = loggers.api
+  const context: ErrorContext = {
+    component: 'CollectionsAPI',
+    operation: 'createCollection',
+    timestamp: new Date()
+  }
+
+  try {
+    const access = await authorizeRequest(request, 'EDITOR')
+    if (access instanceof NextResponse) {
+      return access
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      const errorResponse = await defaultErrorHandler.handleError(
+        new ValidationError('Invalid JSON in request body', context, parseError as Error),
+        context
+      )
+
+      return NextResponse.json({
+        error: 'Invalid JSON',
+        message: errorResponse.userMessage,
+        code: errorResponse.errorCode
+      }, { status: 400 })
+    }
+
+    const input = createCollectionSchema.parse(body)
+
+    const existing = await defaultErrorHandler.executeWithRetry(
+      () => collectionStore.findByName(input.name, access),
+      context
+    )
+
+    if (existing) {
+      return NextResponse.json({
+        error: 'Collection already exists',
+        message: `A collection named "${input.name}" already exists`,
+        code: 'COLLECTION_EXISTS'
+      }, { status: 409 })
+    }
+
+    const collection = await defaultErrorHandler.executeWithRetry(
+      () => collectionStore.create(input, access),
+      context
+    )
+
+    logger.info('Collection created', { collectionId: collection.id, name: collection.name }, context)
+
+    return NextResponse.json(formatCollection(collection), { status: 201 })
+  } catch (error) {
+    return apiErrorResponse(error, context, 'Failed to create collection')
+  }
+}
@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { jobQueue } from '../../../lib/jobs/queue'
+import { ValidationError, ErrorContext } from '../../../lib/errors'
+import { defaultErrorHandler } from '../../../lib/error-handler'
+import { loggers } from '../../../lib/logger'
+import { apiErrorResponse } from '../../../lib/api-response'
+import { RateLimiter } from '../../../lib/rate-limit'
+import { authorizeRequest } from '../../../lib/organizations/access'
+import { collectionStore } from '../../../lib/collections/store'
+import { collectionNotFound } from '../../../lib/collections/http'
+import {
+  MAX_UPLOAD_BYTES,
+  MAX_UPLOAD_REQUEST_BYTES,
+  detectUploadFormat,
+  uploadSourceUri
+} from '../../../lib/ingest/uploads'
+
+// Rate limiting - shares the ingestion budget with URL ingestion
+const rateLimiter = new RateLimiter({ keyPrefix: 'rate_limit' })
+
+/**
+ * Ingest an uploaded Markdown, HTML, text, PDF or DOCX file.
+ * Expects multipart/form-data with a `file` field and an optional `collectionId`.
+ */
+export async function POST(request: NextRequest) {
+  const logger = loggers.api
+  const context: ErrorContext = {
+    component: 'IngestFileAPI',
+    operation: 'enqueueJob',
+    timestamp: new Date()
+  }
+
+  try {
+    logger.info('Processing file ingestion request', {}, context)
+
+    const access = await authorizeRequest(request, 'EDITOR', 'INGEST')
+    if (access instanceof NextResponse) {
+      return access
+    }
+
+    // Check rate limiting
+    const rateLimitKey = rateLimiter.getKey(request)
+    const rateLimitResult = rateLimiter.check(rateLimitKey)
+
+    if (!rateLimitResult.allowed) {
+      const resetTime = rateLimitResult.resetTime!
+
+      logger.warn('Rate limit exceeded', {
+        rateLimitKey,
+        retryAfter: Math.ceil((resetTime - Date.now()) / 1000)
+      }, context)
+
+      return rateLimiter.createExceededResponse(resetTime)
+    }
+
+    // The body is parsed in memory, so its declared size is checked before it is read
+    const contentLength = Number(request.headers.get('content-length'))
+    if (!contentLength || contentLength > MAX_UPLOAD_REQUEST_BYTES) {
+      return NextResponse.json({
+        error: 'File too large',
+        message: `Requests must declare a Content-Length of at most ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB plus form data`,
+        code: 'FILE_TOO_LARGE'
+      }, { status: 413 })
+    }
+
+    // Parse the multipart body
+    let formData: FormData
+    try {
+      formData = await request.formData()
+    } catch (parseError) {
+      const errorResponse = await defaultErrorHandler.handleError(
+        new ValidationError('Invalid multipart request body', context, parseError as Error),
+        context
+      )
+
+      return NextResponse.json({
+        error: 'Invalid form data',
+        message: errorResponse.userMessage,
+        code: errorResponse.errorCode
+      }, { status: 400 })
+    }
+
+    const file = formData.get('file')
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        message: 'A file must be uploaded in the "file" field',
+        code: 'VALIDATION_ERROR'
+      }, { status: 400 })
+    }
+
+    const fileName = file.name.split(/[\\/]/).pop()?.trim() || ''
+    const format = fileName ? detectUploadFormat(fileName, file.type) : null
+    if (!format) {
+      return NextResponse.json({
+        error: 'Unsupported file type',
+        message: 'Supported files are Markdown, HTML, plain text, PDF and DOCX',
+        code: 'UNSUPPORTED_FILE_TYPE'
+      }, { status: 415 })
+    }
+
+    if (file.size === 0 || file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json({
+        error: file.size === 0 ? 'Empty file' : 'File too large',
+        message: `Files must be between 1 byte and ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB`,
+        code: file.size === 0 ? 'VALIDATION_ERROR' : 'FILE_TOO_LARGE'
+      }, { status: file.size === 0 ? 400 : 413 })
+    }
+
+    // Jobs may only ingest into collections of the workspace they run in
+    const collectionId = formData.get('collectionId')
+    if (typeof collectionId === 'string' && collectionId) {
+      const collection = await defaultErrorHandler.executeWithRetry(
+        () => collectionStore.get(collectionId, access),
+        context
+      )
+
+      if (!collection) {
+        return collectionNotFound(collectionId)
+      }
+    }
+
+    const sourceUri = uploadSourceUri(fileName)
+    const data = new Uint8Array(await file.arrayBuffer())
+    const options = typeof collectionId === 'string' && collectionId ? { collectionId } : {}
+
+    // Enqueue the job under the workspace's ownership, with the file stored alongside it
+    const jobId = await defaultErrorHandler.executeWithRetry(
+      () => jobQueue.enqueue(sourceUri, options, access, {
+        fileName,
+        contentType: file.type || 'application/octet-stream',
+        data
+      }),
+      { ...context, url: sourceUri }
+    )
+
+    logger.info('File ingestion job enqueued successfully', {
+      jobId,
+      sourceUri,
+      format,
+      size: file.size,
+      userId: access.userId,
+      organizationId: access.organizationId
+    }, context)
+
+    return NextResponse.json({
+      jobId,
+      sourceUri,
+      status: 'queued',
+      message: 'File ingestion job has been queued successfully'
+    }, { status: 202 })
+
+  } catch (error) {
+    return apiErrorResponse(error, context, 'Failed to process file ingestion request')
+  }
+}
@@ -3,6 +3,28 @@ import { jobQueue } from '../../../../lib/jobs/queue'
 import { JobError, ValidationError, ErrorContext } from '../../../../lib/errors'
 import { defaultErrorHandler } from '../../../../lib/error-handler'
 import { loggers } from '../../../../lib/logger'
+import { IngestionJob } from '../../../../lib/types'
+import { AccessScope, authorizeRequest } from '../../../../lib/organizations/access'
+import { organizationStore } from '../../../../lib/organizations/store'
+
+/**
+ * Organization jobs are visible to every member, personal jobs only to their owner.
+ * API keys only see jobs in the workspace they were created for.
+ */
+async function canViewJob(job: IngestionJob, access: AccessScope): Promise<boolean> {
+  if (access.apiKeyId) {
+    return access.organizationId
+      ? job.organizationId === access.organizationId
+      : !job.organizationId && job.userId === access.userId
+  }
+
+  if (job.organizationId) {
+    return job.organizationId === access.organizationId ||
+      !!(await organizationStore.getMembership(job.organizationId, access.userId))
+  }
+
+  return job.userId === access.userId
+}
 
 export async function GET(
   request: NextRequest,
@@ -19,6 +41,11 @@ export async function GET(
 
   try {
     logger.debug('Processing job status request', { jobId }, context)
+
+    const access = await authorizeRequest(request, 'VIEWER', 'INGEST')
+    if (access instanceof NextResponse) {
+      return access
+    }
     
     // Validate job ID format
     if (!jobId || typeof jobId !== 'string' || jobId.trim().length === 0) {
@@ -56,7 +83,8 @@ export async function GET(
       { ...context, jobId: sanitizedJobId }
     )
     
-    if (!job) {
+    // Jobs the caller may not see are reported as missing so job ids cannot be probed
+    if (!job || !(await canViewJob(job, access))) {
       logger.warn('Job not found', { jobId: sanitizedJobId }, context)
       
       return NextResponse.json({
@@ -102,7 +130,7 @@ export async function GET(
     return NextResponse.json(response, {
       headers: {
         'Cache-Control': job.status === 'COMPLETED' || job.status === 'FAILED' 
-          ? 'public, max-age=3600' // Cache completed/failed jobs for 1 hour
+          ? 'private, max-age=3600' // Cache completed/failed jobs for 1 hour
           : 'no-cache' // Don't cache in-progress jobs
       }
     })
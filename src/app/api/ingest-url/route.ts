@@ -4,6 +4,11 @@ import { jobQueue } from '../../../lib/jobs/queue'
 import { ValidationError, ErrorContext } from '../../../lib/errors'
 import { defaultErrorHandler } from '../../../lib/error-handler'
 import { loggers } from '../../../lib/logger'
+import { RateLimiter } from '../../../lib/rate-limit'
+import { authorizeRequest } from '../../../lib/organizations/access'
+import { collectionStore } from '../../../lib/collections/store'
+import { collectionNotFound } from '../../../lib/collections/http'
+import { gitOptionsShape, hasGitUrlTemplate, gitUrlTemplateRequired } from '../../../lib/ingest/validator'
 
 // Request validation schema
 const IngestRequestSchema = z.object({
@@ -11,40 +16,21 @@ const IngestRequestSchema = z.object({
   options: z.object({
     maxDepth: z.number().min(1).max(10).optional(),
     followLinks: z.boolean().optional(),
-    respectRobots: z.boolean().optional()
-  }).optional()
+    respectRobots: z.boolean().optional(),
+    maxPages: z.number().int().min(1).max(500).optional(),
+    mode: z.enum(['crawl', 'sitemap', 'git', 'openapi']).optional(),
+    sitemapUrl: z.string().url({ message: 'Invalid sitemap URL format' }).optional(),
+    pathPrefix: z.string().startsWith('/', { message: 'Path prefix must start with /' }).optional(),
+    modifiedSince: z.string().refine(value => !isNaN(Date.parse(value)), {
+      message: 'modifiedSince must be a valid date'
+    }).optional(),
+    collectionId: z.string().min(1).optional(),
+    ...gitOptionsShape
+  }).refine(hasGitUrlTemplate, gitUrlTemplateRequired).optional()
 })
 
-// Rate limiting - simple in-memory store (for production, use Redis)
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>()
-const RATE_LIMIT_WINDOW = 60 * 1000 // 1 minute
-const RATE_LIMIT_MAX_REQUESTS = 10 // 10 requests per minute
-
-function getRateLimitKey(request: NextRequest): string {
-  // Use IP address or user ID for rate limiting
-  const forwarded = request.headers.get('x-forwarded-for')
-  const realIp = request.headers.get('x-real-ip')
-  const ip = forwarded ? forwarded.split(',')[0].trim() : realIp || 'unknown'
-  return `rate_limit:${ip}`
-}
-
-function checkRateLimit(key: string): { allowed: boolean; resetTime?: number } {
-  const now = Date.now()
-  const record = rateLimitStore.get(key)
-
-  if (!record || now > record.resetTime) {
-    // Reset or create new record
-    rateLimitStore.set(key, { count: 1, resetTime: now + RATE_LIMIT_WINDOW })
-    return { allowed: true }
-  }
-
-  if (record.count >= RATE_LIMIT_MAX_REQUESTS) {
-    return { allowed: false, resetTime: record.resetTime }
-  }
-
-  record.count++
-  return { allowed: true }
-}
+// Rate limiting - 10 requests per minute per client
+const rateLimiter = new RateLimiter({ keyPrefix: 'rate_limit' })
 
 export async function POST(request: NextRequest) {
   const logger = loggers.api
@@ -57,32 +43,24 @@ export async function POST(request: NextRequest) {
   try {
     logger.info('Processing ingestion request', {}, context)
 
+    const access = await authorizeRequest(request, 'EDITOR', 'INGEST')
+    if (access instanceof NextResponse) {
+      return access
+    }
+
     // Check rate limiting
-    const rateLimitKey = getRateLimitKey(request)
-    const rateLimitResult = checkRateLimit(rateLimitKey)
+    const rateLimitKey = rateLimiter.getKey(request)
+    const rateLimitResult = rateLimiter.check(rateLimitKey)
 
     if (!rateLimitResult.allowed) {
       const resetTime = rateLimitResult.resetTime!
-      const retryAfter = Math.ceil((resetTime - Date.now()) / 1000)
 
       logger.warn('Rate limit exceeded', { 
         rateLimitKey, 
-        retryAfter 
+        retryAfter: Math.ceil((resetTime - Date.now()) / 1000)
       }, context)
 
-      return NextResponse.json({
-        error: 'Rate limit exceeded',
-        message: 'Too many requests. Please try again later.',
-        retryAfter
-      }, {
-        status: 429,
-        headers: {
-          'Retry-After': retryAfter.toString(),
-          'X-RateLimit-Limit': RATE_LIMIT_MAX_REQUESTS.toString(),
-          'X-RateLimit-Remaining': '0',
-          'X-RateLimit-Reset': Math.ceil(resetTime / 1000).toString()
-        }
-      })
+      return rateLimiter.createExceededResponse(resetTime)
     }
 
     // Parse and validate request body
@@ -120,13 +98,31 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
-    // Enqueue the job with error handling
+    // Jobs may only ingest into collections of the workspace they run in
+    const collectionId = validatedData.options?.collectionId
+    if (collectionId) {
+      const collection = await defaultErrorHandler.executeWithRetry(
+        () => collectionStore.get(collectionId, access),
+        { ...context, url }
+      )
+
+      if (!collection) {
+        return collectionNotFound(collectionId)
+      }
+    }
+
+    // Enqueue the job under the workspace's ownership
     const jobId = await defaultErrorHandler.executeWithRetry(
-      () => jobQueue.enqueue(url, validatedData.options || {}),
+      () => jobQueue.enqueue(url, validatedData.options || {}, access),
       { ...context, url }
     )
 
-    logger.info('Job enqueued successfully', { jobId, url }, context)
+    logger.info('Job enqueued successfully', {
+      jobId,
+      url,
+      userId: access.userId,
+      organizationId: access.organizationId
+    }, context)
 
     return NextResponse.json({
       jobId,
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { organizationStore } from '../../../../lib/organizations/store'
+import { acceptInvitationSchema } from '../../../../lib/organizations/schema'
+import { forbiddenResponse, formatMembership } from '../../../../lib/organizations/http'
+import { apiErrorResponse } from '../../../../lib/api-response'
+import { ValidationError, ErrorContext } from '../../../../lib/errors'
+import { defaultErrorHandler } from '../../../../lib/error-handler'
+import { loggers } from '../../../../lib/logger'
+import { getSessionUser, unauthorizedResponse } from '../../../../lib/auth/session'
+
+/**
+ * Accept an invitation with the token from the email link. The signed-in account
+ * must use the address the invitation was sent to.
+ */
+export async function POST(request: NextRequest) {
+  const logger = loggers.api
+  const context: ErrorContext = {
+    component: 'OrganizationsAPI',
+    operation: 'acceptInvitation',
+    timestamp: new Date()
+  }
+
+  try {
+    const user = await getSessionUser()
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      const errorResponse = await defaultErrorHandler.handleError(
+        new ValidationError('Invalid JSON in request body', context, parseError as Error),
+        context
+      )
+
+      return NextResponse.json({
+        error: 'Invalid JSON',
+        message: errorResponse.userMessage,
+        code: errorResponse.errorCode
+      }, { status: 400 })
+    }
+
+    const { token } = acceptInvitationSchema.parse(body)
+
+    const invitation = await defaultErrorHandler.executeWithRetry(
+      () => organizationStore.findInvitationByToken(token),
+      context
+    )
+
+    if (!invitation || invitation.acceptedAt) {
+      return NextResponse.json({
+        error: 'Invitation not found',
+        message: 'This invitation does not exist or has already been used',
+        code: 'INVITATION_NOT_FOUND'
+      }, { status: 404 })
+    }
+
+    if (invitation.expiresAt.getTime() < Date.now()) {
+      return NextResponse.json({
+        error: 'Invitation expired',
+        message: 'This invitation has expired; ask for a new one',
+        code: 'INVITATION_EXPIRED'
+      }, { status: 410 })
+    }
+
+    if (user.email?.toLowerCase() !== invitation.email) {
+      return forbiddenResponse('This invitation was sent to a different email address')
+    }
+
+    const membership = await defaultErrorHandler.executeWithRetry(
+      () => organizationStore.acceptInvitation(invitation, user.id),
+      context
+    )
+
+    logger.info('Invitation accepted', {
+      organizationId: invitation.organizationId,
+      invitationId: invitation.id
+    }, context)
+
+    return NextResponse.json(formatMembership(membership))
+  } catch (error) {
+    return apiErrorResponse(error, context, 'Failed to accept invitation')
+  }
+}
@@ -4,7 +4,8 @@ import { memoryManager } from '@/lib/monitoring/memory'
 import { dbMonitor } from '@/lib/db'
 import { vectorStore } from '@/lib/vector/store'
 import { EmbeddingService } from '@/lib/embed/service'
-import { env, isProduction, deploymentConfig } from '@/lib/config/environment'
+import { createEmbeddingProvider } from '@/lib/embed/providers'
+import { env, isProduction, deploymentConfig, embeddingConfig } from '@/lib/config/environment'
 
 interface HealthCheckResult {
   status: 'healthy' | 'degraded' | 'unhealthy'
@@ -149,7 +150,10 @@ export async function GET(request: NextRequest) {
     // Check embedding service (lightweight test)
     try {
       const embeddingStart = Date.now()
-      const embeddingService = new EmbeddingService({ batchSize: 1 })
+      const embeddingService = new EmbeddingService({
+        batchSize: 1,
+        provider: createEmbeddingProvider(embeddingConfig)
+      })
       const config = embeddingService.getConfiguration()
       const embeddingResponseTime = Date.now() - embeddingStart
       
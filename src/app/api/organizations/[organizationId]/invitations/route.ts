@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { organizationStore } from '../../../../../lib/organizations/store'
+import { createInvitationSchema } from '../../../../../lib/organizations/schema'
+import {
+  formatInvitation,
+  insufficientRole,
+  organizationNotFound
+} from '../../../../../lib/organizations/http'
+import { authorizeMember } from '../../../../../lib/organizations/access'
+import { sendInvitationEmail } from '../../../../../lib/auth/email'
+import { apiErrorResponse } from '../../../../../lib/api-response'
+import { ValidationError, ErrorContext } from '../../../../../lib/errors'
+import { defaultErrorHandler } from '../../../../../lib/error-handler'
+import { loggers } from '../../../../../lib/logger'
+import { getSessionUserId, unauthorizedResponse } from '../../../../../lib/auth/session'
+
+type RouteParams = { params: { organizationId: string } }
+
+/**
+ * Invite someone by email. Admins may invite up to admin; only owners may invite owners.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const logger = loggers.api
+  const { organizationId } = params
+  const context: ErrorContext = {
+    component: 'OrganizationsAPI',
+    operation: 'createInvitation',
+    timestamp: new Date(),
+    metadata: { organizationId }
+  }
+
+  try {
+    const userId = await getSessionUserId()
+    if (!userId) {
+      return unauthorizedResponse()
+    }
+
+    const access = await authorizeMember(userId, organizationId, 'ADMIN')
+    if (access instanceof NextResponse) {
+      return access
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      const errorResponse = await defaultErrorHandler.handleError(
+        new ValidationError('Invalid JSON in request body', context, parseError as Error),
+        context
+      )
+
+      return NextResponse.json({
+        error: 'Invalid JSON',
+        message: errorResponse.userMessage,
+        code: errorResponse.errorCode
+      }, { status: 400 })
+    }
+
+    const input = createInvitationSchema.parse(body)
+
+    if (input.role === 'OWNER' && access.role !== 'OWNER') {
+      return insufficientRole('OWNER')
+    }
+
+    const organization = await defaultErrorHandler.executeWithRetry(
+      () => organizationStore.get(organizationId),
+      context
+    )
+
+    if (!organization) {
+      return organizationNotFound(organizationId)
+    }
+
+    const { invitation, token } = await defaultErrorHandler.executeWithRetry(
+      () => organizationStore.createInvitation(organizationId, { ...input, invitedById: userId }),
+      context
+    )
+
+    await sendInvitationEmail(invitation.email, organization.name, invitation.role, token)
+
+    logger.info('Invitation sent', {
+      organizationId,
+      invitationId: invitation.id,
+      role: invitation.role
+    }, context)
+
+    return NextResponse.json(formatInvitation(invitation), { status: 201 })
+  } catch (error) {
+    return apiErrorResponse(error, context, 'Failed to create invitation')
+  }
+}
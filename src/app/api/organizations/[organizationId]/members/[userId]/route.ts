@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { organizationStore } from '../../../../../../lib/organizations/store'
+import { updateMemberSchema } from '../../../../../../lib/organizations/schema'
+import {
+  formatMembership,
+  insufficientRole,
+  lastOwnerResponse,
+  memberNotFound
+} from '../../../../../../lib/organizations/http'
+import { authorizeMember } from '../../../../../../lib/organizations/access'
+import { apiErrorResponse } from '../../../../../../lib/api-response'
+import { ValidationError, ErrorContext } from '../../../../../../lib/errors'
+import { defaultErrorHandler } from '../../../../../../lib/error-handler'
+import { loggers } from '../../../../../../lib/logger'
+import { getSessionUserId, unauthorizedResponse } from '../../../../../../lib/auth/session'
+
+type RouteParams = { params: { organizationId: string; userId: string } }
+
+/**
+ * Change a member's role. Admins manage editors and viewers; only owners may grant,
+ * change or revoke the owner role.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const logger = loggers.api
+  const { organizationId, userId: memberId } = params
+  const context: ErrorContext = {
+    component: 'OrganizationsAPI',
+    operation: 'updateMember',
+    timestamp: new Date(),
+    metadata: { organizationId, memberId }
+  }
+
+  try {
+    const userId = await getSessionUserId()
+    if (!userId) {
+      return unauthorizedResponse()
+    }
+
+    const access = await authorizeMember(userId, organizationId, 'ADMIN')
+    if (access instanceof NextResponse) {
+      return access
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      const errorResponse = await defaultErrorHandler.handleError(
+        new ValidationError('Invalid JSON in request body', context, parseError as Error),
+        context
+      )
+
+      return NextResponse.json({
+        error: 'Invalid JSON',
+        message: errorResponse.userMessage,
+        code: errorResponse.errorCode
+      }, { status: 400 })
+    }
+
+    const { role } = updateMemberSchema.parse(body)
+
+    const member = await defaultErrorHandler.executeWithRetry(
+      () => organizationStore.getMembership(organizationId, memberId),
+      context
+    )
+
+    if (!member) {
+      return memberNotFound(memberId)
+    }
+
+    if ((member.role === 'OWNER' || role === 'OWNER') && access.role !== 'OWNER') {
+      return insufficientRole('OWNER')
+    }
+
+    if (member.role === 'OWNER' && role !== 'OWNER') {
+      const owners = await defaultErrorHandler.executeWithRetry(
+        () => organizationStore.countOwners(organizationId),
+        context
+      )
+      if (owners <= 1) {
+        return lastOwnerResponse()
+      }
+    }
+
+    const updated = await defaultErrorHandler.executeWithRetry(
+      () => organizationStore.updateRole(organizationId, memberId, role),
+      context
+    )
+
+    if (!updated) {
+      return memberNotFound(memberId)
+    }
+
+    logger.info('Member role updated', { organizationId, memberId, role }, context)
+
+    return NextResponse.json(formatMembership(updated))
+  } catch (error) {
+    return apiErrorResponse(error, context, 'Failed to update member')
+  }
+}
+
+/**
+ * Remove a member. Any member may leave; removing someone else requires the admin role,
+ * or the owner role when removing an owner.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const logger = loggers.api
+  const { organizationId, userId: memberId } = params
+  const context: ErrorContext = {
+    component: 'OrganizationsAPI',
+    operation: 'removeMember',
+    timestamp: new Date(),
+    metadata: { organizationId, memberId }
+  }
+
+  try {
+    const userId = await getSessionUserId()
+    if (!userId) {
+      return unauthorizedResponse()
+    }
+
+    const isSelf = memberId === userId
+    const access = await authorizeMember(userId, organizationId, isSelf ? 'VIEWER' : 'ADMIN')
+    if (access instanceof NextResponse) {
+      return access
+    }
+
+    const member = await defaultErrorHandler.executeWithRetry(
+      () => organizationStore.getMembership(organizationId, memberId),
+      context
+    )
+
+    if (!member) {
+      return memberNotFound(memberId)
+    }
+
+    if (member.role === 'OWNER') {
+      if (access.role !== 'OWNER') {
+        return insufficientRole('OWNER')
+      }
+
+      const owners = await defaultErrorHandler.executeWithRetry(
+        () => organizationStore.countOwners(organizationId),
+        context
+      )
+      if (owners <= 1) {
+        return lastOwnerResponse()
+      }
+    }
+
+    const removed = await defaultErrorHandler.executeWithRetry(
+      () => organizationStore.removeMember(organizationId, memberId),
+      context
+    )
+
+    if (!removed) {
+      return memberNotFound(memberId)
+    }
+
+    logger.info('Member removed', { organizationId, memberId }, context)
+
+    return NextResponse.json({ userId: memberId, organizationId, removed: true })
+  } catch (error) {
+    return apiErrorResponse(error, context, 'Failed to remove member')
+  }
+}
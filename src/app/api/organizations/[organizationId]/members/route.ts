@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { organizationStore } from '../../../../../lib/organizations/store'
+import { formatMembership } from '../../../../../lib/organizations/http'
+import { authorizeMember } from '../../../../../lib/organizations/access'
+import { apiErrorResponse } from '../../../../../lib/api-response'
+import { ErrorContext } from '../../../../../lib/errors'
+import { defaultErrorHandler } from '../../../../../lib/error-handler'
+import { getSessionUserId, unauthorizedResponse } from '../../../../../lib/auth/session'
+
+type RouteParams = { params: { organizationId: string } }
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { organizationId } = params
+  const context: ErrorContext = {
+    component: 'OrganizationsAPI',
+    operation: 'listMembers',
+    timestamp: new Date(),
+    metadata: { organizationId }
+  }
+
+  try {
+    const userId = await getSessionUserId()
+    if (!userId) {
+      return unauthorizedResponse()
+    }
+
+    const access = await authorizeMember(userId, organizationId, 'VIEWER')
+    if (access instanceof NextResponse) {
+      return access
+    }
+
+    const members = await defaultErrorHandler.executeWithRetry(
+      () => organizationStore.listMembers(organizationId),
+      context
+    )
+
+    return NextResponse.json({
+      members: members.map(formatMembership)
+    })
+  } catch (error) {
+    return apiErrorResponse(error, context, 'Failed to list members')
+  }
+}
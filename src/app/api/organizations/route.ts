@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { organizationStore } from '../../../lib/organizations/store'
+import { createOrganizationSchema } from '../../../lib/organizations/schema'
+import { formatOrganization } from '../../../lib/organizations/http'
+import { apiErrorResponse } from '../../../lib/api-response'
+import { ValidationError, ErrorContext } from '../../../lib/errors'
+import { defaultErrorHandler } from '../../../lib/error-handler'
+import { loggers } from '../../../lib/logger'
+import { getSessionUserId, unauthorizedResponse } from '../../../lib/auth/session'
+
+export async function GET() {
+  const logger = loggers.api
+  const context: ErrorContext = {
+    component: 'OrganizationsAPI',
+    operation: 'listOrganizations',
+    timestamp: new Date()
+  }
+
+  try {
+    const userId = await getSessionUserId()
+    if (!userId) {
+      return unauthorizedResponse()
+    }
+
+    const organizations = await defaultErrorHandler.executeWithRetry(
+      () => organizationStore.listForUser(userId),
+      context
+    )
+
+    logger.debug('Organizations listed', { count: organizations.length }, context)
+
+    return NextResponse.json({
+      organizations: organizations.map(formatOrganization)
+    })
+  } catch (error) {
+    return apiErrorResponse(error, context, 'Failed to list organizations')
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const logger = loggers.api
+  const context: ErrorContext = {
+    component: 'OrganizationsAPI',
+    operation: 'createOrganization',
+    timestamp: new Date()
+  }
+
+  try {
+    const userId = await getSessionUserId()
+    if (!userId) {
+      return unauthorizedResponse()
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      const errorResponse = await defaultErrorHandler.handleError(
+        new ValidationError('Invalid JSON in request body', context, parseError as Error),
+        context
+      )
+
+      return NextResponse.json({
+        error: 'Invalid JSON',
+        message: errorResponse.userMessage,
+        code: errorResponse.errorCode
+      }, { status: 400 })
+    }
+
+    const input = createOrganizationSchema.parse(body)
+
+    // The creator becomes the organization's first owner
+    const organization = await defaultErrorHandler.executeWithRetry(
+      () => organizationStore.create(input.name, userId),
+      context
+    )
+
+    logger.info('Organization created', { organizationId: organization.id, userId }, context)
+
+    return NextResponse.json(formatOrganization(organization), { status: 201 })
+  } catch (error) {
+    return apiErrorResponse(error, context, 'Failed to create organization')
+  }
+}
@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { EmbeddingService } from '../../../lib/embed/service'
+import { createEmbeddingProvider } from '../../../lib/embed/providers'
+import { embeddingConfig } from '../../../lib/config/environment'
+import { vectorStore } from '../../../lib/vector/store'
+import { RerankService } from '../../../lib/rerank/service'
+import { createReranker } from '../../../lib/rerank/rerankers'
+import { ValidationError, ErrorContext } from '../../../lib/errors'
+import { defaultErrorHandler } from '../../../lib/error-handler'
+import { loggers } from '../../../lib/logger'
+import { RateLimiter } from '../../../lib/rate-limit'
+import { authorizeRequest } from '../../../lib/organizations/access'
+import { searchFiltersSchema, searchModeSchema } from '../../../lib/vector/schema'
+
+// Request validation schema
+const SearchRequestSchema = z.object({
+  query: z.string().trim().min(1, { message: 'Query must not be empty' }).max(1000),
+  limit: z.number().int().min(1).max(50).optional(),
+  threshold: z.number().min(0).max(1).optional(),
+  collectionId: z.string().min(1).optional(),
+  mode: searchModeSchema.optional(),
+  filters: searchFiltersSchema.optional(),
+  rerank: z.boolean().optional(),
+  // Only used when reranking
+  diversity: z.number().min(0).max(1).optional()
+})
+
+// Rate limiting - same budget as /api/ingest-url
+const rateLimiter = new RateLimiter({ keyPrefix: 'rate_limit:search' })
+
+const embeddingService = new EmbeddingService({ provider: createEmbeddingProvider(embeddingConfig) })
+const rerankService = new RerankService(createReranker())
+
+// Same default as VectorStore.search; reranking needs it to size the candidate list
+const DEFAULT_LIMIT = 10
+
+export async function POST(request: NextRequest) {
+  const logger = loggers.api
+  const context: ErrorContext = {
+    component: 'SearchAPI',
+    operation: 'searchChunks',
+    timestamp: new Date()
+  }
+
+  try {
+    logger.info('Processing search request', {}, context)
+
+    const access = await authorizeRequest(request, 'VIEWER', 'SEARCH')
+    if (access instanceof NextResponse) {
+      return access
+    }
+
+    // Check rate limiting
+    const rateLimitKey = rateLimiter.getKey(request)
+    const rateLimitResult = rateLimiter.check(rateLimitKey)
+
+    if (!rateLimitResult.allowed) {
+      const resetTime = rateLimitResult.resetTime!
+
+      logger.warn('Rate limit exceeded', {
+        rateLimitKey,
+        retryAfter: Math.ceil((resetTime - Date.now()) / 1000)
+      }, context)
+
+      return rateLimiter.createExceededResponse(resetTime)
+    }
+
+    // Parse and validate request body
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      const errorResponse = await defaultErrorHandler.handleError(
+        new ValidationError('Invalid JSON in request body', context, parseError as Error),
+        context
+      )
+
+      return NextResponse.json({
+        error: 'Invalid JSON',
+        message: errorResponse.userMessage,
+        code: errorResponse.errorCode
+      }, { status: 400 })
+    }
+
+    const {
+      query, limit, threshold, collectionId, mode, filters, rerank, diversity
+    } = SearchRequestSchema.parse(body)
+
+    // Embed the query and run the search; similarity is reported in every mode
+    const queryEmbedding = await embeddingService.embedQuery(query)
+    const candidates = await defaultErrorHandler.executeWithRetry(
+      () => vectorStore.search(queryEmbedding, {
+        limit: rerank ? rerankService.candidateCount(limit ?? DEFAULT_LIMIT) : limit,
+        threshold,
+        mode,
+        query,
+        userId: access.userId,
+        organizationId: access.organizationId,
+        collectionId,
+        filters
+      }),
+      context
+    )
+
+    // Rescore the over-fetched candidates and keep the requested number
+    const results = rerank
+      ? await rerankService.rerank(query, candidates, { limit: limit ?? DEFAULT_LIMIT, diversity })
+      : candidates
+
+    logger.info('Search completed successfully', {
+      queryLength: query.length,
+      mode: mode ?? 'vector',
+      reranked: rerank ?? false,
+      resultCount: results.length
+    }, context)
+
+    return NextResponse.json({
+      query,
+      results: results.map(result => ({
+        id: result.id,
+        content: result.content,
+        similarity: result.similarity,
+        ...(result.score !== undefined && { score: result.score }),
+        ...(result.rerankScore !== undefined && { rerankScore: result.rerankScore }),
+        sourceUrl: result.sourceUrl,
+        title: result.title,
+        section: result.section,
+        ...(result.headingPath && { headingPath: result.headingPath }),
+        chunkIndex: result.chunkIndex,
+        metadata: result.metadata
+      })),
+      total: results.length
+    })
+
+  } catch (error) {
+    const errorResponse = await defaultErrorHandler.handleError(error, context)
+
+    logger.error('Failed to process search request', {
+      error: errorResponse.logMessage,
+      errorCode: errorResponse.errorCode
+    }, context)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        message: 'Request validation failed',
+        code: 'VALIDATION_ERROR',
+        details: error.issues.map(issue => ({
+          field: issue.path.join('.'),
+          message: issue.message
+        }))
+      }, { status: 400 })
+    }
+
+    const statusCode = errorResponse.severity === 'CRITICAL' ? 500 :
+                      errorResponse.severity === 'HIGH' ? 500 :
+                      errorResponse.canRetry ? 503 : 400
+
+    return NextResponse.json({
+      error: errorResponse.category.toLowerCase().replace('_', ' '),
+      message: errorResponse.userMessage,
+      code: errorResponse.errorCode,
+      retryable: errorResponse.canRetry,
+      ...(errorResponse.retryAfter && { retryAfter: Math.ceil(errorResponse.retryAfter / 1000) })
+    }, {
+      status: statusCode,
+      ...(errorResponse.retryAfter && {
+        headers: { 'Retry-After': Math.ceil(errorResponse.retryAfter / 1000).toString() }
+      })
+    })
+  }
+}
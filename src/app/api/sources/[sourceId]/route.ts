@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sourceStore } from '../../../../lib/sources/store'
+import { updateSourceSchema } from '../../../../lib/sources/schema'
+import { formatSource } from '../../../../lib/sources/http'
+import { collectionStore } from '../../../../lib/collections/store'
+import { collectionNotFound } from '../../../../lib/collections/http'
+import { apiErrorResponse } from '../../../../lib/api-response'
+import { ValidationError, ErrorContext } from '../../../../lib/errors'
+import { defaultErrorHandler } from '../../../../lib/error-handler'
+import { loggers } from '../../../../lib/logger'
+import { authorizeRequest } from '../../../../lib/organizations/access'
+
+type RouteParams = { params: { sourceId: string } }
+
+function notFound(sourceId: string) {
+  return NextResponse.json({
+    error: 'Source not found',
+    message: `No source found with ID: ${sourceId}`,
+    code: 'SOURCE_NOT_FOUND'
+  }, { status: 404 })
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { sourceId } = params
+  const context: ErrorContext = {
+    component: 'SourcesAPI',
+    operation: 'getSource',
+    timestamp: new Date(),
+    metadata: { sourceId }
+  }
+
+  try {
+    const access = await authorizeRequest(request, 'VIEWER')
+    if (access instanceof NextResponse) {
+      return access
+    }
+
+    const source = await defaultErrorHandler.executeWithRetry(
+      () => sourceStore.get(sourceId, access),
+      context
+    )
+
+    return source ? NextResponse.json(formatSource(source)) : notFound(sourceId)
+  } catch (error) {
+    return apiErrorResponse(error, context, 'Failed to get source')
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const logger = loggers.api
+  const { sourceId } = params
+  const context: ErrorContext = {
+    component: 'SourcesAPI',
+    operation: 'updateSource',
+    timestamp: new Date(),
+    metadata: { sourceId }
+  }
+
+  try {
+    const access = await authorizeRequest(request, 'EDITOR')
+    if (access instanceof NextResponse) {
+      return access
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      const errorResponse = await defaultErrorHandler.handleError(
+        new ValidationError('Invalid JSON in request body', context, parseError as Error),
+        context
+      )
+
+      return NextResponse.json({
+        error: 'Invalid JSON',
+        message: errorResponse.userMessage,
+        code: errorResponse.errorCode
+      }, { status: 400 })
+    }
+
+    const input = updateSourceSchema.parse(body)
+
+    // Recrawls may only ingest into the caller's own collections
+    const collectionId = input.options?.collectionId
+    if (collectionId) {
+      const collection = await defaultErrorHandler.executeWithRetry(
+        () => collectionStore.get(collectionId, access),
+        context
+      )
+
+      if (!collection) {
+        return collectionNotFound(collectionId)
+      }
+    }
+
+    const source = await defaultErrorHandler.executeWithRetry(
+      () => sourceStore.update(sourceId, input, access),
+      context
+    )
+
+    if (!source) {
+      return notFound(sourceId)
+    }
+
+    logger.info('Source updated', { sourceId, fields: Object.keys(input) }, context)
+
+    return NextResponse.json(formatSource(source))
+  } catch (error) {
+    return apiErrorResponse(error, context, 'Failed to update source')
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const logger = loggers.api
+  const { sourceId } = params
+  const context: ErrorContext = {
+    component: 'SourcesAPI',
+    operation: 'deleteSource',
+    timestamp: new Date(),
+    metadata: { sourceId }
+  }
+
+  try {
+    const access = await authorizeRequest(request, 'EDITOR')
+    if (access instanceof NextResponse) {
+      return access
+    }
+
+    const deleted = await defaultErrorHandler.executeWithRetry(
+      () => sourceStore.delete(sourceId, access),
+      context
+    )
+
+    if (!deleted) {
+      return notFound(sourceId)
+    }
+
+    logger.info('Source deleted', { sourceId }, context)
+
+    return NextResponse.json({ id: sourceId, deleted: true })
+  } catch (error) {
+    return apiErrorResponse(error, context, 'Failed to delete source')
+  }
+}
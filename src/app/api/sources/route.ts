@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sourceStore } from '../../../lib/sources/store'
+import { createSourceSchema } from '../../../lib/sources/schema'
+import { formatSource } from '../../../lib/sources/http'
+import { collectionStore } from '../../../lib/collections/store'
+import { collectionNotFound } from '../../../lib/collections/http'
+import { apiErrorResponse } from '../../../lib/api-response'
+import { ValidationError, ErrorContext } from '../../../lib/errors'
+import { defaultErrorHandler } from '../../../lib/error-handler'
+import { loggers } from '../../../lib/logger'
+import { authorizeRequest } from '../../../lib/organizations/access'
+
+export async function GET(request: NextRequest) {
+  const logger = loggers.api
+  const context: ErrorContext = {
+    component: 'SourcesAPI',
+    operation: 'listSources',
+    timestamp: new Date()
+  }
+
+  try {
+    const access = await authorizeRequest(request, 'VIEWER')
+    if (access instanceof NextResponse) {
+      return access
+    }
+
+    const { searchParams } = request.nextUrl
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 100)
+    const offset = Math.max(parseInt(searchParams.get('offset') || '0', 10) || 0, 0)
+
+    const { sources, total } = await defaultErrorHandler.executeWithRetry(
+      () => sourceStore.list({ owner: access, limit, offset }),
+      context
+    )
+
+    logger.debug('Sources listed', { count: sources.length, total }, context)
+
+    return NextResponse.json({
+      sources: sources.map(formatSource),
+      total,
+      limit,
+      offset
+    })
+  } catch (error) {
+    return apiErrorResponse(error, context, 'Failed to list sources')
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const logger = loggers.api
+  const context: ErrorContext = {
+    component: 'SourcesAPI',
+    operation: 'createSource',
+    timestamp: new Date()
+  }
+
+  try {
+    const access = await authorizeRequest(request, 'EDITOR')
+    if (access instanceof NextResponse) {
+      return access
+    }
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch (parseError) {
+      const errorResponse = await defaultErrorHandler.handleError(
+        new ValidationError('Invalid JSON in request body', context, parseError as Error),
+        context
+      )
+
+      return NextResponse.json({
+        error: 'Invalid JSON',
+        message: errorResponse.userMessage,
+        code: errorResponse.errorCode
+      }, { status: 400 })
+    }
+
+    const input = createSourceSchema.parse(body)
+
+    // Recrawls may only ingest into the caller's own collections
+    const collectionId = input.options?.collectionId
+    if (collectionId) {
+      const collection = await defaultErrorHandler.executeWithRetry(
+        () => collectionStore.get(collectionId, access),
+        context
+      )
+
+      if (!collection) {
+        return collectionNotFound(collectionId)
+      }
+    }
+
+    const source = await defaultErrorHandler.executeWithRetry(
+      () => sourceStore.create(input, access),
+      { ...context, url: input.url }
+    )
+
+    logger.info('Source registered', { sourceId: source.id, url: source.url, schedule: source.schedule }, context)
+
+    return NextResponse.json(formatSource(source), { status: 201 })
+  } catch (error) {
+    return apiErrorResponse(error, context, 'Failed to create source')
+  }
+}
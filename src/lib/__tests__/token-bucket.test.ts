@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { TokenBucket } from '../token-bucket'
+
+describe('TokenBucket', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should allow a burst up to capacity without waiting', async () => {
+    const bucket = new TokenBucket({ tokensPerSecond: 5 })
+
+    for (let i = 0; i < 5; i++) {
+      await bucket.acquire()
+    }
+
+    expect(bucket.available).toBeLessThan(1)
+  })
+
+  it('should make callers wait for tokens to refill', async () => {
+    const bucket = new TokenBucket({ tokensPerSecond: 2, capacity: 1 })
+    await bucket.acquire()
+
+    let acquired = false
+    const pending = bucket.acquire().then(() => { acquired = true })
+
+    await vi.advanceTimersByTimeAsync(400)
+    expect(acquired).toBe(false)
+
+    await vi.advanceTimersByTimeAsync(200)
+    await pending
+    expect(acquired).toBe(true)
+  })
+
+  it('should serve waiters in arrival order', async () => {
+    const bucket = new TokenBucket({ tokensPerSecond: 10, capacity: 1 })
+    const order: number[] = []
+
+    const waiters = [1, 2, 3].map(id => bucket.acquire().then(() => { order.push(id) }))
+    await vi.advanceTimersByTimeAsync(500)
+    await Promise.all(waiters)
+
+    expect(order).toEqual([1, 2, 3])
+  })
+
+  it('should reject invalid configuration and oversized requests', () => {
+    expect(() => new TokenBucket({ tokensPerSecond: 0 })).toThrow('tokensPerSecond must be greater than 0')
+    expect(() => new TokenBucket({ capacity: 2 }).acquire(3)).toThrow('capacity 2')
+  })
+})
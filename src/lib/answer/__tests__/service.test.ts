@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, vi, type Mocked } from 'vitest'
+import { AnswerService } from '../service'
+import { LocalTextGenerator } from '../generators'
+import { RerankService } from '../../rerank/service'
+import { LocalReranker } from '../../rerank/rerankers'
+import { EmbeddingService } from '../../embed/service'
+import { VectorStore } from '../../vector/store'
+import { VectorSearchResult } from '../../vector/types'
+import { buildGroundedPrompt } from '../../prompt/templates'
+
+vi.mock('../../db', () => ({
+  prisma: {},
+  dbMonitor: {}
+}))
+vi.mock('../../embed/service')
+vi.mock('../../vector/store')
+
+describe('AnswerService', () => {
+  let mockEmbeddingService: Mocked<EmbeddingService>
+  let mockVectorStore: Mocked<VectorStore>
+  let service: AnswerService
+
+  const chunks: VectorSearchResult[] = [
+    {
+      id: 'chunk-1',
+      content: 'Refresh tokens are exchanged at POST /oauth/token. They never expire unless revoked.',
+      metadata: {},
+      similarity: 0.92,
+      sourceUrl: 'https://docs.example.com/auth',
+      title: 'Authentication',
+      section: 'Refresh tokens',
+      chunkIndex: 4
+    },
+    {
+      id: 'chunk-2',
+      content: 'Access tokens are valid for one hour.',
+      metadata: {},
+      similarity: 0.81,
+      sourceUrl: 'https://docs.example.com/auth',
+      title: 'Authentication',
+      chunkIndex: 2
+    }
+  ]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockEmbeddingService = vi.mocked(new EmbeddingService())
+    mockVectorStore = vi.mocked(new VectorStore())
+    mockEmbeddingService.embedQuery.mockResolvedValue(new Array(1536).fill(0.1))
+    mockVectorStore.search.mockResolvedValue(chunks)
+
+    service = new AnswerService(mockEmbeddingService, mockVectorStore, new LocalTextGenerator(), {
+      topK: 3,
+      threshold: 0.6
+    })
+  })
+
+  describe('answer', () => {
+    it('should retrieve top-k chunks and return an answer with citations', async () => {
+      const result = await service.answer('How do refresh tokens work?')
+
+      expect(mockEmbeddingService.embedQuery).toHaveBeenCalledWith('How do refresh tokens work?')
+      expect(mockVectorStore.search).toHaveBeenCalledWith(expect.any(Array), {
+        limit: 3,
+        threshold: 0.6,
+        query: 'How do refresh tokens work?'
+      })
+      expect(result.modelId).toBe('local-extractive')
+      expect(result.answer).toBe(
+        'Refresh tokens are exchanged at POST /oauth/token. [1] Access tokens are valid for one hour. [2]'
+      )
+      expect(result.citations).toEqual([
+        {
+          index: 1,
+          chunkId: 'chunk-1',
+          sourceUrl: 'https://docs.example.com/auth',
+          chunkIndex: 4,
+          title: 'Authentication',
+          section: 'Refresh tokens',
+          similarity: 0.92
+        },
+        {
+          index: 2,
+          chunkId: 'chunk-2',
+          sourceUrl: 'https://docs.example.com/auth',
+          chunkIndex: 2,
+          title: 'Authentication',
+          section: undefined,
+          similarity: 0.81
+        }
+      ])
+    })
+
+    it('should honour per-request topK, threshold and search mode', async () => {
+      await service.answer('Token lifetime?', { topK: 1, threshold: 0.9, searchMode: 'hybrid' })
+
+      expect(mockVectorStore.search).toHaveBeenCalledWith(expect.any(Array), {
+        limit: 1,
+        threshold: 0.9,
+        mode: 'hybrid',
+        query: 'Token lifetime?'
+      })
+    })
+
+    it('should rerank an over-fetched candidate list when asked', async () => {
+      const rerankingService = new AnswerService(mockEmbeddingService, mockVectorStore, new LocalTextGenerator(), {
+        topK: 1,
+        rerankService: new RerankService(new LocalReranker())
+      })
+
+      const result = await rerankingService.answer('How long are access tokens valid?', { rerank: true })
+
+      expect(mockVectorStore.search).toHaveBeenCalledWith(expect.any(Array), expect.objectContaining({ limit: 4 }))
+      expect(result.citations).toHaveLength(1)
+      expect(result.citations[0].chunkId).toBe('chunk-2')
+    })
+
+    it('should say when no context was found', async () => {
+      mockVectorStore.search.mockResolvedValue([])
+
+      const result = await service.answer('What is the meaning of life?')
+
+      expect(result.citations).toEqual([])
+      expect(result.answer).toBe('The ingested documentation does not cover this question.')
+    })
+  })
+
+  describe('streamAnswer', () => {
+    it('should resolve citations up front and stream the answer text', async () => {
+      const stream = await service.streamAnswer('How do refresh tokens work?')
+
+      expect(stream.citations.map(citation => citation.chunkId)).toEqual(['chunk-1', 'chunk-2'])
+
+      let text = ''
+      for await (const delta of stream.deltas) {
+        text += delta
+      }
+      expect(text).toBe(
+        'Refresh tokens are exchanged at POST /oauth/token. [1] Access tokens are valid for one hour. [2]'
+      )
+    })
+  })
+
+  describe('buildGroundedPrompt', () => {
+    it('should number passages and include their source', () => {
+      const prompt = buildGroundedPrompt('How do refresh tokens work?', chunks)
+
+      expect(prompt.system).toContain('Cite every claim')
+      expect(prompt.user).toContain('[1] Authentication - Refresh tokens (https://docs.example.com/auth)')
+      expect(prompt.user).toContain('[2] Authentication (https://docs.example.com/auth)')
+      expect(prompt.user).toContain('Question: How do refresh tokens work?')
+    })
+  })
+})
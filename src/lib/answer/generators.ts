@@ -0,0 +1,161 @@
+import {
+  ConverseCommand,
+  ConverseStreamCommand,
+  BedrockRuntimeClient
+} from '@aws-sdk/client-bedrock-runtime'
+import { bedrockRuntimeClient, TEXT_MODEL_ID, TEXT_MODEL_MAX_TOKENS } from '../aws-config'
+import { GroundedPrompt } from '../prompt/templates'
+import { GenerationOptions, GenerationResult, TextGenerator } from './types'
+import { GenerationError, ErrorSeverity } from '../errors'
+import { metricsCollector } from '../monitoring/metrics'
+
+/**
+ * Text generator backed by a Bedrock text model through the Converse API
+ */
+export class BedrockTextGenerator implements TextGenerator {
+  readonly modelId: string
+  private readonly client: BedrockRuntimeClient
+
+  constructor(modelId: string = TEXT_MODEL_ID, client: BedrockRuntimeClient = bedrockRuntimeClient) {
+    this.modelId = modelId
+    this.client = client
+  }
+
+  async generate(prompt: GroundedPrompt, options: GenerationOptions = {}): Promise<GenerationResult> {
+    const startTime = Date.now()
+
+    try {
+      const response = await this.client.send(new ConverseCommand(this.buildInput(prompt, options)))
+
+      metricsCollector.recordApiCall('aws_bedrock', 'text_generation', Date.now() - startTime, true, {
+        model_id: this.modelId
+      })
+
+      const text = response.output?.message?.content
+        ?.map(block => block.text ?? '')
+        .join('') ?? ''
+
+      if (!text.trim()) {
+        throw new GenerationError('No text found in model response', true, ErrorSeverity.HIGH)
+      }
+
+      return {
+        text,
+        modelId: this.modelId,
+        usage: response.usage && {
+          inputTokens: response.usage.inputTokens ?? 0,
+          outputTokens: response.usage.outputTokens ?? 0
+        }
+      }
+    } catch (error) {
+      metricsCollector.recordApiCall('aws_bedrock', 'text_generation', Date.now() - startTime, false, {
+        model_id: this.modelId,
+        error_type: error instanceof Error ? error.constructor.name : 'unknown'
+      })
+      throw this.toGenerationError(error)
+    }
+  }
+
+  async *stream(prompt: GroundedPrompt, options: GenerationOptions = {}): AsyncIterable<string> {
+    let response
+    try {
+      response = await this.client.send(new ConverseStreamCommand(this.buildInput(prompt, options)))
+    } catch (error) {
+      throw this.toGenerationError(error)
+    }
+
+    if (!response.stream) {
+      throw new GenerationError('Empty response stream from AWS Bedrock', true, ErrorSeverity.HIGH)
+    }
+
+    try {
+      for await (const event of response.stream) {
+        const delta = event.contentBlockDelta?.delta?.text
+        if (delta) {
+          yield delta
+        }
+      }
+    } catch (error) {
+      throw this.toGenerationError(error)
+    }
+  }
+
+  private buildInput(prompt: GroundedPrompt, options: GenerationOptions) {
+    return {
+      modelId: this.modelId,
+      system: [{ text: prompt.system }],
+      messages: [{ role: 'user' as const, content: [{ text: prompt.user }] }],
+      inferenceConfig: {
+        maxTokens: options.maxTokens ?? TEXT_MODEL_MAX_TOKENS,
+        temperature: options.temperature ?? 0.2
+      }
+    }
+  }
+
+  /**
+   * Map AWS SDK errors onto retryable/non-retryable generation errors
+   */
+  private toGenerationError(error: unknown): GenerationError {
+    if (error instanceof GenerationError) {
+      return error
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    const lowerMessage = message.toLowerCase()
+    const cause = error instanceof Error ? error : undefined
+
+    if (lowerMessage.includes('throttling') || lowerMessage.includes('rate limit') || lowerMessage.includes('429')) {
+      return new GenerationError(`AWS Bedrock rate limit exceeded: ${message}`, true, ErrorSeverity.MEDIUM, undefined, cause)
+    }
+
+    if (lowerMessage.includes('unauthorized') || lowerMessage.includes('access denied') || lowerMessage.includes('403')) {
+      return new GenerationError(`AWS Bedrock access denied: ${message}`, false, ErrorSeverity.CRITICAL, undefined, cause)
+    }
+
+    return new GenerationError(`Failed to generate answer: ${message}`, true, ErrorSeverity.HIGH, undefined, cause)
+  }
+}
+
+/**
+ * Deterministic generator for tests and offline development.
+ * Answers by quoting the first sentence of the top passages with their citation markers.
+ */
+export class LocalTextGenerator implements TextGenerator {
+  readonly modelId = 'local-extractive'
+
+  async generate(prompt: GroundedPrompt): Promise<GenerationResult> {
+    return {
+      text: this.compose(prompt),
+      modelId: this.modelId
+    }
+  }
+
+  async *stream(prompt: GroundedPrompt): AsyncIterable<string> {
+    const words = this.compose(prompt).split(' ')
+    for (let i = 0; i < words.length; i++) {
+      yield i < words.length - 1 ? `${words[i]} ` : words[i]
+    }
+  }
+
+  private compose(prompt: GroundedPrompt): string {
+    const passages = Array.from(prompt.user.matchAll(/^\[(\d+)\][^\n]*\n([^\n]+)/gm))
+      .slice(0, 3)
+      .map(([, index, content]) => {
+        const firstSentence = content.trim().match(/^.*?[.!?](\s|$)/)?.[0].trim() ?? content.trim()
+        return `${firstSentence} [${index}]`
+      })
+
+    if (passages.length === 0) {
+      return 'The ingested documentation does not cover this question.'
+    }
+
+    return passages.join(' ')
+  }
+}
+
+/**
+ * Create the text generator selected by TEXT_GENERATION_PROVIDER ('bedrock' by default, or 'local')
+ */
+export function createTextGenerator(provider: string | undefined = process.env.TEXT_GENERATION_PROVIDER): TextGenerator {
+  return provider === 'local' ? new LocalTextGenerator() : new BedrockTextGenerator()
+}
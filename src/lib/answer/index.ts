@@ -0,0 +1,4 @@
+// Export all answer generation functionality
+export { AnswerService } from './service'
+export { BedrockTextGenerator, LocalTextGenerator, createTextGenerator } from './generators'
+export * from './types'
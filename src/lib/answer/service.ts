@@ -0,0 +1,147 @@
+import { EmbeddingService } from '../embed/service'
+import { VectorStore } from '../vector/store'
+import { VectorSearchResult } from '../vector/types'
+import { RerankService } from '../rerank/service'
+import { buildGroundedPrompt } from '../prompt/templates'
+import {
+  AnswerCitation,
+  AnswerOptions,
+  AnswerResult,
+  AnswerStream,
+  TextGenerator
+} from './types'
+import { ErrorContext } from '../errors'
+import { defaultErrorHandler } from '../error-handler'
+import { loggers } from '../logger'
+
+/**
+ * Retrieval-augmented answering: embed the question, retrieve top-k chunks and ask the text model
+ */
+export class AnswerService {
+  private readonly embeddingService: EmbeddingService
+  private readonly vectorStore: VectorStore
+  private readonly generator: TextGenerator
+  private readonly defaultTopK: number
+  private readonly defaultThreshold: number
+  private readonly rerankService?: RerankService
+  private readonly logger = loggers.generator
+
+  constructor(
+    embeddingService: EmbeddingService,
+    vectorStore: VectorStore,
+    generator: TextGenerator,
+    options: { topK?: number; threshold?: number; rerankService?: RerankService } = {}
+  ) {
+    this.embeddingService = embeddingService
+    this.vectorStore = vectorStore
+    this.generator = generator
+    this.defaultTopK = options.topK ?? 5
+    this.defaultThreshold = options.threshold ?? 0.5
+    this.rerankService = options.rerankService
+  }
+
+  /**
+   * Answer a question in one shot
+   */
+  async answer(question: string, options: AnswerOptions = {}): Promise<AnswerResult> {
+    const context = this.createContext('answer', question)
+    const chunks = await this.retrieve(question, options, context)
+    const prompt = buildGroundedPrompt(question, chunks)
+
+    const result = await defaultErrorHandler.executeWithRetry(
+      () => this.generator.generate(prompt, {
+        maxTokens: options.maxTokens,
+        temperature: options.temperature
+      }),
+      context
+    )
+
+    this.logger.info('Answer generated', {
+      modelId: result.modelId,
+      citationCount: chunks.length,
+      usage: result.usage
+    }, context)
+
+    return {
+      answer: result.text.trim(),
+      citations: this.toCitations(chunks),
+      modelId: result.modelId
+    }
+  }
+
+  /**
+   * Answer a question as a stream of text deltas. Citations are resolved before generation starts.
+   */
+  async streamAnswer(question: string, options: AnswerOptions = {}): Promise<AnswerStream> {
+    const context = this.createContext('streamAnswer', question)
+    const chunks = await this.retrieve(question, options, context)
+    const prompt = buildGroundedPrompt(question, chunks)
+
+    return {
+      citations: this.toCitations(chunks),
+      modelId: this.generator.modelId,
+      deltas: this.generator.stream(prompt, {
+        maxTokens: options.maxTokens,
+        temperature: options.temperature
+      })
+    }
+  }
+
+  private async retrieve(
+    question: string,
+    options: AnswerOptions,
+    context: ErrorContext
+  ): Promise<VectorSearchResult[]> {
+    const topK = options.topK ?? this.defaultTopK
+    // Reranking needs a deeper candidate list than the chunks finally cited
+    const rerankService = options.rerank ? this.rerankService : undefined
+
+    const queryEmbedding = await this.embeddingService.embedQuery(question)
+    const candidates = await defaultErrorHandler.executeWithRetry(
+      () => this.vectorStore.search(queryEmbedding, {
+        limit: rerankService ? rerankService.candidateCount(topK) : topK,
+        threshold: options.threshold ?? this.defaultThreshold,
+        mode: options.searchMode,
+        query: question,
+        userId: options.userId,
+        organizationId: options.organizationId,
+        collectionId: options.collectionId,
+        filters: options.filters
+      }),
+      context
+    )
+
+    const chunks = rerankService
+      ? await rerankService.rerank(question, candidates, { limit: topK, diversity: options.diversity })
+      : candidates
+
+    this.logger.debug('Retrieved context chunks', {
+      chunkCount: chunks.length,
+      candidateCount: candidates.length
+    }, context)
+
+    return chunks
+  }
+
+  private toCitations(chunks: VectorSearchResult[]): AnswerCitation[] {
+    return chunks.map((chunk, index) => ({
+      index: index + 1,
+      chunkId: chunk.id,
+      sourceUrl: chunk.sourceUrl,
+      chunkIndex: chunk.chunkIndex,
+      title: chunk.title,
+      section: chunk.section,
+      ...(chunk.headingPath && { headingPath: chunk.headingPath }),
+      similarity: chunk.similarity
+    }))
+  }
+
+  private createContext(operation: string, question: string): ErrorContext {
+    return {
+      component: 'AnswerService',
+      operation,
+      timestamp: new Date(),
+      metadata: { questionLength: question.length }
+    }
+  }
+}
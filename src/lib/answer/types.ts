@@ -0,0 +1,71 @@
+// Answer generation types and interfaces
+
+import { GroundedPrompt } from '../prompt/templates'
+import { SearchMode, VectorSearchFilters } from '../vector/types'
+
+export interface GenerationOptions {
+  maxTokens?: number
+  temperature?: number
+}
+
+export interface GenerationResult {
+  text: string
+  modelId: string
+  usage?: {
+    inputTokens: number
+    outputTokens: number
+  }
+}
+
+/**
+ * A text model that can answer a grounded prompt, either in one shot or as a stream of text deltas
+ */
+export interface TextGenerator {
+  readonly modelId: string
+  generate(prompt: GroundedPrompt, options?: GenerationOptions): Promise<GenerationResult>
+  stream(prompt: GroundedPrompt, options?: GenerationOptions): AsyncIterable<string>
+}
+
+export interface AnswerCitation {
+  index: number
+  chunkId: string
+  sourceUrl: string
+  chunkIndex: number
+  title: string
+  section?: string
+  headingPath?: string[]
+  similarity: number
+}
+
+export interface AnswerOptions {
+  topK?: number
+  threshold?: number
+  // How context chunks are retrieved; defaults to vector similarity
+  searchMode?: SearchMode
+  // Rerank an over-fetched candidate list before picking the top-k chunks
+  rerank?: boolean
+  // With rerank, how strongly to prefer chunks from different pages (0 to 1)
+  diversity?: number
+  maxTokens?: number
+  temperature?: number
+  // Only retrieve chunks ingested by this user
+  userId?: string
+  // Only retrieve chunks shared within this organization
+  organizationId?: string
+  // Only retrieve chunks from this collection
+  collectionId?: string
+  // Only retrieve chunks matching these source and metadata filters
+  filters?: VectorSearchFilters
+}
+
+export interface AnswerResult {
+  answer: string
+  citations: AnswerCitation[]
+  modelId: string
+}
+
+export interface AnswerStream {
+  citations: AnswerCitation[]
+  modelId: string
+  deltas: AsyncIterable<string>
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { ApiKey } from './types'
+
+/**
+ * Serialize an API key for API responses; the key itself is never included
+ */
+export function formatApiKey(apiKey: ApiKey) {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    scopes: apiKey.scopes.map(scope => scope.toLowerCase()),
+    ...(apiKey.organizationId && { organizationId: apiKey.organizationId }),
+    lastUsedAt: apiKey.lastUsedAt?.toISOString() ?? null,
+    expiresAt: apiKey.expiresAt?.toISOString() ?? null,
+    revokedAt: apiKey.revokedAt?.toISOString() ?? null,
+    createdAt: apiKey.createdAt.toISOString()
+  }
+}
+
+export function apiKeyNotFound(keyId: string) {
+  return NextResponse.json({
+    error: 'API key not found',
+    message: `No API key found with ID: ${keyId}`,
+    code: 'API_KEY_NOT_FOUND'
+  }, { status: 404 })
+}
+
+/**
+ * 401 response for a bearer key that is unknown, revoked, expired or not accepted by the endpoint
+ */
+export function invalidApiKeyResponse(message: string = 'The API key is invalid, expired or revoked') {
+  return NextResponse.json({
+    error: 'Unauthorized',
+    message,
+    code: 'INVALID_API_KEY'
+  }, { status: 401 })
+}
@@ -0,0 +1,13 @@
+import { z } from 'zod'
+import { ApiKeyScope } from './types'
+
+// Scopes are lowercase in the API and uppercase in the database
+export const apiKeyScopeSchema = z.enum(['ingest', 'search', 'admin'])
+  .transform(scope => scope.toUpperCase() as ApiKeyScope)
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, { message: 'Name must not be empty' }).max(100),
+  scopes: z.array(apiKeyScopeSchema).min(1, { message: 'At least one scope is required' })
+    .transform(scopes => Array.from(new Set(scopes))),
+  expiresInDays: z.number().int().min(1).max(365).optional()
+})
@@ -0,0 +1,8 @@
+import { ApiKeyScope } from './types'
+
+/**
+ * Whether a key's scopes allow an operation needing `required`; admin keys allow everything
+ */
+export function hasScope(scopes: ApiKeyScope[], required: ApiKeyScope): boolean {
+  return scopes.includes('ADMIN') || scopes.includes(required)
+}
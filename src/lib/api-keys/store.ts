@@ -0,0 +1,143 @@
+import crypto from 'crypto'
+import { prisma } from '../db'
+import { ResourceOwner } from '../types'
+import { StorageError, ErrorSeverity } from '../errors'
+import { ApiKey, ApiKeyScope, CreateApiKeyInput } from './types'
+
+const KEY_PREFIX = 'kio_'
+const KEY_BYTES = 32
+const DISPLAY_PREFIX_LENGTH = 12
+
+/**
+ * Keys are only ever stored hashed; a random 256-bit key needs no salt or slow hash
+ */
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex')
+}
+
+export class ApiKeyStore {
+  /**
+   * Create a key for a user, bound to an organization workspace when the owner names one.
+   * The plain key is returned once and cannot be recovered later.
+   */
+  async create(input: CreateApiKeyInput, owner: ResourceOwner & { userId: string }): Promise<{
+    apiKey: ApiKey
+    key: string
+  }> {
+    return this.run('create API key', async () => {
+      const key = `${KEY_PREFIX}${crypto.randomBytes(KEY_BYTES).toString('base64url')}`
+      const apiKey = await prisma.apiKey.create({
+        data: {
+          name: input.name,
+          prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+          keyHash: hashApiKey(key),
+          scopes: input.scopes,
+          userId: owner.userId,
+          organizationId: owner.organizationId ?? null,
+          expiresAt: input.expiresAt
+        }
+      })
+      return { apiKey: this.toApiKey(apiKey), key }
+    })
+  }
+
+  /**
+   * Keys of a workspace: all of an organization's keys, or the user's personal keys
+   */
+  async list(owner: ResourceOwner & { userId: string }): Promise<ApiKey[]> {
+    return this.run('list API keys', async () => {
+      const apiKeys = await prisma.apiKey.findMany({
+        where: this.workspaceFilter(owner),
+        orderBy: { createdAt: 'desc' }
+      })
+      return apiKeys.map((apiKey: unknown) => this.toApiKey(apiKey))
+    })
+  }
+
+  /**
+   * Revoke a key in the workspace. Revoked keys stay listed so their usage remains visible.
+   */
+  async revoke(id: string, owner: ResourceOwner & { userId: string }): Promise<ApiKey | null> {
+    return this.run('revoke API key', async () => {
+      const existing = await prisma.apiKey.findFirst({
+        where: { id, ...this.workspaceFilter(owner) }
+      })
+      if (!existing) {
+        return null
+      }
+      if (existing.revokedAt) {
+        return this.toApiKey(existing)
+      }
+
+      const apiKey = await prisma.apiKey.update({
+        where: { id },
+        data: { revokedAt: new Date() }
+      })
+      return this.toApiKey(apiKey)
+    })
+  }
+
+  /**
+   * The active key matching a presented key, or null when it is unknown, revoked or expired
+   */
+  async verify(key: string, now: Date = new Date()): Promise<ApiKey | null> {
+    if (!key.startsWith(KEY_PREFIX)) {
+      return null
+    }
+
+    return this.run('verify API key', async () => {
+      const apiKey = await prisma.apiKey.findUnique({
+        where: { keyHash: hashApiKey(key) }
+      })
+      if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= now)) {
+        return null
+      }
+      return this.toApiKey(apiKey)
+    })
+  }
+
+  async recordUsage(id: string, now: Date = new Date()): Promise<void> {
+    await this.run('record API key usage', () => prisma.apiKey.update({
+      where: { id },
+      data: { lastUsedAt: now }
+    }))
+  }
+
+  private workspaceFilter(owner: ResourceOwner & { userId: string }) {
+    return owner.organizationId
+      ? { organizationId: owner.organizationId }
+      : { userId: owner.userId, organizationId: null }
+  }
+
+  private async run<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn()
+    } catch (error) {
+      throw new StorageError(
+        `Failed to ${operation}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        true,
+        ErrorSeverity.MEDIUM,
+        undefined,
+        error instanceof Error ? error : undefined
+      )
+    }
+  }
+
+  private toApiKey(row: any): ApiKey {
+    return {
+      id: row.id,
+      name: row.name,
+      prefix: row.prefix,
+      scopes: (row.scopes || []) as ApiKeyScope[],
+      userId: row.userId,
+      organizationId: row.organizationId || undefined,
+      lastUsedAt: row.lastUsedAt || undefined,
+      expiresAt: row.expiresAt || undefined,
+      revokedAt: row.revokedAt || undefined,
+      createdAt: row.createdAt
+    }
+  }
+}
+
+// Export singleton instance
+export const apiKeyStore = new ApiKeyStore()
@@ -0,0 +1,24 @@
+// Types for API keys used by CI pipelines and bots instead of a session cookie
+
+// ADMIN keys may do everything INGEST and SEARCH keys can
+export type ApiKeyScope = 'INGEST' | 'SEARCH' | 'ADMIN'
+
+export interface ApiKey {
+  id: string
+  name: string
+  // First characters of the key, shown in listings so users can tell keys apart
+  prefix: string
+  scopes: ApiKeyScope[]
+  userId: string
+  organizationId?: string
+  lastUsedAt?: Date
+  expiresAt?: Date
+  revokedAt?: Date
+  createdAt: Date
+}
+
+export interface CreateApiKeyInput {
+  name: string
+  scopes: ApiKeyScope[]
+  expiresAt?: Date
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { ErrorContext } from './errors'
+import { defaultErrorHandler } from './error-handler'
+import { loggers } from './logger'
+
+/**
+ * Map an error to the standard API error response
+ */
+export async function apiErrorResponse(error: unknown, context: ErrorContext, logMessage: string) {
+  const errorResponse = await defaultErrorHandler.handleError(error, context)
+
+  loggers.api.error(logMessage, {
+    error: errorResponse.logMessage,
+    errorCode: errorResponse.errorCode
+  }, context)
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json({
+      error: 'Invalid request data',
+      message: 'Request validation failed',
+      code: 'VALIDATION_ERROR',
+      details: error.issues.map(issue => ({
+        field: issue.path.join('.'),
+        message: issue.message
+      }))
+    }, { status: 400 })
+  }
+
+  const statusCode = errorResponse.severity === 'CRITICAL' ? 500 :
+                    errorResponse.severity === 'HIGH' ? 500 :
+                    errorResponse.canRetry ? 503 : 400
+
+  return NextResponse.json({
+    error: errorResponse.category.toLowerCase().replace('_', ' '),
+    message: errorResponse.userMessage,
+    code: errorResponse.errorCode,
+    retryable: errorResponse.canRetry
+  }, { status: statusCode })
+}
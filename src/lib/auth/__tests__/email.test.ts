@@ -2,7 +2,8 @@ import { describe, it, expect, vi, beforeEach } from "vitest"
 import {
   validateEmail,
   generatePasswordResetEmailTemplate,
-  generateWelcomeEmailTemplate
+  generateWelcomeEmailTemplate,
+  generateInvitationEmailTemplate
 } from "../email"
 
 // Mock environment variables for tests
@@ -94,4 +95,20 @@ describe("Email utilities", () => {
       expect(html).toContain("Get Started")
     })
   })
-})
\ No newline at end of file
+  describe("generateInvitationEmailTemplate", () => {
+    it("should include the accept URL with token and the invited role", () => {
+      const html = generateInvitationEmailTemplate("Docs Team", "EDITOR", "invite-token-123")
+      
+      expect(html).toContain("Join Docs Team")
+      expect(html).toContain("as an editor")
+      expect(html).toContain("http://localhost:3000/invitations/accept?token=invite-token-123")
+    })
+
+    it("should escape the organization name", () => {
+      const html = generateInvitationEmailTemplate("<script>alert(1)</script>", "VIEWER", "token")
+      
+      expect(html).not.toContain("<script>")
+      expect(html).toContain("&lt;script&gt;")
+    })
+  })
+})
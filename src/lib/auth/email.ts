@@ -191,4 +191,91 @@ export async function sendWelcomeEmail(email: string, name?: string) {
     subject: "Welcome to the Platform!",
     html,
   })
-}
\ No newline at end of file
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
+
+/**
+ * Generate organization invitation email template
+ */
+export function generateInvitationEmailTemplate(
+  organizationName: string,
+  role: string,
+  invitationToken: string
+): string {
+  const acceptUrl = `${process.env.NEXTAUTH_URL}/invitations/accept?token=${invitationToken}`
+  const safeName = escapeHtml(organizationName)
+  const safeRole = escapeHtml(role.toLowerCase())
+  
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>You're invited to join ${safeName}</title>
+    </head>
+    <body style="margin: 0; padding: 0; font-family: Arial, sans-serif; background-color: #f5f5f5;">
+      <div style="max-width: 600px; margin: 0 auto; background-color: white; padding: 40px 20px;">
+        <div style="text-align: center; margin-bottom: 30px;">
+          <h1 style="color: #333; margin: 0; font-size: 24px;">Join ${safeName}</h1>
+        </div>
+        
+        <div style="margin-bottom: 30px;">
+          <p style="color: #666; line-height: 1.6; margin: 0 0 20px 0;">
+            You have been invited to join the ${safeName} workspace as ${/^[aeiou]/.test(safeRole) ? "an" : "a"} ${safeRole}. Click the button below to accept:
+          </p>
+        </div>
+        
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${acceptUrl}" 
+             style="background-color: #007cba; color: white; padding: 14px 28px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: 600; font-size: 16px;">
+            Accept Invitation
+          </a>
+        </div>
+        
+        <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #eee;">
+          <p style="color: #999; font-size: 14px; line-height: 1.6; margin: 0 0 10px 0;">
+            <strong>Important:</strong> This invitation will expire in 7 days and can only be accepted by the account registered to this email address.
+          </p>
+          <p style="color: #999; font-size: 14px; line-height: 1.6; margin: 0;">
+            If you weren't expecting this invitation, you can safely ignore this email.
+          </p>
+        </div>
+        
+        <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #eee;">
+          <p style="color: #999; font-size: 12px; line-height: 1.4; margin: 0;">
+            If the button doesn't work, copy and paste this link into your browser:<br>
+            <span style="word-break: break-all;">${acceptUrl}</span>
+          </p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `
+}
+
+/**
+ * Send an invitation to join an organization
+ */
+export async function sendInvitationEmail(
+  email: string,
+  organizationName: string,
+  role: string,
+  invitationToken: string
+) {
+  const html = generateInvitationEmailTemplate(organizationName, role, invitationToken)
+  
+  return sendEmail({
+    to: email,
+    subject: `You're invited to join ${organizationName}`,
+    html,
+  })
+}
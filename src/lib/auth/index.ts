@@ -14,8 +14,10 @@ export {
   validateEmail,
   sendPasswordResetEmail,
   sendWelcomeEmail,
+  sendInvitationEmail,
   generatePasswordResetEmailTemplate,
-  generateWelcomeEmailTemplate
+  generateWelcomeEmailTemplate,
+  generateInvitationEmailTemplate
 } from "./email"
 
 // Validation utilities
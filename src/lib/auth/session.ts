@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { auth } from '../auth'
+
+/**
+ * Id of the signed-in user making the current request, or null when there is no session
+ */
+export async function getSessionUserId(): Promise<string | null> {
+  const session = await auth()
+  return session?.user?.id ?? null
+}
+
+/**
+ * Id and email of the signed-in user, or null when there is no session
+ */
+export async function getSessionUser(): Promise<{ id: string; email?: string } | null> {
+  const session = await auth()
+  if (!session?.user?.id) {
+    return null
+  }
+  return { id: session.user.id, email: session.user.email ?? undefined }
+}
+
+/**
+ * 401 response for API routes called without a session
+ */
+export function unauthorizedResponse(): NextResponse {
+  return NextResponse.json({
+    error: 'Unauthorized',
+    message: 'Authentication required',
+    code: 'UNAUTHORIZED'
+  }, { status: 401 })
+}
@@ -20,4 +20,9 @@ export const bedrockRuntimeClient = new BedrockRuntimeClient({
 
 // Embedding model configuration
 export const EMBEDDING_MODEL_ID = 'amazon.titan-embed-text-v1'
-export const EMBEDDING_DIMENSIONS = 1536
\ No newline at end of file
+export const EMBEDDING_DIMENSIONS = 1536
+// Text generation model configuration
+export const TEXT_MODEL_ID = process.env.BEDROCK_TEXT_MODEL_ID || 'anthropic.claude-3-haiku-20240307-v1:0'
+export const TEXT_MODEL_MAX_TOKENS = 1024
+// Rerank model configuration
+export const RERANK_MODEL_ID = process.env.BEDROCK_RERANK_MODEL_ID || 'cohere.rerank-v3-5:0'
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { Collection } from './types'
+
+/**
+ * Serialize a collection for API responses
+ */
+export function formatCollection(collection: Collection) {
+  return {
+    id: collection.id,
+    name: collection.name,
+    ...(collection.description && { description: collection.description }),
+    createdAt: collection.createdAt.toISOString(),
+    updatedAt: collection.updatedAt.toISOString()
+  }
+}
+
+/**
+ * 404 response for a collection that does not exist or belongs to another user
+ */
+export function collectionNotFound(collectionId: string) {
+  return NextResponse.json({
+    error: 'Collection not found',
+    message: `No collection found with ID: ${collectionId}`,
+    code: 'COLLECTION_NOT_FOUND'
+  }, { status: 404 })
+}
@@ -0,0 +1,6 @@
+import { z } from 'zod'
+
+export const createCollectionSchema = z.object({
+  name: z.string().trim().min(1, { message: 'Name must not be empty' }).max(100),
+  description: z.string().trim().max(500).optional()
+})
@@ -0,0 +1,108 @@
+import { prisma } from '../db'
+import { ResourceOwner } from '../types'
+import { StorageError, ErrorSeverity } from '../errors'
+import { ownerColumns, ownerFilter } from '../organizations/owner'
+import { Collection, CreateCollectionInput } from './types'
+
+export class CollectionStore {
+  async create(input: CreateCollectionInput, owner?: ResourceOwner): Promise<Collection> {
+    return this.run('create collection', async () => {
+      const collection = await prisma.collection.create({
+        data: {
+          name: input.name,
+          description: input.description,
+          ...ownerColumns(owner)
+        }
+      })
+      return this.toCollection(collection)
+    })
+  }
+
+  /**
+   * Get a collection; when an owner is given, collections owned by anyone else are not found
+   */
+  async get(id: string, owner?: ResourceOwner): Promise<Collection | null> {
+    return this.run('get collection', async () => {
+      const collection = await prisma.collection.findFirst({
+        where: { id, ...ownerFilter(owner) }
+      })
+      return collection ? this.toCollection(collection) : null
+    })
+  }
+
+  async findByName(name: string, owner?: ResourceOwner): Promise<Collection | null> {
+    return this.run('find collection', async () => {
+      // Names are unique per owner, so match the exact owner columns a new collection would get
+      const collection = await prisma.collection.findFirst({
+        where: { name, ...ownerColumns(owner) }
+      })
+      return collection ? this.toCollection(collection) : null
+    })
+  }
+
+  async list(options: { owner?: ResourceOwner; limit?: number; offset?: number } = {}): Promise<{
+    collections: Collection[]
+    total: number
+  }> {
+    const { owner, limit = 50, offset = 0 } = options
+    const where = ownerFilter(owner)
+
+    return this.run('list collections', async () => {
+      const [collections, total] = await Promise.all([
+        prisma.collection.findMany({
+          where,
+          skip: offset,
+          take: limit,
+          orderBy: { name: 'asc' }
+        }),
+        prisma.collection.count({ where })
+      ])
+
+      return {
+        collections: collections.map((collection: unknown) => this.toCollection(collection)),
+        total
+      }
+    })
+  }
+
+  /**
+   * Delete a collection together with its chunks; jobs that ingested into it are kept
+   */
+  async delete(id: string, owner?: ResourceOwner): Promise<boolean> {
+    return this.run('delete collection', async () => {
+      const result = await prisma.collection.deleteMany({
+        where: { id, ...ownerFilter(owner) }
+      })
+      return result.count > 0
+    })
+  }
+
+  private async run<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn()
+    } catch (error) {
+      throw new StorageError(
+        `Failed to ${operation}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        true,
+        ErrorSeverity.MEDIUM,
+        undefined,
+        error instanceof Error ? error : undefined
+      )
+    }
+  }
+
+  private toCollection(row: any): Collection {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description || undefined,
+      userId: row.userId || undefined,
+      organizationId: row.organizationId || undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt
+    }
+  }
+}
+
+// Export singleton instance
+export const collectionStore = new CollectionStore()
@@ -0,0 +1,16 @@
+// Types for collections that group ingested documents into separately searchable sets
+
+export interface Collection {
+  id: string
+  name: string
+  description?: string
+  userId?: string
+  organizationId?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface CreateCollectionInput {
+  name: string
+  description?: string
+}
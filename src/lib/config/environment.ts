@@ -40,6 +40,15 @@ const environmentSchema = z.object({
   AWS_ACCESS_KEY_ID: z.string().min(1, 'AWS_ACCESS_KEY_ID is required'),
   AWS_SECRET_ACCESS_KEY: z.string().min(1, 'AWS_SECRET_ACCESS_KEY is required'),
 
+  // Embedding provider - dimensions must match the vector column in the database
+  EMBEDDING_PROVIDER: z.enum(['bedrock-titan', 'bedrock-cohere', 'openai', 'local']).default('bedrock-titan'),
+  EMBEDDING_MODEL_ID: z.string().optional(),
+  EMBEDDING_DIMENSIONS: z.string().regex(/^\d+$/, 'EMBEDDING_DIMENSIONS must be an integer').transform(Number).optional(),
+  EMBEDDING_API_URL: z.string().url('EMBEDDING_API_URL must be a valid URL').optional(),
+  EMBEDDING_API_KEY: z.string().optional(),
+  // Not parseBoolean: Zod 4 returns a default without running the transform, so its 'false' default stays a truthy string
+  EMBEDDING_INCLUDE_HEADING_PATH: z.string().optional().transform(val => val === 'true'),
+
   // Inngest Configuration
   INNGEST_EVENT_KEY: z.string().min(1, 'INNGEST_EVENT_KEY is required'),
   INNGEST_SIGNING_KEY: z.string().min(1, 'INNGEST_SIGNING_KEY is required'),
@@ -135,6 +144,18 @@ function createAwsConfig() {
   } as const
 }
 
+// Embedding provider configuration factory
+function createEmbeddingConfig() {
+  return {
+    provider: env.EMBEDDING_PROVIDER,
+    modelId: env.EMBEDDING_MODEL_ID,
+    dimensions: env.EMBEDDING_DIMENSIONS,
+    apiUrl: env.EMBEDDING_API_URL,
+    apiKey: env.EMBEDDING_API_KEY,
+    includeHeadingPath: env.EMBEDDING_INCLUDE_HEADING_PATH,
+  } as const
+}
+
 // Inngest configuration factory
 function createInngestConfig() {
   return {
@@ -213,6 +234,7 @@ function createDeploymentConfig() {
 // Export configuration objects (lazy-loaded for better performance)
 export const databaseConfig = createDatabaseConfig()
 export const awsConfig = createAwsConfig()
+export const embeddingConfig = createEmbeddingConfig()
 export const inngestConfig = createInngestConfig()
 export const monitoringConfig = createMonitoringConfig()
 export const performanceConfig = createPerformanceConfig()
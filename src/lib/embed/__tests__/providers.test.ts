@@ -0,0 +1,327 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime'
+import {
+  BedrockTitanProvider,
+  BedrockCohereProvider,
+  OpenAICompatibleProvider,
+  LocalHashingProvider,
+  createEmbeddingProvider
+} from '../providers'
+import { EmbeddingService } from '../service'
+import { EmbeddingProvider } from '../types'
+import { DocumentChunk } from '../../types'
+import { EmbeddingError } from '../../errors'
+
+vi.mock('@aws-sdk/client-bedrock-runtime', () => ({
+  InvokeModelCommand: vi.fn(),
+}))
+
+vi.mock('../../aws-config', () => ({
+  bedrockRuntimeClient: {
+    send: vi.fn(),
+  },
+  EMBEDDING_MODEL_ID: 'amazon.titan-embed-text-v1',
+  EMBEDDING_DIMENSIONS: 1536,
+}))
+
+// Mock fetch for testing
+global.fetch = vi.fn()
+
+const bedrockResponse = (body: unknown) => ({
+  body: new TextEncoder().encode(JSON.stringify(body))
+})
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0)
+
+describe('Embedding providers', () => {
+  const client = { send: vi.fn() }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('BedrockTitanProvider', () => {
+    it('should send inputText only for Titan v1', async () => {
+      client.send.mockResolvedValue(bedrockResponse({ embedding: [0.1, 0.2] }))
+      const provider = new BedrockTitanProvider({}, client as any)
+
+      const embedding = await provider.embed('hello')
+
+      expect(embedding).toEqual([0.1, 0.2])
+      expect(provider.modelId).toBe('amazon.titan-embed-text-v1')
+      expect(provider.dimensions).toBe(1536)
+      expect(InvokeModelCommand).toHaveBeenCalledWith(expect.objectContaining({
+        modelId: 'amazon.titan-embed-text-v1',
+        body: JSON.stringify({ inputText: 'hello' })
+      }))
+    })
+
+    it('should request normalized vectors of the configured size for Titan v2', async () => {
+      client.send.mockResolvedValue(bedrockResponse({ embedding: [0.1] }))
+      const provider = new BedrockTitanProvider({ modelId: 'amazon.titan-embed-text-v2:0', dimensions: 512 }, client as any)
+
+      await provider.embed('hello')
+
+      expect(InvokeModelCommand).toHaveBeenCalledWith(expect.objectContaining({
+        body: JSON.stringify({ inputText: 'hello', dimensions: 512, normalize: true })
+      }))
+    })
+
+    it('should reject dimensions Titan v2 does not support', () => {
+      expect(() => new BedrockTitanProvider({ modelId: 'amazon.titan-embed-text-v2:0', dimensions: 1536 }))
+        .toThrow(EmbeddingError)
+    })
+
+    it('should map throttling to a retryable error', async () => {
+      client.send.mockRejectedValue(new Error('ThrottlingException: Rate exceeded'))
+      const provider = new BedrockTitanProvider({}, client as any)
+
+      await expect(provider.embed('hello')).rejects.toMatchObject({
+        retryable: true,
+        message: expect.stringContaining('AWS Bedrock rate limit exceeded')
+      })
+    })
+  })
+
+  describe('BedrockCohereProvider', () => {
+    it('should use the search_query input type for queries', async () => {
+      client.send.mockResolvedValue(bedrockResponse({ embeddings: [[0.3, 0.4]] }))
+      const provider = new BedrockCohereProvider({}, client as any)
+
+      const embedding = await provider.embed('how do I authenticate?', 'query')
+
+      expect(embedding).toEqual([0.3, 0.4])
+      expect(provider.dimensions).toBe(1024)
+      expect(InvokeModelCommand).toHaveBeenCalledWith(expect.objectContaining({
+        modelId: 'cohere.embed-english-v3',
+        body: JSON.stringify({ texts: ['how do I authenticate?'], input_type: 'search_query', truncate: 'END' })
+      }))
+    })
+
+    it('should accept typed embeddings and reject malformed responses', async () => {
+      const provider = new BedrockCohereProvider({}, client as any)
+
+      client.send.mockResolvedValueOnce(bedrockResponse({ embeddings: { float: [[0.3], [0.4]] } }))
+      expect(await provider.embedBatch(['a', 'b'])).toEqual([[0.3], [0.4]])
+
+      client.send.mockResolvedValueOnce(bedrockResponse({ embeddings: [[0.3]] }))
+      await expect(provider.embedBatch(['a', 'b'])).rejects.toThrow('No embedding found in response')
+
+      client.send.mockResolvedValueOnce(bedrockResponse({ embeddings: [['0.3']] }))
+      await expect(provider.embed('a')).rejects.toThrow('No embedding found in response')
+    })
+  })
+
+  describe('OpenAICompatibleProvider', () => {
+    it('should call the /embeddings endpoint with the API key', async () => {
+      vi.mocked(fetch).mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: async () => ({ data: [{ embedding: [0.5, 0.6] }] })
+      } as Response)
+      const provider = new OpenAICompatibleProvider({ apiUrl: 'http://localhost:11434/v1/', apiKey: 'sk-test' })
+
+      const embedding = await provider.embed('hello')
+
+      expect(embedding).toEqual([0.5, 0.6])
+      const [url, init] = vi.mocked(fetch).mock.calls[0]
+      expect(url).toBe('http://localhost:11434/v1/embeddings')
+      expect((init?.headers as Record<string, string>).Authorization).toBe('Bearer sk-test')
+      expect(JSON.parse(init?.body as string)).toEqual({ model: 'text-embedding-3-small', input: ['hello'] })
+    })
+
+    it('should treat authentication failures as non-retryable', async () => {
+      vi.mocked(fetch).mockResolvedValue({
+        ok: false,
+        status: 401,
+        text: async () => 'invalid api key'
+      } as Response)
+      const provider = new OpenAICompatibleProvider({ apiUrl: 'https://api.example.com/v1' })
+
+      await expect(provider.embed('hello')).rejects.toMatchObject({ retryable: false })
+    })
+  })
+
+  describe('LocalHashingProvider', () => {
+    it('should produce deterministic unit vectors', async () => {
+      const provider = new LocalHashingProvider()
+
+      const first = await provider.embed('Refresh tokens never expire')
+      const second = await provider.embed('Refresh tokens never expire')
+
+      expect(first).toHaveLength(1536)
+      expect(first).toEqual(second)
+      expect(cosine(first, first)).toBeCloseTo(1)
+    })
+
+    it('should score overlapping texts as more similar', async () => {
+      const provider = new LocalHashingProvider({ dimensions: 256 })
+
+      const query = await provider.embed('refresh token expiry')
+      const related = await provider.embed('How refresh token expiry works')
+      const unrelated = await provider.embed('Webhooks are retried five times')
+
+      expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated))
+    })
+  })
+
+  describe('createEmbeddingProvider', () => {
+    it('should build the configured provider', () => {
+      expect(createEmbeddingProvider({ provider: 'local' })).toBeInstanceOf(LocalHashingProvider)
+      expect(createEmbeddingProvider({ provider: 'bedrock-cohere' })).toBeInstanceOf(BedrockCohereProvider)
+      expect(createEmbeddingProvider({ provider: 'bedrock-titan', modelId: 'amazon.titan-embed-text-v2:0' }).dimensions)
+        .toBe(1024)
+    })
+
+    it('should require an API URL for the openai provider', () => {
+      expect(() => createEmbeddingProvider({ provider: 'openai' })).toThrow('EMBEDDING_API_URL is required')
+    })
+  })
+
+  describe('EmbeddingService with a provider', () => {
+    it('should embed queries with the query input type and validate provider dimensions', async () => {
+      const provider = new LocalHashingProvider({ dimensions: 64 })
+      const embedSpy = vi.spyOn(provider, 'embed')
+      const service = new EmbeddingService({ provider })
+
+      const embedding = await service.embedQuery('refresh tokens')
+
+      expect(embedding).toHaveLength(64)
+      expect(embedSpy).toHaveBeenCalledWith('refresh tokens', 'query')
+      expect(service.getConfiguration()).toMatchObject({
+        provider: 'local',
+        modelId: 'local-hashing',
+        dimensions: 64
+      })
+    })
+
+    it('should send one request per batch to providers that accept multiple inputs', async () => {
+      const provider: EmbeddingProvider = {
+        name: 'batching',
+        modelId: 'batching-model',
+        dimensions: 3,
+        maxBatchSize: 4,
+        embed: vi.fn(),
+        embedBatch: vi.fn(async (texts: string[]) => texts.map(() => [0.1, 0.2, 0.3]))
+      }
+      const service = new EmbeddingService({ provider, batchSize: 10, requestsPerSecond: 1000 })
+
+      const chunks: DocumentChunk[] = Array.from({ length: 10 }, (_, i) => ({
+        id: `chunk-${i}`,
+        content: `Test content ${i}`,
+        metadata: {
+          sourceUrl: 'https://example.com',
+          title: 'Test Document',
+          chunkIndex: i,
+        },
+        tokenCount: 10,
+      }))
+
+      const result = await service.generateEmbeddings(chunks)
+
+      expect(result).toHaveLength(10)
+      expect(provider.embed).not.toHaveBeenCalled()
+      // 10 texts split by the provider's limit of 4: 4 + 4 + 2
+      expect(provider.embedBatch).toHaveBeenCalledTimes(3)
+      expect(vi.mocked(provider.embedBatch!).mock.calls[2][0]).toEqual(['Test content 8', 'Test content 9'])
+    })
+
+    it('should default the batch size to the provider\'s request limit', () => {
+      const batchSize = (provider: EmbeddingProvider) => new EmbeddingService({ provider }).getConfiguration().batchSize
+
+      expect(batchSize(new BedrockCohereProvider({}, client as any))).toBe(96)
+      expect(batchSize(new OpenAICompatibleProvider({ apiUrl: 'https://api.example.com/v1' }))).toBe(2048)
+      // Single-input models keep a small batch and rely on parallel requests
+      expect(batchSize(new BedrockTitanProvider({}, client as any))).toBe(10)
+    })
+
+    it('should embed batches in parallel up to the concurrency limit, keeping chunk order', async () => {
+      let inFlight = 0
+      let maxInFlight = 0
+      const provider: EmbeddingProvider = {
+        name: 'batching',
+        modelId: 'batching-model',
+        dimensions: 1,
+        maxBatchSize: 2,
+        embed: vi.fn(),
+        embedBatch: vi.fn(async (texts: string[]) => {
+          inFlight++
+          maxInFlight = Math.max(maxInFlight, inFlight)
+          await new Promise(resolve => setTimeout(resolve, 5))
+          inFlight--
+          return texts.map(() => [0.1])
+        })
+      }
+      const service = new EmbeddingService({ provider, concurrency: 2, requestsPerSecond: 1000 })
+
+      const chunks: DocumentChunk[] = Array.from({ length: 7 }, (_, i) => ({
+        id: `chunk-${i}`,
+        content: `Test content ${i}`,
+        metadata: { sourceUrl: 'https://example.com', title: 'Test Document', chunkIndex: i },
+        tokenCount: 10,
+      }))
+
+      const result = await service.generateEmbeddings(chunks)
+
+      expect(result.map(chunk => chunk.id)).toEqual(chunks.map(chunk => chunk.id))
+      expect(provider.embedBatch).toHaveBeenCalledTimes(4)
+      expect(maxInFlight).toBe(2)
+    })
+
+    it('should prefix chunks with their heading path when configured', async () => {
+      const provider = new LocalHashingProvider({ dimensions: 8 })
+      const embedSpy = vi.spyOn(provider, 'embedBatch')
+      const service = new EmbeddingService({ provider, includeHeadingPath: true, requestsPerSecond: 1000 })
+
+      await service.generateEmbeddings([
+        {
+          id: 'chunk-1',
+          content: 'They never expire.',
+          metadata: {
+            sourceUrl: 'https://example.com',
+            title: 'Auth Guide',
+            chunkIndex: 0,
+            headingPath: ['Auth', 'OAuth', 'Refresh tokens']
+          },
+          tokenCount: 4,
+        },
+        {
+          id: 'chunk-2',
+          content: 'Intro without headings.',
+          metadata: { sourceUrl: 'https://example.com', title: 'Auth Guide', chunkIndex: 1 },
+          tokenCount: 3,
+        }
+      ])
+
+      expect(embedSpy).toHaveBeenCalledWith(
+        ['Auth > OAuth > Refresh tokens\n\nThey never expire.', 'Intro without headings.'],
+        'document'
+      )
+    })
+
+    it('should cap concurrent requests for single-input providers', async () => {
+      let inFlight = 0
+      let maxInFlight = 0
+      const provider: EmbeddingProvider = {
+        name: 'single',
+        modelId: 'single-model',
+        dimensions: 3,
+        maxBatchSize: 1,
+        embed: vi.fn(async () => {
+          inFlight++
+          maxInFlight = Math.max(maxInFlight, inFlight)
+          await new Promise(resolve => setTimeout(resolve, 5))
+          inFlight--
+          return [0.1, 0.2, 0.3]
+        })
+      }
+      const service = new EmbeddingService({ provider, concurrency: 2, requestsPerSecond: 1000 })
+
+      const result = await service.batchEmbed(['a', 'b', 'c', 'd', 'e'])
+
+      expect(result).toHaveLength(5)
+      expect(provider.embed).toHaveBeenCalledTimes(5)
+      expect(maxInFlight).toBe(2)
+    })
+  })
+})
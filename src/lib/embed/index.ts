@@ -1,3 +1,4 @@
 // Export all embedding-related functionality
 export * from './service'
+export * from './providers'
 export * from './types'
\ No newline at end of file
@@ -0,0 +1,372 @@
+import { InvokeModelCommand, BedrockRuntimeClient } from '@aws-sdk/client-bedrock-runtime'
+import { bedrockRuntimeClient, EMBEDDING_MODEL_ID, EMBEDDING_DIMENSIONS } from '../aws-config'
+import {
+  EmbeddingInputType,
+  EmbeddingProvider,
+  EmbeddingProviderConfig
+} from './types'
+import { EmbeddingError, ErrorSeverity } from '../errors'
+
+const TITAN_V2_DIMENSIONS = [256, 512, 1024]
+const TITAN_MAX_INPUT_TOKENS = 8192
+const COHERE_MODEL_ID = 'cohere.embed-english-v3'
+const COHERE_DIMENSIONS = 1024
+const COHERE_MAX_BATCH_SIZE = 96
+const COHERE_MAX_INPUT_TOKENS = 512
+const OPENAI_MAX_BATCH_SIZE = 2048
+const OPENAI_MODEL_ID = 'text-embedding-3-small'
+const OPENAI_MAX_INPUT_TOKENS = 8191
+
+/**
+ * Invoke a Bedrock embedding model and parse its JSON response; each provider narrows the body it expects
+ */
+async function invokeBedrockModel(
+  client: BedrockRuntimeClient,
+  modelId: string,
+  body: Record<string, unknown>
+): Promise<unknown> {
+  try {
+    const response = await client.send(new InvokeModelCommand({
+      modelId,
+      contentType: 'application/json',
+      accept: 'application/json',
+      body: JSON.stringify(body),
+    }))
+
+    if (!response.body) {
+      throw new EmbeddingError(
+        'Empty response body from AWS Bedrock',
+        true,
+        ErrorSeverity.HIGH
+      )
+    }
+
+    try {
+      return JSON.parse(new TextDecoder().decode(response.body))
+    } catch (parseError) {
+      throw new EmbeddingError(
+        'Failed to parse response from AWS Bedrock',
+        true,
+        ErrorSeverity.HIGH,
+        undefined,
+        parseError as Error
+      )
+    }
+  } catch (error) {
+    throw toBedrockEmbeddingError(error)
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isEmbedding(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every(component => typeof component === 'number')
+}
+
+/**
+ * Embeddings from a response whose vectors must line up with the input texts
+ */
+function toEmbeddings(value: unknown, count: number): number[][] {
+  if (!Array.isArray(value) || value.length !== count || !value.every(isEmbedding)) {
+    throw new EmbeddingError(
+      'No embedding found in response',
+      true,
+      ErrorSeverity.HIGH
+    )
+  }
+  return value
+}
+
+/**
+ * Map AWS SDK failures onto retryable/non-retryable embedding errors
+ */
+function toBedrockEmbeddingError(error: unknown): EmbeddingError {
+  if (error instanceof EmbeddingError) {
+    return error
+  }
+
+  if (error instanceof Error) {
+    const message = error.message.toLowerCase()
+
+    if (message.includes('throttling') || message.includes('rate limit') || message.includes('429')) {
+      return new EmbeddingError(
+        `AWS Bedrock rate limit exceeded: ${error.message}`,
+        true,
+        ErrorSeverity.MEDIUM,
+        undefined,
+        error
+      )
+    }
+
+    if (message.includes('timeout') || message.includes('network') || message.includes('connection')) {
+      return new EmbeddingError(
+        `Network error calling AWS Bedrock: ${error.message}`,
+        true,
+        ErrorSeverity.MEDIUM,
+        undefined,
+        error
+      )
+    }
+
+    if (message.includes('unauthorized') || message.includes('access denied') || message.includes('403')) {
+      return new EmbeddingError(
+        `AWS Bedrock access denied: ${error.message}`,
+        false,
+        ErrorSeverity.CRITICAL,
+        undefined,
+        error
+      )
+    }
+  }
+
+  return new EmbeddingError(
+    `Failed to generate embedding: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    true,
+    ErrorSeverity.HIGH,
+    undefined,
+    error as Error
+  )
+}
+
+/**
+ * Amazon Titan text embeddings on Bedrock (v1 and v2)
+ */
+export class BedrockTitanProvider implements EmbeddingProvider {
+  readonly name = 'bedrock-titan'
+  readonly modelId: string
+  readonly dimensions: number
+  // Titan only accepts a single inputText per request
+  readonly maxBatchSize = 1
+  readonly maxInputTokens = TITAN_MAX_INPUT_TOKENS
+  private readonly isV2: boolean
+  private readonly client: BedrockRuntimeClient
+
+  constructor(
+    options: { modelId?: string; dimensions?: number } = {},
+    client: BedrockRuntimeClient = bedrockRuntimeClient
+  ) {
+    this.modelId = options.modelId ?? EMBEDDING_MODEL_ID
+    this.isV2 = this.modelId.includes('titan-embed-text-v2')
+    this.dimensions = options.dimensions ?? (this.isV2 ? 1024 : EMBEDDING_DIMENSIONS)
+    this.client = client
+
+    if (this.isV2 && !TITAN_V2_DIMENSIONS.includes(this.dimensions)) {
+      throw new EmbeddingError(
+        `Titan v2 supports ${TITAN_V2_DIMENSIONS.join(', ')} dimensions, got ${this.dimensions}`,
+        false,
+        ErrorSeverity.CRITICAL
+      )
+    }
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const body = this.isV2
+      ? { inputText: text, dimensions: this.dimensions, normalize: true }
+      : { inputText: text }
+
+    const responseBody = await invokeBedrockModel(this.client, this.modelId, body)
+
+    // Responses are { embedding: number[], inputTextTokenCount: number }
+    const [embedding] = toEmbeddings(isObject(responseBody) ? [responseBody.embedding] : undefined, 1)
+    return embedding
+  }
+}
+
+/**
+ * Cohere Embed v3 on Bedrock. Documents and queries are embedded with different input types.
+ */
+export class BedrockCohereProvider implements EmbeddingProvider {
+  readonly name = 'bedrock-cohere'
+  readonly modelId: string
+  readonly dimensions: number
+  readonly maxBatchSize = COHERE_MAX_BATCH_SIZE
+  readonly maxInputTokens = COHERE_MAX_INPUT_TOKENS
+  private readonly client: BedrockRuntimeClient
+
+  constructor(
+    options: { modelId?: string; dimensions?: number } = {},
+    client: BedrockRuntimeClient = bedrockRuntimeClient
+  ) {
+    this.modelId = options.modelId ?? COHERE_MODEL_ID
+    this.dimensions = options.dimensions ?? COHERE_DIMENSIONS
+    this.client = client
+  }
+
+  async embed(text: string, inputType: EmbeddingInputType = 'document'): Promise<number[]> {
+    const [embedding] = await this.embedBatch([text], inputType)
+    return embedding
+  }
+
+  async embedBatch(texts: string[], inputType: EmbeddingInputType = 'document'): Promise<number[][]> {
+    const responseBody = await invokeBedrockModel(this.client, this.modelId, {
+      texts,
+      input_type: inputType === 'query' ? 'search_query' : 'search_document',
+      truncate: 'END',
+    })
+
+    // Responses are either { embeddings: number[][] } or { embeddings: { float: number[][] } }
+    const embeddings = isObject(responseBody) ? responseBody.embeddings : undefined
+    return toEmbeddings(isObject(embeddings) ? embeddings.float : embeddings, texts.length)
+  }
+}
+
+/**
+ * Any endpoint implementing the OpenAI embeddings API (OpenAI, Azure OpenAI proxies, vLLM, Ollama, ...)
+ */
+export class OpenAICompatibleProvider implements EmbeddingProvider {
+  readonly name = 'openai'
+  readonly modelId: string
+  readonly dimensions: number
+  readonly maxBatchSize = OPENAI_MAX_BATCH_SIZE
+  readonly maxInputTokens = OPENAI_MAX_INPUT_TOKENS
+  private readonly apiUrl: string
+  private readonly apiKey?: string
+  private readonly sendDimensions: boolean
+
+  constructor(options: { apiUrl: string; apiKey?: string; modelId?: string; dimensions?: number }) {
+    this.apiUrl = options.apiUrl.replace(/\/+$/, '')
+    this.apiKey = options.apiKey
+    this.modelId = options.modelId ?? OPENAI_MODEL_ID
+    this.dimensions = options.dimensions ?? EMBEDDING_DIMENSIONS
+    // Only ask for reduced dimensions when explicitly configured; not every server supports it
+    this.sendDimensions = options.dimensions !== undefined
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const [embedding] = await this.embedBatch([text])
+    return embedding
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    let response: Response
+    try {
+      response = await fetch(`${this.apiUrl}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
+        },
+        body: JSON.stringify({
+          model: this.modelId,
+          input: texts,
+          ...(this.sendDimensions && { dimensions: this.dimensions }),
+        }),
+        signal: AbortSignal.timeout(30000),
+      })
+    } catch (error) {
+      throw new EmbeddingError(
+        `Network error calling embedding endpoint: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        true,
+        ErrorSeverity.MEDIUM,
+        undefined,
+        error as Error
+      )
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '')
+      const message = `Embedding endpoint returned HTTP ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`
+
+      if (response.status === 429) {
+        throw new EmbeddingError(message, true, ErrorSeverity.MEDIUM)
+      }
+      if (response.status === 401 || response.status === 403) {
+        throw new EmbeddingError(message, false, ErrorSeverity.CRITICAL)
+      }
+      throw new EmbeddingError(message, response.status >= 500, ErrorSeverity.HIGH)
+    }
+
+    const responseBody: unknown = await response.json().catch(() => null)
+    const data = isObject(responseBody) && Array.isArray(responseBody.data)
+      ? responseBody.data.filter(isObject)
+      : undefined
+
+    // Results carry their input index; not every server returns them in order
+    const sorted = data?.sort((a, b) => Number(a.index ?? 0) - Number(b.index ?? 0))
+    return toEmbeddings(sorted?.map(item => item.embedding), texts.length)
+  }
+}
+
+/**
+ * Deterministic feature-hashing embeddings for offline development and tests.
+ * Texts sharing words get similar vectors; no network or credentials required.
+ */
+export class LocalHashingProvider implements EmbeddingProvider {
+  readonly name = 'local'
+  readonly modelId = 'local-hashing'
+  readonly dimensions: number
+  readonly maxBatchSize = Number.MAX_SAFE_INTEGER
+
+  constructor(options: { dimensions?: number } = {}) {
+    this.dimensions = options.dimensions ?? EMBEDDING_DIMENSIONS
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(this.dimensions).fill(0)
+    const tokens = text.toLowerCase().split(/[^a-z0-9\u00c0-\uffff]+/).filter(Boolean)
+
+    const features = [
+      ...tokens,
+      ...tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`)
+    ]
+
+    for (const feature of features) {
+      const hash = LocalHashingProvider.fnv1a(feature)
+      const index = hash % this.dimensions
+      // The top bit of the hash picks the sign so collisions tend to cancel out
+      vector[index] += (hash >>> 31) === 0 ? 1 : -1
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+    return norm > 0 ? vector.map(value => value / norm) : vector
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map(text => this.embed(text)))
+  }
+
+  private static fnv1a(value: string): number {
+    let hash = 0x811c9dc5
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i)
+      hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+  }
+}
+
+/**
+ * Build the embedding provider selected in configuration
+ */
+export function createEmbeddingProvider(config: EmbeddingProviderConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'bedrock-titan':
+      return new BedrockTitanProvider({ modelId: config.modelId, dimensions: config.dimensions })
+    case 'bedrock-cohere':
+      return new BedrockCohereProvider({ modelId: config.modelId, dimensions: config.dimensions })
+    case 'openai':
+      if (!config.apiUrl) {
+        throw new EmbeddingError(
+          'EMBEDDING_API_URL is required for the openai embedding provider',
+          false,
+          ErrorSeverity.CRITICAL
+        )
+      }
+      return new OpenAICompatibleProvider({
+        apiUrl: config.apiUrl,
+        apiKey: config.apiKey,
+        modelId: config.modelId,
+        dimensions: config.dimensions
+      })
+    case 'local':
+      return new LocalHashingProvider({ dimensions: config.dimensions })
+    default:
+      throw new EmbeddingError(
+        `Unknown embedding provider: ${String((config as { provider: unknown }).provider)}`,
+        false,
+        ErrorSeverity.CRITICAL
+      )
+  }
+}
@@ -1,7 +1,15 @@
-import { InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime'
-import { bedrockRuntimeClient, EMBEDDING_MODEL_ID, EMBEDDING_DIMENSIONS } from '../aws-config'
-import { DocumentChunk, EmbeddedChunk } from '../types'
-import { EmbeddingRequest, EmbeddingResponse, EmbeddingError, EmbeddingBatchResult } from './types'
+import { DocumentChunk, EmbeddedChunk, TokenCountResult } from '../types'
+import {
+  EmbeddingRequest,
+  EmbeddingResponse,
+  EmbeddingError,
+  EmbeddingBatchResult,
+  EmbeddingInputType,
+  EmbeddingProvider
+} from './types'
+import { BedrockTitanProvider } from './providers'
+import { Tokenizer, countTokens, defaultTokenizer } from '../tokenizer'
+import { TokenBucket } from '../token-bucket'
 import { EmbeddingError as IngestionEmbeddingError, ErrorContext, ErrorSeverity } from '../errors'
 import { defaultErrorHandler } from '../error-handler'
 import { loggers } from '../logger'
@@ -9,22 +17,58 @@ import { metricsCollector } from '../monitoring/metrics'
 import { performanceMonitor } from '../monitoring/performance'
 import { memoryManager } from '../monitoring/memory'
 
+const MEMORY_PRESSURE_PAUSE_MS = 200
+// Chunks per batch for single-input providers; batching providers default to their request limit
+const DEFAULT_BATCH_SIZE = 10
+// Input limit for providers that do not declare one
+const DEFAULT_MAX_INPUT_TOKENS = 8000
+
+/**
+ * Outcome of embedding one input text; failures are kept per text so a batch can partially succeed
+ */
+interface EmbeddingOutcome {
+  embedding?: number[]
+  error?: unknown
+}
+
 export class EmbeddingService {
-  private readonly batchSize: number = 10
-  private readonly maxInputLength: number = 8000
-  private readonly rateLimitDelay: number = 100 // ms between requests
+  private readonly batchSize: number
+  private readonly maxInputTokens: number
+  private readonly concurrency: number = 4 // parallel requests for single-input models
+  private readonly requestsPerSecond: number = 10
+  private readonly includeHeadingPath: boolean = false
+  private readonly provider: EmbeddingProvider
+  private readonly tokenizer: Tokenizer
+  private readonly rateLimiter: TokenBucket
   private readonly logger = loggers.embedder
+  private requestSequence = 0
 
   constructor(options?: {
+    // Defaults to the provider's batch limit (e.g. 96 for Cohere, 2048 for OpenAI)
     batchSize?: number
-    maxInputLength?: number
-    rateLimitDelay?: number
+    // Defaults to the provider's input limit
+    maxInputTokens?: number
+    concurrency?: number
+    requestsPerSecond?: number
+    // Prefix each chunk with its heading breadcrumb before embedding it
+    includeHeadingPath?: boolean
+    provider?: EmbeddingProvider
+    tokenizer?: Tokenizer
   }) {
+    // Titan v1 remains the default; callers pass the provider selected in config/environment.ts
+    this.provider = options?.provider ?? new BedrockTitanProvider()
+    this.tokenizer = options?.tokenizer ?? defaultTokenizer
+    this.maxInputTokens = options?.maxInputTokens ?? this.provider.maxInputTokens ?? DEFAULT_MAX_INPUT_TOKENS
+    this.batchSize = options?.batchSize ?? (this.supportsBatch() ? this.provider.maxBatchSize : DEFAULT_BATCH_SIZE)
+
     if (options) {
-      this.batchSize = options.batchSize ?? this.batchSize
-      this.maxInputLength = options.maxInputLength ?? this.maxInputLength
-      this.rateLimitDelay = options.rateLimitDelay ?? this.rateLimitDelay
+      this.concurrency = Math.max(1, options.concurrency ?? this.concurrency)
+      this.requestsPerSecond = options.requestsPerSecond ?? this.requestsPerSecond
+      this.includeHeadingPath = options.includeHeadingPath ?? this.includeHeadingPath
     }
+
+    // Every provider request (including retries) takes a token
+    this.rateLimiter = new TokenBucket({ tokensPerSecond: this.requestsPerSecond })
   }
 
   /**
@@ -52,9 +96,13 @@ export class EmbeddingService {
           batchSize: this.batchSize 
         })
 
+        const usage = this.estimateCost(chunks)
         this.logger.info('Starting embedding generation with monitoring', { 
           totalChunks: chunks.length,
-          batchSize: this.batchSize 
+          batchSize: this.batchSize,
+          estimatedTokens: usage.count,
+          estimatedCost: usage.estimatedCost,
+          warnings: usage.warnings
         }, context)
 
         // Use memory-managed processing for large chunk sets
@@ -70,14 +118,18 @@ export class EmbeddingService {
               shouldPause
             }, context)
 
-            const embeddedChunks: EmbeddedChunk[] = []
             const errors: string[] = []
-            
-            // Process chunks in adaptive batches
+            const batches: DocumentChunk[][] = []
             for (let i = 0; i < chunks.length; i += adaptiveBatchSize) {
-              const batch = chunks.slice(i, i + adaptiveBatchSize)
-              const batchNumber = Math.floor(i / adaptiveBatchSize) + 1
-              const totalBatches = Math.ceil(chunks.length / adaptiveBatchSize)
+              batches.push(chunks.slice(i, i + adaptiveBatchSize))
+            }
+            // Results are kept per batch so chunks come back in input order
+            const batchResults: EmbeddedChunk[][] = batches.map(() => [])
+            
+            // Process adaptive batches in parallel, at most `concurrency` at a time
+            await this.runWithConcurrency(batches.map((batch, index) => async () => {
+              const batchNumber = index + 1
+              const totalBatches = batches.length
               const batchContext = { 
                 ...context, 
                 batchNumber,
@@ -99,14 +151,14 @@ export class EmbeddingService {
                 
                 // Record API metrics
                 metricsCollector.recordApiCall(
-                  'aws_bedrock',
+                  this.provider.name,
                   'embedding_batch',
                   batchDuration,
                   batchResult.errors.length === 0,
                   { batch_size: batch.length.toString() }
                 )
                 
-                embeddedChunks.push(...batchResult.successful)
+                batchResults[index] = batchResult.successful
                 
                 if (batchResult.errors.length > 0) {
                   errors.push(...batchResult.errors)
@@ -123,10 +175,9 @@ export class EmbeddingService {
                   { operation: 'embedding_batch' }
                 )
                 
-                // Memory-aware delay between batches
-                const delayMs = shouldPause ? this.rateLimitDelay * 2 : this.rateLimitDelay
-                if (i + adaptiveBatchSize < chunks.length) {
-                  await this.delay(delayMs)
+                // Back off between batches under memory pressure; request pacing is handled by the rate limiter
+                if (shouldPause && batchNumber < totalBatches) {
+                  await this.delay(MEMORY_PRESSURE_PAUSE_MS)
                 }
                 
                 // Check memory usage periodically
@@ -140,17 +191,18 @@ export class EmbeddingService {
                 
                 // Record failed API call
                 metricsCollector.recordApiCall(
-                  'aws_bedrock',
+                  this.provider.name,
                   'embedding_batch',
                   0,
                   false,
                   { batch_size: batch.length.toString(), error: 'batch_failed' }
                 )
                 
-                // Continue with next batch instead of failing completely
-                continue
+                // Continue with the other batches instead of failing completely
               }
-            }
+            }))
+            
+            const embeddedChunks = batchResults.flat()
             
             const successRate = chunks.length > 0 ? (embeddedChunks.length / chunks.length) * 100 : 0
             
@@ -201,8 +253,18 @@ export class EmbeddingService {
   private async processBatch(chunks: DocumentChunk[]): Promise<EmbeddingBatchResult> {
     const successful: EmbeddedChunk[] = []
     const errors: string[] = []
-    
-    for (const chunk of chunks) {
+    const context: ErrorContext = {
+      component: 'EmbeddingService',
+      operation: 'embedChunks',
+      timestamp: new Date(),
+      metadata: { chunkCount: chunks.length }
+    }
+
+    // Batches already run in parallel, so the requests of one batch are sent one at a time
+    const outcomes = await this.embedAll(chunks.map(chunk => this.embeddingText(chunk)), 'document', context, 1)
+
+    for (let i = 0; i < chunks.length; i++) {
+      const chunk = chunks[i]
       const chunkContext: ErrorContext = {
         component: 'EmbeddingService',
         operation: 'embedChunk',
@@ -212,14 +274,14 @@ export class EmbeddingService {
       }
 
       try {
-        const embedding = await defaultErrorHandler.executeWithRetry(
-          () => this.embedSingle(chunk.content),
-          chunkContext
-        )
-        
-        if (!this.validateEmbedding(embedding)) {
+        const { embedding, error } = outcomes[i]
+        if (error) {
+          throw error
+        }
+
+        if (!this.validateEmbedding(embedding!)) {
           throw new IngestionEmbeddingError(
-            `Invalid embedding dimensions: expected ${EMBEDDING_DIMENSIONS}, got ${embedding?.length || 0}`,
+            `Invalid embedding dimensions: expected ${this.provider.dimensions}, got ${embedding?.length || 0}`,
             false,
             ErrorSeverity.HIGH,
             chunkContext
@@ -228,13 +290,9 @@ export class EmbeddingService {
         
         successful.push({
           ...chunk,
-          embedding,
+          embedding: embedding!,
           embeddedAt: new Date(),
         })
-        
-        // Small delay between individual requests within a batch
-        await this.delay(50)
-        
       } catch (error) {
         const errorResponse = await defaultErrorHandler.handleEmbeddingError(error, chunkContext)
         errors.push(errorResponse.logMessage)
@@ -259,179 +317,270 @@ export class EmbeddingService {
       metadata: { textCount: texts.length }
     }
 
-    const embeddings: number[][] = []
+    const outcomes = await this.embedAll(texts, 'document', context)
+    const failedIndex = outcomes.findIndex(outcome => outcome.error)
+
+    if (failedIndex !== -1) {
+      this.logger.error('Failed to embed text in batch', {
+        textIndex: failedIndex,
+        textLength: texts[failedIndex].length
+      }, context, outcomes[failedIndex].error as Error)
+      throw outcomes[failedIndex].error
+    }
     
-    for (let i = 0; i < texts.length; i++) {
-      const text = texts[i]
-      const textContext = { 
-        ...context, 
-        metadata: { ...context.metadata, textIndex: i }
+    return outcomes.map(outcome => outcome.embedding!)
+  }
+
+  /**
+   * Embed texts in input order. Providers that accept multiple inputs get real batches;
+   * single-input models get bounded parallel requests. Both are paced by the token bucket.
+   */
+  private async embedAll(
+    texts: string[],
+    inputType: EmbeddingInputType,
+    context: ErrorContext,
+    concurrency: number = this.concurrency
+  ): Promise<EmbeddingOutcome[]> {
+    const outcomes: EmbeddingOutcome[] = new Array(texts.length)
+
+    if (!this.supportsBatch()) {
+      await this.runWithConcurrency(texts.map((text, index) => async () => {
+        const textContext = { ...context, metadata: { ...context.metadata, textIndex: index } }
+        try {
+          outcomes[index] = {
+            embedding: await defaultErrorHandler.executeWithRetry(
+              () => this.embedSingle(text, inputType),
+              textContext
+            )
+          }
+        } catch (error) {
+          outcomes[index] = { error }
+        }
+      }), concurrency)
+      return outcomes
+    }
+
+    // Empty texts would fail the whole request, so reject them individually up front
+    const indexes: number[] = []
+    texts.forEach((text, index) => {
+      if (!text || text.trim().length === 0) {
+        outcomes[index] = { error: this.emptyTextError() }
+      } else {
+        indexes.push(index)
       }
+    })
 
+    const groups: number[][] = []
+    for (let i = 0; i < indexes.length; i += this.provider.maxBatchSize) {
+      groups.push(indexes.slice(i, i + this.provider.maxBatchSize))
+    }
+
+    await this.runWithConcurrency(groups.map(group => async () => {
+      const groupContext = { ...context, metadata: { ...context.metadata, requestSize: group.length } }
       try {
-        const embedding = await defaultErrorHandler.executeWithRetry(
-          () => this.embedSingle(text),
-          textContext
+        const embeddings = await defaultErrorHandler.executeWithRetry(
+          () => this.embedMany(group.map(index => texts[index]), inputType),
+          groupContext
         )
-        embeddings.push(embedding)
+        group.forEach((index, position) => {
+          outcomes[index] = { embedding: embeddings[position] }
+        })
       } catch (error) {
-        this.logger.error('Failed to embed text in batch', {
-          textIndex: i,
-          textLength: text.length
-        }, textContext, error as Error)
-        throw error
+        group.forEach(index => {
+          outcomes[index] = { error }
+        })
       }
-    }
-    
-    return embeddings
+    }), concurrency)
+
+    return outcomes
   }
 
+  /**
+   * Whether the provider accepts multiple inputs per request
+   */
+  private supportsBatch(): boolean {
+    return Boolean(this.provider.embedBatch) && this.provider.maxBatchSize > 1
+  }
 
+  /**
+   * Run tasks with at most `concurrency` in flight
+   */
+  private async runWithConcurrency(
+    tasks: Array<() => Promise<void>>,
+    concurrency: number = this.concurrency
+  ): Promise<void> {
+    let next = 0
+    const worker = async () => {
+      while (next < tasks.length) {
+        const task = tasks[next++]
+        await task()
+      }
+    }
+
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, tasks.length) }, () => worker())
+    )
+  }
 
   /**
-   * Generate embedding for a single text with performance monitoring
+   * Generate the embedding for a search query (public interface)
    */
-  private async embedSingle(text: string): Promise<number[]> {
-    if (!text || text.trim().length === 0) {
+  async embedQuery(query: string): Promise<number[]> {
+    const context: ErrorContext = {
+      component: 'EmbeddingService',
+      operation: 'embedQuery',
+      timestamp: new Date(),
+      metadata: { queryLength: query.length }
+    }
+
+    const embedding = await defaultErrorHandler.executeWithRetry(
+      () => this.embedSingle(query, 'query'),
+      context
+    )
+
+    if (!this.validateEmbedding(embedding)) {
       throw new IngestionEmbeddingError(
-        'Empty text provided for embedding',
+        `Invalid embedding dimensions: expected ${this.provider.dimensions}, got ${embedding?.length || 0}`,
         false,
-        ErrorSeverity.LOW
+        ErrorSeverity.HIGH,
+        context
       )
     }
 
-    // Truncate text to maximum allowed length
-    const truncatedText = text.substring(0, this.maxInputLength)
-    const apiCallId = `embed_single_${Date.now()}`
+    return embedding
+  }
+
+  /**
+   * Generate embedding for a single text with performance monitoring
+   */
+  private async embedSingle(text: string, inputType: EmbeddingInputType = 'document'): Promise<number[]> {
+    if (!text || text.trim().length === 0) {
+      throw this.emptyTextError()
+    }
+
+    // Truncate text to the model's input limit
+    const truncatedText = this.truncateInput(text)
+    // Requests run concurrently, so timestamps alone do not identify a call
+    const apiCallId = `embed_single_${Date.now()}_${++this.requestSequence}`
+    const modelId = this.provider.modelId
+
+    await this.rateLimiter.acquire()
     
     metricsCollector.startTimer(apiCallId, {
       textLength: truncatedText.length,
-      modelId: EMBEDDING_MODEL_ID
+      modelId
     })
     
     try {
-      const command = new InvokeModelCommand({
-        modelId: EMBEDDING_MODEL_ID,
-        contentType: 'application/json',
-        accept: 'application/json',
-        body: JSON.stringify({
-          inputText: truncatedText,
-        }),
-      })
-
-      const response = await bedrockRuntimeClient.send(command)
+      const embedding = await this.provider.embed(truncatedText, inputType)
       const duration = metricsCollector.endTimer(apiCallId, { success: 'true' })
       
       // Record successful API call metrics
       metricsCollector.recordApiCall(
-        'aws_bedrock',
+        this.provider.name,
         'embedding_single',
         duration,
         true,
         { 
           text_length: truncatedText.length.toString(),
-          model_id: EMBEDDING_MODEL_ID
+          model_id: modelId
         }
       )
-      
-      if (!response.body) {
-        throw new IngestionEmbeddingError(
-          'Empty response body from AWS Bedrock',
-          true,
-          ErrorSeverity.HIGH
-        )
-      }
-
-      let responseBody: any
-      try {
-        responseBody = JSON.parse(new TextDecoder().decode(response.body))
-      } catch (parseError) {
-        throw new IngestionEmbeddingError(
-          'Failed to parse response from AWS Bedrock',
-          true,
-          ErrorSeverity.HIGH,
-          undefined,
-          parseError as Error
-        )
-      }
-
-      if (!responseBody.embedding) {
-        throw new IngestionEmbeddingError(
-          'No embedding found in response',
-          true,
-          ErrorSeverity.HIGH
-        )
-      }
 
       // Record embedding size metrics
       metricsCollector.recordMetric({
         name: 'embedding_dimensions',
-        value: responseBody.embedding.length,
+        value: embedding.length,
         unit: 'count',
         timestamp: new Date(),
-        tags: { model_id: EMBEDDING_MODEL_ID }
+        tags: { model_id: modelId }
       })
 
-      return responseBody.embedding
+      return embedding
     } catch (error) {
       const duration = metricsCollector.endTimer(apiCallId, { success: 'false' })
       
       // Record failed API call metrics
       metricsCollector.recordApiCall(
-        'aws_bedrock',
+        this.provider.name,
         'embedding_single',
         duration,
         false,
         { 
           text_length: truncatedText.length.toString(),
-          model_id: EMBEDDING_MODEL_ID,
+          model_id: modelId,
           error_type: error instanceof Error ? error.constructor.name : 'unknown'
         }
       )
       
-      // Re-throw IngestionEmbeddingError as-is
+      // Providers already map their failures onto retryable/non-retryable errors
       if (error instanceof IngestionEmbeddingError) {
         throw error
       }
 
-      // Handle AWS SDK errors
-      if (error instanceof Error) {
-        const message = error.message.toLowerCase()
-        
-        if (message.includes('throttling') || message.includes('rate limit') || message.includes('429')) {
-          throw new IngestionEmbeddingError(
-            `AWS Bedrock rate limit exceeded: ${error.message}`,
-            true,
-            ErrorSeverity.MEDIUM,
-            undefined,
-            error
-          )
-        }
+      // Generic error fallback
+      throw new IngestionEmbeddingError(
+        `Failed to generate embedding: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        true,
+        ErrorSeverity.HIGH,
+        undefined,
+        error as Error
+      )
+    }
+  }
 
-        if (message.includes('timeout') || message.includes('network') || message.includes('connection')) {
-          throw new IngestionEmbeddingError(
-            `Network error calling AWS Bedrock: ${error.message}`,
-            true,
-            ErrorSeverity.MEDIUM,
-            undefined,
-            error
-          )
+  /**
+   * Embed several texts in one provider request with performance monitoring
+   */
+  private async embedMany(texts: string[], inputType: EmbeddingInputType): Promise<number[][]> {
+    const truncatedTexts = texts.map(text => this.truncateInput(text))
+    const modelId = this.provider.modelId
+
+    await this.rateLimiter.acquire()
+    const startTime = Date.now()
+
+    try {
+      const embeddings = await this.provider.embedBatch!(truncatedTexts, inputType)
+
+      if (embeddings.length !== texts.length) {
+        throw new IngestionEmbeddingError(
+          `Expected ${texts.length} embeddings from batch request, got ${embeddings.length}`,
+          true,
+          ErrorSeverity.HIGH
+        )
+      }
+
+      metricsCollector.recordApiCall(
+        this.provider.name,
+        'embedding_multi',
+        Date.now() - startTime,
+        true,
+        {
+          request_size: texts.length.toString(),
+          model_id: modelId
         }
+      )
 
-        if (message.includes('unauthorized') || message.includes('access denied') || message.includes('403')) {
-          throw new IngestionEmbeddingError(
-            `AWS Bedrock access denied: ${error.message}`,
-            false,
-            ErrorSeverity.CRITICAL,
-            undefined,
-            error
-          )
+      return embeddings
+    } catch (error) {
+      metricsCollector.recordApiCall(
+        this.provider.name,
+        'embedding_multi',
+        Date.now() - startTime,
+        false,
+        {
+          request_size: texts.length.toString(),
+          model_id: modelId,
+          error_type: error instanceof Error ? error.constructor.name : 'unknown'
         }
+      )
+
+      if (error instanceof IngestionEmbeddingError) {
+        throw error
       }
 
-      // Generic error fallback
       throw new IngestionEmbeddingError(
-        `Failed to generate embedding: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        `Failed to generate embeddings: ${error instanceof Error ? error.message : 'Unknown error'}`,
         true,
         ErrorSeverity.HIGH,
         undefined,
@@ -440,6 +589,14 @@ export class EmbeddingService {
     }
   }
 
+  private emptyTextError(): IngestionEmbeddingError {
+    return new IngestionEmbeddingError(
+      'Empty text provided for embedding',
+      false,
+      ErrorSeverity.LOW
+    )
+  }
+
   /**
    * Validate embedding dimensions and values
    */
@@ -448,7 +605,7 @@ export class EmbeddingService {
       return false
     }
     
-    if (embedding.length !== EMBEDDING_DIMENSIONS) {
+    if (embedding.length !== this.provider.dimensions) {
       return false
     }
     
@@ -474,11 +631,55 @@ export class EmbeddingService {
    */
   getConfiguration() {
     return {
-      modelId: EMBEDDING_MODEL_ID,
-      dimensions: EMBEDDING_DIMENSIONS,
+      provider: this.provider.name,
+      modelId: this.provider.modelId,
+      dimensions: this.provider.dimensions,
       batchSize: this.batchSize,
-      maxInputLength: this.maxInputLength,
-      rateLimitDelay: this.rateLimitDelay,
+      maxInputTokens: this.maxInputTokens,
+      tokenizer: this.tokenizer.name,
+      concurrency: this.concurrency,
+      requestsPerSecond: this.requestsPerSecond,
+      supportsBatchRequests: this.supportsBatch(),
+      includeHeadingPath: this.includeHeadingPath,
     }
   }
+
+  /**
+   * Token count and estimated cost of embedding the given chunks with the configured model
+   */
+  estimateCost(chunks: DocumentChunk[]): TokenCountResult {
+    return countTokens(
+      chunks.map(chunk => this.embeddingText(chunk)),
+      { modelId: this.provider.modelId, maxTokens: this.maxInputTokens },
+      this.tokenizer
+    )
+  }
+
+  /**
+   * Cut text to the model's input limit in tokens; the model would otherwise reject or silently cut it
+   */
+  private truncateInput(text: string): string {
+    const truncated = this.tokenizer.truncate(text, this.maxInputTokens)
+
+    if (truncated.length < text.length) {
+      this.logger.warn('Embedding input truncated to the model input limit', {
+        maxInputTokens: this.maxInputTokens,
+        originalLength: text.length,
+        truncatedLength: truncated.length
+      })
+    }
+
+    return truncated
+  }
+
+  /**
+   * Text embedded for a chunk. With includeHeadingPath the breadcrumb leads, so a chunk that
+   * never repeats its section names still matches queries mentioning them.
+   */
+  private embeddingText(chunk: DocumentChunk): string {
+    const headingPath = chunk.metadata.headingPath
+    return this.includeHeadingPath && headingPath && headingPath.length > 0
+      ? `${headingPath.join(' > ')}\n\n${chunk.content}`
+      : chunk.content
+  }
 }
\ No newline at end of file
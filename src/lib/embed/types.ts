@@ -30,7 +30,35 @@ export interface EmbeddingServiceConfig {
   dimensions: number
   maxRetries: number
   batchSize: number
-  maxInputLength: number
+  maxInputTokens: number
   baseDelay: number
   maxDelay: number
-}
\ No newline at end of file
+}
+
+export type EmbeddingInputType = 'document' | 'query'
+
+/**
+ * A model that turns text into a fixed-size vector
+ */
+export interface EmbeddingProvider {
+  readonly name: string
+  readonly modelId: string
+  readonly dimensions: number
+  /** Largest number of texts accepted by one embedBatch request; 1 for single-input models */
+  readonly maxBatchSize: number
+  /** Longest input the model accepts, in tokens; longer inputs are truncated before sending */
+  readonly maxInputTokens?: number
+  embed(text: string, inputType?: EmbeddingInputType): Promise<number[]>
+  /** Embed several texts in one request, returning embeddings in input order */
+  embedBatch?(texts: string[], inputType?: EmbeddingInputType): Promise<number[][]>
+}
+
+export type EmbeddingProviderName = 'bedrock-titan' | 'bedrock-cohere' | 'openai' | 'local'
+
+export interface EmbeddingProviderConfig {
+  provider: EmbeddingProviderName
+  modelId?: string
+  dimensions?: number
+  apiUrl?: string
+  apiKey?: string
+}
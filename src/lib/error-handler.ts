@@ -386,6 +386,10 @@ export class ErrorHandler {
                 return 'Service rate limit exceeded. The system will retry automatically.'
             case ErrorCategory.CIRCUIT_BREAKER:
                 return 'Service is temporarily unavailable due to repeated failures. Please try again later.'
+            case ErrorCategory.GENERATION:
+                return 'Failed to generate an answer. This may be a temporary service issue.'
+            case ErrorCategory.RERANK:
+                return 'Failed to rerank search results. This may be a temporary service issue.'
             default:
                 return 'An unexpected error occurred during processing. Please try again.'
         }
@@ -407,6 +411,10 @@ export class ErrorHandler {
                 return 'Wait for rate limit to reset, retries will happen automatically'
             case ErrorCategory.CIRCUIT_BREAKER:
                 return 'Wait for service to recover, then try again'
+            case ErrorCategory.GENERATION:
+                return 'Verify AWS Bedrock text model access and API credentials'
+            case ErrorCategory.RERANK:
+                return 'Verify AWS Bedrock rerank model access and API credentials'
             default:
                 return 'Review logs for detailed error information and contact support if needed'
         }
@@ -12,7 +12,9 @@ export enum ErrorCategory {
   JOB = 'JOB',
   NETWORK = 'NETWORK',
   RATE_LIMIT = 'RATE_LIMIT',
-  CIRCUIT_BREAKER = 'CIRCUIT_BREAKER'
+  CIRCUIT_BREAKER = 'CIRCUIT_BREAKER',
+  GENERATION = 'GENERATION',
+  RERANK = 'RERANK'
 }
 
 export enum ErrorSeverity {
@@ -174,6 +176,48 @@ export class JobError extends IngestionError {
   }
 }
 
+export class GenerationError extends IngestionError {
+  constructor(
+    message: string,
+    retryable = true,
+    severity = ErrorSeverity.MEDIUM,
+    context?: ErrorContext,
+    cause?: Error
+  ) {
+    super(
+      message,
+      'GENERATION_ERROR',
+      ErrorCategory.GENERATION,
+      severity,
+      retryable,
+      context,
+      cause
+    )
+    this.name = 'GenerationError'
+  }
+}
+
+export class RerankError extends IngestionError {
+  constructor(
+    message: string,
+    retryable = true,
+    severity = ErrorSeverity.MEDIUM,
+    context?: ErrorContext,
+    cause?: Error
+  ) {
+    super(
+      message,
+      'RERANK_ERROR',
+      ErrorCategory.RERANK,
+      severity,
+      retryable,
+      context,
+      cause
+    )
+    this.name = 'RerankError'
+  }
+}
+
 export class NetworkError extends IngestionError {
   constructor(
     message: string,
@@ -79,6 +79,80 @@ describe('ContentChunker', () => {
       expect(sectionTitles).toContain('Introduction')
     })
 
+    it('should record the heading path of each section', async () => {
+      const content = `# Auth
+Every request is authenticated.
+
+## OAuth
+OAuth clients exchange codes for tokens.
+
+### Refresh tokens
+Refresh tokens never expire.
+
+## API keys
+Keys are scoped to a workspace.`
+
+      const chunks = await chunker.chunk(content, mockMetadata)
+      const bySection = (section: string) => chunks.find(chunk => chunk.metadata.section === section)!.metadata
+
+      expect(bySection('Refresh tokens')).toMatchObject({
+        headingPath: ['Auth', 'OAuth', 'Refresh tokens'],
+        headingLevel: 3
+      })
+      expect(bySection('API keys').headingPath).toEqual(['Auth', 'API keys'])
+      expect(bySection('Auth').headingPath).toEqual(['Auth'])
+    })
+
+    it('should assign heading levels by header kind', async () => {
+      const content = `User Guide
+==========
+Everything you need to run the service.
+
+Setup
+-----
+Install the package and start the server.
+
+TROUBLESHOOTING
+Restart the server when it stops responding.
+
+### Logs
+Logs are written to the data directory.`
+
+      const chunks = await chunker.chunk(content, mockMetadata)
+      const bySection = (section: string) => chunks.find(chunk => chunk.metadata.section === section)!.metadata
+
+      expect(bySection('User Guide')).toMatchObject({ headingLevel: 1, headingPath: ['User Guide'] })
+      expect(bySection('Setup')).toMatchObject({ headingLevel: 2, headingPath: ['User Guide', 'Setup'] })
+      expect(bySection('TROUBLESHOOTING')).toMatchObject({
+        headingLevel: 2,
+        headingPath: ['User Guide', 'TROUBLESHOOTING']
+      })
+      expect(bySection('Logs')).toMatchObject({
+        headingLevel: 3,
+        headingPath: ['User Guide', 'TROUBLESHOOTING', 'Logs']
+      })
+    })
+
+    it('should not treat comments inside fenced code as headers', async () => {
+      const content = `# Installation
+Run the installer from a terminal.
+
+\`\`\`bash
+# install the CLI
+npm install -g knowio
+\`\`\`
+
+## Configuration
+Set the API key before the first run.`
+
+      const chunks = await chunker.chunk(content, mockMetadata)
+
+      const sectionTitles = chunks.map(chunk => chunk.metadata.section)
+      expect(sectionTitles).toContain('Installation')
+      expect(sectionTitles).toContain('Configuration')
+      expect(sectionTitles).not.toContain('install the CLI')
+    })
+
     it('should handle content with underlined headers', async () => {
       const content = `Introduction
 ============
@@ -279,6 +353,57 @@ More content here that should be properly chunked.`
     })
   })
 
+  describe('chunkPages()', () => {
+    it('should record page numbers and number chunks across pages', async () => {
+      const pagedChunker = new ContentChunker(60, 0, 5)
+      const pages = [
+        { pageNumber: 1, content: 'Tokens are issued per workspace and expire after one hour. '.repeat(6) },
+        { pageNumber: 3, content: 'Webhooks are retried five times with exponential backoff.' }
+      ]
+
+      const chunks = await pagedChunker.chunkPages(pages, mockMetadata)
+
+      expect(chunks.length).toBeGreaterThan(2)
+      expect(chunks.map(chunk => chunk.metadata.chunkIndex)).toEqual(chunks.map((_, i) => i))
+      expect(chunks[chunks.length - 1].metadata.pageNumber).toBe(3)
+      expect(chunks[chunks.length - 1].content).toContain('Webhooks')
+      chunks.slice(0, -1).forEach(chunk => expect(chunk.metadata.pageNumber).toBe(1))
+    })
+  })
+
+  describe('chunkOperations()', () => {
+    it('should create exactly one chunk per operation regardless of size', async () => {
+      const smallChunker = new ContentChunker(20, 5, 5)
+      const operations = [
+        {
+          method: 'GET',
+          path: '/pets',
+          operationId: 'listPets',
+          tags: ['pets'],
+          content: '# GET /pets\n\n' + 'Returns every pet in the store, newest first. '.repeat(10)
+        },
+        { method: 'DELETE', path: '/pets/{id}', tags: [], content: '# DELETE /pets/{id}' }
+      ]
+
+      const chunks = await smallChunker.chunkOperations(operations, mockMetadata)
+
+      expect(chunks).toHaveLength(2)
+      expect(chunks[0].content).toBe(operations[0].content.trim())
+      expect(chunks[0].metadata).toMatchObject({
+        title: mockMetadata.title,
+        section: 'GET /pets',
+        chunkIndex: 0,
+        operationId: 'listPets',
+        httpMethod: 'GET',
+        apiPath: '/pets',
+        tags: ['pets']
+      })
+      expect(chunks[1].metadata.chunkIndex).toBe(1)
+      expect(chunks[1].metadata).not.toHaveProperty('operationId')
+      expect(chunks[1].metadata).not.toHaveProperty('tags')
+    })
+  })
+
   describe('token counting accuracy', () => {
     it('should provide reasonable token count estimates', async () => {
       const content = 'This is a test sentence with exactly ten words in it.'
@@ -292,4 +417,61 @@ More content here that should be properly chunked.`
       expect(tokenCount).toBeLessThan(20)
     })
   })
+
+  describe('code-aware chunking', () => {
+    const prose = 'Tokens are scoped to a single workspace and carry their own permissions. '.repeat(4).trim()
+    const codeSample = [
+      '```python',
+      'def refresh(client):',
+      '    token = client.tokens.refresh()',
+      '    return token.value',
+      '```'
+    ].join('\n')
+
+    it('should keep a code block whole and attached to its explanation', async () => {
+      const codeChunker = new ContentChunker(60, 0, 5)
+      const content = `${prose}\n\n${prose}\n\nRefresh a token before it expires. Call the client:\n\n${codeSample}`
+
+      const chunks = await codeChunker.chunk(content, mockMetadata)
+      const codeChunk = chunks.find(chunk => chunk.content.includes('def refresh'))!
+
+      expect(chunks.length).toBeGreaterThan(1)
+      expect(codeChunk.content).toContain('Refresh a token before it expires.')
+      expect(codeChunk.content).toContain(codeSample)
+      expect(codeChunk.metadata).toMatchObject({ hasCode: true, language: 'python' })
+      expect(chunks.filter(chunk => chunk.content.includes('```'))).toHaveLength(1)
+    })
+
+    it('should split oversized code blocks into fenced pieces', async () => {
+      const codeChunker = new ContentChunker(40, 0, 5)
+      const lines = Array.from({ length: 30 }, (_, i) => `const value${i} = compute(${i})`)
+      const content = `Setup:\n\n\`\`\`ts\n${lines.join('\n')}\n\`\`\``
+
+      const chunks = await codeChunker.chunk(content, mockMetadata)
+
+      expect(chunks.length).toBeGreaterThan(1)
+      chunks.filter(chunk => chunk.metadata.hasCode).forEach(chunk => {
+        expect(chunk.content).toMatch(/^```ts\n[\s\S]*\n```$/)
+        expect(chunk.metadata.language).toBe('ts')
+        expect(chunk.tokenCount).toBeLessThanOrEqual(40)
+      })
+      expect(chunks.map(chunk => chunk.content).join('\n')).toContain('const value29 = compute(29)')
+    })
+
+    it('should split code by sentences with the sentence strategy', async () => {
+      const sentenceChunker = new ContentChunker(60, 0, 5, 'sentence')
+      const content = `${prose}\n\n${prose}\n\nRefresh a token before it expires. Call the client:\n\n${codeSample}`
+
+      const chunks = await sentenceChunker.chunk(content, mockMetadata)
+
+      expect(chunks.some(chunk => chunk.content.includes(codeSample))).toBe(false)
+    })
+
+    it('should tag prose chunks as having no code', async () => {
+      const chunks = await chunker.chunk(prose, mockMetadata)
+
+      expect(chunks[0].metadata.hasCode).toBe(false)
+      expect(chunks[0].metadata.language).toBeUndefined()
+    })
+  })
 })
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { CrawlFrontier } from '../crawler'
+
+describe('CrawlFrontier', () => {
+  const drain = (frontier: CrawlFrontier) => {
+    const targets = []
+    let target
+    while ((target = frontier.next())) {
+      targets.push(target)
+    }
+    return targets
+  }
+
+  it('should only crawl the root URL when followLinks is disabled', () => {
+    const frontier = new CrawlFrontier('https://docs.example.com/guide', { followLinks: false })
+
+    expect(frontier.next()).toEqual({ url: 'https://docs.example.com/guide', depth: 0 })
+    expect(frontier.addLinks(['https://docs.example.com/api'], 0)).toBe(0)
+    expect(frontier.next()).toBeUndefined()
+  })
+
+  it('should crawl breadth-first and stop at maxDepth', () => {
+    const frontier = new CrawlFrontier('https://docs.example.com/', { followLinks: true, maxDepth: 2 })
+
+    const root = frontier.next()!
+    frontier.addLinks(['https://docs.example.com/a', 'https://docs.example.com/b'], root.depth)
+
+    const a = frontier.next()!
+    frontier.addLinks(['https://docs.example.com/a/1'], a.depth)
+    const b = frontier.next()!
+    frontier.addLinks(['https://docs.example.com/b/1'], b.depth)
+
+    const a1 = frontier.next()!
+    expect(frontier.addLinks(['https://docs.example.com/a/1/deep'], a1.depth)).toBe(0)
+
+    expect([a, b, a1].map(target => target.url)).toEqual([
+      'https://docs.example.com/a',
+      'https://docs.example.com/b',
+      'https://docs.example.com/a/1'
+    ])
+    expect(drain(frontier)).toEqual([{ url: 'https://docs.example.com/b/1', depth: 2 }])
+  })
+
+  it('should skip other origins and deduplicate URLs', () => {
+    const frontier = new CrawlFrontier('https://docs.example.com/guide', { followLinks: true })
+    frontier.next()
+
+    const added = frontier.addLinks([
+      'https://docs.example.com/guide/',
+      'https://docs.example.com/guide#install',
+      'https://docs.example.com/api',
+      'https://docs.example.com/api/#auth',
+      'http://docs.example.com/api',
+      'https://other.example.com/api',
+      'not a url'
+    ], 0)
+
+    expect(added).toBe(1)
+    expect(drain(frontier).map(target => target.url)).toEqual(['https://docs.example.com/api'])
+  })
+
+  it('should cap the total number of pages', () => {
+    const frontier = new CrawlFrontier('https://docs.example.com/', { followLinks: true, maxPages: 3 })
+    frontier.next()
+
+    const links = Array.from({ length: 10 }, (_, i) => `https://docs.example.com/page-${i}`)
+    expect(frontier.addLinks(links, 0)).toBe(2)
+
+    expect(drain(frontier)).toHaveLength(2)
+    expect(frontier.pagesDequeued).toBe(3)
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { FileParser } from '../files'
+import { detectUploadFormat, uploadSourceUri, isUploadUri } from '../uploads'
+import { ScrapingError } from '../../errors'
+
+const file = (fileName: string, content: string, contentType = '') => ({
+  fileName,
+  contentType,
+  data: new TextEncoder().encode(content)
+})
+
+describe('FileParser', () => {
+  const parser = new FileParser()
+  const sourceUri = 'upload://files/doc'
+
+  it('should keep Markdown as is and take the title from the first heading', async () => {
+    const markdown = '# Deployment Guide\r\n\r\n## Requirements\r\n\r\nNode 20 or later.'
+
+    const result = await parser.parse(sourceUri, file('deploy.md', markdown))
+
+    expect(result).toEqual({
+      url: sourceUri,
+      title: 'Deployment Guide',
+      content: '# Deployment Guide\n\n## Requirements\n\nNode 20 or later.',
+      metadata: { title: 'Deployment Guide' },
+      links: []
+    })
+  })
+
+  it('should render HTML main content as Markdown', async () => {
+    const html = `<!DOCTYPE html>
+      <html><head><title>Webhooks</title><style>p { color: red }</style></head>
+      <body>
+        <nav><a href="/">Home</a></nav>
+        <main>
+          <h2>Retries</h2>
+          <p>Failed deliveries are retried <strong>five</strong> times.</p>
+          <pre><code class="language-json">{ "attempt": 1 }</code></pre>
+        </main>
+        <script>track()</script>
+      </body></html>`
+
+    const result = await parser.parse(sourceUri, file('webhooks.html', html))
+
+    expect(result.title).toBe('Webhooks')
+    expect(result.content).toBe(
+      '## Retries\n\nFailed deliveries are retried **five** times.\n\n```json\n{ "attempt": 1 }\n```'
+    )
+  })
+
+  it('should fall back to the file name for plain text titles', async () => {
+    const result = await parser.parse(sourceUri, file('release_notes.txt', 'Version 2 ships today.'))
+
+    expect(result.title).toBe('release notes')
+    expect(result.content).toBe('Version 2 ships today.')
+  })
+
+  it('should reject unsupported and empty files', async () => {
+    await expect(parser.parse(sourceUri, file('image.png', 'png', 'image/png')))
+      .rejects.toBeInstanceOf(ScrapingError)
+    await expect(parser.parse(sourceUri, file('empty.md', '  \n')))
+      .rejects.toThrow(/No content extracted/)
+  })
+})
+
+describe('upload helpers', () => {
+  it('should detect formats by extension before content type', () => {
+    expect(detectUploadFormat('README.MD', 'application/octet-stream')).toBe('markdown')
+    expect(detectUploadFormat('guide.docx')).toBe('docx')
+    expect(detectUploadFormat('page', 'text/html; charset=utf-8')).toBe('html')
+    expect(detectUploadFormat('archive.zip', 'application/zip')).toBeNull()
+  })
+
+  it('should build recognisable synthetic source URIs', () => {
+    const uri = uploadSourceUri('API Guide.pdf')
+
+    expect(uri).toBe('upload://files/API%20Guide.pdf')
+    expect(isUploadUri(uri)).toBe(true)
+    expect(isUploadUri('https://example.com/guide.pdf')).toBe(false)
+  })
+})
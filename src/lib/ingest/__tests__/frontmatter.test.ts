@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { parseFrontMatter, stripMdxModuleSyntax } from '../frontmatter'
+
+describe('parseFrontMatter', () => {
+  it('should split YAML front matter from the body', () => {
+    expect(parseFrontMatter('---\ntitle: Webhooks\nsidebar_position: 3\n---\n# Webhooks\n')).toEqual({
+      frontMatter: { title: 'Webhooks', sidebar_position: 3 },
+      body: '# Webhooks\n'
+    })
+  })
+
+  it('should leave documents without front matter untouched', () => {
+    const markdown = '# Title\n\n---\n\nAfter a rule'
+    expect(parseFrontMatter(markdown)).toEqual({ frontMatter: {}, body: markdown })
+  })
+
+  it('should drop empty, malformed or non-mapping front matter', () => {
+    expect(parseFrontMatter('---\n---\nBody')).toEqual({ frontMatter: {}, body: 'Body' })
+    expect(parseFrontMatter('---\ntitle: [unclosed\n---\nBody')).toEqual({ frontMatter: {}, body: 'Body' })
+    expect(parseFrontMatter('---\n- a\n- b\n---\nBody')).toEqual({ frontMatter: {}, body: 'Body' })
+  })
+})
+
+describe('stripMdxModuleSyntax', () => {
+  it('should remove imports and exports outside code fences', () => {
+    const mdx = [
+      "import Tabs from '@theme/Tabs'",
+      "export const meta = { draft: true }",
+      '# Usage',
+      '~~~ts',
+      "import { client } from 'sdk'",
+      '~~~',
+      'Import the client first.'
+    ].join('\n')
+
+    expect(stripMdxModuleSyntax(mdx)).toBe([
+      '# Usage',
+      '~~~ts',
+      "import { client } from 'sdk'",
+      '~~~',
+      'Import the client first.'
+    ].join('\n'))
+  })
+})
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { execFileSync } from 'child_process'
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { dirname, join } from 'path'
+import { GitCheckout, GitRepositoryReader, documentUrl, gitAllowedProtocols, gitDocumentContent } from '../git'
+
+describe('GitRepositoryReader', () => {
+  // The fixtures are local repositories, which the default transports refuse
+  const reader = new GitRepositoryReader({ allowedProtocols: ['file'] })
+  let root: string
+  let workTree: string
+  let bareRepository: string
+  let firstSha: string
+  let secondSha: string
+
+  const git = (...args: string[]) => execFileSync('git', [
+    '-c', 'user.name=Docs Bot', '-c', 'user.email=docs@example.com', ...args
+  ], { cwd: workTree, encoding: 'utf8' }).trim()
+
+  const write = (path: string, content: string) => {
+    mkdirSync(dirname(join(workTree, path)), { recursive: true })
+    writeFileSync(join(workTree, path), content)
+  }
+
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), 'git-reader-test-'))
+    workTree = join(root, 'work')
+    bareRepository = join(root, 'docs.git')
+    mkdirSync(workTree)
+
+    git('init', '--quiet', '--initial-branch=main')
+    write('README.md', '# Repository')
+    write('docs/index.md', '# Welcome')
+    write('docs/guides/setup.mdx', '# Setup')
+    write('docs/guides/deploy.md', '# Deploy')
+    write('docs/drafts/wip.md', '# Work in progress')
+    write('docs/images/diagram.png', 'png')
+    git('add', '.')
+    git('commit', '--quiet', '-m', 'Initial docs')
+    firstSha = git('rev-parse', 'HEAD')
+
+    write('docs/guides/setup.mdx', '# Setup\n\nNow with prerequisites.')
+    write('docs/api.md', '# API')
+    git('rm', '--quiet', 'docs/guides/deploy.md')
+    git('commit', '--quiet', '-am', 'Update docs')
+    git('add', '.')
+    git('commit', '--quiet', '-m', 'Add API docs')
+    secondSha = git('rev-parse', 'HEAD')
+
+    execFileSync('git', ['clone', '--quiet', '--bare', workTree, bareRepository])
+  })
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true })
+  })
+
+  it('should check out a repository at its latest commit and list matching files', async () => {
+    const checkout = await reader.checkout(bareRepository, 'main')
+
+    try {
+      expect(checkout.sha).toBe(secondSha)
+      expect(await reader.listFiles(checkout)).toEqual([
+        'docs/api.md',
+        'docs/drafts/wip.md',
+        'docs/guides/setup.mdx',
+        'docs/index.md'
+      ])
+      expect(await reader.listFiles(checkout, { exclude: ['docs/drafts/**'] })).not.toContain('docs/drafts/wip.md')
+      expect(await reader.readFile(checkout, 'docs/guides/setup.mdx')).toBe('# Setup\n\nNow with prerequisites.')
+    } finally {
+      await reader.cleanup(checkout)
+    }
+  })
+
+  it('should report files changed and deleted since an earlier commit', async () => {
+    const checkout = await reader.checkout(bareRepository)
+
+    try {
+      expect(await reader.changesSince(checkout, firstSha)).toEqual({
+        changed: ['docs/api.md', 'docs/guides/setup.mdx'],
+        deleted: ['docs/guides/deploy.md']
+      })
+      expect(await reader.changesSince(checkout, secondSha)).toEqual({ changed: [], deleted: [] })
+      expect(await reader.changesSince(checkout, 'f'.repeat(40))).toBeNull()
+    } finally {
+      await reader.cleanup(checkout)
+    }
+  })
+
+  it('should refuse transports other than http(s) by default', async () => {
+    await expect(new GitRepositoryReader().checkout(bareRepository)).rejects.toThrow(/Failed to clone repository/)
+    await expect(new GitRepositoryReader().checkout(`file://${bareRepository}`)).rejects.toThrow(/Failed to clone repository/)
+    await expect(new GitRepositoryReader().checkout('ext::sh -c touch% /tmp/pwned')).rejects.toThrow(/Failed to clone repository/)
+  })
+
+  it('should fail to check out missing repositories', async () => {
+    await expect(reader.checkout(join(root, 'missing.git'))).rejects.toThrow(/Failed to clone repository/)
+  })
+})
+
+describe('gitAllowedProtocols', () => {
+  it('should read the transports from GIT_ALLOWED_PROTOCOLS, defaulting to http(s)', () => {
+    expect(gitAllowedProtocols(undefined)).toEqual(['https', 'http'])
+    expect(gitAllowedProtocols(' ')).toEqual(['https', 'http'])
+    expect(gitAllowedProtocols('HTTPS, file')).toEqual(['https', 'file'])
+  })
+})
+
+describe('documentUrl', () => {
+  const checkout: GitCheckout = { directory: '/tmp/checkout', sha: 'abc123', ref: 'main' }
+
+  it('should map files to hosted URLs', () => {
+    expect(documentUrl('https://docs.example.com/{path}', 'docs/guides/setup.mdx', checkout))
+      .toBe('https://docs.example.com/docs/guides/setup')
+    expect(documentUrl('https://docs.example.com/{path}', 'docs/guides/index.md', checkout))
+      .toBe('https://docs.example.com/docs/guides')
+    expect(documentUrl('https://github.com/acme/docs/blob/{sha}/{file}', 'docs/Getting Started.md', checkout))
+      .toBe('https://github.com/acme/docs/blob/abc123/docs/Getting%20Started.md')
+  })
+})
+
+describe('gitDocumentContent', () => {
+  it('should move front matter into metadata and strip MDX module syntax', () => {
+    const source = [
+      '---',
+      'title: Setting up',
+      'description: Install and configure the CLI',
+      'tags: [cli, setup]',
+      '---',
+      "import { Callout } from '../components'",
+      '',
+      '# Setup',
+      '',
+      '```js',
+      "import fs from 'fs'",
+      '```'
+    ].join('\n')
+
+    const content = gitDocumentContent('docs/setup.mdx', source, 'https://docs.example.com/setup')
+
+    expect(content).toEqual({
+      url: 'https://docs.example.com/setup',
+      title: 'Setting up',
+      content: "# Setup\n\n```js\nimport fs from 'fs'\n```",
+      metadata: {
+        title: 'Setting up',
+        description: 'Install and configure the CLI',
+        author: undefined,
+        publishedDate: undefined,
+        frontMatter: {
+          title: 'Setting up',
+          description: 'Install and configure the CLI',
+          tags: ['cli', 'setup']
+        }
+      },
+      links: []
+    })
+  })
+
+  it('should fall back to the first heading or file name for the title', () => {
+    expect(gitDocumentContent('docs/a.md', '# Overview\n\nText', 'https://x.dev/a').title).toBe('Overview')
+    expect(gitDocumentContent('docs/rate_limits.md', 'Text only', 'https://x.dev/b').title).toBe('rate limits')
+  })
+})
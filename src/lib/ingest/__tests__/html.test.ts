@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { extractStaticPage } from '../html'
+
+const paragraph = 'Webhooks deliver events to your endpoint as signed JSON payloads and are retried with backoff. '
+
+describe('extractStaticPage', () => {
+  it('should extract the main content, metadata and links like the browser path', () => {
+    const html = `
+      <html>
+        <head>
+          <title>Webhooks | Acme Docs</title>
+          <meta name="description" content="Receive events">
+          <meta property="og:author" content="Acme">
+          <script src="/analytics.js"></script>
+        </head>
+        <body>
+          <nav><a href="/docs/intro">Intro</a></nav>
+          <div class="sidebar">Sidebar</div>
+          <main>
+            <h1>Webhooks</h1>
+            <p>${paragraph.repeat(2)}</p>
+            <pre><code class="language-json">{ "type": "invoice.paid" }</code></pre>
+            <p>See <a href="retries">retries</a> and <a href="#verify">verification</a>.</p>
+            <form><button>Subscribe</button></form>
+          </main>
+          <footer><a href="/legal">Legal</a></footer>
+          <a href="https://other.example.com/page">Elsewhere</a>
+          <a href="/assets/app.js">Script</a>
+        </body>
+      </html>
+    `
+
+    const page = extractStaticPage(html, 'https://docs.example.com/guides/webhooks.html')
+
+    expect(page.isAppShell).toBe(false)
+    expect(page.content).toContain('# Webhooks')
+    expect(page.content).toContain('```json\n{ "type": "invoice.paid" }\n```')
+    expect(page.content).toContain('[retries](https://docs.example.com/guides/retries)')
+    expect(page.content).toContain('verification')
+    expect(page.content).not.toContain('#verify')
+    expect(page.content).not.toContain('Sidebar')
+    expect(page.content).not.toContain('Subscribe')
+    expect(page.metadata).toEqual({
+      title: 'Webhooks | Acme Docs',
+      description: 'Receive events',
+      author: 'Acme',
+      publishedDate: undefined,
+      section: 'webhooks'
+    })
+    // Navigation and footer links are gone with the page chrome; other hosts and assets are filtered out
+    expect(page.links).toContain('https://docs.example.com/guides/retries')
+    expect(page.links).not.toContain('https://docs.example.com/docs/intro')
+    expect(page.links).not.toContain('https://docs.example.com/legal')
+    expect(page.links).not.toContain('https://other.example.com/page')
+    expect(page.links).not.toContain('https://docs.example.com/assets/app.js')
+  })
+
+  it('should detect single-page app shells', () => {
+    const shell = `
+      <html>
+        <head><title>Acme Docs</title></head>
+        <body>
+          <div id="root"></div>
+          <noscript>You need to enable JavaScript to run this app.</noscript>
+          <script src="/static/js/main.js"></script>
+        </body>
+      </html>
+    `
+
+    expect(extractStaticPage(shell, 'https://docs.example.com/').isAppShell).toBe(true)
+  })
+
+  it('should only treat short pages as shells when they run scripts', () => {
+    const shortPage = (script: string) =>
+      `<html><body><main><h1>Status</h1><p>All systems operational.</p></main>${script}</body></html>`
+
+    expect(extractStaticPage(shortPage(''), 'https://status.example.com/').isAppShell).toBe(false)
+    expect(extractStaticPage(shortPage('<script src="/app.js"></script>'), 'https://status.example.com/').isAppShell)
+      .toBe(true)
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import { htmlToMarkdown, HtmlElementNode, HtmlNode } from '../markdown'
+
+const el = (tag: string, attributes: Record<string, string> = {}, ...children: HtmlNode[]): HtmlElementNode => ({
+  tag,
+  attributes,
+  children
+})
+
+describe('htmlToMarkdown', () => {
+  it('should render headings and paragraphs as separate blocks', () => {
+    const tree = el('main', {},
+      el('h1', {}, 'Authentication ', el('a', { class: 'headerlink' }, '¶')),
+      el('p', {}, 'Tokens are   issued\n  per ', el('strong', {}, 'workspace'), '.'),
+      el('h2', {}, 'Refresh tokens'),
+      el('p', {}, 'They never expire.')
+    )
+
+    expect(htmlToMarkdown(tree)).toBe(
+      '# Authentication\n\nTokens are issued per **workspace**.\n\n## Refresh tokens\n\nThey never expire.'
+    )
+  })
+
+  it('should fence code blocks with their language and keep indentation', () => {
+    const tree = el('article', {},
+      el('pre', {}, el('code', { class: 'hljs language-TypeScript' }, 'function hello() {\n  return 1\n}\n')),
+      el('pre', { 'data-language': 'bash' }, '# install\nnpm i'),
+      el('pre', {}, 'uses ``` inside')
+    )
+
+    expect(htmlToMarkdown(tree)).toBe([
+      '```typescript\nfunction hello() {\n  return 1\n}\n```',
+      '```bash\n# install\nnpm i\n```',
+      '````\nuses ``` inside\n````'
+    ].join('\n\n'))
+  })
+
+  it('should render links and inline code', () => {
+    const tree = el('p', {},
+      'See ', el('a', { href: 'https://example.com/docs/api' }, 'the API'),
+      ', call ', el('code', {}, 'client.get()'),
+      ' or jump ', el('a', {}, 'back')
+    )
+
+    expect(htmlToMarkdown(tree)).toBe('See [the API](https://example.com/docs/api), call `client.get()` or jump back')
+  })
+
+  it('should render nested and ordered lists', () => {
+    const tree = el('div', {},
+      el('ul', {},
+        el('li', {}, 'Install'),
+        el('li', {}, 'Configure', el('ol', { start: '3' }, el('li', {}, 'Keys'), el('li', {}, 'Regions')))
+      )
+    )
+
+    expect(htmlToMarkdown(tree)).toBe('- Install\n- Configure\n  3. Keys\n  4. Regions')
+  })
+
+  it('should render tables as pipe tables', () => {
+    const tree = el('table', {},
+      el('thead', {}, el('tr', {}, el('th', {}, 'Parameter'), el('th', {}, 'Description'))),
+      el('tbody', {},
+        el('tr', {}, el('td', {}, el('code', {}, 'limit')), el('td', {}, 'Max results (a | b)')),
+        el('tr', {}, el('td', {}, 'offset'))
+      )
+    )
+
+    expect(htmlToMarkdown(tree)).toBe([
+      '| Parameter | Description |',
+      '| --- | --- |',
+      '| `limit` | Max results (a \\| b) |',
+      '| offset |  |'
+    ].join('\n'))
+  })
+
+  it('should lay out blocks nested in inline wrappers', () => {
+    const tree = el('body', {},
+      el('docs-page', {}, el('span', {}, el('p', {}, 'First')), 'loose ', el('em', {}, 'text')),
+      el('blockquote', {}, el('p', {}, 'Note'), el('p', {}, 'Quoted'))
+    )
+
+    expect(htmlToMarkdown(tree)).toBe('First\n\nloose _text_\n\n> Note\n>\n> Quoted')
+  })
+
+  it('should return an empty string for empty content', () => {
+    expect(htmlToMarkdown(el('body', {}, '  \n  '))).toBe('')
+  })
+})
@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { OpenApiReader, openApiContent } from '../openapi'
+import { ScrapingError } from '../../errors'
+
+// Mock fetch for testing
+global.fetch = vi.fn()
+
+const petstore = `
+openapi: 3.0.3
+info:
+  title: Petstore
+  version: 1.2.0
+  description: Manage the pets in a store
+paths:
+  /pets/{petId}:
+    parameters:
+      - $ref: '#/components/parameters/PetId'
+    get:
+      operationId: getPet
+      summary: Get a pet
+      tags: [pets]
+      responses:
+        '200':
+          description: The pet
+          content:
+            application/json:
+              schema:
+                $ref: '#/components/schemas/Pet'
+              example:
+                id: 7
+                name: Rex
+        '404':
+          description: Pet not found
+    delete:
+      operationId: deletePet
+      deprecated: true
+      responses:
+        '204':
+          description: Deleted
+  /pets:
+    post:
+      operationId: createPet
+      tags: [pets, admin]
+      requestBody:
+        required: true
+        content:
+          application/json:
+            schema:
+              allOf:
+                - $ref: '#/components/schemas/NewPet'
+                - type: object
+                  properties:
+                    status:
+                      type: string
+                      enum: [available, sold]
+                      default: available
+      responses:
+        '201':
+          description: Created
+components:
+  parameters:
+    PetId:
+      name: petId
+      in: path
+      required: true
+      description: Id of the pet
+      schema:
+        type: integer
+        format: int64
+  schemas:
+    NewPet:
+      type: object
+      required: [name]
+      properties:
+        name:
+          type: string
+          example: Rex
+    Pet:
+      allOf:
+        - $ref: '#/components/schemas/NewPet'
+        - type: object
+          required: [id]
+          properties:
+            id:
+              type: integer
+            parent:
+              $ref: '#/components/schemas/Pet'
+            toys:
+              type: array
+              items:
+                type: object
+                properties:
+                  kind:
+                    type: string
+`
+
+describe('openApiContent', () => {
+  it('should describe each OpenAPI 3 operation with parameters, schemas and examples', () => {
+    const content = openApiContent('https://api.example.com/openapi.yaml', petstore)
+
+    expect(content.title).toBe('Petstore 1.2.0')
+    expect(content.metadata).toEqual({ title: 'Petstore 1.2.0', description: 'Manage the pets in a store' })
+    expect(content.operations!.map(({ content: _, ...operation }) => operation)).toEqual([
+      { method: 'GET', path: '/pets/{petId}', operationId: 'getPet', tags: ['pets'] },
+      { method: 'DELETE', path: '/pets/{petId}', operationId: 'deletePet', tags: [] },
+      { method: 'POST', path: '/pets', operationId: 'createPet', tags: ['pets', 'admin'] }
+    ])
+
+    expect(content.operations![0].content).toBe([
+      '# GET /pets/{petId}',
+      '',
+      'Get a pet',
+      '',
+      'Operation ID: getPet',
+      'Tags: pets',
+      '',
+      '## Parameters',
+      '',
+      '- petId (path, integer<int64>, required): Id of the pet',
+      '',
+      '## Responses',
+      '',
+      '### 200: The pet',
+      '',
+      'Content type: application/json',
+      'Schema: Pet',
+      '',
+      '- name (string, required): example: Rex',
+      '- id (integer, required)',
+      '- parent (Pet)',
+      '- toys (array of object)',
+      '  - kind (string)',
+      '',
+      'Example:',
+      '',
+      '```json',
+      '{\n  "id": 7,\n  "name": "Rex"\n}',
+      '```',
+      '',
+      '### 404: Pet not found'
+    ].join('\n'))
+    expect(content.operations![1].content).toContain('Deprecated: yes')
+    expect(content.operations![2].content).toContain([
+      '## Request body',
+      '',
+      'Required.',
+      '',
+      'Content type: application/json',
+      'Schema: NewPet & object',
+      '',
+      '- name (string, required): example: Rex',
+      '- status (string): one of: available, sold; default: available'
+    ].join('\n'))
+    expect(content.content).toBe(content.operations!.map(operation => operation.content).join('\n\n'))
+  })
+
+  it('should read Swagger 2.0 JSON documents', () => {
+    const swagger = JSON.stringify({
+      swagger: '2.0',
+      info: { title: 'Orders' },
+      consumes: ['application/json'],
+      produces: ['application/json'],
+      paths: {
+        '/orders': {
+          post: {
+            operationId: 'placeOrder',
+            parameters: [
+              { name: 'dryRun', in: 'query', type: 'boolean', 'x-example': true },
+              { name: 'order', in: 'body', required: true, schema: { $ref: '#/definitions/Order' } }
+            ],
+            responses: {
+              200: {
+                description: 'Placed',
+                schema: { $ref: '#/definitions/Order' },
+                examples: { 'application/json': { sku: 'A-1' } }
+              }
+            }
+          }
+        }
+      },
+      definitions: {
+        Order: { type: 'object', properties: { sku: { type: 'string', description: 'Stock keeping unit' } } }
+      }
+    })
+
+    const [operation] = openApiContent('https://api.example.com/swagger.json', swagger).operations!
+
+    expect(operation.content).toContain('- dryRun (query, boolean): example: true')
+    expect(operation.content).toContain([
+      '## Request body',
+      '',
+      'Required.',
+      '',
+      'Content type: application/json',
+      'Schema: Order',
+      '',
+      '- sku (string): Stock keeping unit'
+    ].join('\n'))
+    expect(operation.content).toContain('### 200: Placed')
+    expect(operation.content).toContain('```json\n{\n  "sku": "A-1"\n}\n```')
+  })
+
+  it('should reject documents that are not API descriptions', () => {
+    expect(() => openApiContent('https://x.dev/a', '{ not: [valid')).toThrow(/not valid JSON or YAML/)
+    expect(() => openApiContent('https://x.dev/b', 'title: Just YAML')).toThrow(/Not an OpenAPI 3.x or Swagger 2.0 document/)
+    expect(() => openApiContent('https://x.dev/c', 'openapi: 3.1.0\ninfo: { title: Empty }\npaths: {}')).toThrow(/has no operations/)
+  })
+})
+
+describe('OpenApiReader', () => {
+  const reader = new OpenApiReader()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should fetch and parse an API description', async () => {
+    vi.mocked(fetch).mockResolvedValue(new Response(petstore, { status: 200 }))
+
+    const content = await reader.read('https://api.example.com/openapi.yaml')
+
+    expect(content.operations).toHaveLength(3)
+    expect(fetch).toHaveBeenCalledWith('https://api.example.com/openapi.yaml', expect.objectContaining({
+      headers: expect.objectContaining({ 'User-Agent': expect.stringContaining('Knowio-Bot') })
+    }))
+  })
+
+  it('should only retry failed requests that may succeed later', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(new Response('Not found', { status: 404 }))
+    const notFound = await reader.read('https://api.example.com/missing.yaml').catch(error => error)
+
+    vi.mocked(fetch).mockResolvedValueOnce(new Response('Unavailable', { status: 503 }))
+    const unavailable = await reader.read('https://api.example.com/openapi.yaml').catch(error => error)
+
+    expect(notFound).toBeInstanceOf(ScrapingError)
+    expect(notFound.retryable).toBe(false)
+    expect(unavailable).toBeInstanceOf(ScrapingError)
+    expect(unavailable.retryable).toBe(true)
+  })
+})
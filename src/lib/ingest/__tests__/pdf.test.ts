@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import { PdfExtractor, isPdfContentType, isPdfData } from '../pdf'
+import { ScrapingError } from '../../errors'
+
+/**
+ * Build a minimal PDF with one Helvetica text line per entry on each page
+ */
+function buildPdf(pages: string[][], info = ''): Uint8Array {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, i) => `${4 + i * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'
+  ]
+
+  pages.forEach((lines, i) => {
+    const stream = lines.map((line, j) => `BT /F1 12 Tf 72 ${720 - j * 20} Td (${line}) Tj ET`).join('\n')
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + i * 2} 0 R >>`)
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`)
+  })
+  objects.push(`<< ${info} >>`)
+
+  let pdf = '%PDF-1.4\n'
+  const offsets = objects.map((body, i) => {
+    const offset = pdf.length
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`
+    return offset
+  })
+  const xref = pdf.length
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xref}\n%%EOF`
+
+  return new TextEncoder().encode(pdf)
+}
+
+describe('PdfExtractor', () => {
+  const extractor = new PdfExtractor()
+
+  it('should extract text page by page with document metadata', async () => {
+    const data = buildPdf(
+      [['Authentication', 'Tokens expire hourly.'], ['Webhooks', 'Retries happen five times.']],
+      "/Title (API Specification) /Author (Platform Team) /CreationDate (D:20240315103000+01'00')"
+    )
+
+    const result = await extractor.extract('https://example.com/specs/api.pdf', data)
+
+    expect(result.pages).toEqual([
+      { pageNumber: 1, content: 'Authentication\nTokens expire hourly.' },
+      { pageNumber: 2, content: 'Webhooks\nRetries happen five times.' }
+    ])
+    expect(result.content).toBe('Authentication\nTokens expire hourly.\n\nWebhooks\nRetries happen five times.')
+    expect(result.title).toBe('API Specification')
+    expect(result.metadata).toMatchObject({
+      title: 'API Specification',
+      author: 'Platform Team',
+      publishedDate: '2024-03-15T09:30:00.000Z'
+    })
+    expect(result.links).toEqual([])
+  })
+
+  it('should skip pages without text and fall back to the file name for the title', async () => {
+    const data = buildPdf([['Overview'], [], ['Appendix']])
+
+    const result = await extractor.extract('https://example.com/docs/release_notes-2024.pdf', data)
+
+    expect(result.title).toBe('release notes 2024')
+    expect(result.pages?.map(page => page.pageNumber)).toEqual([1, 3])
+  })
+
+  it('should reject PDFs without a text layer', async () => {
+    await expect(extractor.extract('https://example.com/scan.pdf', buildPdf([[]])))
+      .rejects.toThrow(/No text layer/)
+  })
+
+  it('should reject files that are not valid PDFs', async () => {
+    const error = await extractor
+      .extract('https://example.com/broken.pdf', new TextEncoder().encode('not a pdf'))
+      .catch(err => err)
+
+    expect(error).toBeInstanceOf(ScrapingError)
+    expect(error.retryable).toBe(false)
+  })
+})
+
+describe('PDF detection', () => {
+  it('should recognise PDF content types', () => {
+    expect(isPdfContentType('application/pdf')).toBe(true)
+    expect(isPdfContentType('Application/PDF; charset=binary')).toBe(true)
+    expect(isPdfContentType('text/html')).toBe(false)
+    expect(isPdfContentType(undefined)).toBe(false)
+  })
+
+  it('should recognise PDF files by their signature', () => {
+    expect(isPdfData(new TextEncoder().encode('%PDF-1.7\n...'))).toBe(true)
+    expect(isPdfData(new TextEncoder().encode('<!DOCTYPE html>'))).toBe(false)
+  })
+})
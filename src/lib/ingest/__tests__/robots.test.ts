@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { RobotsTxt, RobotsChecker } from '../robots'
+import { URLValidator } from '../validator'
+
+// Mock fetch for testing
+global.fetch = vi.fn()
+
+const robotsResponse = (body: string, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  text: async () => body,
+}) as Response
+
+describe('RobotsTxt', () => {
+  const content = `
+# Example robots.txt
+User-agent: *
+Disallow: /private
+Allow: /private/docs
+Disallow: /*.json$
+Crawl-delay: 2
+
+User-agent: BadBot
+User-agent: Knowio-Bot
+Disallow: /internal/
+Allow: /internal/public
+Crawl-delay: 5
+`
+
+  it('should use the group matching our bot user agent', () => {
+    const robots = new RobotsTxt(content)
+
+    expect(robots.isAllowed('https://example.com/internal/secret')).toBe(false)
+    expect(robots.isAllowed('https://example.com/internal/public/page')).toBe(true)
+    // Rules from the * group do not apply when a specific group matches
+    expect(robots.isAllowed('https://example.com/private')).toBe(true)
+    expect(robots.getCrawlDelay()).toBe(5)
+  })
+
+  it('should fall back to the * group for other user agents', () => {
+    const robots = new RobotsTxt(content)
+
+    expect(robots.isAllowed('https://example.com/private/keys', 'OtherBot')).toBe(false)
+    expect(robots.isAllowed('https://example.com/private/docs/intro', 'OtherBot')).toBe(true)
+    expect(robots.isAllowed('https://example.com/api/spec.json', 'OtherBot')).toBe(false)
+    expect(robots.isAllowed('https://example.com/api/spec.json?v=2', 'OtherBot')).toBe(true)
+    expect(robots.getCrawlDelay('OtherBot')).toBe(2)
+  })
+
+  it('should match the product token exactly and case-insensitively', () => {
+    const robots = new RobotsTxt('User-agent: bot\nDisallow: /\n\nUser-agent: KNOWIO-BOT\nDisallow: /internal/')
+
+    // "Knowio-Bot" contains "bot" but is not that product
+    expect(robots.isAllowed('https://example.com/docs')).toBe(true)
+    expect(robots.isAllowed('https://example.com/internal/secret', 'Knowio-Bot/1.0 (+https://knowio.dev/bot)')).toBe(false)
+    expect(robots.isAllowed('https://example.com/docs', 'Bot')).toBe(false)
+  })
+
+  it('should allow everything for an empty file or empty Disallow', () => {
+    expect(RobotsTxt.allowAll().isAllowed('https://example.com/anything')).toBe(true)
+    expect(new RobotsTxt('User-agent: *\nDisallow:').isAllowed('https://example.com/docs')).toBe(true)
+  })
+})
+
+describe('RobotsChecker', () => {
+  let checker: RobotsChecker
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    checker = new RobotsChecker()
+  })
+
+  it('should fetch robots.txt once per host', async () => {
+    vi.mocked(fetch).mockResolvedValue(robotsResponse('User-agent: *\nDisallow: /admin'))
+
+    expect(await checker.isAllowed('https://example.com/docs')).toBe(true)
+    expect(await checker.isAllowed('https://example.com/admin/users')).toBe(false)
+
+    expect(fetch).toHaveBeenCalledTimes(1)
+    expect(vi.mocked(fetch).mock.calls[0][0]).toBe('https://example.com/robots.txt')
+  })
+
+  it('should allow crawling when robots.txt is missing', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce(robotsResponse('Not found', 404))
+
+    expect(await checker.isAllowed('https://missing.example.com/docs')).toBe(true)
+  })
+
+  it('should disallow crawling when robots.txt is unreachable or the server fails', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce(robotsResponse('Service unavailable', 503))
+      .mockRejectedValueOnce(new Error('ECONNRESET'))
+
+    expect(await checker.isAllowed('https://failing.example.com/docs')).toBe(false)
+    expect(await checker.isAllowed('https://down.example.com/docs')).toBe(false)
+  })
+
+  it('should wait for the crawl delay between requests to the same host', async () => {
+    vi.mocked(fetch).mockResolvedValue(robotsResponse('User-agent: *\nCrawl-delay: 0.05'))
+
+    await checker.waitForCrawlDelay('https://example.com/a')
+    const start = Date.now()
+    await checker.waitForCrawlDelay('https://example.com/b')
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(40)
+  })
+})
+
+describe('URLValidator robots.txt check', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should report a clear error when the URL is disallowed', async () => {
+    vi.mocked(fetch)
+      .mockResolvedValueOnce({ ok: true, status: 200 } as Response)
+      .mockResolvedValueOnce(robotsResponse('User-agent: *\nDisallow: /docs'))
+
+    const validator = new URLValidator(new RobotsChecker())
+    const result = await validator.validate('https://example.com/docs', { respectRobots: true })
+
+    expect(result.isValid).toBe(false)
+    expect(result.errors[0]).toContain('disallowed by robots.txt')
+  })
+
+  it('should skip the check when respectRobots is disabled', async () => {
+    vi.mocked(fetch).mockResolvedValueOnce({ ok: true, status: 200 } as Response)
+
+    const validator = new URLValidator(new RobotsChecker())
+    const result = await validator.validate('https://example.com/docs', { respectRobots: false })
+
+    expect(result.isValid).toBe(true)
+    expect(fetch).toHaveBeenCalledTimes(1)
+  })
+})
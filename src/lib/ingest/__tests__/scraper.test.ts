@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { WebScraper } from '../scraper'
-import { ScrapingError } from '../../errors'
+import { ScrapingError, ErrorSeverity } from '../../errors'
 
 describe('WebScraper', () => {
   let scraper: WebScraper
@@ -151,6 +151,53 @@ describe('WebScraper', () => {
     }, 30000)
   })
 
+  describe('static fetch', () => {
+    const htmlResponse = (html: string, status = 200) =>
+      new Response(html, { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } })
+    let initBrowser: ReturnType<typeof vi.spyOn>
+
+    beforeEach(() => {
+      initBrowser = vi.spyOn(scraper as any, 'initBrowser')
+        .mockRejectedValue(new ScrapingError('Browser unavailable', false, ErrorSeverity.LOW))
+    })
+
+    afterEach(() => {
+      vi.restoreAllMocks()
+    })
+
+    it('should read server-rendered pages without launching a browser', async () => {
+      vi.spyOn(global, 'fetch').mockResolvedValue(htmlResponse(`
+        <html>
+          <head><title>Rate limits</title></head>
+          <body><article><h1>Rate limits</h1><p>${'Requests are limited per API key and per minute. '.repeat(6)}</p></article></body>
+        </html>
+      `))
+
+      const result = await scraper.scrape('https://docs.example.com/rate-limits')
+
+      expect(result.strategy).toBe('static')
+      expect(result.title).toBe('Rate limits')
+      expect(result.content).toContain('Requests are limited per API key')
+      expect(initBrowser).not.toHaveBeenCalled()
+    })
+
+    it('should fall back to the browser for single-page app shells', async () => {
+      vi.spyOn(global, 'fetch').mockResolvedValue(htmlResponse(
+        '<html><body><div id="app"></div><script src="/app.js"></script></body></html>'
+      ))
+
+      await expect(scraper.scrape('https://docs.example.com/')).rejects.toThrow('Browser unavailable')
+      expect(initBrowser).toHaveBeenCalled()
+    })
+
+    it('should not launch a browser for missing pages', async () => {
+      vi.spyOn(global, 'fetch').mockResolvedValue(htmlResponse('Not found', 404))
+
+      await expect(scraper.scrape('https://docs.example.com/missing')).rejects.toThrow('HTTP 404 error')
+      expect(initBrowser).not.toHaveBeenCalled()
+    })
+  })
+
   describe('link extraction', () => {
     it('should extract and filter relevant links', async () => {
       const mockScrape = vi.spyOn(scraper, 'scrape').mockResolvedValue({
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { gzipSync } from 'zlib'
+import { SitemapReader } from '../sitemap'
+import { RobotsChecker } from '../robots'
+import { ScrapingError } from '../../errors'
+
+// Mock fetch for testing
+global.fetch = vi.fn()
+
+const xmlResponse = (body: string | Buffer, status = 200, headers: Record<string, string> = {}) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  headers: new Headers(headers),
+  text: async () => body.toString(),
+  arrayBuffer: async () => {
+    const buffer = Buffer.from(body)
+    return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength)
+  },
+}) as Response
+
+const urlset = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url>
+    <loc>https://docs.example.com/docs/intro</loc>
+    <lastmod>2024-06-01</lastmod>
+  </url>
+  <url>
+    <loc>https://docs.example.com/docs/api?lang=en&amp;v=2</loc>
+    <lastmod>2023-01-15T10:00:00+00:00</lastmod>
+  </url>
+  <url><loc>https://docs.example.com/blog/launch</loc></url>
+  <url><loc>https://cdn.example.com/docs/asset</loc></url>
+  <url><loc><![CDATA[https://docs.example.com/docs/faq]]></loc></url>
+</urlset>`
+
+describe('SitemapReader', () => {
+  let reader: SitemapReader
+  let robots: RobotsChecker
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    robots = new RobotsChecker()
+    reader = new SitemapReader(robots)
+  })
+
+  describe('parse', () => {
+    it('should parse urlset entries with lastmod', () => {
+      const parsed = SitemapReader.parse(urlset)
+
+      expect(parsed.sitemaps).toEqual([])
+      expect(parsed.urls).toHaveLength(5)
+      expect(parsed.urls[0]).toEqual({
+        url: 'https://docs.example.com/docs/intro',
+        lastModified: new Date('2024-06-01')
+      })
+      expect(parsed.urls[1].url).toBe('https://docs.example.com/docs/api?lang=en&v=2')
+      expect(parsed.urls[2].lastModified).toBeUndefined()
+      expect(parsed.urls[4].url).toBe('https://docs.example.com/docs/faq')
+    })
+
+    it('should parse sitemap index files', () => {
+      const parsed = SitemapReader.parse(`
+        <sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+          <sitemap><loc>https://docs.example.com/sitemap-docs.xml</loc></sitemap>
+          <sitemap><loc>https://docs.example.com/sitemap-blog.xml.gz</loc></sitemap>
+        </sitemapindex>`)
+
+      expect(parsed.urls).toEqual([])
+      expect(parsed.sitemaps).toEqual([
+        'https://docs.example.com/sitemap-docs.xml',
+        'https://docs.example.com/sitemap-blog.xml.gz'
+      ])
+    })
+  })
+
+  describe('discover', () => {
+    it('should read /sitemap.xml and filter by origin, path prefix and lastmod', async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(xmlResponse('Not found', 404)) // robots.txt
+        .mockResolvedValueOnce(xmlResponse(urlset))
+
+      const entries = await reader.discover('https://docs.example.com/docs', {
+        pathPrefix: '/docs',
+        modifiedSince: new Date('2024-01-01')
+      })
+
+      expect(vi.mocked(fetch).mock.calls[1][0]).toBe('https://docs.example.com/sitemap.xml')
+      expect(entries.map(entry => entry.url)).toEqual([
+        'https://docs.example.com/docs/intro',
+        'https://docs.example.com/docs/faq'
+      ])
+    })
+
+    it('should follow sitemap indexes listed in robots.txt', async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(xmlResponse('User-agent: *\nSitemap: https://docs.example.com/sitemap-index.xml'))
+        .mockResolvedValueOnce(xmlResponse(`
+          <sitemapindex>
+            <sitemap><loc>https://docs.example.com/sitemap-docs.xml.gz</loc></sitemap>
+          </sitemapindex>`))
+        .mockResolvedValueOnce(xmlResponse(gzipSync(urlset)))
+
+      const entries = await reader.discover('https://docs.example.com', { maxEntries: 2 })
+
+      expect(vi.mocked(fetch).mock.calls.map(([url]) => url)).toEqual([
+        'https://docs.example.com/robots.txt',
+        'https://docs.example.com/sitemap-index.xml',
+        'https://docs.example.com/sitemap-docs.xml.gz'
+      ])
+      expect(entries.map(entry => entry.url)).toEqual([
+        'https://docs.example.com/docs/intro',
+        'https://docs.example.com/docs/api?lang=en&v=2'
+      ])
+    })
+
+    it('should throw when no sitemap can be read', async () => {
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(xmlResponse('Not found', 404))
+        .mockResolvedValueOnce(xmlResponse('Not found', 404))
+
+      await expect(reader.discover('https://docs.example.com')).rejects.toThrow(ScrapingError)
+    })
+
+    it('should skip sitemaps larger than 50 MB, compressed or not', async () => {
+      // 51 MB of whitespace compresses to about 50 KB
+      const bomb = gzipSync(Buffer.alloc(51 * 1024 * 1024, ' '))
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(xmlResponse('', 200, { 'content-length': String(60 * 1024 * 1024) }))
+        .mockResolvedValueOnce(xmlResponse(bomb))
+
+      await expect(reader.discover('https://docs.example.com', {
+        sitemapUrl: 'https://docs.example.com/sitemap.xml'
+      })).rejects.toThrow(/No sitemap found/)
+      await expect(reader.discover('https://docs.example.com', {
+        sitemapUrl: 'https://docs.example.com/sitemap.xml.gz'
+      })).rejects.toThrow(/No sitemap found/)
+      expect(fetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should only read sitemaps on the root URL\'s origin', async () => {
+      await expect(reader.discover('https://docs.example.com', {
+        sitemapUrl: 'http://169.254.169.254/latest/meta-data'
+      })).rejects.toThrow(/must be on the same origin/)
+      expect(fetch).not.toHaveBeenCalled()
+
+      vi.mocked(fetch)
+        .mockResolvedValueOnce(xmlResponse(`
+          <sitemapindex>
+            <sitemap><loc>http://internal.example.com/sitemap.xml</loc></sitemap>
+            <sitemap><loc>https://docs.example.com/sitemap-docs.xml</loc></sitemap>
+          </sitemapindex>`))
+        .mockResolvedValueOnce(xmlResponse(urlset))
+
+      const entries = await reader.discover('https://docs.example.com', {
+        sitemapUrl: 'https://docs.example.com/sitemap-index.xml'
+      })
+
+      expect(vi.mocked(fetch).mock.calls.map(([url]) => url)).toEqual([
+        'https://docs.example.com/sitemap-index.xml',
+        'https://docs.example.com/sitemap-docs.xml'
+      ])
+      expect(entries).toHaveLength(4)
+    })
+  })
+})
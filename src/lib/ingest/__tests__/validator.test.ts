@@ -85,6 +85,28 @@ describe('URLValidator', () => {
       process.env.NODE_ENV = originalEnv
     })
 
+    it('should apply host rules without fetching when accessibility is not checked', async () => {
+      vi.stubEnv('NODE_ENV', 'production')
+
+      const repository = await validator.validate('https://github.com/acme/docs.git', { checkAccessibility: false })
+      const internal = await validator.validate('http://192.168.1.20/docs.git', { checkAccessibility: false })
+
+      expect(repository.isValid).toBe(true)
+      expect(internal.isValid).toBe(false)
+      expect(internal.errors).toContain('Private and local URLs are not allowed in production')
+      expect(fetch).not.toHaveBeenCalled()
+
+      vi.unstubAllEnvs()
+    })
+
+    it('should accept only the given protocols when they are listed', async () => {
+      const local = await validator.validate('file:///srv/repos/docs.git', { checkAccessibility: false, protocols: ['file'] })
+      const remote = await validator.validate('https://github.com/acme/docs.git', { checkAccessibility: false, protocols: ['file'] })
+
+      expect(local.isValid).toBe(true)
+      expect(remote.errors).toContain('Only file URLs are supported')
+    })
+
     it('should allow localhost in development', async () => {
       const originalEnv = process.env.NODE_ENV
       process.env.NODE_ENV = 'development'
@@ -215,6 +237,8 @@ describe('ingestionOptionsSchema', () => {
       maxDepth: 3,
       followLinks: true,
       respectRobots: false,
+      maxPages: 20,
+      mode: 'sitemap' as const,
     }
 
     const result = ingestionOptionsSchema.parse(validOptions)
@@ -227,6 +251,8 @@ describe('ingestionOptionsSchema', () => {
       maxDepth: 3,
       followLinks: false,
       respectRobots: true,
+      maxPages: 50,
+      mode: 'crawl',
     })
   })
 
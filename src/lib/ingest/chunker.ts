@@ -1,15 +1,38 @@
-import { DocumentChunk, ChunkMetadata, PageMetadata } from '../types'
-import { estimateTokenCount, preprocessText, splitIntoSentences } from '../utils'
+import { DocumentChunk, ChunkMetadata, PageMetadata, ScrapedOperation, ScrapedPage } from '../types'
+import { preprocessText, splitIntoSentences } from '../utils'
+import { Tokenizer, defaultTokenizer } from '../tokenizer'
+
+/**
+ * How oversized sections are split: 'sentence' splits purely on sentence boundaries,
+ * 'code-aware' keeps fenced code blocks whole and attached to the paragraph introducing them
+ */
+export type ChunkingStrategy = 'sentence' | 'code-aware'
+
+// Opening line of a fenced code block, capturing the fence and the info-string language
+const FENCE_OPEN = /^(`{3,}|~{3,})\s*([\w+#.-]*)/
+
+// Plain-text documents use all-caps lines for their sections, below the document title
+const ALL_CAPS_HEADER_LEVEL = 2
 
 export class ContentChunker {
   private readonly maxTokens: number
   private readonly overlapTokens: number
   private readonly minChunkSize: number
+  private readonly strategy: ChunkingStrategy
+  private readonly tokenizer: Tokenizer
 
-  constructor(maxTokens = 1000, overlapTokens = 100, minChunkSize = 50) {
+  constructor(
+    maxTokens = 1000,
+    overlapTokens = 100,
+    minChunkSize = 50,
+    strategy: ChunkingStrategy = 'code-aware',
+    tokenizer: Tokenizer = defaultTokenizer
+  ) {
     this.maxTokens = maxTokens
     this.overlapTokens = overlapTokens
     this.minChunkSize = minChunkSize
+    this.strategy = strategy
+    this.tokenizer = tokenizer
   }
 
   /**
@@ -17,6 +40,58 @@ export class ContentChunker {
    * Preserves semantic boundaries and document hierarchy
    */
   async chunk(content: string, metadata: PageMetadata): Promise<DocumentChunk[]> {
+    const allChunks = await this.chunkSections(content, metadata, 0)
+
+    // Apply overlap between chunks for better context preservation
+    return this.addOverlapBetweenChunks(allChunks)
+  }
+
+  /**
+   * Chunk paged documents (PDFs) one page at a time so every chunk records its page number.
+   * Chunk indices run on across pages, and overlap still carries context over page breaks.
+   */
+  async chunkPages(pages: ScrapedPage[], metadata: PageMetadata): Promise<DocumentChunk[]> {
+    const allChunks: DocumentChunk[] = []
+
+    for (const page of pages) {
+      const pageChunks = await this.chunkSections(page.content, metadata, allChunks.length)
+      allChunks.push(...pageChunks.map(chunk => ({
+        ...chunk,
+        metadata: { ...chunk.metadata, pageNumber: page.pageNumber }
+      })))
+    }
+
+    return this.addOverlapBetweenChunks(allChunks)
+  }
+
+  /**
+   * Chunk an API description with exactly one chunk per operation. Operations are never split
+   * or overlapped, so each chunk stays a self-contained reference for one endpoint.
+   */
+  async chunkOperations(operations: ScrapedOperation[], metadata: PageMetadata): Promise<DocumentChunk[]> {
+    return operations.map((operation, index) => {
+      const chunk = this.createChunk(operation.content, {
+        ...metadata,
+        section: `${operation.method} ${operation.path}`
+      }, index)
+
+      return {
+        ...chunk,
+        metadata: {
+          ...chunk.metadata,
+          httpMethod: operation.method,
+          apiPath: operation.path,
+          ...(operation.operationId && { operationId: operation.operationId }),
+          ...(operation.tags.length > 0 && { tags: operation.tags })
+        }
+      }
+    })
+  }
+
+  /**
+   * Split content into chunks along its document structure, numbering them from startIndex
+   */
+  private async chunkSections(content: string, metadata: PageMetadata, startIndex: number): Promise<DocumentChunk[]> {
     // Preprocess the content to clean and normalize it
     const cleanContent = preprocessText(content)
     
@@ -25,16 +100,15 @@ export class ContentChunker {
     
     // Process each section separately to maintain hierarchy
     const allChunks: DocumentChunk[] = []
-    let globalChunkIndex = 0
+    let globalChunkIndex = startIndex
     
     for (const section of structuredContent) {
       const sectionChunks = await this.chunkSection(section, metadata, globalChunkIndex)
       allChunks.push(...sectionChunks)
       globalChunkIndex += sectionChunks.length
     }
-    
-    // Apply overlap between chunks for better context preservation
-    return this.addOverlapBetweenChunks(allChunks)
+
+    return allChunks
   }
 
   /**
@@ -55,7 +129,7 @@ export class ContentChunker {
     
     for (const sentence of sentences) {
       const potentialChunk = currentChunk + (currentChunk ? ' ' : '') + sentence
-      const tokenCount = estimateTokenCount(potentialChunk)
+      const tokenCount = this.tokenizer.count(potentialChunk)
       
       if (tokenCount <= maxTokens) {
         currentChunk = potentialChunk
@@ -66,7 +140,7 @@ export class ContentChunker {
         }
         
         // Handle oversized sentences
-        if (estimateTokenCount(sentence) > maxTokens) {
+        if (this.tokenizer.count(sentence) > maxTokens) {
           const subChunks = this.splitOversizedSentence(sentence, maxTokens)
           chunks.push(...subChunks.filter(chunk => chunk.trim().length > 0))
           currentChunk = ''
@@ -100,35 +174,52 @@ export class ContentChunker {
     let currentSection: DocumentSection = {
       title: 'Main Content',
       level: 0,
+      path: [],
       content: '',
       startIndex: 0
     }
     
+    let fence: string | null = null
+    // Headings enclosing the current section, outermost first
+    const outline: Array<{ title: string; level: number }> = []
+    
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i].trim()
       
-      // Detect headers (markdown-style or common patterns)
-      const markdownHeader = line.match(/^(#{1,6})\s+(.+)$/)
-      const allCapsHeader = line.match(/^([A-Z][A-Z\s]{2,}):?\s*$/)
-      const underlinedHeader = line.length > 0 && line.length < 100 && 
-                              i + 1 < lines.length && 
-                              lines[i + 1].match(/^[=-]{3,}$/)
+      // Lines inside fenced code blocks are kept verbatim; a "# comment" there is not a header
+      const fenceMarker = line.match(FENCE_OPEN)
+      if (fence || fenceMarker) {
+        if (!fence) {
+          fence = fenceMarker![1]
+        } else if (closesFence(line, fence)) {
+          fence = null
+        }
+        currentSection.content += (currentSection.content ? '\n' : '') + lines[i]
+        continue
+      }
       
-      const headerMatch = markdownHeader || allCapsHeader || (underlinedHeader ? [null, '1', line] : null)
+      // Detect headers (markdown-style or common patterns)
+      const header = this.matchHeader(line, lines[i + 1])
       
-      if (headerMatch) {
+      if (header) {
         // Save previous section if it has content
         if (currentSection.content.trim()) {
           sections.push({ ...currentSection })
         }
         
         // Start new section
-        const level = headerMatch[1] ? headerMatch[1].length : 1
-        const title = headerMatch[2] || line
+        const { title, level } = header
+        
+        // A heading closes every open heading at its own level or deeper
+        while (outline.length > 0 && outline[outline.length - 1].level >= level) {
+          outline.pop()
+        }
+        outline.push({ title, level })
         
         currentSection = {
-          title: title.trim(),
+          title,
           level,
+          path: outline.map(heading => heading.title),
           content: '',
           startIndex: i
         }
@@ -154,6 +245,7 @@ export class ContentChunker {
       sections.push({
         title: 'Main Content',
         level: 0,
+        path: [],
         content: content,
         startIndex: 0
       })
@@ -162,6 +254,28 @@ export class ContentChunker {
     return sections
   }
 
+  /**
+   * Recognize an ATX ("## Title"), setext (underlined with = or -) or all-caps header line
+   */
+  private matchHeader(line: string, nextLine: string | undefined): { title: string; level: number } | null {
+    const markdownHeader = line.match(/^(#{1,6})\s+(.+)$/)
+    if (markdownHeader) {
+      return { title: markdownHeader[2].trim(), level: markdownHeader[1].length }
+    }
+
+    const underline = nextLine?.match(/^([=-]){3,}$/)
+    if (underline && line.length > 0 && line.length < 100) {
+      return { title: line, level: underline[1] === '=' ? 1 : 2 }
+    }
+
+    const allCapsHeader = line.match(/^([A-Z][A-Z\s]{2,}):?\s*$/)
+    if (allCapsHeader) {
+      return { title: allCapsHeader[1].trim(), level: ALL_CAPS_HEADER_LEVEL }
+    }
+
+    return null
+  }
+
   /**
    * Chunk a single section while maintaining its context
    */
@@ -176,17 +290,120 @@ export class ContentChunker {
     }
     
     // If section is small enough, return as single chunk
-    if (estimateTokenCount(section.content) <= this.maxTokens) {
-      return [this.createChunk(section.content, sectionMetadata, startingIndex)]
+    if (this.tokenizer.count(section.content) <= this.maxTokens) {
+      return [this.createChunk(section.content, sectionMetadata, startingIndex, section)]
     }
     
     // Split section into optimally sized chunks
-    const optimizedChunks = this.optimizeChunkSize(section.content, this.maxTokens)
+    const optimizedChunks = this.strategy === 'code-aware' && splitFencedBlocks(section.content).some(block => block.code)
+      ? this.splitPreservingCode(section.content, this.maxTokens)
+      : this.optimizeChunkSize(section.content, this.maxTokens)
     
     // Create DocumentChunk objects with preserved context
     return optimizedChunks.map((content, index) => 
-      this.createChunk(content, sectionMetadata, startingIndex + index)
+      this.createChunk(content, sectionMetadata, startingIndex + index, section)
+    )
+  }
+
+  /**
+   * Split text on paragraph boundaries without cutting fenced code blocks, keeping each block
+   * in the same chunk as the paragraph that introduces it. Code is only split when a single
+   * block exceeds the token limit.
+   */
+  private splitPreservingCode(text: string, maxTokens: number): string[] {
+    const units: ChunkUnit[] = []
+
+    for (const block of splitFencedBlocks(text)) {
+      if (!block.code) {
+        units.push(...block.content
+          .split(/\n\s*\n/)
+          .map(paragraph => paragraph.trim())
+          .filter(Boolean)
+          .map(paragraph => ({ content: paragraph })))
+        continue
+      }
+
+      // Attach the code to the explanation right before it
+      const previous = units[units.length - 1]
+      if (previous && !previous.code) {
+        units.pop()
+        units.push({
+          content: `${previous.content}\n\n${block.content}`,
+          intro: previous.content,
+          code: block.code
+        })
+      } else {
+        units.push({ content: block.content, code: block.code })
+      }
+    }
+
+    const chunks: string[] = []
+    let currentChunk = ''
+
+    for (const unit of units) {
+      const potentialChunk = currentChunk ? `${currentChunk}\n\n${unit.content}` : unit.content
+      if (this.tokenizer.count(potentialChunk) <= maxTokens) {
+        currentChunk = potentialChunk
+        continue
+      }
+
+      if (currentChunk) {
+        chunks.push(currentChunk)
+      }
+      currentChunk = ''
+
+      if (this.tokenizer.count(unit.content) <= maxTokens) {
+        currentChunk = unit.content
+      } else if (!unit.code) {
+        chunks.push(...this.optimizeChunkSize(unit.content, maxTokens))
+      } else {
+        // Too big together: the explanation goes first, then the code on its own or in pieces
+        if (unit.intro) {
+          chunks.push(...this.optimizeChunkSize(unit.intro, maxTokens))
+        }
+        const codeBlock = fenceCode(unit.code)
+        if (this.tokenizer.count(codeBlock) <= maxTokens) {
+          currentChunk = codeBlock
+        } else {
+          chunks.push(...this.splitOversizedCodeBlock(unit.code, maxTokens))
+        }
+      }
+    }
+
+    if (currentChunk) {
+      chunks.push(currentChunk)
+    }
+
+    return chunks
+  }
+
+  /**
+   * Split a code block that exceeds the token limit on line boundaries, re-fencing every piece
+   */
+  private splitOversizedCodeBlock(code: FencedCode, maxTokens: number): string[] {
+    const budget = maxTokens - this.tokenizer.count(fenceCode({ ...code, body: '' }))
+    const pieces: string[] = []
+    let currentLines: string[] = []
+
+    const lines = code.body.split('\n').flatMap(line =>
+      this.tokenizer.count(line) > budget ? this.splitOversizedSentence(line, budget) : [line]
     )
+
+    for (const line of lines) {
+      const potentialPiece = [...currentLines, line].join('\n')
+      if (currentLines.length > 0 && this.tokenizer.count(potentialPiece) > budget) {
+        pieces.push(currentLines.join('\n'))
+        currentLines = [line]
+      } else {
+        currentLines.push(line)
+      }
+    }
+
+    if (currentLines.some(line => line.trim())) {
+      pieces.push(currentLines.join('\n'))
+    }
+
+    return pieces.map(body => fenceCode({ ...code, body }))
   }
 
   /**
@@ -206,7 +423,12 @@ export class ContentChunker {
       // Add overlap from previous chunk (only at the beginning)
       if (i > 0) {
         const prevChunk = chunks[i - 1]
-        const prevSentences = splitIntoSentences(prevChunk.content)
+        // Overlap only carries prose; partial code would leave an unbalanced fence
+        const prevProse = splitFencedBlocks(prevChunk.content)
+          .filter(block => !block.code)
+          .map(block => block.content)
+          .join('\n')
+        const prevSentences = splitIntoSentences(prevProse)
         const overlapText = this.getOverlapText(prevSentences.slice(-2), this.overlapTokens)
         
         if (overlapText) {
@@ -215,14 +437,14 @@ export class ContentChunker {
       }
       
       // Ensure the enhanced content doesn't exceed token limits
-      if (estimateTokenCount(enhancedContent) > this.maxTokens) {
+      if (this.tokenizer.count(enhancedContent) > this.maxTokens) {
         enhancedContent = currentChunk.content // Fall back to original content
       }
       
       overlappedChunks.push({
         ...currentChunk,
         content: enhancedContent,
-        tokenCount: estimateTokenCount(enhancedContent)
+        tokenCount: this.tokenizer.count(enhancedContent)
       })
     }
     
@@ -237,7 +459,7 @@ export class ContentChunker {
     let tokenCount = 0
     
     for (const sentence of sentences) {
-      const sentenceTokens = estimateTokenCount(sentence)
+      const sentenceTokens = this.tokenizer.count(sentence)
       if (tokenCount + sentenceTokens > maxTokens) {
         break
       }
@@ -259,7 +481,7 @@ export class ContentChunker {
     for (const word of words) {
       const potentialChunk = currentChunk + (currentChunk ? ' ' : '') + word
       
-      if (estimateTokenCount(potentialChunk) <= maxTokens) {
+      if (this.tokenizer.count(potentialChunk) <= maxTokens) {
         currentChunk = potentialChunk
       } else {
         if (currentChunk) {
@@ -279,19 +501,33 @@ export class ContentChunker {
   /**
    * Create a document chunk with metadata
    */
-  private createChunk(content: string, metadata: PageMetadata, chunkIndex: number): DocumentChunk {
+  private createChunk(
+    content: string,
+    metadata: PageMetadata,
+    chunkIndex: number,
+    section?: DocumentSection
+  ): DocumentChunk {
+    const codeBlocks = splitFencedBlocks(content).flatMap(block => block.code ? [block.code] : [])
+    const language = codeBlocks.find(code => code.language)?.language
+
     const chunkMetadata: ChunkMetadata = {
       sourceUrl: '', // Will be set by the caller
       title: metadata.title,
       section: metadata.section,
       chunkIndex,
+      hasCode: codeBlocks.length > 0,
+      ...(language && { language }),
+      ...(section && section.path.length > 0 && {
+        headingPath: section.path,
+        headingLevel: section.level,
+      }),
     }
 
     return {
       id: `chunk-${Date.now()}-${Math.random().toString(36).substr(2, 9)}-${chunkIndex}`,
       content: content.trim(),
       metadata: chunkMetadata,
-      tokenCount: estimateTokenCount(content),
+      tokenCount: this.tokenizer.count(content),
     }
   }
 }
@@ -302,6 +538,95 @@ export class ContentChunker {
 interface DocumentSection {
   title: string
   level: number
+  // Titles of the enclosing headings down to this one, e.g. ['Auth', 'OAuth', 'Refresh tokens']
+  path: string[]
   content: string
   startIndex: number
-}
\ No newline at end of file
+}
+
+/**
+ * A fenced code block: its fence, info-string language and the code between the fences
+ */
+interface FencedCode {
+  fence: string
+  language?: string
+  body: string
+}
+
+/**
+ * A run of prose, or a fenced code block with its fences included in the content
+ */
+interface ContentBlock {
+  content: string
+  code?: FencedCode
+}
+
+/**
+ * A paragraph or code block that is packed into chunks as a whole when it fits
+ */
+interface ChunkUnit {
+  content: string
+  // Paragraph a code block was attached to
+  intro?: string
+  code?: FencedCode
+}
+
+function closesFence(line: string, fence: string): boolean {
+  const trimmed = line.trim()
+  return trimmed.startsWith(fence) && /^(`+|~+)$/.test(trimmed)
+}
+
+/**
+ * Split Markdown into prose and fenced code blocks. An unclosed fence runs to the end of the text.
+ */
+function splitFencedBlocks(content: string): ContentBlock[] {
+  const blocks: ContentBlock[] = []
+  let prose: string[] = []
+  let code: { fence: string; language?: string; lines: string[] } | null = null
+
+  const flushProse = () => {
+    if (prose.some(line => line.trim())) {
+      blocks.push({ content: prose.join('\n') })
+    }
+    prose = []
+  }
+
+  const flushCode = (closed: boolean) => {
+    const body = code!.lines.slice(1).join('\n')
+    blocks.push({
+      content: [...code!.lines, ...(closed ? [code!.fence] : [])].join('\n'),
+      code: { fence: code!.fence, language: code!.language, body }
+    })
+    code = null
+  }
+
+  for (const line of content.split('\n')) {
+    if (code) {
+      if (closesFence(line, code.fence)) {
+        flushCode(true)
+      } else {
+        code.lines.push(line)
+      }
+      continue
+    }
+
+    const opening = line.trim().match(FENCE_OPEN)
+    if (opening) {
+      flushProse()
+      code = { fence: opening[1], language: opening[2] ? opening[2].toLowerCase() : undefined, lines: [line] }
+    } else {
+      prose.push(line)
+    }
+  }
+
+  if (code) {
+    flushCode(false)
+  }
+  flushProse()
+
+  return blocks
+}
+
+function fenceCode(code: FencedCode): string {
+  return `${code.fence}${code.language ?? ''}\n${code.body}\n${code.fence}`
+}
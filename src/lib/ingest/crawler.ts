@@ -0,0 +1,111 @@
+export interface CrawlOptions {
+  maxDepth?: number
+  maxPages?: number
+  followLinks?: boolean
+}
+
+export interface CrawlTarget {
+  url: string
+  depth: number
+}
+
+/**
+ * Breadth-first crawl frontier for a single ingestion job.
+ * Tracks queued and visited URLs, restricts crawling to the root's origin and
+ * enforces the depth and page limits from the ingestion options.
+ */
+export class CrawlFrontier {
+  private readonly origin: string
+  private readonly maxDepth: number
+  private readonly maxPages: number
+  private readonly followLinks: boolean
+  private readonly queue: CrawlTarget[] = []
+  private readonly seen = new Set<string>()
+  private dequeued = 0
+
+  /**
+   * Seeds default to the root URL; sitemap mode seeds the frontier with the sitemap's pages instead
+   */
+  constructor(rootUrl: string, options: CrawlOptions = {}, seeds: string[] = [rootUrl]) {
+    this.origin = new URL(rootUrl).origin
+    this.maxDepth = options.maxDepth ?? 3
+    this.maxPages = options.maxPages ?? 50
+    this.followLinks = options.followLinks ?? false
+
+    for (const seed of seeds) {
+      const normalized = CrawlFrontier.normalize(seed)
+      if (this.seen.has(normalized)) continue
+      this.seen.add(normalized)
+      this.queue.push({ url: seed, depth: 0 })
+    }
+  }
+
+  /**
+   * Normalize a URL for deduplication: drop fragments, default ports and trailing slashes
+   */
+  static normalize(url: string): string {
+    const urlObj = new URL(url)
+    urlObj.hash = ''
+    if (urlObj.pathname.length > 1 && urlObj.pathname.endsWith('/')) {
+      urlObj.pathname = urlObj.pathname.replace(/\/+$/, '')
+    }
+    return urlObj.toString()
+  }
+
+  /**
+   * Take the next URL to crawl, or undefined once the frontier is exhausted or the page cap is hit
+   */
+  next(): CrawlTarget | undefined {
+    if (this.dequeued >= this.maxPages) {
+      return undefined
+    }
+
+    const target = this.queue.shift()
+    if (target) {
+      this.dequeued++
+    }
+    return target
+  }
+
+  /**
+   * Queue links discovered on a page crawled at the given depth. Returns the number of new URLs queued.
+   */
+  addLinks(links: string[], parentDepth: number): number {
+    if (!this.followLinks || parentDepth >= this.maxDepth) {
+      return 0
+    }
+
+    let added = 0
+    for (const link of links) {
+      let normalized: string
+      try {
+        normalized = CrawlFrontier.normalize(link)
+      } catch {
+        continue
+      }
+
+      if (new URL(normalized).origin !== this.origin || this.seen.has(normalized)) {
+        continue
+      }
+
+      // Never queue more URLs than the page cap can ever consume
+      if (this.seen.size >= this.maxPages) {
+        break
+      }
+
+      this.seen.add(normalized)
+      this.queue.push({ url: normalized, depth: parentDepth + 1 })
+      added++
+    }
+
+    return added
+  }
+
+  get pagesDequeued(): number {
+    return this.dequeued
+  }
+
+  get pending(): number {
+    return this.queue.length
+  }
+}
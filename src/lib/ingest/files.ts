@@ -0,0 +1,115 @@
+import mammoth from 'mammoth'
+import { parse } from 'node-html-parser'
+import { ScrapedContent, UploadedFile } from '../types'
+import { ScrapingError, ErrorContext, ErrorSeverity } from '../errors'
+import { loggers } from '../logger'
+import { titleFromFileName } from '../utils'
+import { htmlToMarkdown } from './markdown'
+import { toHtmlNode } from './html'
+import { PdfExtractor, pdfExtractor } from './pdf'
+import { detectUploadFormat } from './uploads'
+
+// Page chrome and interactive elements that carry no document content
+const UNWANTED_ELEMENTS = [
+  'script', 'style', 'noscript', 'template', 'nav', 'header', 'footer', 'aside',
+  'form', 'button', 'input', 'select', 'textarea', 'iframe', 'embed', 'object', 'svg'
+].join(', ')
+
+/**
+ * Turns uploaded files into scraped content so they can go through the same
+ * chunking, embedding and storage stages as scraped pages
+ */
+export class FileParser {
+  private readonly logger = loggers.scraper
+  private readonly pdf: PdfExtractor
+
+  constructor(pdf: PdfExtractor = pdfExtractor) {
+    this.pdf = pdf
+  }
+
+  async parse(sourceUri: string, file: UploadedFile, context?: ErrorContext): Promise<ScrapedContent> {
+    const format = detectUploadFormat(file.fileName, file.contentType)
+    if (!format) {
+      throw new ScrapingError(
+        `Unsupported file type: ${file.fileName}`,
+        false,
+        ErrorSeverity.LOW,
+        context
+      )
+    }
+
+    if (format === 'pdf') {
+      return this.pdf.extract(sourceUri, file.data, context)
+    }
+
+    const { content, title } = format === 'html' || format === 'docx'
+      ? fromHtml(await this.readHtml(format, file, context))
+      : fromText(new TextDecoder().decode(file.data), format)
+
+    if (!content.trim()) {
+      throw new ScrapingError(
+        `No content extracted from file: ${file.fileName}`,
+        false,
+        ErrorSeverity.MEDIUM,
+        context
+      )
+    }
+
+    const resolvedTitle = title || titleFromFileName(file.fileName) || file.fileName
+
+    this.logger.info('Uploaded file parsed', {
+      fileName: file.fileName,
+      format,
+      contentLength: content.length
+    }, context)
+
+    return {
+      url: sourceUri,
+      title: resolvedTitle,
+      content,
+      metadata: { title: resolvedTitle },
+      links: []
+    }
+  }
+
+  private async readHtml(format: 'html' | 'docx', file: UploadedFile, context?: ErrorContext): Promise<string> {
+    if (format === 'html') {
+      return new TextDecoder().decode(file.data)
+    }
+
+    // Word documents are converted to HTML so headings, lists and tables keep their structure
+    try {
+      const result = await mammoth.convertToHtml({ buffer: Buffer.from(file.data) })
+      return result.value
+    } catch (error) {
+      throw new ScrapingError(
+        `Failed to parse DOCX file: ${file.fileName}`,
+        false,
+        ErrorSeverity.MEDIUM,
+        context,
+        error instanceof Error ? error : new Error(String(error))
+      )
+    }
+  }
+}
+
+function fromText(text: string, format: 'markdown' | 'text'): { content: string; title?: string } {
+  const content = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n')
+  const title = format === 'markdown' ? content.match(/^#\s+(.+?)\s*#*\s*$/m)?.[1] : undefined
+
+  return { content, title }
+}
+
+function fromHtml(html: string): { content: string; title?: string } {
+  // Parse code blocks as elements rather than raw text so their language classes survive
+  const root = parse(html, { blockTextElements: { script: true, noscript: true, style: true } })
+  const title = (root.querySelector('title') ?? root.querySelector('h1'))?.text.replace(/\s+/g, ' ').trim()
+
+  root.querySelectorAll(UNWANTED_ELEMENTS).forEach(element => element.remove())
+  const main = root.querySelector('main') ?? root.querySelector('article') ??
+    root.querySelector('[role="main"]') ?? root.querySelector('body') ?? root
+
+  return { content: htmlToMarkdown(toHtmlNode(main) ?? ''), title: title || undefined }
+}
+
+export const fileParser = new FileParser()
@@ -0,0 +1,49 @@
+import { parse as parseYaml } from 'yaml'
+
+// YAML front matter block at the very start of a Markdown file
+const FRONT_MATTER = /^\uFEFF?---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/
+
+// Top-level ESM statements in MDX files, which are code rather than content
+const MDX_MODULE_LINE = /^(?:import\s.+\sfrom\s|import\s+['"]|export\s+(?:const|let|var|function|default)\b)/
+
+/**
+ * Split YAML front matter off a Markdown document. Front matter that isn't a YAML
+ * mapping (or doesn't parse) is dropped from the body and ignored.
+ */
+export function parseFrontMatter(markdown: string): { frontMatter: Record<string, unknown>; body: string } {
+  const match = markdown.match(FRONT_MATTER)
+  if (!match) {
+    return { frontMatter: {}, body: markdown }
+  }
+
+  let frontMatter: Record<string, unknown> = {}
+  try {
+    const parsed = parseYaml(match[1] ?? '')
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      frontMatter = parsed as Record<string, unknown>
+    }
+  } catch {
+    // Malformed front matter should not block ingesting the document itself
+  }
+
+  return { frontMatter, body: markdown.slice(match[0].length) }
+}
+
+/**
+ * Remove MDX import/export statements, leaving fenced code untouched
+ */
+export function stripMdxModuleSyntax(mdx: string): string {
+  let fence: string | null = null
+
+  return mdx
+    .split('\n')
+    .filter(line => {
+      const marker = line.match(/^\s*(`{3,}|~{3,})/)?.[1]
+      if (marker && (!fence || (marker[0] === fence[0] && marker.length >= fence.length))) {
+        fence = fence ? null : marker
+        return true
+      }
+      return fence !== null || !MDX_MODULE_LINE.test(line)
+    })
+    .join('\n')
+}
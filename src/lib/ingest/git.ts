@@ -0,0 +1,213 @@
+import { execFile } from 'child_process'
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join, posix } from 'path'
+import { promisify } from 'util'
+import picomatch from 'picomatch'
+import { ScrapedContent } from '../types'
+import { ScrapingError, ErrorContext, ErrorSeverity } from '../errors'
+import { loggers } from '../logger'
+import { titleFromFileName } from '../utils'
+import { parseFrontMatter, stripMdxModuleSyntax } from './frontmatter'
+
+const execFileAsync = promisify(execFile)
+
+// Documentation Markdown and MDX under docs/ unless a job says otherwise
+export const DEFAULT_GIT_INCLUDE = ['docs/**/*.md', 'docs/**/*.mdx']
+
+const GIT_TIMEOUT_MS = 120000
+const GIT_MAX_BUFFER = 64 * 1024 * 1024
+
+// Transports clone may use unless GIT_ALLOWED_PROTOCOLS says otherwise; ext::, file://, local paths and ssh are refused
+const DEFAULT_ALLOWED_PROTOCOLS = ['https', 'http']
+
+/**
+ * A working copy of a repository at a resolved commit
+ */
+export interface GitCheckout {
+  directory: string
+  sha: string
+  ref?: string
+}
+
+export interface GitFileFilter {
+  include?: string[]
+  exclude?: string[]
+}
+
+/**
+ * Files that differ between two commits; renames show up as a deletion plus an addition
+ */
+export interface GitChanges {
+  changed: string[]
+  deleted: string[]
+}
+
+/**
+ * Reads documentation files out of Git repositories with the git CLI
+ */
+export class GitRepositoryReader {
+  private readonly logger = loggers.scraper
+  readonly allowedProtocols: string[]
+
+  constructor(options: { allowedProtocols?: string[] } = {}) {
+    this.allowedProtocols = options.allowedProtocols ?? DEFAULT_ALLOWED_PROTOCOLS
+  }
+
+  /**
+   * Clone a repository over one of the allowed transports (http(s) by default; local and bare
+   * repositories need "file"), optionally at a branch or tag, into a temporary directory
+   */
+  async checkout(repository: string, ref?: string, context?: ErrorContext): Promise<GitCheckout> {
+    const directory = await mkdtemp(join(tmpdir(), 'knowio-git-'))
+
+    try {
+      await this.git(directory, [
+        '-c', 'protocol.allow=never',
+        ...this.allowedProtocols.flatMap(protocol => ['-c', `protocol.${protocol}.allow=always`]),
+        'clone', '--quiet', '--no-tags', '--single-branch',
+        ...(ref ? ['--branch', ref] : []),
+        '--', repository, directory
+      ])
+      const sha = (await this.git(directory, ['rev-parse', 'HEAD'])).trim()
+
+      this.logger.info('Repository checked out', { repository, ref, sha }, context)
+
+      return { directory, sha, ref }
+    } catch (error) {
+      await this.cleanup({ directory, sha: '' })
+      throw new ScrapingError(
+        `Failed to clone repository: ${repository}`,
+        true,
+        ErrorSeverity.MEDIUM,
+        context,
+        error instanceof Error ? error : new Error(String(error))
+      )
+    }
+  }
+
+  /**
+   * Tracked files matching the include globs and none of the exclude globs
+   */
+  async listFiles(checkout: GitCheckout, filter: GitFileFilter = {}): Promise<string[]> {
+    const output = await this.git(checkout.directory, ['ls-files', '-z'])
+    return splitPaths(output).filter(matcher(filter)).sort()
+  }
+
+  /**
+   * Matching files changed or deleted since an earlier commit, or null when that commit
+   * is not in the checked out history (e.g. after a force push)
+   */
+  async changesSince(checkout: GitCheckout, sha: string, filter: GitFileFilter = {}): Promise<GitChanges | null> {
+    try {
+      await this.git(checkout.directory, ['cat-file', '-e', `${sha}^{commit}`])
+    } catch {
+      return null
+    }
+
+    const output = await this.git(checkout.directory, [
+      'diff', '--name-status', '--no-renames', '-z', sha, checkout.sha
+    ])
+    const matches = matcher(filter)
+    const fields = splitPaths(output)
+    const changes: GitChanges = { changed: [], deleted: [] }
+
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+      const [status, path] = [fields[i], fields[i + 1]]
+      if (!matches(path)) continue
+
+      if (status === 'D') {
+        changes.deleted.push(path)
+      } else {
+        changes.changed.push(path)
+      }
+    }
+
+    return changes
+  }
+
+  async readFile(checkout: GitCheckout, path: string): Promise<string> {
+    return readFile(join(checkout.directory, ...path.split('/')), 'utf8')
+  }
+
+  async cleanup(checkout: GitCheckout): Promise<void> {
+    await rm(checkout.directory, { recursive: true, force: true })
+  }
+
+  private async git(cwd: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd,
+      timeout: GIT_TIMEOUT_MS,
+      maxBuffer: GIT_MAX_BUFFER,
+      // Never wait for credentials on a terminal that isn't there
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' }
+    })
+    return stdout
+  }
+}
+
+/**
+ * Hosted URL of a documentation file. Templates may use {file} (the path in the repository),
+ * {path} (without extension or a trailing index/README), {sha} and {ref}.
+ */
+export function documentUrl(template: string, file: string, checkout: GitCheckout): string {
+  const path = file
+    .replace(/\.[^./]+$/, '')
+    .replace(/(^|\/)(index|readme)$/i, '')
+
+  return template
+    .replace(/\{file\}/g, encodeURI(file))
+    .replace(/\{path\}/g, encodeURI(path))
+    .replace(/\{sha\}/g, checkout.sha)
+    .replace(/\{ref\}/g, encodeURIComponent(checkout.ref ?? checkout.sha))
+}
+
+/**
+ * Turn a Markdown or MDX file into scraped content, moving its front matter into metadata
+ */
+export function gitDocumentContent(file: string, source: string, url: string): ScrapedContent {
+  const { frontMatter, body } = parseFrontMatter(source.replace(/\r\n?/g, '\n'))
+  const content = (file.toLowerCase().endsWith('.mdx') ? stripMdxModuleSyntax(body) : body).trim()
+
+  const title = frontMatterString(frontMatter.title) ||
+    content.match(/^#\s+(.+?)\s*#*\s*$/m)?.[1] ||
+    titleFromFileName(posix.basename(file))
+
+  return {
+    url,
+    title,
+    content,
+    metadata: {
+      title,
+      description: frontMatterString(frontMatter.description),
+      author: frontMatterString(frontMatter.author),
+      publishedDate: frontMatterString(frontMatter.date),
+      ...(Object.keys(frontMatter).length > 0 && { frontMatter })
+    },
+    links: []
+  }
+}
+
+function frontMatterString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+function matcher({ include = DEFAULT_GIT_INCLUDE, exclude = [] }: GitFileFilter): (path: string) => boolean {
+  const included = picomatch(include, { dot: true })
+  const excluded = exclude.length > 0 ? picomatch(exclude, { dot: true }) : () => false
+  return path => included(path) && !excluded(path)
+}
+
+function splitPaths(output: string): string[] {
+  return output.split('\0').filter(Boolean)
+}
+
+/**
+ * Transports selected by GIT_ALLOWED_PROTOCOLS, a comma-separated list such as "https,file"
+ */
+export function gitAllowedProtocols(value: string | undefined = process.env.GIT_ALLOWED_PROTOCOLS): string[] {
+  const protocols = (value ?? '').split(',').map(protocol => protocol.trim().toLowerCase()).filter(Boolean)
+  return protocols.length > 0 ? protocols : DEFAULT_ALLOWED_PROTOCOLS
+}
+
+export const gitRepositoryReader = new GitRepositoryReader({ allowedProtocols: gitAllowedProtocols() })
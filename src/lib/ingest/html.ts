@@ -0,0 +1,295 @@
+import { parse, HTMLElement, Node as ParsedNode, NodeType } from 'node-html-parser'
+import { PageMetadata } from '../types'
+import { HtmlNode, MARKDOWN_ATTRIBUTES, htmlToMarkdown } from './markdown'
+
+/**
+ * Page chrome removed before extraction (scripts, styles, navigation, ads, etc.)
+ */
+export const UNWANTED_SELECTORS = [
+  'script', 'style', 'noscript',
+  'nav', 'header', 'footer', 'aside',
+  '.nav', '.navigation', '.menu', '.sidebar',
+  '.header', '.footer', '.banner', '.advertisement',
+  '.ads', '.ad', '.promo', '.promotion',
+  '.social', '.share', '.sharing',
+  '.comments', '.comment-section',
+  '.breadcrumb', '.breadcrumbs',
+  '.pagination', '.pager',
+  '.related', '.recommended',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]',
+  '[class*="nav"]', '[class*="menu"]', '[class*="sidebar"]',
+  '[class*="ad"]', '[class*="advertisement"]',
+  '[id*="nav"]', '[id*="menu"]', '[id*="sidebar"]',
+  '[id*="ad"]', '[id*="advertisement"]'
+]
+
+/**
+ * Main content areas in priority order; the body is used when none is present
+ */
+export const CONTENT_SELECTORS = [
+  'main',
+  'article',
+  '[role="main"]',
+  '.main-content',
+  '.content',
+  '#content',
+  '.post-content',
+  '.entry-content',
+  '.article-content',
+  '.documentation',
+  '.docs',
+  '.api-docs'
+]
+
+/**
+ * Interactive and embedded elements removed from the main content area
+ */
+export const UNWANTED_CONTENT_ELEMENTS = 'button, input, select, textarea, form, iframe, embed, object, video, audio'
+
+// Elements client-side frameworks render the application into
+const APP_ROOT_SELECTORS = ['#root', '#app', '#__next', '#__nuxt', '#___gatsby', '[data-reactroot]', 'app-root']
+
+// Scripted pages with less text than this are assumed to render their content in the browser
+const MIN_STATIC_CONTENT_LENGTH = 200
+
+/**
+ * Anchor found on a page, before filtering
+ */
+export interface PageLink {
+  href: string
+  text: string
+  className: string
+  id: string
+}
+
+export interface StaticPage {
+  content: string
+  metadata: PageMetadata
+  links: string[]
+  // Whether the HTML looks like a single-page app shell whose content only exists after scripts run
+  isAppShell: boolean
+}
+
+/**
+ * Extract content, metadata and links from server-rendered HTML the way the browser path does,
+ * without running any scripts
+ */
+export function extractStaticPage(html: string, pageUrl: string): StaticPage {
+  // Parse code blocks as elements rather than raw text so their language classes survive
+  const root = parse(html, { blockTextElements: { script: true, noscript: true, style: true } })
+  const baseUrl = resolveUrl(root.querySelector('base')?.getAttribute('href') ?? '', pageUrl) ?? pageUrl
+  const isScripted = root.querySelector('script') !== null
+  const hasEmptyAppRoot = APP_ROOT_SELECTORS.some(selector => {
+    const element = root.querySelector(selector)
+    return element !== null && !element.text.trim()
+  })
+
+  // Like the browser path, text extraction strips page chrome before metadata and links are read
+  const content = extractDocumentText(root, baseUrl)
+  const metadata = extractDocumentMetadata(root, pageUrl)
+  const links = filterLinks(extractDocumentLinks(root, baseUrl), pageUrl)
+
+  const isShortContent = content.replace(/\s+/g, ' ').trim().length < MIN_STATIC_CONTENT_LENGTH
+  return {
+    content,
+    metadata,
+    links,
+    isAppShell: hasEmptyAppRoot || (isShortContent && isScripted)
+  }
+}
+
+/**
+ * Static counterpart of the browser's extractText: remove page chrome and render the main content as Markdown
+ */
+function extractDocumentText(root: HTMLElement, baseUrl: string): string {
+  removeAll(root, UNWANTED_SELECTORS.join(', '))
+
+  let mainContent: HTMLElement | null = null
+  for (const selector of CONTENT_SELECTORS) {
+    mainContent = root.querySelector(selector)
+    if (mainContent) break
+  }
+  mainContent = mainContent ?? root.querySelector('body')
+
+  if (!mainContent) {
+    return ''
+  }
+
+  const clone = parse(mainContent.outerHTML, { blockTextElements: { script: true, noscript: true, style: true } })
+  removeAll(clone, UNWANTED_CONTENT_ELEMENTS)
+
+  // Resolve link targets against the page URL, leaving in-page anchors out
+  for (const anchor of clone.querySelectorAll('a[href]')) {
+    const href = anchor.getAttribute('href')!
+    const resolved = href.startsWith('#') ? undefined : resolveUrl(href, baseUrl)
+    if (resolved) {
+      anchor.setAttribute('href', resolved)
+    } else {
+      anchor.removeAttribute('href')
+    }
+  }
+
+  const tree = clone.firstChild ? toHtmlNode(clone.firstChild) : null
+  return tree ? htmlToMarkdown(tree) : ''
+}
+
+/**
+ * Static counterpart of the browser's extractMetadata
+ */
+function extractDocumentMetadata(root: HTMLElement, pageUrl: string): PageMetadata {
+  const getMetaContent = (name: string): string | undefined => {
+    const selectors = [
+      `meta[name="${name}"]`,
+      `meta[property="${name}"]`,
+      `meta[name="${name.toLowerCase()}"]`,
+      `meta[property="${name.toLowerCase()}"]`,
+      `meta[name="og:${name}"]`,
+      `meta[property="og:${name}"]`,
+      `meta[name="twitter:${name}"]`,
+      `meta[property="twitter:${name}"]`
+    ]
+
+    for (const selector of selectors) {
+      const content = root.querySelector(selector)?.getAttribute('content')
+      if (content) return content
+    }
+    return undefined
+  }
+
+  // Extract title with fallbacks
+  let title = root.querySelector('title')?.text.replace(/\s+/g, ' ').trim() || ''
+  if (!title) {
+    title = root.querySelector('h1')?.text.trim() || ''
+  }
+
+  // Extract section information from URL path or headings
+  let section: string | undefined
+  const pathParts = new URL(pageUrl).pathname.split('/').filter(Boolean)
+  if (pathParts.length > 0) {
+    section = pathParts[pathParts.length - 1]
+      .replace(/[-_]/g, ' ')
+      .replace(/\.(html?|php|aspx?)$/i, '')
+  }
+
+  if (!section) {
+    section = root.querySelector('h1, h2')?.text.trim()
+  }
+
+  return {
+    title: title.trim(),
+    description: getMetaContent('description') ||
+      getMetaContent('og:description') ||
+      getMetaContent('twitter:description'),
+    author: getMetaContent('author') ||
+      getMetaContent('article:author') ||
+      getMetaContent('og:author'),
+    publishedDate: getMetaContent('article:published_time') ||
+      getMetaContent('date') ||
+      getMetaContent('published') ||
+      getMetaContent('article:published') ||
+      getMetaContent('og:published_time'),
+    section: section
+  }
+}
+
+/**
+ * Static counterpart of the anchors the browser's extractLinks collects
+ */
+function extractDocumentLinks(root: HTMLElement, baseUrl: string): PageLink[] {
+  return root.querySelectorAll('a[href]')
+    .map(anchor => ({
+      href: resolveUrl(anchor.getAttribute('href')!, baseUrl) ?? '',
+      text: anchor.text.trim(),
+      className: anchor.getAttribute('class') || '',
+      id: anchor.getAttribute('id') || ''
+    }))
+    .filter(link => link.href && link.href !== '#')
+}
+
+/**
+ * Keep the first 50 distinct same-host content links, dropping assets and navigation
+ */
+export function filterLinks(links: PageLink[], baseUrl: string): string[] {
+  const base = new URL(baseUrl)
+
+  return links
+    .filter(link => {
+      try {
+        const url = new URL(link.href)
+
+        // Only include links from the same domain
+        if (url.hostname !== base.hostname) return false
+
+        // Only include HTTP/HTTPS links
+        if (!url.protocol.startsWith('http')) return false
+
+        // Exclude common non-content links
+        const excludePatterns = [
+          /\.(css|js|json|xml|zip|tar|gz|exe|dmg)$/i,
+          /#$/,
+          /javascript:/i,
+          /mailto:/i,
+          /tel:/i
+        ]
+
+        if (excludePatterns.some(pattern => pattern.test(link.href))) {
+          return false
+        }
+
+        // Exclude links with navigation-related classes or text
+        const navKeywords = ['nav', 'menu', 'breadcrumb', 'pagination', 'footer', 'header']
+        const hasNavClass = navKeywords.some(keyword =>
+          link.className.toLowerCase().includes(keyword) ||
+          link.id.toLowerCase().includes(keyword)
+        )
+
+        if (hasNavClass) return false
+
+        return true
+      } catch {
+        return false
+      }
+    })
+    .map(link => link.href)
+    .filter((href, index, array) => array.indexOf(href) === index) // Remove duplicates
+    .slice(0, 50) // Limit to first 50 relevant links
+}
+
+/**
+ * Convert a parsed element into the serialized tree the Markdown renderer reads
+ */
+export function toHtmlNode(node: ParsedNode): HtmlNode | null {
+  if (node.nodeType === NodeType.TEXT_NODE) {
+    return node.text
+  }
+  if (!(node instanceof HTMLElement)) {
+    return null
+  }
+
+  const attributes: Record<string, string> = {}
+  for (const name of [...MARKDOWN_ATTRIBUTES, 'href']) {
+    const value = node.getAttribute(name)
+    if (value !== undefined) attributes[name] = value
+  }
+
+  return {
+    // The document root has no tag of its own
+    tag: node.tagName?.toLowerCase() ?? 'div',
+    attributes,
+    children: node.childNodes
+      .map(toHtmlNode)
+      .filter((child): child is HtmlNode => child !== null)
+  }
+}
+
+function removeAll(root: HTMLElement, selector: string): void {
+  root.querySelectorAll(selector).forEach(element => element.remove())
+}
+
+function resolveUrl(href: string, baseUrl: string): string | undefined {
+  try {
+    return new URL(href, baseUrl).toString()
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * Serialized DOM node handed back from the browser: a text node or an element
+ */
+export type HtmlNode = string | HtmlElementNode
+
+export interface HtmlElementNode {
+  tag: string
+  attributes: Record<string, string>
+  children: HtmlNode[]
+}
+
+/**
+ * Attributes the renderer reads besides link targets; everything else is dropped during serialization
+ */
+export const MARKDOWN_ATTRIBUTES = ['class', 'data-lang', 'data-language', 'start']
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'details', 'div', 'dl', 'dt',
+  'fieldset', 'figcaption', 'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header',
+  'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'ul'
+])
+
+const HEADING_TAGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6']
+
+// Highlighters mark the language as language-x, lang-x or highlight-source-x
+const LANGUAGE_CLASS = /(?:^|\s)(?:language|lang|highlight(?:-source)?)-([\w+#.-]+)/
+
+/**
+ * Render a serialized DOM tree as Markdown, keeping headings, fenced code, tables, lists and links
+ * so the chunker can see the document structure
+ */
+export function htmlToMarkdown(root: HtmlNode): string {
+  const blocks = typeof root === 'string' ? [collapseInline(root)] : renderBlock(root)
+
+  return blocks
+    .filter(block => block.length > 0)
+    .join('\n\n')
+    .trim()
+}
+
+function isElement(node: HtmlNode): node is HtmlElementNode {
+  return typeof node !== 'string'
+}
+
+/**
+ * Elements containing any block-level descendant are laid out as blocks too, so wrappers
+ * such as custom elements or spans around paragraphs don't flatten their content
+ */
+function isBlock(node: HtmlNode): boolean {
+  return isElement(node) && (BLOCK_TAGS.has(node.tag) || node.children.some(isBlock))
+}
+
+function renderBlocks(nodes: HtmlNode[]): string[] {
+  const blocks: string[] = []
+  let inline: HtmlNode[] = []
+
+  const flush = () => {
+    const text = collapseInline(renderInline(inline))
+    if (text) blocks.push(text)
+    inline = []
+  }
+
+  for (const node of nodes) {
+    if (isBlock(node)) {
+      flush()
+      blocks.push(...renderBlock(node as HtmlElementNode))
+    } else {
+      inline.push(node)
+    }
+  }
+  flush()
+
+  return blocks
+}
+
+function renderBlock(node: HtmlElementNode): string[] {
+  const headingLevel = HEADING_TAGS.indexOf(node.tag) + 1
+  if (headingLevel > 0) {
+    const text = headingText(node)
+    return text ? [`${'#'.repeat(headingLevel)} ${text}`] : []
+  }
+
+  switch (node.tag) {
+    case 'pre':
+      return [renderCodeBlock(node)]
+    case 'ul':
+    case 'ol': {
+      const list = renderList(node)
+      return list ? [list] : []
+    }
+    case 'table': {
+      const table = renderTable(node)
+      return table ? [table] : []
+    }
+    case 'blockquote': {
+      const quoted = renderBlocks(node.children).join('\n\n')
+      return quoted ? [quoted.split('\n').map(line => line ? `> ${line}` : '>').join('\n')] : []
+    }
+    case 'hr':
+      return ['---']
+    default:
+      return renderBlocks(node.children)
+  }
+}
+
+function renderInline(nodes: HtmlNode[]): string {
+  return nodes.map(node => {
+    if (!isElement(node)) {
+      return node.replace(/\s+/g, ' ')
+    }
+
+    switch (node.tag) {
+      case 'br':
+        return '\n'
+      case 'a': {
+        const text = collapseInline(renderInline(node.children))
+        const href = node.attributes.href
+        return text && href && isLinkable(href) ? `[${text}](${href})` : text
+      }
+      case 'code':
+      case 'kbd':
+      case 'samp': {
+        const code = textContent(node).replace(/\s+/g, ' ')
+        return code.trim() ? inlineCode(code) : code
+      }
+      case 'strong':
+      case 'b':
+        return emphasize(renderInline(node.children), '**')
+      case 'em':
+      case 'i':
+        return emphasize(renderInline(node.children), '_')
+      default:
+        return renderInline(node.children)
+    }
+  }).join('')
+}
+
+/**
+ * Heading text without permalink anchors such as "#" or "¶" that docs sites append
+ */
+function headingText(node: HtmlElementNode): string {
+  const children = node.children.filter(child =>
+    !(isElement(child) && child.tag === 'a' && !/[\p{L}\p{N}]/u.test(textContent(child)))
+  )
+  return textContent({ ...node, children }).replace(/\s+/g, ' ').trim()
+}
+
+function renderCodeBlock(node: HtmlElementNode): string {
+  const code = textContent(node).replace(/^\n+/, '').replace(/\s+$/, '')
+  const longestRun = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length))
+  const fence = '`'.repeat(Math.max(3, longestRun + 1))
+
+  return `${fence}${codeLanguage(node)}\n${code}\n${fence}`
+}
+
+function codeLanguage(pre: HtmlElementNode): string {
+  const code = pre.children.find((child): child is HtmlElementNode => isElement(child) && child.tag === 'code')
+
+  for (const element of [pre, code]) {
+    if (!element) continue
+    const declared = element.attributes['data-language'] || element.attributes['data-lang']
+    if (declared) return declared.trim().toLowerCase()
+
+    const match = element.attributes.class?.match(LANGUAGE_CLASS)
+    if (match) return match[1].toLowerCase()
+  }
+
+  return ''
+}
+
+function renderList(node: HtmlElementNode): string {
+  const ordered = node.tag === 'ol'
+  let number = Number.parseInt(node.attributes.start ?? '', 10)
+  if (Number.isNaN(number)) number = 1
+
+  return node.children
+    .filter((child): child is HtmlElementNode => isElement(child) && child.tag === 'li')
+    .map(item => {
+      const marker = ordered ? `${number++}.` : '-'
+      const indent = ' '.repeat(marker.length + 1)
+      const body = renderBlocks(item.children).join('\n')
+
+      return `${marker} ${body.split('\n').map((line, i) => i > 0 && line ? indent + line : line).join('\n')}`
+    })
+    .join('\n')
+}
+
+function renderTable(node: HtmlElementNode): string {
+  const rows = tableRows(node)
+    .map(row => row.children
+      .filter((cell): cell is HtmlElementNode => isElement(cell) && (cell.tag === 'th' || cell.tag === 'td'))
+      .map(cell => renderInline(cell.children).replace(/\s+/g, ' ').trim().replace(/\|/g, '\\|'))
+    )
+    .filter(cells => cells.some(Boolean))
+
+  if (rows.length === 0) return ''
+
+  const width = Math.max(...rows.map(cells => cells.length))
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, i) => cells[i] ?? '').join(' | ')} |`
+
+  const [header, ...body] = rows
+  return [line(header), line(new Array(width).fill('---')), ...body.map(line)].join('\n')
+}
+
+/**
+ * Rows of a table, looking through thead/tbody/tfoot but not into nested tables
+ */
+function tableRows(node: HtmlElementNode): HtmlElementNode[] {
+  return node.children.flatMap(child => {
+    if (!isElement(child)) return []
+    if (child.tag === 'tr') return [child]
+    if (child.tag === 'thead' || child.tag === 'tbody' || child.tag === 'tfoot') return tableRows(child)
+    return []
+  })
+}
+
+function textContent(node: HtmlNode): string {
+  if (!isElement(node)) return node
+  if (node.tag === 'br') return '\n'
+  return node.children.map(textContent).join('')
+}
+
+function collapseInline(text: string): string {
+  return text
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .trim()
+}
+
+function isLinkable(href: string): boolean {
+  return !href.startsWith('#') && !/^javascript:/i.test(href)
+}
+
+function inlineCode(code: string): string {
+  const fence = code.includes('`') ? '``' : '`'
+  const padding = code.startsWith('`') || code.endsWith('`') ? ' ' : ''
+  return `${fence}${padding}${code}${padding}${fence}`
+}
+
+/**
+ * Wrap text in emphasis markers, keeping surrounding whitespace outside the markers
+ */
+function emphasize(text: string, marker: string): string {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)
+  if (!match || !match[2]) return text
+  return `${match[1]}${marker}${match[2]}${marker}${match[3]}`
+}
@@ -0,0 +1,409 @@
+import { parse as parseYaml } from 'yaml'
+import { ScrapedContent, ScrapedOperation } from '../types'
+import { ScrapingError, ErrorContext, ErrorSeverity } from '../errors'
+import { loggers } from '../logger'
+
+const SPEC_FETCH_HEADERS = {
+  'User-Agent': 'Knowio-Bot/1.0 (+https://knowio.dev/bot)',
+  'Accept': 'application/json, application/yaml, text/yaml;q=0.9, */*;q=0.8',
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace']
+
+// Nested object properties deeper than this are listed by type only
+const MAX_SCHEMA_DEPTH = 4
+// Examples are cut off beyond this length; the schema already describes their shape
+const MAX_EXAMPLE_LENGTH = 2000
+
+type SpecObject = Record<string, any>
+
+/**
+ * Reads OpenAPI 3.x and Swagger 2.0 documents so each API operation can be stored as one chunk
+ */
+export class OpenApiReader {
+  private readonly logger = loggers.scraper
+
+  /**
+   * Fetch a JSON or YAML API description and describe each of its operations
+   */
+  async read(url: string, context?: ErrorContext): Promise<ScrapedContent> {
+    let response: Response
+    try {
+      response = await fetch(url, {
+        headers: SPEC_FETCH_HEADERS,
+        signal: AbortSignal.timeout(30000), // 30 second timeout
+      })
+    } catch (error) {
+      throw new ScrapingError(
+        `Failed to fetch API description: ${url}`,
+        true,
+        ErrorSeverity.MEDIUM,
+        context,
+        error instanceof Error ? error : new Error(String(error))
+      )
+    }
+
+    if (!response.ok) {
+      throw new ScrapingError(
+        `API description request failed with status ${response.status}: ${url}`,
+        response.status >= 500 || response.status === 429,
+        ErrorSeverity.MEDIUM,
+        context
+      )
+    }
+
+    const content = openApiContent(url, await response.text(), context)
+
+    this.logger.info('API description read', {
+      url,
+      title: content.title,
+      operations: content.operations?.length ?? 0
+    }, context)
+
+    return content
+  }
+}
+
+/**
+ * Parse an OpenAPI 3.x or Swagger 2.0 document into scraped content with one entry per operation
+ */
+export function openApiContent(url: string, source: string, context?: ErrorContext): ScrapedContent {
+  let spec: unknown
+  try {
+    // JSON is valid YAML, so one parser reads both
+    spec = parseYaml(source)
+  } catch (error) {
+    throw new ScrapingError(
+      `API description is not valid JSON or YAML: ${url}`,
+      false,
+      ErrorSeverity.MEDIUM,
+      context,
+      error instanceof Error ? error : new Error(String(error))
+    )
+  }
+
+  if (!isObject(spec) || !(String(spec.openapi ?? '').startsWith('3.') || String(spec.swagger) === '2.0')) {
+    throw new ScrapingError(`Not an OpenAPI 3.x or Swagger 2.0 document: ${url}`, false, ErrorSeverity.MEDIUM, context)
+  }
+
+  const operations = describeOperations(spec)
+  if (operations.length === 0) {
+    throw new ScrapingError(`API description has no operations: ${url}`, false, ErrorSeverity.LOW, context)
+  }
+
+  const info: SpecObject = isObject(spec.info) ? spec.info : {}
+  const title = [text(info.title) || 'API reference', text(info.version)].filter(Boolean).join(' ')
+
+  return {
+    url,
+    title,
+    content: operations.map(operation => operation.content).join('\n\n'),
+    metadata: {
+      title,
+      description: text(info.description)
+    },
+    links: [],
+    operations
+  }
+}
+
+function describeOperations(spec: SpecObject): ScrapedOperation[] {
+  const operations: ScrapedOperation[] = []
+  const paths: SpecObject = isObject(spec.paths) ? spec.paths : {}
+
+  for (const [path, pathValue] of Object.entries(paths)) {
+    const pathItem = deref(spec, pathValue).schema
+    if (!pathItem) continue
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method]
+      if (!isObject(operation)) continue
+
+      const tags = Array.isArray(operation.tags)
+        ? operation.tags.filter((tag: unknown): tag is string => typeof tag === 'string')
+        : []
+
+      operations.push({
+        method: method.toUpperCase(),
+        path,
+        operationId: text(operation.operationId),
+        tags,
+        content: describeOperation(spec, method.toUpperCase(), path, pathItem, operation, tags)
+      })
+    }
+  }
+
+  return operations
+}
+
+/**
+ * Markdown for one operation: summary, parameters, request body and responses with examples
+ */
+function describeOperation(
+  spec: SpecObject,
+  method: string,
+  path: string,
+  pathItem: SpecObject,
+  operation: SpecObject,
+  tags: string[]
+): string {
+  const lines: string[] = [`# ${method} ${path}`]
+  const summary = text(operation.summary)
+  const description = text(operation.description)
+
+  if (summary) lines.push('', summary)
+  if (description && description !== summary) lines.push('', description)
+
+  const details = [
+    operation.operationId && `Operation ID: ${operation.operationId}`,
+    tags.length > 0 && `Tags: ${tags.join(', ')}`,
+    operation.deprecated === true && 'Deprecated: yes'
+  ].filter(Boolean) as string[]
+  if (details.length > 0) lines.push('', ...details)
+
+  // Operation parameters override path-level parameters with the same name and location
+  const parameters = new Map<string, SpecObject>()
+  for (const value of [...asArray(pathItem.parameters), ...asArray(operation.parameters)]) {
+    const parameter = deref(spec, value).schema
+    if (parameter && typeof parameter.name === 'string') {
+      parameters.set(`${parameter.in}:${parameter.name}`, parameter)
+    }
+  }
+
+  // Swagger 2.0 describes the request body as a parameter
+  const bodyParameter = [...parameters.values()].find(parameter => parameter.in === 'body')
+  const listed = [...parameters.values()].filter(parameter => parameter.in !== 'body')
+
+  if (listed.length > 0) {
+    lines.push('', '## Parameters', '')
+    for (const parameter of listed) {
+      const schema = parameter.schema ?? parameter
+      lines.push(fieldLine(parameter.name, `${parameter.in}, ${typeLabel(schema)}`, parameter.required === true, {
+        ...schema,
+        description: parameter.description ?? schema.description,
+        example: parameter.example ?? parameter['x-example'] ?? schema.example
+      }))
+    }
+  }
+
+  const requestBody = deref(spec, operation.requestBody).schema
+  if (requestBody && isObject(requestBody.content)) {
+    lines.push('', '## Request body', '')
+    if (requestBody.required === true) lines.push('Required.', '')
+    if (text(requestBody.description)) lines.push(requestBody.description.trim(), '')
+    lines.push(...describeContent(spec, requestBody.content))
+  } else if (bodyParameter) {
+    const consumes = asArray(operation.consumes ?? spec.consumes).filter(isString)
+    lines.push('', '## Request body', '')
+    if (bodyParameter.required === true) lines.push('Required.', '')
+    if (text(bodyParameter.description)) lines.push(bodyParameter.description.trim(), '')
+    lines.push(...describeMedia(spec, consumes, bodyParameter.schema, mediaExample(spec, bodyParameter)))
+  }
+
+  const responses: SpecObject = isObject(operation.responses) ? operation.responses : {}
+  if (Object.keys(responses).length > 0) {
+    lines.push('', '## Responses')
+
+    for (const [status, value] of Object.entries(responses)) {
+      const response = deref(spec, value).schema
+      if (!response) continue
+
+      lines.push('', `### ${status}${text(response.description) ? `: ${response.description.trim()}` : ''}`)
+
+      if (isObject(response.content)) {
+        lines.push('', ...describeContent(spec, response.content))
+      } else if (response.schema || isObject(response.examples)) {
+        const produces = asArray(operation.produces ?? spec.produces).filter(isString)
+        const examples: SpecObject = isObject(response.examples) ? response.examples : {}
+        const example = Object.values(examples)[0] ?? mediaExample(spec, response)
+        lines.push('', ...describeMedia(spec, produces, response.schema, example))
+      }
+    }
+  }
+
+  return lines.join('\n').replace(/\n+$/, '')
+}
+
+/**
+ * OpenAPI 3 content map: every media type is listed, the first one's schema and example described
+ */
+function describeContent(spec: SpecObject, content: SpecObject): string[] {
+  const mediaTypes = Object.keys(content)
+  if (mediaTypes.length === 0) return []
+
+  const media = isObject(content[mediaTypes[0]]) ? content[mediaTypes[0]] : {}
+  return describeMedia(spec, mediaTypes, media.schema, mediaExample(spec, media))
+}
+
+function describeMedia(spec: SpecObject, mediaTypes: string[], schema: unknown, example: unknown): string[] {
+  const lines: string[] = []
+
+  if (mediaTypes.length > 0) lines.push(`Content type: ${mediaTypes.join(', ')}`)
+  if (isObject(schema)) {
+    lines.push(`Schema: ${typeLabel(schema)}`)
+    const fields = schemaLines(spec, schema, '', 0, [])
+    if (fields.length > 0) lines.push('', ...fields)
+  }
+  if (example !== undefined) {
+    lines.push('', 'Example:', '', ...exampleBlock(example))
+  }
+
+  return lines
+}
+
+/**
+ * Example of a media type, parameter or response: its own example, its first named example,
+ * or an example given on its schema
+ */
+function mediaExample(spec: SpecObject, media: SpecObject): unknown {
+  if (media.example !== undefined) return media.example
+
+  if (isObject(media.examples)) {
+    for (const value of Object.values(media.examples)) {
+      const example = deref(spec, value).schema
+      if (example && example.value !== undefined) return example.value
+    }
+  }
+
+  return deref(spec, media.schema).schema?.example
+}
+
+/**
+ * Bulleted, indented outline of an object schema's properties (or of an array's items)
+ */
+function schemaLines(spec: SpecObject, schema: unknown, indent: string, depth: number, refs: string[]): string[] {
+  if (depth >= MAX_SCHEMA_DEPTH) return []
+
+  const resolved = deref(spec, schema, refs)
+  if (!resolved.schema) return []
+
+  if (resolved.schema.items) {
+    return schemaLines(spec, resolved.schema.items, indent, depth, resolved.refs)
+  }
+
+  const { properties, required } = objectFields(spec, resolved.schema, resolved.refs)
+  return Object.entries(properties).flatMap(([name, property]) => [
+    fieldLine(name, typeLabel(property), required.has(name), deref(spec, property).schema ?? {}, indent),
+    ...schemaLines(spec, property, `${indent}  `, depth + 1, resolved.refs)
+  ])
+}
+
+/**
+ * Properties and required names of an object schema, merging allOf members
+ */
+function objectFields(
+  spec: SpecObject,
+  schema: SpecObject,
+  refs: string[]
+): { properties: SpecObject; required: Set<string> } {
+  const properties: SpecObject = isObject(schema.properties) ? { ...schema.properties } : {}
+  const required = new Set<string>(asArray(schema.required).filter(isString))
+
+  for (const member of asArray(schema.allOf)) {
+    const resolved = deref(spec, member, refs)
+    if (!resolved.schema) continue
+
+    const merged = objectFields(spec, resolved.schema, resolved.refs)
+    Object.assign(properties, merged.properties)
+    merged.required.forEach(name => required.add(name))
+  }
+
+  return { properties, required }
+}
+
+function fieldLine(name: string, type: string, required: boolean, schema: SpecObject, indent = ''): string {
+  const notes = [
+    text(schema.description)?.replace(/\s+/g, ' '),
+    Array.isArray(schema.enum) && `one of: ${schema.enum.map(inlineValue).join(', ')}`,
+    schema.default !== undefined && `default: ${inlineValue(schema.default)}`,
+    // Structured examples are shown in full with the request or response instead
+    isScalar(schema.example) && `example: ${inlineValue(schema.example)}`
+  ].filter(Boolean)
+
+  return `${indent}- ${name} (${type}${required ? ', required' : ''})${notes.length > 0 ? `: ${notes.join('; ')}` : ''}`
+}
+
+/**
+ * Short type of a schema, e.g. "array of Pet", "string<date-time>" or "Cat | Dog"
+ */
+function typeLabel(schema: unknown): string {
+  if (!isObject(schema)) return 'any'
+  if (typeof schema.$ref === 'string') return refName(schema.$ref)
+
+  const variants = schema.oneOf ?? schema.anyOf
+  if (Array.isArray(variants)) return variants.map(typeLabel).join(' | ')
+  if (Array.isArray(schema.allOf)) return schema.allOf.map(typeLabel).join(' & ')
+
+  const types = asArray(schema.type).filter(isString)
+  let label = types.map(type => type === 'array' ? `array of ${typeLabel(schema.items)}` : type).join(' | ')
+  if (!label) label = schema.properties ? 'object' : 'any'
+  if (typeof schema.format === 'string') label += `<${schema.format}>`
+  if (schema.nullable === true) label += ' | null'
+
+  return label
+}
+
+function exampleBlock(example: unknown): string[] {
+  const isText = typeof example === 'string'
+  const body = isText ? example as string : JSON.stringify(example, null, 2)
+  const truncated = body.length > MAX_EXAMPLE_LENGTH ? `${body.slice(0, MAX_EXAMPLE_LENGTH)}\n...` : body
+
+  return [isText ? '```' : '```json', truncated, '```']
+}
+
+function inlineValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+/**
+ * Follow local $refs, remembering the chain so recursive schemas stop instead of looping
+ */
+function deref(spec: SpecObject, value: unknown, refs: string[] = []): { schema?: SpecObject; refs: string[] } {
+  let current = value
+  const chain = [...refs]
+
+  while (isObject(current) && typeof current.$ref === 'string') {
+    if (chain.includes(current.$ref)) return { refs: chain }
+    chain.push(current.$ref)
+    current = resolvePointer(spec, current.$ref)
+  }
+
+  return { schema: isObject(current) ? current : undefined, refs: chain }
+}
+
+function resolvePointer(spec: SpecObject, ref: string): unknown {
+  // References to other documents are not followed
+  if (!ref.startsWith('#/')) return undefined
+
+  return ref.slice(2).split('/').reduce<unknown>((node, segment) => {
+    const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~')
+    return isObject(node) ? node[key] : undefined
+  }, spec)
+}
+
+function refName(ref: string): string {
+  return ref.split('/').pop() || ref
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+function isScalar(value: unknown): boolean {
+  return ['string', 'number', 'boolean'].includes(typeof value)
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string'
+}
+
+function isObject(value: unknown): value is SpecObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export const openApiReader = new OpenApiReader()
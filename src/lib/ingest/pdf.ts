@@ -0,0 +1,132 @@
+import { extractText, getDocumentProxy, getMeta } from 'unpdf'
+import { PageMetadata, ScrapedContent, ScrapedPage } from '../types'
+import { ScrapingError, ErrorContext, ErrorSeverity } from '../errors'
+import { loggers } from '../logger'
+import { titleFromFileName } from '../utils'
+
+// Every PDF file starts with this header, whatever content type it was served with
+const PDF_SIGNATURE = '%PDF-'
+
+/**
+ * Whether a Content-Type header announces a PDF
+ */
+export function isPdfContentType(contentType: string | null | undefined): boolean {
+  return contentType?.split(';')[0].trim().toLowerCase() === 'application/pdf'
+}
+
+/**
+ * Whether the bytes are a PDF file
+ */
+export function isPdfData(data: Uint8Array): boolean {
+  return new TextDecoder().decode(data.subarray(0, PDF_SIGNATURE.length)) === PDF_SIGNATURE
+}
+
+/**
+ * Extracts text page by page from PDF files with a local parser, so specs and whitepapers
+ * go through the same chunking and embedding pipeline as web pages
+ */
+export class PdfExtractor {
+  private readonly logger = loggers.scraper
+
+  /**
+   * Parse a PDF into scraped content with one entry per page that has a text layer
+   */
+  async extract(url: string, data: Uint8Array, context?: ErrorContext): Promise<ScrapedContent> {
+    let pageTexts: string[]
+    let info: Record<string, unknown>
+
+    try {
+      // The parser takes ownership of the buffer it is given, so hand it a copy
+      const pdf = await getDocumentProxy(new Uint8Array(data))
+      pageTexts = (await extractText(pdf, { mergePages: false })).text
+      info = ((await getMeta(pdf)).info ?? {}) as Record<string, unknown>
+    } catch (error) {
+      throw new ScrapingError(
+        `Failed to parse PDF: ${url}`,
+        false,
+        ErrorSeverity.MEDIUM,
+        context,
+        error instanceof Error ? error : new Error(String(error))
+      )
+    }
+
+    const pages: ScrapedPage[] = pageTexts
+      .map((text, index) => ({ pageNumber: index + 1, content: normalizePageText(text) }))
+      .filter(page => page.content.length > 0)
+
+    if (pages.length === 0) {
+      // Scanned documents only contain images; OCR is out of scope
+      throw new ScrapingError(
+        `No text layer found in PDF: ${url}`,
+        false,
+        ErrorSeverity.LOW,
+        context
+      )
+    }
+
+    const metadata: PageMetadata = {
+      title: infoString(info.Title) || titleFromUrl(url),
+      description: infoString(info.Subject),
+      author: infoString(info.Author),
+      publishedDate: parsePdfDate(infoString(info.CreationDate)),
+    }
+
+    this.logger.info('PDF extracted', {
+      url,
+      pageCount: pageTexts.length,
+      pagesWithText: pages.length
+    }, context)
+
+    return {
+      url,
+      title: metadata.title,
+      content: pages.map(page => page.content).join('\n\n'),
+      metadata,
+      // Links inside PDFs are not followed
+      links: [],
+      pages,
+    }
+  }
+}
+
+function normalizePageText(text: string): string {
+  return text
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+function infoString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+/**
+ * File name of the PDF without its extension, for documents without a Title entry
+ */
+function titleFromUrl(url: string): string {
+  try {
+    const name = decodeURIComponent(new URL(url).pathname.split('/').filter(Boolean).pop() ?? '')
+    return titleFromFileName(name) || url
+  } catch {
+    return url
+  }
+}
+
+/**
+ * Convert a PDF date string (D:YYYYMMDDHHmmSSOHH'mm') to ISO 8601
+ */
+function parsePdfDate(value: string | undefined): string | undefined {
+  const match = value?.match(/^D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(Z|[+-]\d{2}'?\d{2}'?)?/)
+  if (!match) {
+    return undefined
+  }
+
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', zone] = match
+  const offset = !zone || zone === 'Z' ? 'Z' : `${zone.slice(0, 3)}:${zone.replace(/'/g, '').slice(3, 5)}`
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`)
+
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+export const pdfExtractor = new PdfExtractor()
@@ -0,0 +1,285 @@
+import { loggers } from '../logger'
+
+/**
+ * Product token matched against robots.txt User-agent lines
+ */
+export const ROBOTS_USER_AGENT = 'Knowio-Bot'
+
+const ROBOTS_FETCH_HEADERS = {
+  'User-Agent': 'Knowio-Bot/1.0 (+https://knowio.dev/bot)',
+}
+
+interface RobotsRule {
+  allow: boolean
+  path: string
+  pattern: RegExp
+}
+
+interface RobotsGroup {
+  userAgents: string[]
+  rules: RobotsRule[]
+  crawlDelay?: number
+}
+
+/**
+ * Parsed robots.txt file (RFC 9309 plus the common Crawl-delay extension)
+ */
+export class RobotsTxt {
+  private readonly groups: RobotsGroup[]
+  readonly sitemaps: string[]
+
+  constructor(content: string) {
+    this.groups = RobotsTxt.parse(content)
+    this.sitemaps = RobotsTxt.parseSitemaps(content)
+  }
+
+  /**
+   * A robots.txt that allows everything, used when the file is missing
+   */
+  static allowAll(): RobotsTxt {
+    return new RobotsTxt('')
+  }
+
+  /**
+   * A robots.txt that disallows everything, used when the file cannot be fetched
+   */
+  static disallowAll(): RobotsTxt {
+    return new RobotsTxt('User-agent: *\nDisallow: /')
+  }
+
+  /**
+   * Check whether a URL (or path) may be crawled by the given user agent
+   */
+  isAllowed(url: string, userAgent: string = ROBOTS_USER_AGENT): boolean {
+    const group = this.findGroup(userAgent)
+    if (!group) {
+      return true
+    }
+
+    const path = RobotsTxt.toPath(url)
+
+    // The most specific (longest) matching rule wins; Allow wins ties
+    let match: RobotsRule | undefined
+    for (const rule of group.rules) {
+      if (!rule.pattern.test(path)) continue
+      if (!match ||
+          rule.path.length > match.path.length ||
+          (rule.path.length === match.path.length && rule.allow)) {
+        match = rule
+      }
+    }
+
+    return match ? match.allow : true
+  }
+
+  /**
+   * Crawl-delay in seconds for the given user agent, if one is declared
+   */
+  getCrawlDelay(userAgent: string = ROBOTS_USER_AGENT): number | undefined {
+    return this.findGroup(userAgent)?.crawlDelay
+  }
+
+  private findGroup(userAgent: string): RobotsGroup | undefined {
+    const token = RobotsTxt.productToken(userAgent)
+    const specific = this.groups.find(group =>
+      group.userAgents.some(agent => agent !== '*' && RobotsTxt.productToken(agent) === token)
+    )
+    return specific ?? this.groups.find(group => group.userAgents.includes('*'))
+  }
+
+  private static parse(content: string): RobotsGroup[] {
+    const groups: RobotsGroup[] = []
+    let current: RobotsGroup | null = null
+    let readingAgents = false
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim()
+      const separator = line.indexOf(':')
+      if (separator === -1) continue
+
+      const field = line.slice(0, separator).trim().toLowerCase()
+      const value = line.slice(separator + 1).trim()
+
+      if (field === 'user-agent') {
+        // Consecutive User-agent lines share one group
+        if (!current || !readingAgents) {
+          current = { userAgents: [], rules: [] }
+          groups.push(current)
+        }
+        current.userAgents.push(value.toLowerCase())
+        readingAgents = true
+        continue
+      }
+
+      readingAgents = false
+      if (!current) continue
+
+      if (field === 'allow' || field === 'disallow') {
+        // An empty Disallow means everything is allowed
+        if (!value) continue
+        current.rules.push({
+          allow: field === 'allow',
+          path: value,
+          pattern: RobotsTxt.compilePattern(value)
+        })
+      } else if (field === 'crawl-delay') {
+        const delay = parseFloat(value)
+        if (!isNaN(delay) && delay >= 0) {
+          current.crawlDelay = delay
+        }
+      }
+    }
+
+    return groups
+  }
+
+  /**
+   * Sitemap lines are not tied to a user-agent group
+   */
+  private static parseSitemaps(content: string): string[] {
+    return content
+      .split(/\r?\n/)
+      .map(line => line.replace(/#.*$/, '').trim())
+      .filter(line => /^sitemap\s*:/i.test(line))
+      .map(line => line.slice(line.indexOf(':') + 1).trim())
+      .filter(Boolean)
+  }
+
+  /**
+   * Compile a robots.txt path pattern supporting the * and $ wildcards
+   */
+  private static compilePattern(path: string): RegExp {
+    const anchored = path.endsWith('$')
+    const body = (anchored ? path.slice(0, -1) : path)
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')
+    return new RegExp(`^${body}${anchored ? '$' : ''}`)
+  }
+
+  /**
+   * Product token of a user agent ("Knowio-Bot/1.0 (+url)" -> "knowio-bot"), compared case-insensitively
+   */
+  private static productToken(userAgent: string): string {
+    return userAgent.trim().split(/[\/\s]/)[0].toLowerCase()
+  }
+
+  private static toPath(url: string): string {
+    try {
+      const urlObj = new URL(url)
+      return `${urlObj.pathname}${urlObj.search}`
+    } catch {
+      return url
+    }
+  }
+}
+
+/**
+ * Fetches robots.txt per host, caches the parsed rules and paces requests by Crawl-delay
+ */
+export class RobotsChecker {
+  private readonly cache = new Map<string, { robots: RobotsTxt; expiresAt: number }>()
+  private readonly lastRequestAt = new Map<string, number>()
+  private readonly userAgent: string
+  private readonly cacheTtl: number
+  private readonly maxCrawlDelay: number
+  private readonly logger = loggers.scraper
+
+  constructor(options: { userAgent?: string; cacheTtl?: number; maxCrawlDelay?: number } = {}) {
+    this.userAgent = options.userAgent ?? ROBOTS_USER_AGENT
+    this.cacheTtl = options.cacheTtl ?? 60 * 60 * 1000 // 1 hour
+    this.maxCrawlDelay = options.maxCrawlDelay ?? 30 // seconds
+  }
+
+  /**
+   * Check whether our bot may crawl the URL
+   */
+  async isAllowed(url: string): Promise<boolean> {
+    const robots = await this.getRobots(url)
+    return robots.isAllowed(url, this.userAgent)
+  }
+
+  /**
+   * Crawl-delay in seconds declared for our bot on the URL's host
+   */
+  async getCrawlDelay(url: string): Promise<number | undefined> {
+    const robots = await this.getRobots(url)
+    return robots.getCrawlDelay(this.userAgent)
+  }
+
+  /**
+   * Wait until the host's Crawl-delay has elapsed since our previous request, then record this one
+   */
+  async waitForCrawlDelay(url: string): Promise<void> {
+    const origin = new URL(url).origin
+    const delay = await this.getCrawlDelay(url)
+    const previous = this.lastRequestAt.get(origin)
+
+    if (delay && previous !== undefined) {
+      const delayMs = Math.min(delay, this.maxCrawlDelay) * 1000
+      const waitMs = previous + delayMs - Date.now()
+      if (waitMs > 0) {
+        this.logger.debug('Waiting for robots.txt crawl delay', { origin, waitMs })
+        await new Promise(resolve => setTimeout(resolve, waitMs))
+      }
+    }
+
+    this.lastRequestAt.set(origin, Date.now())
+  }
+
+  /**
+   * Get the parsed robots.txt for the URL's host, fetching it on a cache miss
+   */
+  async getRobots(url: string): Promise<RobotsTxt> {
+    const origin = new URL(url).origin
+    const cached = this.cache.get(origin)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.robots
+    }
+
+    const robots = await this.fetchRobots(origin)
+    this.cache.set(origin, { robots, expiresAt: Date.now() + this.cacheTtl })
+    return robots
+  }
+
+  clearCache(): void {
+    this.cache.clear()
+    this.lastRequestAt.clear()
+  }
+
+  private async fetchRobots(origin: string): Promise<RobotsTxt> {
+    const robotsUrl = `${origin}/robots.txt`
+
+    try {
+      const response = await fetch(robotsUrl, {
+        headers: ROBOTS_FETCH_HEADERS,
+        signal: AbortSignal.timeout(10000), // 10 second timeout
+      })
+
+      if (response.ok) {
+        return new RobotsTxt(await response.text())
+      }
+
+      // A missing robots.txt (4xx) places no restrictions on crawling
+      if (response.status >= 400 && response.status < 500) {
+        return RobotsTxt.allowAll()
+      }
+
+      // A server error (5xx) means the site may not want to be crawled (RFC 9309 section 2.3.1.4)
+      this.logger.warn('Unexpected robots.txt response, assuming crawling is disallowed', {
+        robotsUrl,
+        status: response.status
+      })
+    } catch (error) {
+      this.logger.warn('Failed to fetch robots.txt, assuming crawling is disallowed', {
+        robotsUrl,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+
+    return RobotsTxt.disallowAll()
+  }
+}
+
+// Export singleton instance
+export const robotsChecker = new RobotsChecker()
@@ -1,12 +1,32 @@
-import { chromium, Browser, Page } from 'playwright'
+import { chromium, Browser, BrowserContext, Page } from 'playwright'
 import { ScrapedContent, ScrapingOptions, PageMetadata } from '../types'
 import { ScrapingError, ErrorContext, ErrorSeverity } from '../errors'
 import { defaultErrorHandler } from '../error-handler'
 import { loggers } from '../logger'
+import { RobotsChecker, robotsChecker } from './robots'
+import { HtmlNode, MARKDOWN_ATTRIBUTES, htmlToMarkdown } from './markdown'
+import { PdfExtractor, pdfExtractor, isPdfContentType, isPdfData } from './pdf'
+import {
+  PageLink,
+  UNWANTED_SELECTORS,
+  CONTENT_SELECTORS,
+  UNWANTED_CONTENT_ELEMENTS,
+  extractStaticPage,
+  filterLinks
+} from './html'
+
+const DEFAULT_USER_AGENT = 'Mozilla/5.0 (compatible; DocumentIngestionBot/1.0)'
 
 export class WebScraper {
   private browser: Browser | null = null
   private readonly logger = loggers.scraper
+  private readonly robots: RobotsChecker
+  private readonly pdf: PdfExtractor
+
+  constructor(robots: RobotsChecker = robotsChecker, pdf: PdfExtractor = pdfExtractor) {
+    this.robots = robots
+    this.pdf = pdf
+  }
 
   /**
    * Initialize the browser instance
@@ -51,6 +71,18 @@ export class WebScraper {
 
     this.logger.info('Starting web scraping', { url, options }, context)
 
+    if (options.respectRobots) {
+      await this.enforceRobots(url, context)
+    }
+
+    // Server-rendered pages are read without a browser; waiting for a selector needs one
+    if (!options.waitForSelector) {
+      const staticContent = await this.scrapeStatic(url, options, context)
+      if (staticContent) {
+        return staticContent
+      }
+    }
+
     return await defaultErrorHandler.executeWithRetry(
       async () => {
         const browser = await this.initBrowser()
@@ -58,7 +90,7 @@ export class WebScraper {
 
         // Create context with user agent and other settings
         const browserContext = await browser.newContext({
-          userAgent: options.userAgent || 'Mozilla/5.0 (compatible; DocumentIngestionBot/1.0)',
+          userAgent: options.userAgent || DEFAULT_USER_AGENT,
           viewport: { width: 1280, height: 720 },
           ignoreHTTPSErrors: true,
         })
@@ -77,7 +109,12 @@ export class WebScraper {
           })
 
           // Navigate to the page with error handling
-          const response = await this.navigateToPage(page, url, timeout, context)
+          const isPdf = await this.navigateToPage(page, url, timeout, context)
+
+          // PDFs are downloaded rather than rendered, so parse the file instead of the DOM
+          if (isPdf) {
+            return await this.scrapePdf(browserContext, url, timeout, context)
+          }
 
           // Wait for specific selector if provided
           if (options.waitForSelector) {
@@ -106,7 +143,8 @@ export class WebScraper {
             url,
             contentLength: content.length,
             linksFound: links.length,
-            title: metadata.title
+            title: metadata.title,
+            strategy: 'browser'
           }, context)
 
           return {
@@ -115,6 +153,7 @@ export class WebScraper {
             content,
             metadata,
             links,
+            strategy: 'browser',
           }
         } finally {
           await page.close()
@@ -126,9 +165,111 @@ export class WebScraper {
   }
 
   /**
-   * Navigate to page with proper error handling
+   * Fetch the page over plain HTTP and extract it with an HTML parser. Returns null when the page
+   * needs the browser: a shell rendered by scripts, a response other than HTML or PDF, or a failed
+   * request the browser may still get through (e.g. bot protection).
    */
-  private async navigateToPage(page: Page, url: string, timeout: number, context: ErrorContext): Promise<void> {
+  private async scrapeStatic(url: string, options: ScrapingOptions, context: ErrorContext): Promise<ScrapedContent | null> {
+    let response: Response
+    try {
+      response = await fetch(url, {
+        headers: {
+          'User-Agent': options.userAgent || DEFAULT_USER_AGENT,
+          'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8',
+        },
+        signal: AbortSignal.timeout(options.timeout || 30000),
+      })
+    } catch (error) {
+      return this.fallBackToBrowser(url, error instanceof Error ? error.message : String(error), context)
+    }
+
+    // A browser would be refused the same way, so there is no point launching one
+    if (response.status === 404 || response.status === 410) {
+      throw new ScrapingError(
+        `HTTP ${response.status} error for URL: ${url}`,
+        false,
+        ErrorSeverity.LOW,
+        context
+      )
+    }
+    if (!response.ok) {
+      return this.fallBackToBrowser(url, `HTTP ${response.status}`, context)
+    }
+
+    const contentType = response.headers.get('content-type')
+    if (isPdfContentType(contentType)) {
+      const data = new Uint8Array(await response.arrayBuffer())
+      if (!isPdfData(data)) {
+        return this.fallBackToBrowser(url, 'not a PDF file', context)
+      }
+
+      const scraped = await this.pdf.extract(url, data, context)
+
+      this.logger.info('Web scraping completed successfully', {
+        url,
+        contentLength: scraped.content.length,
+        pageCount: scraped.pages?.length,
+        title: scraped.title,
+        strategy: 'static'
+      }, context)
+
+      return { ...scraped, strategy: 'static' }
+    }
+
+    if (!/html/i.test(contentType ?? '')) {
+      return this.fallBackToBrowser(url, `unsupported content type ${contentType || 'unknown'}`, context)
+    }
+
+    // Relative links resolve against the URL the request was redirected to
+    const page = extractStaticPage(await response.text(), response.url || url)
+    if (page.isAppShell || !page.content.trim()) {
+      return this.fallBackToBrowser(url, 'page is rendered by scripts', context)
+    }
+
+    this.logger.info('Web scraping completed successfully', {
+      url,
+      contentLength: page.content.length,
+      linksFound: page.links.length,
+      title: page.metadata.title,
+      strategy: 'static'
+    }, context)
+
+    return {
+      url,
+      title: page.metadata.title,
+      content: page.content,
+      metadata: page.metadata,
+      links: page.links,
+      strategy: 'static',
+    }
+  }
+
+  private fallBackToBrowser(url: string, reason: string, context: ErrorContext): null {
+    this.logger.info('Static fetch not usable, rendering in browser', { url, reason }, context)
+    return null
+  }
+
+  /**
+   * Refuse URLs disallowed by robots.txt and honour the host's Crawl-delay
+   */
+  private async enforceRobots(url: string, context: ErrorContext): Promise<void> {
+    if (!(await this.robots.isAllowed(url))) {
+      throw new ScrapingError(
+        `URL is disallowed by robots.txt: ${url}`,
+        false,
+        ErrorSeverity.LOW,
+        context
+      )
+    }
+
+    await this.robots.waitForCrawlDelay(url)
+  }
+
+  /**
+   * Navigate to page with proper error handling.
+   * Returns true when the URL serves a PDF (or any other download) instead of a page.
+   */
+  private async navigateToPage(page: Page, url: string, timeout: number, context: ErrorContext): Promise<boolean> {
     try {
       const response = await page.goto(url, {
         waitUntil: 'domcontentloaded',
@@ -167,7 +308,12 @@ export class WebScraper {
         )
       }
 
+      return isPdfContentType(response.headers()['content-type'])
     } catch (error) {
+      // Chromium hands attachments to the download manager and aborts the navigation
+      if (error instanceof Error && error.message.includes('Download is starting')) {
+        return true
+      }
       if (error instanceof Error && error.name === 'TimeoutError') {
         throw new ScrapingError(
           `Timeout while loading URL: ${url}`,
@@ -190,6 +336,61 @@ export class WebScraper {
     }
   }
 
+  /**
+   * Fetch a PDF through the browser context (sharing its user agent and cookies) and extract it page by page
+   */
+  private async scrapePdf(
+    browserContext: BrowserContext,
+    url: string,
+    timeout: number,
+    context: ErrorContext
+  ): Promise<ScrapedContent> {
+    let response
+    try {
+      response = await browserContext.request.get(url, { timeout })
+    } catch (error) {
+      throw new ScrapingError(
+        `Failed to download URL: ${url}`,
+        true,
+        ErrorSeverity.MEDIUM,
+        context,
+        error instanceof Error ? error : new Error(String(error))
+      )
+    }
+
+    const status = response.status()
+    if (status >= 400) {
+      throw new ScrapingError(
+        `HTTP ${status} error for URL: ${url}`,
+        status >= 500 || status === 429 || status === 408,
+        status >= 500 ? ErrorSeverity.MEDIUM : ErrorSeverity.LOW,
+        context
+      )
+    }
+
+    const data = await response.body()
+    if (!isPdfData(data)) {
+      throw new ScrapingError(
+        `Unsupported download for URL: ${url} (${response.headers()['content-type'] || 'unknown content type'})`,
+        false,
+        ErrorSeverity.LOW,
+        context
+      )
+    }
+
+    const scraped = await this.pdf.extract(url, data, context)
+
+    this.logger.info('Web scraping completed successfully', {
+      url,
+      contentLength: scraped.content.length,
+      pageCount: scraped.pages?.length,
+      title: scraped.title,
+      strategy: 'browser'
+    }, context)
+
+    return { ...scraped, strategy: 'browser' }
+  }
+
   /**
    * Wait for selector with error handling
    */
@@ -208,50 +409,18 @@ export class WebScraper {
   }
 
   /**
-   * Extract text content from the page with advanced filtering
+   * Extract the main content of the page as Markdown with advanced filtering.
+   * Headings, code blocks, tables, lists and links survive so the chunker can follow the document structure.
    */
   private async extractText(page: Page): Promise<string> {
-    return await page.evaluate(() => {
+    const tree = await page.evaluate(({ keptAttributes, unwantedSelectors, contentSelectors, unwantedContent }): HtmlNode | null => {
       // Remove unwanted elements (scripts, styles, navigation, ads, etc.)
-      const unwantedSelectors = [
-        'script', 'style', 'noscript',
-        'nav', 'header', 'footer', 'aside',
-        '.nav', '.navigation', '.menu', '.sidebar',
-        '.header', '.footer', '.banner', '.advertisement',
-        '.ads', '.ad', '.promo', '.promotion',
-        '.social', '.share', '.sharing',
-        '.comments', '.comment-section',
-        '.breadcrumb', '.breadcrumbs',
-        '.pagination', '.pager',
-        '.related', '.recommended',
-        '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]',
-        '[class*="nav"]', '[class*="menu"]', '[class*="sidebar"]',
-        '[class*="ad"]', '[class*="advertisement"]',
-        '[id*="nav"]', '[id*="menu"]', '[id*="sidebar"]',
-        '[id*="ad"]', '[id*="advertisement"]'
-      ]
-
       unwantedSelectors.forEach(selector => {
         const elements = document.querySelectorAll(selector)
         elements.forEach(el => el.remove())
       })
 
       // Try to find main content area with priority order
-      const contentSelectors = [
-        'main',
-        'article',
-        '[role="main"]',
-        '.main-content',
-        '.content',
-        '#content',
-        '.post-content',
-        '.entry-content',
-        '.article-content',
-        '.documentation',
-        '.docs',
-        '.api-docs'
-      ]
-
       let mainContent: Element | null = null
       for (const selector of contentSelectors) {
         mainContent = document.querySelector(selector)
@@ -264,29 +433,56 @@ export class WebScraper {
       }
 
       if (!mainContent) {
-        return ''
+        return null
       }
 
       // Clean up the content further
       const clone = mainContent.cloneNode(true) as Element
 
       // Remove any remaining unwanted elements from the clone
-      const additionalUnwanted = clone.querySelectorAll(
-        'button, input, select, textarea, form, iframe, embed, object, video, audio'
-      )
+      const additionalUnwanted = clone.querySelectorAll(unwantedContent)
       additionalUnwanted.forEach(el => el.remove())
 
-      // Get text content and clean it up
-      let text = (clone as HTMLElement).innerText || ''
+      // Serialize the cleaned tree; it is rendered as Markdown outside the browser
+      const serialize = (node: Node): HtmlNode | null => {
+        if (node.nodeType === Node.TEXT_NODE) {
+          return node.textContent || ''
+        }
+        if (node.nodeType !== Node.ELEMENT_NODE) {
+          return null
+        }
 
-      // Clean up whitespace and formatting
-      text = text
-        .replace(/\s+/g, ' ') // Replace multiple whitespace with single space
-        .replace(/\n\s*\n/g, '\n') // Replace multiple newlines with single newline
-        .trim()
+        const element = node as Element
+        const attributes: Record<string, string> = {}
+        for (const name of keptAttributes) {
+          const value = element.getAttribute(name)
+          if (value !== null) attributes[name] = value
+        }
 
-      return text
+        // Resolve link targets against the page URL, leaving in-page anchors out
+        const href = element.getAttribute('href')
+        if (element instanceof HTMLAnchorElement && href && !href.startsWith('#')) {
+          attributes.href = element.href
+        }
+
+        return {
+          tag: element.tagName.toLowerCase(),
+          attributes,
+          children: Array.from(element.childNodes)
+            .map(serialize)
+            .filter((child): child is HtmlNode => child !== null)
+        }
+      }
+
+      return serialize(clone)
+    }, {
+      keptAttributes: MARKDOWN_ATTRIBUTES,
+      unwantedSelectors: UNWANTED_SELECTORS,
+      contentSelectors: CONTENT_SELECTORS,
+      unwantedContent: UNWANTED_CONTENT_ELEMENTS
     })
+
+    return tree ? htmlToMarkdown(tree) : ''
   }
 
   /**
@@ -361,7 +557,7 @@ export class WebScraper {
    * Extract relevant links from the page with filtering
    */
   private async extractLinks(page: Page, baseUrl: string): Promise<string[]> {
-    const links = await page.evaluate(() => {
+    const links = await page.evaluate((): PageLink[] => {
       const anchors = Array.from(document.querySelectorAll('a[href]'))
       return anchors
         .map(a => {
@@ -376,51 +572,7 @@ export class WebScraper {
         .filter(link => link.href && link.href !== '#')
     })
 
-    // Filter and normalize links
-    const base = new URL(baseUrl)
-    const filteredLinks = links
-      .filter(link => {
-        try {
-          const url = new URL(link.href)
-
-          // Only include links from the same domain
-          if (url.hostname !== base.hostname) return false
-
-          // Only include HTTP/HTTPS links
-          if (!url.protocol.startsWith('http')) return false
-
-          // Exclude common non-content links
-          const excludePatterns = [
-            /\.(css|js|json|xml|pdf|zip|tar|gz|exe|dmg)$/i,
-            /#$/,
-            /javascript:/i,
-            /mailto:/i,
-            /tel:/i
-          ]
-
-          if (excludePatterns.some(pattern => pattern.test(link.href))) {
-            return false
-          }
-
-          // Exclude links with navigation-related classes or text
-          const navKeywords = ['nav', 'menu', 'breadcrumb', 'pagination', 'footer', 'header']
-          const hasNavClass = navKeywords.some(keyword =>
-            link.className.toLowerCase().includes(keyword) ||
-            link.id.toLowerCase().includes(keyword)
-          )
-
-          if (hasNavClass) return false
-
-          return true
-        } catch {
-          return false
-        }
-      })
-      .map(link => link.href)
-      .filter((href, index, array) => array.indexOf(href) === index) // Remove duplicates
-      .slice(0, 50) // Limit to first 50 relevant links
-
-    return filteredLinks
+    return filterLinks(links, baseUrl)
   }
 
   /**
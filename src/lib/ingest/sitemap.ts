@@ -0,0 +1,248 @@
+import { gunzipSync } from 'zlib'
+import { ScrapingError, ErrorContext, ErrorSeverity } from '../errors'
+import { loggers } from '../logger'
+import { RobotsChecker, robotsChecker } from './robots'
+
+// The sitemap protocol's limit for an uncompressed file; larger bodies (or gzip bombs) are not read
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024
+
+const SITEMAP_FETCH_HEADERS = {
+  'User-Agent': 'Knowio-Bot/1.0 (+https://knowio.dev/bot)',
+  'Accept': 'application/xml, text/xml;q=0.9, */*;q=0.8',
+}
+
+export interface SitemapEntry {
+  url: string
+  lastModified?: Date
+}
+
+export interface SitemapOptions {
+  sitemapUrl?: string
+  pathPrefix?: string
+  modifiedSince?: Date
+  maxEntries?: number
+}
+
+export interface ParsedSitemap {
+  urls: SitemapEntry[]
+  sitemaps: string[]
+}
+
+/**
+ * Discovers pages from sitemap.xml files, following sitemap index files
+ */
+export class SitemapReader {
+  private readonly robots: RobotsChecker
+  private readonly maxSitemaps: number
+  private readonly logger = loggers.scraper
+
+  constructor(robots: RobotsChecker = robotsChecker, options: { maxSitemaps?: number } = {}) {
+    this.robots = robots
+    this.maxSitemaps = options.maxSitemaps ?? 50
+  }
+
+  /**
+   * List same-origin pages under the root URL's sitemap(s), filtered by path prefix and lastmod
+   */
+  async discover(rootUrl: string, options: SitemapOptions = {}): Promise<SitemapEntry[]> {
+    const root = new URL(rootUrl)
+    const context: ErrorContext = {
+      component: 'SitemapReader',
+      operation: 'discover',
+      url: rootUrl,
+      timestamp: new Date()
+    }
+
+    const pending = await this.findSitemaps(root, options.sitemapUrl, context)
+    const visited = new Set<string>()
+    const seenUrls = new Set<string>()
+    const entries: SitemapEntry[] = []
+    const maxEntries = options.maxEntries ?? Infinity
+    let fetchedAny = false
+
+    while (pending.length > 0 && visited.size < this.maxSitemaps && entries.length < maxEntries) {
+      const sitemapUrl = pending.shift()!
+      if (visited.has(sitemapUrl)) continue
+      visited.add(sitemapUrl)
+
+      if (!SitemapReader.isSameOrigin(sitemapUrl, root)) {
+        this.logger.warn('Skipping sitemap on another origin', { sitemapUrl, origin: root.origin }, context)
+        continue
+      }
+
+      const xml = await this.fetchSitemap(sitemapUrl)
+      if (xml === null) continue
+      fetchedAny = true
+
+      const parsed = SitemapReader.parse(xml)
+      pending.push(...parsed.sitemaps)
+
+      for (const entry of parsed.urls) {
+        if (entries.length >= maxEntries) break
+        if (seenUrls.has(entry.url) || !this.matches(entry, root, options)) continue
+        seenUrls.add(entry.url)
+        entries.push(entry)
+      }
+    }
+
+    if (!fetchedAny) {
+      throw new ScrapingError(
+        `No sitemap found for ${root.origin}`,
+        false,
+        ErrorSeverity.LOW,
+        context
+      )
+    }
+
+    this.logger.info('Sitemap discovery completed', {
+      origin: root.origin,
+      sitemapsRead: visited.size,
+      entries: entries.length
+    }, context)
+
+    return entries
+  }
+
+  /**
+   * Parse a sitemap or sitemap index document
+   */
+  static parse(xml: string): ParsedSitemap {
+    const readTag = (block: string, tag: string): string | undefined => {
+      const match = block.match(new RegExp(`<(?:[\\w-]+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`, 'i'))
+      return match ? SitemapReader.decodeText(match[1]) : undefined
+    }
+    const readBlocks = (tag: string): string[] =>
+      xml.match(new RegExp(`<(?:[\\w-]+:)?${tag}\\b[^>]*>[\\s\\S]*?</(?:[\\w-]+:)?${tag}>`, 'gi')) || []
+
+    const urls: SitemapEntry[] = []
+    for (const block of readBlocks('url')) {
+      const loc = readTag(block, 'loc')
+      if (!loc) continue
+
+      const lastmod = readTag(block, 'lastmod')
+      const lastModified = lastmod ? new Date(lastmod) : undefined
+      urls.push({
+        url: loc,
+        lastModified: lastModified && !isNaN(lastModified.getTime()) ? lastModified : undefined
+      })
+    }
+
+    const sitemaps = readBlocks('sitemap')
+      .map(block => readTag(block, 'loc'))
+      .filter((loc): loc is string => Boolean(loc))
+
+    return { urls, sitemaps }
+  }
+
+  private matches(entry: SitemapEntry, root: URL, options: SitemapOptions): boolean {
+    let entryUrl: URL
+    try {
+      entryUrl = new URL(entry.url)
+    } catch {
+      return false
+    }
+
+    if (entryUrl.origin !== root.origin) {
+      return false
+    }
+
+    if (options.pathPrefix && !entryUrl.pathname.startsWith(options.pathPrefix)) {
+      return false
+    }
+
+    // Entries without lastmod are kept; we cannot tell whether they changed
+    if (options.modifiedSince && entry.lastModified && entry.lastModified < options.modifiedSince) {
+      return false
+    }
+
+    return true
+  }
+
+  /**
+   * Sitemaps come from the explicit URL, then robots.txt Sitemap lines, then /sitemap.xml.
+   * Only sitemaps on the root URL's origin are read, so a sitemap cannot point the crawler at other hosts.
+   */
+  private async findSitemaps(root: URL, sitemapUrl: string | undefined, context: ErrorContext): Promise<string[]> {
+    if (sitemapUrl) {
+      if (!SitemapReader.isSameOrigin(sitemapUrl, root)) {
+        throw new ScrapingError(
+          `Sitemap ${sitemapUrl} must be on the same origin as ${root.origin}`,
+          false,
+          ErrorSeverity.LOW,
+          context
+        )
+      }
+      return [sitemapUrl]
+    }
+
+    const robots = await this.robots.getRobots(root.toString())
+    const declared = robots.sitemaps.filter(url => SitemapReader.isSameOrigin(url, root))
+    if (declared.length > 0) {
+      return declared
+    }
+
+    return [`${root.origin}/sitemap.xml`]
+  }
+
+  /**
+   * Fetch a sitemap body, returning null when it is missing or unreadable
+   */
+  private async fetchSitemap(sitemapUrl: string): Promise<string | null> {
+    try {
+      const response = await fetch(sitemapUrl, {
+        headers: SITEMAP_FETCH_HEADERS,
+        signal: AbortSignal.timeout(15000), // 15 second timeout
+      })
+
+      if (!response.ok) {
+        this.logger.warn('Sitemap request failed', { sitemapUrl, status: response.status })
+        return null
+      }
+
+      const contentLength = Number(response.headers.get('content-length'))
+      if (contentLength > MAX_SITEMAP_BYTES) {
+        this.logger.warn('Sitemap too large', { sitemapUrl, contentLength })
+        return null
+      }
+
+      const body = Buffer.from(await response.arrayBuffer())
+      if (body.length > MAX_SITEMAP_BYTES) {
+        this.logger.warn('Sitemap too large', { sitemapUrl, contentLength: body.length })
+        return null
+      }
+
+      // sitemap.xml.gz files are served as raw gzip rather than with Content-Encoding;
+      // decompressing past the limit throws and the sitemap is skipped below
+      const isGzip = body.length > 2 && body[0] === 0x1f && body[1] === 0x8b
+      return (isGzip ? gunzipSync(body, { maxOutputLength: MAX_SITEMAP_BYTES }) : body).toString('utf-8')
+    } catch (error) {
+      this.logger.warn('Failed to fetch sitemap', {
+        sitemapUrl,
+        error: error instanceof Error ? error.message : String(error)
+      })
+      return null
+    }
+  }
+
+  private static isSameOrigin(url: string, root: URL): boolean {
+    try {
+      return new URL(url).origin === root.origin
+    } catch {
+      return false
+    }
+  }
+
+  private static decodeText(value: string): string {
+    return value
+      .replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, '$1')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&')
+      .trim()
+  }
+}
+
+// Export singleton instance
+export const sitemapReader = new SitemapReader()
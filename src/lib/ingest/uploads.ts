@@ -0,0 +1,56 @@
+// Document formats accepted for upload ingestion
+export type UploadFormat = 'markdown' | 'html' | 'text' | 'pdf' | 'docx'
+
+// Scheme of the synthetic source URIs uploaded files are stored under
+export const UPLOAD_SCHEME = 'upload:'
+
+// Uploads are held in memory and stored with their job, so keep them modest
+export const MAX_UPLOAD_BYTES = 20 * 1024 * 1024
+
+// Largest multipart request accepted: one upload plus its boundaries, part headers and form fields
+export const MAX_UPLOAD_REQUEST_BYTES = MAX_UPLOAD_BYTES + 64 * 1024
+
+const FORMATS_BY_EXTENSION: Record<string, UploadFormat> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  html: 'html',
+  htm: 'html',
+  txt: 'text',
+  text: 'text',
+  pdf: 'pdf',
+  docx: 'docx'
+}
+
+const FORMATS_BY_CONTENT_TYPE: Record<string, UploadFormat> = {
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/html': 'html',
+  'text/plain': 'text',
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx'
+}
+
+/**
+ * Format of an uploaded file, by extension first since browsers often send
+ * application/octet-stream for Markdown. Returns null for unsupported files.
+ */
+export function detectUploadFormat(fileName: string, contentType = ''): UploadFormat | null {
+  const extension = fileName.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1]
+  if (extension && FORMATS_BY_EXTENSION[extension]) {
+    return FORMATS_BY_EXTENSION[extension]
+  }
+
+  return FORMATS_BY_CONTENT_TYPE[contentType.split(';')[0].trim().toLowerCase()] ?? null
+}
+
+/**
+ * Synthetic source URI for an uploaded file. Uploading a file with the same name again
+ * re-ingests the same source, replacing its chunks like re-ingesting a URL does.
+ */
+export function uploadSourceUri(fileName: string): string {
+  return `${UPLOAD_SCHEME}//files/${encodeURIComponent(fileName)}`
+}
+
+export function isUploadUri(url: string): boolean {
+  return url.startsWith(`${UPLOAD_SCHEME}//`)
+}
@@ -1,21 +1,63 @@
 import { z } from 'zod'
 import { ValidationResult } from '../types'
+import { RobotsChecker, robotsChecker, ROBOTS_USER_AGENT } from './robots'
 
 // URL validation schema
 const urlSchema = z.string().url()
 
+// Git repository ingestion options, shared by every schema accepting ingestion options
+export const gitOptionsShape = {
+  // Branch or tag; must not look like a command line flag
+  gitRef: z.string().regex(/^\w[\w./-]*$/, { message: 'Invalid Git ref' }).optional(),
+  include: z.array(z.string().min(1)).min(1).max(50).optional(),
+  exclude: z.array(z.string().min(1)).max(50).optional(),
+  urlTemplate: z.string().regex(/^https?:\/\/.*\{(?:file|path)\}/, {
+    message: 'URL template must be an http(s) URL containing {file} or {path}'
+  }).optional()
+}
+
+/**
+ * Git repository ingestion needs a URL template to give each file its hosted URL
+ */
+export function hasGitUrlTemplate(options: { mode?: string; urlTemplate?: string }): boolean {
+  return options.mode !== 'git' || Boolean(options.urlTemplate)
+}
+
+export const gitUrlTemplateRequired = {
+  message: 'urlTemplate is required for Git repository ingestion',
+  path: ['urlTemplate']
+}
+
 // Options validation schema
 export const ingestionOptionsSchema = z.object({
   maxDepth: z.number().min(1).max(10).optional().default(3),
   followLinks: z.boolean().optional().default(false),
   respectRobots: z.boolean().optional().default(true),
-})
+  maxPages: z.number().min(1).max(500).optional().default(50),
+  mode: z.enum(['crawl', 'sitemap', 'git', 'openapi']).optional().default('crawl'),
+  sitemapUrl: z.string().url().optional(),
+  pathPrefix: z.string().startsWith('/').optional(),
+  modifiedSince: z.string().refine(value => !isNaN(Date.parse(value)), {
+    message: 'modifiedSince must be a valid date'
+  }).optional(),
+  ...gitOptionsShape
+}).refine(hasGitUrlTemplate, gitUrlTemplateRequired)
 
 export class URLValidator {
+  private readonly robots: RobotsChecker
+
+  constructor(robots: RobotsChecker = robotsChecker) {
+    this.robots = robots
+  }
+
   /**
-   * Validates and sanitizes a URL
+   * Validates and sanitizes a URL. URLs that are not fetched over HTTP (e.g. Git repositories)
+   * can skip the accessibility check and accept other protocols; the host rules always apply.
    */
-  async validate(url: string): Promise<ValidationResult> {
+  async validate(
+    url: string,
+    options: { respectRobots?: boolean; checkAccessibility?: boolean; protocols?: string[] } = {}
+  ): Promise<ValidationResult> {
     const errors: string[] = []
     
     try {
@@ -26,7 +68,11 @@ export class URLValidator {
       const urlObj = new URL(url)
       
       // Check for supported protocols
-      if (!['http:', 'https:'].includes(urlObj.protocol)) {
+      if (options.protocols) {
+        if (!options.protocols.includes(urlObj.protocol.slice(0, -1))) {
+          errors.push(`Only ${options.protocols.join(', ')} URLs are supported`)
+        }
+      } else if (!['http:', 'https:'].includes(urlObj.protocol)) {
         errors.push('Only HTTP and HTTPS protocols are supported')
       }
       
@@ -45,10 +91,18 @@ export class URLValidator {
       const sanitizedUrl = this.sanitize(url)
       
       // Check accessibility
-      const isAccessible = await this.checkAccessibility(sanitizedUrl)
+      const isAccessible = options.checkAccessibility === false || await this.checkAccessibility(sanitizedUrl)
       if (!isAccessible) {
         errors.push('URL is not accessible or returns an error')
       }
+
+      // Check robots.txt last so an inaccessible host is reported as such
+      if (options.respectRobots && errors.length === 0) {
+        const isAllowed = await this.robots.isAllowed(sanitizedUrl)
+        if (!isAllowed) {
+          errors.push(`URL is disallowed by robots.txt for ${ROBOTS_USER_AGENT}; set respectRobots to false to ingest it anyway`)
+        }
+      }
       
       return {
         isValid: errors.length === 0,
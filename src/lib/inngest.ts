@@ -1,4 +1,5 @@
 import { Inngest } from 'inngest'
+import { IngestionOptions } from './types'
 
 // Create the Inngest client
 export const inngest = new Inngest({
@@ -12,11 +13,7 @@ export type IngestionJobEvent = {
   data: {
     jobId: string
     url: string
-    options: {
-      maxDepth?: number
-      followLinks?: boolean
-      respectRobots?: boolean
-    }
+    options: IngestionOptions
   }
 }
 
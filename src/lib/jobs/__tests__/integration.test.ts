@@ -76,6 +76,10 @@ describe('Job Processing Integration', () => {
     )
 
     vi.clearAllMocks()
+
+    // Nothing stored yet, so every chunk is new
+    mockVectorStore.getSourceHashes.mockResolvedValue({ chunkCount: 0, chunkHashes: new Map() })
+    mockVectorStore.pruneSource.mockResolvedValue(0)
   })
 
   afterEach(() => {
@@ -206,13 +210,15 @@ describe('Job Processing Integration', () => {
       expect(result.processingTime).toBeGreaterThan(0)
 
       // Verify all services were called correctly
-      expect(mockUrlValidator.validate).toHaveBeenCalledWith(testUrl)
+      expect(mockUrlValidator.validate).toHaveBeenCalledWith(testUrl, { respectRobots: true })
       expect(mockWebScraper.scrape).toHaveBeenCalledWith(testUrl, {
         respectRobots: true,
         timeout: 30000
       })
       expect(mockContentChunker.chunk).toHaveBeenCalled()
-      expect(mockEmbeddingService.generateEmbeddings).toHaveBeenCalledWith(mockChunks)
+      expect(mockEmbeddingService.generateEmbeddings).toHaveBeenCalledWith(
+        mockChunks.map(chunk => ({ ...chunk, contentHash: expect.any(String), jobId: 'job-123' }))
+      )
       expect(mockVectorStore.storeBatch).toHaveBeenCalledWith(mockEmbeddedChunks)
 
       // Verify job status updates
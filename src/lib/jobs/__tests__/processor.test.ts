@@ -6,12 +6,21 @@ import { ContentChunker } from '../../ingest/chunker'
 import { URLValidator } from '../../ingest/validator'
 import { EmbeddingService } from '../../embed/service'
 import { VectorStore } from '../../vector/store'
+import { sitemapReader } from '../../ingest/sitemap'
+import { gitRepositoryReader } from '../../ingest/git'
+import { openApiReader } from '../../ingest/openapi'
+import { hashContent } from '../../utils'
 import { IngestionJob, ScrapedContent, DocumentChunk, EmbeddedChunk } from '../../types'
 
 // Mock all dependencies
+vi.mock('../../db', () => ({
+  prisma: {},
+  dbMonitor: {}
+}))
 vi.mock('../../ingest/scraper')
 vi.mock('../../ingest/chunker')
 vi.mock('../../ingest/validator')
+vi.mock('../../ingest/sitemap')
 vi.mock('../../embed/service')
 vi.mock('../../vector/store')
 vi.mock('../queue')
@@ -107,6 +116,10 @@ describe('JobProcessor', () => {
     )
 
     vi.clearAllMocks()
+
+    // Nothing stored yet, so every chunk is new
+    mockVectorStore.getSourceHashes.mockResolvedValue({ chunkCount: 0, chunkHashes: new Map() })
+    mockVectorStore.pruneSource.mockResolvedValue(0)
   })
 
   afterEach(() => {
@@ -146,13 +159,15 @@ describe('JobProcessor', () => {
 
       // Verify all steps were called
       expect(mockJobQueue.updateStatus).toHaveBeenCalledWith('job-123', 'PROCESSING')
-      expect(mockUrlValidator.validate).toHaveBeenCalledWith('https://example.com/docs')
+      expect(mockUrlValidator.validate).toHaveBeenCalledWith('https://example.com/docs', { respectRobots: true })
       expect(mockWebScraper.scrape).toHaveBeenCalledWith('https://example.com/docs', {
         respectRobots: true,
         timeout: 30000
       })
       expect(mockContentChunker.chunk).toHaveBeenCalledWith(mockScrapedContent.content, mockScrapedContent.metadata)
-      expect(mockEmbeddingService.generateEmbeddings).toHaveBeenCalledWith(mockChunks)
+      expect(mockEmbeddingService.generateEmbeddings).toHaveBeenCalledWith(
+        mockChunks.map(chunk => ({ ...chunk, contentHash: expect.any(String), jobId: 'job-123' }))
+      )
       expect(mockVectorStore.storeBatch).toHaveBeenCalledWith(mockEmbeddedChunks)
       expect(mockJobQueue.completeJob).toHaveBeenCalledWith('job-123', result)
     })
@@ -207,6 +222,396 @@ describe('JobProcessor', () => {
       expect(mockWebScraper.scrape).toHaveBeenCalledTimes(2)
     })
 
+    it('should crawl linked same-origin pages and skip failing child pages', async () => {
+      mockJobQueue.getStatus.mockResolvedValue({
+        ...mockJob,
+        options: { maxDepth: 1, followLinks: true }
+      })
+      mockJobQueue.updateStatus.mockResolvedValue()
+      mockJobQueue.updateProgress.mockResolvedValue()
+      mockJobQueue.completeJob.mockResolvedValue()
+
+      mockUrlValidator.validate.mockResolvedValue({
+        isValid: true,
+        errors: [],
+        sanitizedUrl: 'https://example.com/docs'
+      })
+
+      mockWebScraper.scrape.mockImplementation(async (url: string): Promise<ScrapedContent> => {
+        if (url === 'https://example.com/docs/broken') {
+          throw new Error('Page not found')
+        }
+        return {
+          ...mockScrapedContent,
+          url,
+          links: [
+            'https://example.com/docs/auth',
+            'https://example.com/docs/broken',
+            'https://other.com/docs',
+            'https://example.com/docs/auth/tokens'
+          ]
+        }
+      })
+      mockContentChunker.chunk.mockResolvedValue(mockChunks)
+      mockEmbeddingService.generateEmbeddings.mockImplementation(async (chunks: DocumentChunk[]) =>
+        chunks.map((chunk: DocumentChunk) => ({ ...chunk, embedding: new Array(1536).fill(0.1), embeddedAt: new Date() }))
+      )
+      mockVectorStore.storeBatch.mockResolvedValue({
+        stored: 2,
+        updated: 0,
+        failed: 0,
+        errors: []
+      })
+
+      const result = await processor.processJob('job-123')
+
+      expect(result.success).toBe(true)
+      expect(result.totalChunks).toBe(6)
+
+      const scrapedUrls = mockWebScraper.scrape.mock.calls.map(([url]: [string]) => url)
+      expect(scrapedUrls).not.toContain('https://other.com/docs')
+      expect(new Set(scrapedUrls)).toEqual(new Set([
+        'https://example.com/docs',
+        'https://example.com/docs/auth',
+        'https://example.com/docs/broken',
+        'https://example.com/docs/auth/tokens'
+      ]))
+
+      // Chunks are attributed to the page they came from
+      const storedUrls = mockVectorStore.storeBatch.mock.calls.map(([chunks]: [EmbeddedChunk[]]) => chunks[0].metadata.sourceUrl)
+      expect(storedUrls).toEqual([
+        'https://example.com/docs',
+        'https://example.com/docs/auth',
+        'https://example.com/docs/auth/tokens'
+      ])
+
+      expect(mockJobQueue.updateProgress).toHaveBeenCalledWith('job-123', { pagesProcessed: 3 })
+      expect(mockJobQueue.updateProgress).toHaveBeenCalledWith('job-123', {
+        errors: [expect.stringContaining('https://example.com/docs/broken')]
+      })
+    })
+
+    it('should ingest the pages listed in the sitemap in sitemap mode', async () => {
+      mockJobQueue.getStatus.mockResolvedValue({
+        ...mockJob,
+        options: { mode: 'sitemap', pathPrefix: '/docs', followLinks: false }
+      })
+      mockJobQueue.updateStatus.mockResolvedValue()
+      mockJobQueue.updateProgress.mockResolvedValue()
+      mockJobQueue.completeJob.mockResolvedValue()
+
+      mockUrlValidator.validate.mockResolvedValue({
+        isValid: true,
+        errors: [],
+        sanitizedUrl: 'https://example.com/docs'
+      })
+
+      vi.mocked(sitemapReader.discover).mockResolvedValue([
+        { url: 'https://example.com/docs/intro' },
+        { url: 'https://example.com/docs/missing' },
+        { url: 'https://example.com/docs/api' }
+      ])
+      mockWebScraper.scrape.mockImplementation(async (url: string): Promise<ScrapedContent> => {
+        if (url.endsWith('/missing')) {
+          throw new Error('Page not found')
+        }
+        return { ...mockScrapedContent, url }
+      })
+      mockContentChunker.chunk.mockResolvedValue(mockChunks)
+      mockEmbeddingService.generateEmbeddings.mockResolvedValue(mockEmbeddedChunks)
+      mockVectorStore.storeBatch.mockResolvedValue({
+        stored: 2,
+        updated: 0,
+        failed: 0,
+        errors: []
+      })
+
+      const result = await processor.processJob('job-123')
+
+      expect(result.success).toBe(true)
+      expect(result.totalChunks).toBe(4)
+      expect(sitemapReader.discover).toHaveBeenCalledWith('https://example.com/docs', {
+        sitemapUrl: undefined,
+        pathPrefix: '/docs',
+        modifiedSince: undefined,
+        maxEntries: undefined
+      })
+      const scrapedUrls = mockWebScraper.scrape.mock.calls.map(([url]: [string]) => url)
+      expect(scrapedUrls).not.toContain('https://example.com/docs')
+      expect(new Set(scrapedUrls)).toEqual(new Set([
+        'https://example.com/docs/intro',
+        'https://example.com/docs/missing',
+        'https://example.com/docs/api'
+      ]))
+    })
+
+    it('should ingest uploaded files without validating or scraping a URL', async () => {
+      const sourceUri = 'upload://files/guide.md'
+      mockJobQueue.getStatus.mockResolvedValue({ ...mockJob, url: sourceUri, options: {} })
+      mockJobQueue.getUploadedFile.mockResolvedValue({
+        fileName: 'guide.md',
+        contentType: 'text/markdown',
+        data: new TextEncoder().encode('# Guide\n\nInstall the CLI first.')
+      })
+      mockJobQueue.updateStatus.mockResolvedValue()
+      mockJobQueue.updateProgress.mockResolvedValue()
+      mockJobQueue.completeJob.mockResolvedValue()
+
+      mockContentChunker.chunk.mockResolvedValue(mockChunks)
+      mockEmbeddingService.generateEmbeddings.mockResolvedValue(mockEmbeddedChunks)
+      mockVectorStore.storeBatch.mockResolvedValue({
+        stored: 2,
+        updated: 0,
+        failed: 0,
+        errors: []
+      })
+
+      const result = await processor.processJob('job-123')
+
+      expect(result.success).toBe(true)
+      expect(result.totalChunks).toBe(2)
+      expect(mockUrlValidator.validate).not.toHaveBeenCalled()
+      expect(mockWebScraper.scrape).not.toHaveBeenCalled()
+      expect(mockJobQueue.getUploadedFile).toHaveBeenCalledWith('job-123')
+      expect(mockContentChunker.chunk).toHaveBeenCalledWith('# Guide\n\nInstall the CLI first.', { title: 'Guide' })
+      expect(mockEmbeddingService.generateEmbeddings).toHaveBeenCalledWith(
+        mockChunks.map(chunk => expect.objectContaining({
+          metadata: { ...chunk.metadata, sourceUrl: sourceUri }
+        }))
+      )
+    })
+
+    it('should store one chunk per operation of an API description', async () => {
+      const specUrl = 'https://api.example.com/openapi.yaml'
+      const operations = [
+        { method: 'GET', path: '/pets', operationId: 'listPets', tags: ['pets'], content: '# GET /pets' },
+        { method: 'POST', path: '/pets', operationId: 'createPet', tags: ['pets'], content: '# POST /pets' }
+      ]
+      const apiContent: ScrapedContent = {
+        url: specUrl,
+        title: 'Petstore 1.0.0',
+        content: '# GET /pets\n\n# POST /pets',
+        metadata: { title: 'Petstore 1.0.0' },
+        links: [],
+        operations
+      }
+      mockJobQueue.getStatus.mockResolvedValue({ ...mockJob, url: specUrl, options: { mode: 'openapi' } })
+      mockJobQueue.updateStatus.mockResolvedValue()
+      mockJobQueue.updateProgress.mockResolvedValue()
+      mockJobQueue.completeJob.mockResolvedValue()
+
+      mockUrlValidator.validate.mockResolvedValue({ isValid: true, errors: [], sanitizedUrl: specUrl })
+      const read = vi.spyOn(openApiReader, 'read').mockResolvedValue(apiContent)
+      mockContentChunker.chunkOperations.mockResolvedValue(mockChunks)
+      mockEmbeddingService.generateEmbeddings.mockResolvedValue(mockEmbeddedChunks)
+      mockVectorStore.storeBatch.mockResolvedValue({
+        stored: 2,
+        updated: 0,
+        failed: 0,
+        errors: []
+      })
+
+      const result = await processor.processJob('job-123')
+
+      expect(result.success).toBe(true)
+      expect(result.totalChunks).toBe(2)
+      expect(read).toHaveBeenCalledWith(specUrl, expect.anything())
+      expect(mockWebScraper.scrape).not.toHaveBeenCalled()
+      expect(mockContentChunker.chunk).not.toHaveBeenCalled()
+      expect(mockContentChunker.chunkOperations).toHaveBeenCalledWith(operations, apiContent.metadata)
+      expect(mockVectorStore.storeBatch).toHaveBeenCalledWith(mockEmbeddedChunks)
+      expect(mockVectorStore.pruneSource).toHaveBeenCalledWith(specUrl, 2, expect.any(String), expect.anything())
+    })
+
+    it('should only ingest repository files changed since the last ingested commit', async () => {
+      const gitOptions = { mode: 'git' as const, urlTemplate: 'https://docs.example.com/{path}' }
+      const checkout = { directory: '/tmp/checkout', sha: 'def456' }
+      mockJobQueue.getStatus.mockResolvedValue({
+        ...mockJob,
+        url: 'https://github.com/acme/docs.git#readme',
+        options: gitOptions
+      })
+      mockJobQueue.getLastCommit.mockResolvedValue({ commitSha: 'abc123', options: gitOptions })
+      mockJobQueue.updateStatus.mockResolvedValue()
+      mockJobQueue.updateProgress.mockResolvedValue()
+      mockJobQueue.completeJob.mockResolvedValue()
+      mockJobQueue.recordCommit.mockResolvedValue()
+      mockUrlValidator.validate.mockResolvedValue({
+        isValid: true,
+        errors: [],
+        sanitizedUrl: 'https://github.com/acme/docs.git'
+      })
+
+      vi.spyOn(gitRepositoryReader, 'checkout').mockResolvedValue(checkout)
+      vi.spyOn(gitRepositoryReader, 'changesSince').mockResolvedValue({
+        changed: ['docs/guides/setup.md'],
+        deleted: ['docs/old.md']
+      })
+      vi.spyOn(gitRepositoryReader, 'readFile').mockResolvedValue('---\ntitle: Setup\n---\nInstall the CLI.')
+      const cleanup = vi.spyOn(gitRepositoryReader, 'cleanup').mockResolvedValue()
+
+      mockContentChunker.chunk.mockResolvedValue(mockChunks)
+      mockEmbeddingService.generateEmbeddings.mockResolvedValue(mockEmbeddedChunks)
+      mockVectorStore.storeBatch.mockResolvedValue({
+        stored: 2,
+        updated: 0,
+        failed: 0,
+        errors: []
+      })
+
+      const result = await processor.processJob('job-123')
+
+      expect(result.success).toBe(true)
+      expect(mockUrlValidator.validate).toHaveBeenCalledWith('https://github.com/acme/docs.git#readme', {
+        respectRobots: false,
+        checkAccessibility: false,
+        protocols: ['https', 'http']
+      })
+      expect(mockWebScraper.scrape).not.toHaveBeenCalled()
+      // The URL that passed validation is the one cloned
+      expect(gitRepositoryReader.checkout).toHaveBeenCalledWith('https://github.com/acme/docs.git', undefined, expect.anything())
+      expect(mockJobQueue.recordCommit).toHaveBeenCalledWith('job-123', 'def456')
+      expect(gitRepositoryReader.changesSince).toHaveBeenCalledWith(checkout, 'abc123', { include: undefined, exclude: undefined })
+      expect(mockVectorStore.pruneSource).toHaveBeenCalledWith('https://docs.example.com/docs/old', 0, undefined, {
+        userId: undefined,
+        organizationId: undefined,
+        collectionId: undefined
+      })
+      expect(mockContentChunker.chunk).toHaveBeenCalledTimes(1)
+      expect(mockContentChunker.chunk).toHaveBeenCalledWith('Install the CLI.', expect.objectContaining({
+        title: 'Setup',
+        frontMatter: { title: 'Setup' }
+      }))
+      expect(mockEmbeddingService.generateEmbeddings).toHaveBeenCalledWith(
+        mockChunks.map(chunk => expect.objectContaining({
+          metadata: { ...chunk.metadata, sourceUrl: 'https://docs.example.com/docs/guides/setup', frontMatter: { title: 'Setup' } }
+        }))
+      )
+      expect(cleanup).toHaveBeenCalledWith(checkout)
+    })
+
+    it('should not clone repositories whose URL fails validation', async () => {
+      mockJobQueue.getStatus.mockResolvedValue({
+        ...mockJob,
+        url: 'http://10.0.0.8/internal/docs.git',
+        options: { mode: 'git', urlTemplate: 'https://docs.example.com/{path}' }
+      })
+      mockJobQueue.updateStatus.mockResolvedValue()
+      mockJobQueue.completeJob.mockResolvedValue()
+      mockUrlValidator.validate.mockResolvedValue({
+        isValid: false,
+        errors: ['Private and local URLs are not allowed in production']
+      })
+      const checkout = vi.spyOn(gitRepositoryReader, 'checkout')
+
+      const result = await processor.processJob('job-123')
+
+      expect(result.success).toBe(false)
+      expect(result.errors).toContain('URL validation failed: Private and local URLs are not allowed in production')
+      expect(checkout).not.toHaveBeenCalled()
+    })
+
+    it('should only embed changed chunks and prune orphaned ones on re-ingestion', async () => {
+      mockJobQueue.getStatus.mockResolvedValue({
+        ...mockJob,
+        options: { collectionId: 'collection-1' },
+        userId: 'user-1'
+      })
+      mockJobQueue.updateStatus.mockResolvedValue()
+      mockJobQueue.updateProgress.mockResolvedValue()
+      mockJobQueue.completeJob.mockResolvedValue()
+
+      mockUrlValidator.validate.mockResolvedValue({
+        isValid: true,
+        errors: [],
+        sanitizedUrl: 'https://example.com/docs'
+      })
+
+      mockWebScraper.scrape.mockResolvedValue(mockScrapedContent)
+      mockContentChunker.chunk.mockResolvedValue(mockChunks)
+      // The first chunk is unchanged; the previous version of the page had four chunks
+      const [firstChunk] = mockChunks
+      mockVectorStore.getSourceHashes.mockResolvedValue({
+        pageHash: 'previous-page-hash',
+        chunkCount: 4,
+        chunkHashes: new Map([
+          [0, hashContent(firstChunk.metadata.title, firstChunk.metadata.section, firstChunk.content)],
+          [1, 'stale-hash'],
+          [2, 'stale-hash'],
+          [3, 'stale-hash']
+        ])
+      })
+      mockVectorStore.pruneSource.mockResolvedValue(2)
+      mockEmbeddingService.generateEmbeddings.mockResolvedValue([mockEmbeddedChunks[1]])
+      mockVectorStore.storeBatch.mockResolvedValue({
+        stored: 0,
+        updated: 1,
+        failed: 0,
+        skipped: 0,
+        errors: []
+      })
+
+      const result = await processor.processJob('job-123')
+
+      expect(result.success).toBe(true)
+      expect(result.totalChunks).toBe(1)
+      expect(mockVectorStore.getSourceHashes).toHaveBeenCalledWith('https://example.com/docs', {
+        userId: 'user-1',
+        collectionId: 'collection-1'
+      })
+      expect(mockEmbeddingService.generateEmbeddings).toHaveBeenCalledWith([
+        {
+          ...mockChunks[1],
+          contentHash: expect.any(String),
+          userId: 'user-1',
+          collectionId: 'collection-1',
+          jobId: 'job-123'
+        }
+      ])
+      expect(mockVectorStore.pruneSource).toHaveBeenCalledWith(
+        'https://example.com/docs',
+        2,
+        hashContent(mockScrapedContent.title, mockScrapedContent.content),
+        { userId: 'user-1', collectionId: 'collection-1' }
+      )
+      expect(result).toMatchObject({ chunksSkipped: 1, chunksUpdated: 1, chunksDeleted: 2 })
+      expect(mockJobQueue.updateProgress).toHaveBeenCalledWith('job-123', {
+        chunksSkipped: 1,
+        chunksUpdated: 1,
+        chunksDeleted: 2
+      })
+    })
+
+    it('should skip pages whose content has not changed', async () => {
+      mockJobQueue.getStatus.mockResolvedValue({ ...mockJob, options: {} })
+      mockJobQueue.updateStatus.mockResolvedValue()
+      mockJobQueue.updateProgress.mockResolvedValue()
+      mockJobQueue.completeJob.mockResolvedValue()
+
+      mockUrlValidator.validate.mockResolvedValue({
+        isValid: true,
+        errors: [],
+        sanitizedUrl: 'https://example.com/docs'
+      })
+
+      mockWebScraper.scrape.mockResolvedValue(mockScrapedContent)
+      mockVectorStore.getSourceHashes.mockResolvedValue({
+        pageHash: hashContent(mockScrapedContent.title, mockScrapedContent.content),
+        chunkCount: 2,
+        chunkHashes: new Map()
+      })
+
+      const result = await processor.processJob('job-123')
+
+      expect(result.success).toBe(true)
+      expect(result.totalChunks).toBe(0)
+      expect(result).toMatchObject({ chunksSkipped: 2, chunksUpdated: 0, chunksDeleted: 0 })
+      expect(mockContentChunker.chunk).not.toHaveBeenCalled()
+      expect(mockEmbeddingService.generateEmbeddings).not.toHaveBeenCalled()
+      expect(mockVectorStore.storeBatch).not.toHaveBeenCalled()
+      expect(mockVectorStore.pruneSource).not.toHaveBeenCalled()
+    })
+
     it('should handle embedding failure gracefully', async () => {
       mockJobQueue.getStatus.mockResolvedValue(mockJob)
       mockJobQueue.updateStatus.mockResolvedValue()
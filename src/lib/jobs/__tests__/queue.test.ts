@@ -64,6 +64,8 @@ describe('JobQueue', () => {
         data: {
           url: 'https://example.com/docs',
           status: 'QUEUED',
+          userId: null,
+          organizationId: null,
           options: JSON.stringify({ maxDepth: 2, followLinks: true }),
           progress: JSON.stringify({
             pagesProcessed: 0,
@@ -375,7 +377,8 @@ describe('JobQueue', () => {
         id: 'job-123',
         url: 'https://example.com/docs',
         status: 'FAILED',
-        options: '{"maxDepth":2}'
+        options: '{"maxDepth":2}',
+        organizationId: 'org-1'
       }
 
       const mockNewJob = {
@@ -397,6 +400,8 @@ describe('JobQueue', () => {
         data: {
           url: 'https://example.com/docs',
           status: 'QUEUED',
+          userId: null,
+          organizationId: 'org-1',
           options: JSON.stringify({ maxDepth: 2 }),
           progress: JSON.stringify({
             pagesProcessed: 0,
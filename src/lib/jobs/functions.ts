@@ -5,13 +5,20 @@ import { WebScraper } from '../ingest/scraper'
 import { ContentChunker } from '../ingest/chunker'
 import { URLValidator } from '../ingest/validator'
 import { EmbeddingService } from '../embed/service'
+import { createEmbeddingProvider } from '../embed/providers'
+import { embeddingConfig } from '../config/environment'
 import { vectorStore } from '../vector/store'
+import { sourceStore } from '../sources/store'
+import { sourceScheduler } from '../sources/scheduler'
 
 // Initialize services
 const webScraper = new WebScraper()
 const contentChunker = new ContentChunker()
 const urlValidator = new URLValidator()
-const embeddingService = new EmbeddingService()
+const embeddingService = new EmbeddingService({
+  provider: createEmbeddingProvider(embeddingConfig),
+  includeHeadingPath: embeddingConfig.includeHeadingPath
+})
 
 // Initialize job processor
 const jobProcessor = new JobProcessor(
@@ -119,6 +126,13 @@ export const handleJobCompletion = inngest.createFunction(
     } else {
       console.error(`Job ${jobId} failed with errors:`, errors)
     }
+
+    // Surface the outcome on the registered source if this was a scheduled recrawl
+    await sourceStore.recordJobResult(
+      jobId,
+      success ? 'COMPLETED' : 'FAILED',
+      errors.length > 0 ? errors.join('; ') : undefined
+    )
     
     // Here you could add additional logic like:
     // - Sending completion notifications
@@ -149,10 +163,31 @@ export const cleanupOldJobs = inngest.createFunction(
   }
 )
 
+/**
+ * Inngest function to enqueue recrawls of registered sources that are due (scheduled)
+ */
+export const recrawlDueSources = inngest.createFunction(
+  {
+    id: 'recrawl-due-sources',
+    name: 'Recrawl Due Sources'
+  },
+  { cron: '*/15 * * * *' }, // Check every 15 minutes
+  async ({ step }) => {
+    const result = await step.run('enqueue-due-sources', async () => {
+      return await sourceScheduler.enqueueDueSources()
+    })
+
+    console.log(`Enqueued ${result.enqueued.length} recrawl jobs (${result.failed.length} failed)`)
+
+    return result
+  }
+)
+
 // Export all functions
 export const ingestionFunctions = [
   processIngestionJob,
   handleJobProgress,
   handleJobCompletion,
-  cleanupOldJobs
+  cleanupOldJobs,
+  recrawlDueSources
 ]
\ No newline at end of file
@@ -1,15 +1,23 @@
 import { WebScraper } from '../ingest/scraper'
 import { ContentChunker } from '../ingest/chunker'
 import { URLValidator } from '../ingest/validator'
+import { CrawlFrontier, CrawlTarget } from '../ingest/crawler'
+import { sitemapReader } from '../ingest/sitemap'
+import { fileParser } from '../ingest/files'
+import { isUploadUri } from '../ingest/uploads'
+import { GitCheckout, GitFileFilter, documentUrl, gitDocumentContent, gitRepositoryReader } from '../ingest/git'
+import { openApiReader } from '../ingest/openapi'
 import { EmbeddingService } from '../embed/service'
 import { VectorStore } from '../vector/store'
+import { ChunkScope, SourceHashes } from '../vector/types'
 import { JobQueue, JobResult } from './queue'
 import { 
   IngestionJob, 
   IngestionOptions, 
   ScrapedContent, 
   DocumentChunk, 
-  EmbeddedChunk
+  EmbeddedChunk,
+  StorageResult
 } from '../types'
 import { 
   JobError, 
@@ -22,6 +30,7 @@ import {
 } from '../errors'
 import { ErrorHandler } from '../error-handler'
 import { Logger, loggers } from '../logger'
+import { hashContent } from '../utils'
 
 export interface ProcessorOptions {
   maxProcessingTime?: number
@@ -30,6 +39,28 @@ export interface ProcessorOptions {
   maxRetries?: number
 }
 
+interface PipelineProgress {
+  pagesProcessed: number
+  chunksCreated: number
+  chunksEmbedded: number
+  chunksSkipped: number
+  chunksUpdated: number
+  chunksDeleted: number
+}
+
+interface PageResult {
+  storedChunks: number
+  links: string[]
+  errors: string[]
+  storage: StorageResult
+}
+
+interface PipelineResult {
+  totalChunks: number
+  errors: string[]
+  progress: PipelineProgress
+}
+
 export class JobProcessor {
   private readonly webScraper: WebScraper
   private readonly contentChunker: ContentChunker
@@ -115,6 +146,9 @@ export class JobProcessor {
         const jobResult: JobResult = {
           success: errors.length === 0,
           totalChunks,
+          chunksSkipped: result.progress.chunksSkipped,
+          chunksUpdated: result.progress.chunksUpdated,
+          chunksDeleted: result.progress.chunksDeleted,
           errors,
           processingTime: Date.now() - context.timestamp.getTime()
         }
@@ -125,6 +159,9 @@ export class JobProcessor {
           jobId,
           success: jobResult.success,
           totalChunks,
+          chunksSkipped: jobResult.chunksSkipped,
+          chunksUpdated: jobResult.chunksUpdated,
+          chunksDeleted: jobResult.chunksDeleted,
           errorCount: errors.length,
           processingTime: jobResult.processingTime
         }, context)
@@ -171,7 +208,7 @@ export class JobProcessor {
   private async executeJobPipelineWithTimeout(
     job: IngestionJob,
     context: ErrorContext
-  ): Promise<{ totalChunks: number; errors: string[] }> {
+  ): Promise<PipelineResult> {
     const timeoutPromise = new Promise<never>((_, reject) => {
       setTimeout(() => {
         reject(new JobError(
@@ -195,17 +232,42 @@ export class JobProcessor {
   private async executeJobPipeline(
     job: IngestionJob, 
     context: ErrorContext
-  ): Promise<{ totalChunks: number; errors: string[] }> {
+  ): Promise<PipelineResult> {
     let totalChunks = 0
     const pipelineErrors: string[] = []
+    const progress: PipelineProgress = {
+      pagesProcessed: 0,
+      chunksCreated: 0,
+      chunksEmbedded: 0,
+      chunksSkipped: 0,
+      chunksUpdated: 0,
+      chunksDeleted: 0
+    }
 
     try {
+      // Uploaded files have no URL to validate or pages to crawl
+      if (isUploadUri(job.url)) {
+        const uploadResult = await this.processUpload(job, progress, context)
+
+        this.logger.info('Pipeline completed successfully', {
+          chunksCreated: progress.chunksCreated,
+          chunksEmbedded: progress.chunksEmbedded,
+          totalChunks: uploadResult.storedChunks
+        }, context)
+
+        return {
+          totalChunks: uploadResult.storedChunks,
+          errors: uploadResult.errors,
+          progress
+        }
+      }
+
       // Step 1: Validate URL
       const validationContext = { ...context, operation: 'validateUrl' }
       this.logger.info('Step 1: Validating URL', { url: job.url }, validationContext)
       
       const validationResult = await this.errorHandler.executeWithRetry(
-        () => this.validateUrl(job.url),
+        () => this.validateUrl(job.url, job.options),
         validationContext
       )
       
@@ -218,88 +280,78 @@ export class JobProcessor {
 
       const sanitizedUrl = validationResult.sanitizedUrl || job.url
 
-      // Step 2: Scrape content
-      const scrapingContext = { ...context, operation: 'scrapeContent', url: sanitizedUrl }
-      this.logger.info('Step 2: Scraping content', { url: sanitizedUrl }, scrapingContext)
-      
-      const scrapedContent = await this.errorHandler.executeWithRetry(
-        () => this.scrapeContent(sanitizedUrl, job.options),
-        scrapingContext
-      )
-      
-      if (this.enableProgressUpdates) {
-        await this.jobQueue.updateProgress(job.id, {
-          pagesProcessed: 1
-        })
+      // Git repositories are read from a checkout rather than crawled
+      if (job.options.mode === 'git') {
+        return await this.processGitRepository(job, sanitizedUrl, progress, context)
       }
 
-      // Step 3: Chunk content
-      const chunkingContext = { ...context, operation: 'chunkContent' }
-      this.logger.info('Step 3: Chunking content', { 
-        contentLength: scrapedContent.content.length 
-      }, chunkingContext)
-      
-      const chunks = await this.errorHandler.executeWithRetry(
-        () => this.chunkContent(scrapedContent),
-        chunkingContext
-      )
-      totalChunks = chunks.length
-      
-      if (this.enableProgressUpdates) {
-        await this.jobQueue.updateProgress(job.id, {
-          chunksCreated: chunks.length
-        })
+      // API descriptions are stored one chunk per operation instead of being crawled
+      if (job.options.mode === 'openapi') {
+        return await this.processApiDescription(job, sanitizedUrl, progress, context)
       }
 
-      // Step 4: Generate embeddings with graceful degradation
-      const embeddingContext = { ...context, operation: 'generateEmbeddings' }
-      this.logger.info('Step 4: Generating embeddings', { 
-        chunkCount: chunks.length 
-      }, embeddingContext)
-      
-      const embeddedChunks = await this.errorHandler.handleWithGracefulDegradation(
-        () => this.generateEmbeddings(chunks, job.id),
-        () => this.generateEmbeddingsWithFallback(chunks, job.id),
-        embeddingContext
-      )
-      
-      if (this.enableProgressUpdates) {
-        await this.jobQueue.updateProgress(job.id, {
-          chunksEmbedded: embeddedChunks.length
-        })
-      }
+      // Crawl breadth-first from the root URL (or the sitemap's pages), following same-origin links when enabled
+      const isSitemapMode = job.options.mode === 'sitemap'
+      const seeds = isSitemapMode
+        ? await this.discoverSitemapPages(job, sanitizedUrl, context)
+        : [sanitizedUrl]
+      const frontier = new CrawlFrontier(sanitizedUrl, {
+        maxDepth: job.options.maxDepth,
+        maxPages: job.options.maxPages,
+        followLinks: job.options.followLinks
+      }, seeds)
+      let storedChunks = 0
+      let target: CrawlTarget | undefined
 
-      // Step 5: Store in vector database
-      const storageContext = { ...context, operation: 'storeEmbeddings' }
-      this.logger.info('Step 5: Storing embedded chunks', { 
-        chunkCount: embeddedChunks.length 
-      }, storageContext)
-      
-      const storageResult = await this.errorHandler.executeWithRetry(
-        () => this.storeEmbeddings(embeddedChunks),
-        storageContext
-      )
-      
-      if (storageResult.errors.length > 0) {
-        pipelineErrors.push(...storageResult.errors)
-        this.logger.warn('Storage completed with errors', {
-          stored: storageResult.stored,
-          updated: storageResult.updated,
-          failed: storageResult.failed,
-          errors: storageResult.errors
-        }, storageContext)
+      while ((target = frontier.next())) {
+        const pageContext = { ...context, url: target.url }
+
+        try {
+          const pageResult = await this.processPage(job, target.url, progress, pageContext)
+          storedChunks += pageResult.storedChunks
+          pipelineErrors.push(...pageResult.errors)
+
+          const queued = frontier.addLinks(pageResult.links, target.depth)
+          this.logger.debug('Page processed', {
+            url: target.url,
+            depth: target.depth,
+            linksQueued: queued,
+            pending: frontier.pending
+          }, pageContext)
+        } catch (error) {
+          // The root page failing fails the job; linked and sitemap pages are skipped and reported
+          if (target.depth === 0 && !isSitemapMode) {
+            throw error
+          }
+
+          const errorResponse = await this.errorHandler.handleError(error, pageContext)
+          this.logger.warn('Skipping page after failure', {
+            url: target.url,
+            depth: target.depth,
+            error: errorResponse.logMessage
+          }, pageContext)
+
+          if (this.enableProgressUpdates) {
+            await this.jobQueue.updateProgress(job.id, {
+              errors: [`${target.url}: ${errorResponse.userMessage}`]
+            })
+          }
+        }
       }
 
+      totalChunks = progress.chunksCreated
+
       this.logger.info('Pipeline completed successfully', {
-        stored: storageResult.stored,
-        updated: storageResult.updated,
-        failed: storageResult.failed,
-        totalChunks: storageResult.stored + storageResult.updated
+        pagesProcessed: progress.pagesProcessed,
+        chunksCreated: progress.chunksCreated,
+        chunksEmbedded: progress.chunksEmbedded,
+        totalChunks: storedChunks
       }, context)
 
       return {
-        totalChunks: storageResult.stored + storageResult.updated,
-        errors: pipelineErrors
+        totalChunks: storedChunks,
+        errors: pipelineErrors,
+        progress
       }
 
     } catch (error) {
@@ -321,17 +373,417 @@ export class JobProcessor {
 
       return {
         totalChunks,
-        errors: pipelineErrors
+        errors: pipelineErrors,
+        progress
+      }
+    }
+  }
+
+  /**
+   * Ingest the documentation files of a Git repository. Only files changed since the commit of
+   * the last completed ingestion are processed, and chunks of files deleted since are removed.
+   */
+  private async processGitRepository(
+    job: IngestionJob,
+    repositoryUrl: string,
+    progress: PipelineProgress,
+    context: ErrorContext
+  ): Promise<PipelineResult> {
+    const checkoutContext = { ...context, operation: 'checkoutRepository' }
+    this.logger.info('Step 2: Checking out repository', {
+      url: repositoryUrl,
+      ref: job.options.gitRef
+    }, checkoutContext)
+
+    const checkout = await this.errorHandler.executeWithRetry(
+      () => gitRepositoryReader.checkout(repositoryUrl, job.options.gitRef, checkoutContext),
+      checkoutContext
+    )
+
+    try {
+      await this.jobQueue.recordCommit(job.id, checkout.sha)
+
+      const urlTemplate = job.options.urlTemplate!
+      const scope: ChunkScope = {
+        userId: job.userId,
+        organizationId: job.organizationId,
+        collectionId: job.options.collectionId
+      }
+      const { files, deleted } = await this.selectGitFiles(job, checkout, context)
+      const errors: string[] = []
+      let storedChunks = 0
+
+      for (const file of deleted) {
+        const url = documentUrl(urlTemplate, file, checkout)
+        progress.chunksDeleted += await this.errorHandler.executeWithRetry(
+          () => this.pruneStaleChunks(url, 0, undefined, scope),
+          { ...context, operation: 'pruneStaleChunks', url }
+        )
+      }
+
+      for (const file of files) {
+        const url = documentUrl(urlTemplate, file, checkout)
+        const fileContext = { ...context, url }
+
+        try {
+          const source = await gitRepositoryReader.readFile(checkout, file)
+          const fileResult = await this.processContent(job, gitDocumentContent(file, source, url), progress, fileContext)
+          storedChunks += fileResult.storedChunks
+          errors.push(...fileResult.errors)
+        } catch (error) {
+          // A failed file fails the job, so the next ingestion diffs from the previous commit and retries it
+          const errorResponse = await this.errorHandler.handleError(error, fileContext)
+          this.logger.warn('Skipping file after failure', {
+            file,
+            error: errorResponse.logMessage
+          }, fileContext)
+          errors.push(`${file}: ${errorResponse.userMessage}`)
+        }
+      }
+
+      this.logger.info('Pipeline completed successfully', {
+        commitSha: checkout.sha,
+        filesProcessed: progress.pagesProcessed,
+        filesDeleted: deleted.length,
+        chunksCreated: progress.chunksCreated,
+        chunksEmbedded: progress.chunksEmbedded,
+        totalChunks: storedChunks
+      }, context)
+
+      return { totalChunks: storedChunks, errors, progress }
+    } finally {
+      await gitRepositoryReader.cleanup(checkout)
+    }
+  }
+
+  /**
+   * Files to ingest: those changed since the last completed ingestion when it selected and
+   * mapped files the same way, otherwise every matching file
+   */
+  private async selectGitFiles(
+    job: IngestionJob,
+    checkout: GitCheckout,
+    context: ErrorContext
+  ): Promise<{ files: string[]; deleted: string[] }> {
+    const filter: GitFileFilter = { include: job.options.include, exclude: job.options.exclude }
+    const previous = await this.jobQueue.getLastCommit(
+      job.url,
+      { userId: job.userId, organizationId: job.organizationId },
+      job.options.collectionId
+    )
+
+    const selectionKeys = ['gitRef', 'include', 'exclude', 'urlTemplate'] as const
+    const sameSelection = previous && selectionKeys.every(
+      key => JSON.stringify(previous.options[key]) === JSON.stringify(job.options[key])
+    )
+    const changes = previous && sameSelection
+      ? await gitRepositoryReader.changesSince(checkout, previous.commitSha, filter)
+      : null
+
+    if (changes) {
+      this.logger.info('Ingesting files changed since last commit', {
+        previousSha: previous!.commitSha,
+        commitSha: checkout.sha,
+        changed: changes.changed.length,
+        deleted: changes.deleted.length
+      }, context)
+
+      return { files: changes.changed, deleted: changes.deleted }
+    }
+
+    return { files: await gitRepositoryReader.listFiles(checkout, filter), deleted: [] }
+  }
+
+  /**
+   * Fetch an OpenAPI or Swagger document and store one chunk per operation
+   */
+  private async processApiDescription(
+    job: IngestionJob,
+    url: string,
+    progress: PipelineProgress,
+    context: ErrorContext
+  ): Promise<PipelineResult> {
+    // Step 2: Fetch and parse the API description
+    const readingContext = { ...context, operation: 'readApiDescription', url }
+    this.logger.info('Step 2: Reading API description', { url }, readingContext)
+
+    const scrapedContent = await this.errorHandler.executeWithRetry(
+      () => openApiReader.read(url, readingContext),
+      readingContext
+    )
+
+    const result = await this.processContent(job, scrapedContent, progress, context)
+
+    this.logger.info('Pipeline completed successfully', {
+      operations: scrapedContent.operations?.length ?? 0,
+      chunksCreated: progress.chunksCreated,
+      chunksEmbedded: progress.chunksEmbedded,
+      totalChunks: result.storedChunks
+    }, context)
+
+    return { totalChunks: result.storedChunks, errors: result.errors, progress }
+  }
+
+  /**
+   * Read the site's sitemap(s) and return the page URLs to ingest
+   */
+  private async discoverSitemapPages(
+    job: IngestionJob,
+    rootUrl: string,
+    context: ErrorContext
+  ): Promise<string[]> {
+    const sitemapContext = { ...context, operation: 'discoverSitemap' }
+    this.logger.info('Discovering pages from sitemap', {
+      sitemapUrl: job.options.sitemapUrl,
+      pathPrefix: job.options.pathPrefix,
+      modifiedSince: job.options.modifiedSince
+    }, sitemapContext)
+
+    const entries = await this.errorHandler.executeWithRetry(
+      () => sitemapReader.discover(rootUrl, {
+        sitemapUrl: job.options.sitemapUrl,
+        pathPrefix: job.options.pathPrefix,
+        modifiedSince: job.options.modifiedSince ? new Date(job.options.modifiedSince) : undefined,
+        maxEntries: job.options.maxPages
+      }),
+      sitemapContext
+    )
+
+    if (entries.length === 0) {
+      this.logger.warn('No sitemap entries matched the filters', {}, sitemapContext)
+    }
+
+    return entries.map(entry => entry.url)
+  }
+
+  /**
+   * Scrape, chunk, embed and store a single page, updating cumulative job progress
+   */
+  private async processPage(
+    job: IngestionJob,
+    url: string,
+    progress: PipelineProgress,
+    context: ErrorContext
+  ): Promise<PageResult> {
+    // Step 2: Scrape content
+    const scrapingContext = { ...context, operation: 'scrapeContent', url }
+    this.logger.info('Step 2: Scraping content', { url }, scrapingContext)
+    
+    const scrapedContent = await this.errorHandler.executeWithRetry(
+      () => this.scrapeContent(url, job.options),
+      scrapingContext
+    )
+
+    return this.processContent(job, scrapedContent, progress, context)
+  }
+
+  /**
+   * Parse the job's uploaded file, then chunk, embed and store it like a scraped page
+   */
+  private async processUpload(
+    job: IngestionJob,
+    progress: PipelineProgress,
+    context: ErrorContext
+  ): Promise<PageResult> {
+    // Step 2: Parse the uploaded file
+    const parsingContext = { ...context, operation: 'parseUpload' }
+    this.logger.info('Step 2: Parsing uploaded file', { url: job.url }, parsingContext)
+
+    const scrapedContent = await this.errorHandler.executeWithRetry(
+      () => this.parseUpload(job, parsingContext),
+      parsingContext
+    )
+
+    return this.processContent(job, scrapedContent, progress, context)
+  }
+
+  /**
+   * Chunk, embed and store extracted content, skipping content unchanged since the last ingestion
+   */
+  private async processContent(
+    job: IngestionJob,
+    scrapedContent: ScrapedContent,
+    progress: PipelineProgress,
+    context: ErrorContext
+  ): Promise<PageResult> {
+    const errors: string[] = []
+
+    progress.pagesProcessed++
+    if (this.enableProgressUpdates) {
+      await this.jobQueue.updateProgress(job.id, {
+        pagesProcessed: progress.pagesProcessed
+      })
+    }
+
+    // Pages whose content is unchanged since the last completed ingestion need no further work
+    const sourceUrl = scrapedContent.url
+    const scope: ChunkScope = {
+      userId: job.userId,
+      organizationId: job.organizationId,
+      collectionId: job.options.collectionId
+    }
+    const pageHash = hashContent(scrapedContent.title, scrapedContent.content, ...frontMatterParts(scrapedContent))
+    const previous = await this.loadSourceHashes(sourceUrl, scope, context)
+
+    if (previous.pageHash === pageHash) {
+      this.logger.info('Page unchanged since last ingestion, skipping', {
+        url: sourceUrl,
+        skipped: previous.chunkCount
+      }, context)
+
+      const storage: StorageResult = {
+        stored: 0,
+        updated: 0,
+        failed: 0,
+        errors: [],
+        skipped: previous.chunkCount,
+        deleted: 0
       }
+      await this.recordStorage(job, storage, progress)
+
+      return {
+        storedChunks: 0,
+        links: scrapedContent.links,
+        errors,
+        storage
+      }
+    }
+
+    // Step 3: Chunk content
+    const chunkingContext = { ...context, operation: 'chunkContent' }
+    this.logger.info('Step 3: Chunking content', { 
+      contentLength: scrapedContent.content.length 
+    }, chunkingContext)
+    
+    const chunks = await this.errorHandler.executeWithRetry(
+      () => this.chunkContent(scrapedContent, scope, job.id),
+      chunkingContext
+    )
+    
+    progress.chunksCreated += chunks.length
+    if (this.enableProgressUpdates) {
+      await this.jobQueue.updateProgress(job.id, {
+        chunksCreated: progress.chunksCreated
+      })
+    }
+
+    // Only chunks whose content hash changed need new embeddings
+    const changedChunks = chunks.filter(
+      chunk => previous.chunkHashes.get(chunk.metadata.chunkIndex) !== chunk.contentHash
+    )
+    const unchangedChunks = chunks.length - changedChunks.length
+
+    // Step 4: Generate embeddings with graceful degradation
+    const embeddingContext = { ...context, operation: 'generateEmbeddings' }
+    this.logger.info('Step 4: Generating embeddings', { 
+      chunkCount: changedChunks.length,
+      unchangedChunks
+    }, embeddingContext)
+    
+    const embeddedChunks = changedChunks.length > 0
+      ? await this.errorHandler.handleWithGracefulDegradation(
+        () => this.generateEmbeddings(changedChunks, job.id),
+        () => this.generateEmbeddingsWithFallback(changedChunks, job.id),
+        embeddingContext
+      )
+      : []
+    
+    progress.chunksEmbedded += embeddedChunks.length
+    if (this.enableProgressUpdates) {
+      await this.jobQueue.updateProgress(job.id, {
+        chunksEmbedded: progress.chunksEmbedded
+      })
+    }
+
+    // Step 5: Store in vector database
+    const storageContext = { ...context, operation: 'storeEmbeddings' }
+    this.logger.info('Step 5: Storing embedded chunks', { 
+      chunkCount: embeddedChunks.length 
+    }, storageContext)
+    
+    const storageResult: StorageResult = embeddedChunks.length > 0
+      ? await this.errorHandler.executeWithRetry(
+        () => this.storeEmbeddings(embeddedChunks),
+        storageContext
+      )
+      : { stored: 0, updated: 0, failed: 0, errors: [] }
+
+    // Remove chunks beyond the new end of the page; the page hash is only recorded once
+    // every chunk is stored so a partially failed page is fully re-checked next time
+    const complete = embeddedChunks.length === changedChunks.length && storageResult.failed === 0
+    const deleted = await this.errorHandler.executeWithRetry(
+      () => this.pruneStaleChunks(sourceUrl, chunks.length, complete ? pageHash : undefined, scope),
+      { ...context, operation: 'pruneStaleChunks' }
+    )
+
+    // Chunks that kept their content hash count as skipped alongside those the store left untouched
+    const storage: StorageResult = {
+      ...storageResult,
+      skipped: unchangedChunks + (storageResult.skipped ?? 0),
+      deleted
+    }
+    await this.recordStorage(job, storage, progress)
+
+    this.logger.info('Page stored', {
+      url: sourceUrl,
+      strategy: scrapedContent.strategy,
+      stored: storage.stored,
+      updated: storage.updated,
+      skipped: storage.skipped,
+      deleted: storage.deleted
+    }, storageContext)
+    
+    if (storageResult.errors.length > 0) {
+      errors.push(...storageResult.errors)
+      this.logger.warn('Storage completed with errors', {
+        stored: storageResult.stored,
+        updated: storageResult.updated,
+        failed: storageResult.failed,
+        errors: storageResult.errors
+      }, storageContext)
+    }
+
+    return {
+      storedChunks: storageResult.stored + storageResult.updated,
+      links: scrapedContent.links,
+      errors,
+      storage
+    }
+  }
+
+  /**
+   * Add a page's skipped, updated and deleted chunks to the cumulative job progress
+   */
+  private async recordStorage(
+    job: IngestionJob,
+    storage: StorageResult,
+    progress: PipelineProgress
+  ): Promise<void> {
+    progress.chunksSkipped += storage.skipped ?? 0
+    progress.chunksUpdated += storage.updated
+    progress.chunksDeleted += storage.deleted ?? 0
+
+    if (this.enableProgressUpdates) {
+      await this.jobQueue.updateProgress(job.id, {
+        chunksSkipped: progress.chunksSkipped,
+        chunksUpdated: progress.chunksUpdated,
+        chunksDeleted: progress.chunksDeleted
+      })
     }
   }
 
   /**
    * Validate URL (now handled by ErrorHandler retry logic)
    */
-  private async validateUrl(url: string): Promise<{ isValid: boolean; errors: string[]; sanitizedUrl?: string }> {
+  private async validateUrl(
+    url: string,
+    options: IngestionOptions
+  ): Promise<{ isValid: boolean; errors: string[]; sanitizedUrl?: string }> {
     try {
-      return await this.urlValidator.validate(url)
+      // Repositories are cloned rather than fetched, over the transports the Git reader allows
+      return await this.urlValidator.validate(url, options.mode === 'git'
+        ? { respectRobots: false, checkAccessibility: false, protocols: gitRepositoryReader.allowedProtocols }
+        : { respectRobots: options.respectRobots ?? true })
     } catch (error) {
       throw new ValidationError(
         `URL validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -353,7 +805,30 @@ export class JobProcessor {
     } catch (error) {
       throw new ScrapingError(
         `Content scraping failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        true,
+        // Keep deliberate refusals (e.g. robots.txt) from being retried
+        error instanceof ScrapingError ? error.retryable : true,
+        ErrorSeverity.MEDIUM,
+        undefined,
+        error as Error
+      )
+    }
+  }
+
+  /**
+   * Load and parse the file uploaded with the job
+   */
+  private async parseUpload(job: IngestionJob, context: ErrorContext): Promise<ScrapedContent> {
+    const file = await this.jobQueue.getUploadedFile(job.id)
+    if (!file) {
+      throw new JobError(`Uploaded file for job ${job.id} not found`, false, ErrorSeverity.HIGH, context)
+    }
+
+    try {
+      return await fileParser.parse(job.url, file, context)
+    } catch (error) {
+      throw new ScrapingError(
+        `File parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof ScrapingError ? error.retryable : false,
         ErrorSeverity.MEDIUM,
         undefined,
         error as Error
@@ -362,11 +837,32 @@ export class JobProcessor {
   }
 
   /**
-   * Chunk content
+   * Chunk content, attributing the chunks to the job, its owner and collection
    */
-  private async chunkContent(scrapedContent: ScrapedContent): Promise<DocumentChunk[]> {
+  private async chunkContent(
+    scrapedContent: ScrapedContent,
+    scope: ChunkScope,
+    jobId: string
+  ): Promise<DocumentChunk[]> {
     try {
-      return await this.contentChunker.chunk(scrapedContent.content, scrapedContent.metadata)
+      // Paged documents are chunked page by page so chunks can cite their page number,
+      // and API descriptions get exactly one chunk per operation
+      const chunks = scrapedContent.operations?.length
+        ? await this.contentChunker.chunkOperations(scrapedContent.operations, scrapedContent.metadata)
+        : scrapedContent.pages?.length
+          ? await this.contentChunker.chunkPages(scrapedContent.pages, scrapedContent.metadata)
+          : await this.contentChunker.chunk(scrapedContent.content, scrapedContent.metadata)
+      // The chunker does not know where the content came from
+      const frontMatter = scrapedContent.metadata.frontMatter
+      return chunks.map(chunk => ({
+        ...chunk,
+        metadata: { ...chunk.metadata, sourceUrl: scrapedContent.url, ...(frontMatter && { frontMatter }) },
+        contentHash: hashContent(chunk.metadata.title, chunk.metadata.section, chunk.content, ...frontMatterParts(scrapedContent)),
+        userId: scope.userId,
+        organizationId: scope.organizationId,
+        collectionId: scope.collectionId,
+        jobId
+      }))
     } catch (error) {
       throw new JobError(
         `Content chunking failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -465,15 +961,52 @@ export class JobProcessor {
     return embeddedChunks
   }
 
+  /**
+   * Load the hashes stored by the previous ingestion of a page. Without them every chunk is
+   * simply re-embedded, so a failed lookup is logged rather than failing the page.
+   */
+  private async loadSourceHashes(
+    sourceUrl: string,
+    scope: ChunkScope,
+    context: ErrorContext
+  ): Promise<SourceHashes> {
+    try {
+      return await this.vectorStore.getSourceHashes(sourceUrl, scope)
+    } catch (error) {
+      this.logger.warn('Could not load stored content hashes, re-embedding all chunks', {
+        url: sourceUrl,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }, context)
+      return { chunkCount: 0, chunkHashes: new Map() }
+    }
+  }
+
+  /**
+   * Delete orphaned chunks and record the stored page hash
+   */
+  private async pruneStaleChunks(
+    sourceUrl: string,
+    chunkCount: number,
+    pageHash: string | undefined,
+    scope: ChunkScope
+  ): Promise<number> {
+    try {
+      return await this.vectorStore.pruneSource(sourceUrl, chunkCount, pageHash, scope)
+    } catch (error) {
+      throw new StorageError(
+        `Stale chunk cleanup failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        true,
+        ErrorSeverity.MEDIUM,
+        undefined,
+        error as Error
+      )
+    }
+  }
+
   /**
    * Store embeddings in vector database
    */
-  private async storeEmbeddings(embeddedChunks: EmbeddedChunk[]): Promise<{
-    stored: number
-    updated: number
-    failed: number
-    errors: string[]
-  }> {
+  private async storeEmbeddings(embeddedChunks: EmbeddedChunk[]): Promise<StorageResult> {
     try {
       return await this.vectorStore.storeBatch(embeddedChunks)
     } catch (error) {
@@ -486,4 +1019,13 @@ export class JobProcessor {
       )
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Front matter takes part in content hashes so metadata-only edits are re-stored;
+ * content without front matter hashes as it always has
+ */
+function frontMatterParts(scrapedContent: ScrapedContent): string[] {
+  const frontMatter = scrapedContent.metadata.frontMatter
+  return frontMatter ? [JSON.stringify(frontMatter)] : []
+}
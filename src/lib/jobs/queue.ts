@@ -4,9 +4,13 @@ import {
   IngestionJob, 
   JobStatus, 
   JobProgress, 
-  IngestionOptions 
+  IngestionOptions,
+  ResourceOwner,
+  UploadedFile
 } from '../types'
-import { JobError } from '../errors'
+import { JobError, ErrorSeverity } from '../errors'
+import { ownerColumns, ownerFilter } from '../organizations/owner'
+import { isUploadUri } from '../ingest/uploads'
 
 export interface JobQueueOptions {
   maxRetries?: number
@@ -18,6 +22,9 @@ export interface JobQueueOptions {
 export interface JobResult {
   success: boolean
   totalChunks?: number
+  chunksSkipped?: number
+  chunksUpdated?: number
+  chunksDeleted?: number
   errors: string[]
   processingTime?: number
 }
@@ -36,12 +43,14 @@ export class JobQueue {
   }
 
   /**
-   * Enqueue a new ingestion job
+   * Enqueue a new ingestion job. Uploaded files are stored with the job and
+   * ingested from there instead of scraping the URL.
    */
   async enqueue(
     url: string, 
     options: IngestionOptions = {},
-    userId?: string
+    owner: ResourceOwner = {},
+    file?: UploadedFile
   ): Promise<string> {
     try {
       // Create job record in database
@@ -49,13 +58,25 @@ export class JobQueue {
         data: {
           url,
           status: 'QUEUED',
+          ...ownerColumns(owner),
+          collectionId: options.collectionId,
           options: JSON.stringify(options),
           progress: JSON.stringify({
             pagesProcessed: 0,
             chunksCreated: 0,
             chunksEmbedded: 0,
             errors: []
-          } as JobProgress)
+          } as JobProgress),
+          ...(file && {
+            upload: {
+              create: {
+                fileName: file.fileName,
+                contentType: file.contentType,
+                size: file.data.byteLength,
+                data: Buffer.from(file.data)
+              }
+            }
+          })
         }
       })
 
@@ -101,7 +122,10 @@ export class JobQueue {
         createdAt: job.createdAt,
         startedAt: job.startedAt || undefined,
         completedAt: job.completedAt || undefined,
-        errorMessage: job.errorMessage || undefined
+        errorMessage: job.errorMessage || undefined,
+        userId: job.userId || undefined,
+        organizationId: job.organizationId || undefined,
+        commitSha: job.commitSha || undefined
       }
     } catch (error) {
       throw new JobError(
@@ -112,6 +136,95 @@ export class JobQueue {
     }
   }
 
+  /**
+   * Get the file uploaded with a job, if any
+   */
+  async getUploadedFile(jobId: string): Promise<UploadedFile | null> {
+    try {
+      const upload = await prisma.uploadedFile.findUnique({
+        where: { jobId }
+      })
+
+      if (!upload) {
+        return null
+      }
+
+      return {
+        fileName: upload.fileName,
+        contentType: upload.contentType,
+        data: new Uint8Array(upload.data)
+      }
+    } catch (error) {
+      throw new JobError(
+        `Failed to get uploaded file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        true,
+        ErrorSeverity.MEDIUM,
+        undefined,
+        error instanceof Error ? error : undefined
+      )
+    }
+  }
+
+  /**
+   * Record the commit a Git repository job is ingesting
+   */
+  async recordCommit(jobId: string, commitSha: string): Promise<void> {
+    try {
+      await prisma.ingestionJob.update({
+        where: { id: jobId },
+        data: { commitSha }
+      })
+    } catch (error) {
+      throw new JobError(
+        `Failed to record job commit: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        true,
+        ErrorSeverity.MEDIUM,
+        undefined,
+        error instanceof Error ? error : undefined
+      )
+    }
+  }
+
+  /**
+   * Commit and options of the latest completed ingestion of a repository into the same
+   * workspace and collection, which later ingestions only need to diff against
+   */
+  async getLastCommit(
+    url: string,
+    owner: ResourceOwner = {},
+    collectionId?: string
+  ): Promise<{ commitSha: string; options: IngestionOptions } | null> {
+    try {
+      const job = await prisma.ingestionJob.findFirst({
+        where: {
+          url,
+          status: 'COMPLETED',
+          commitSha: { not: null },
+          ...ownerColumns(owner),
+          collectionId: collectionId ?? null
+        },
+        orderBy: { completedAt: 'desc' }
+      })
+
+      if (!job) {
+        return null
+      }
+
+      return {
+        commitSha: job.commitSha,
+        options: JSON.parse(job.options as string) as IngestionOptions
+      }
+    } catch (error) {
+      throw new JobError(
+        `Failed to get last commit: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        true,
+        ErrorSeverity.MEDIUM,
+        undefined,
+        error instanceof Error ? error : undefined
+      )
+    }
+  }
+
   /**
    * Update job progress
    */
@@ -243,6 +356,9 @@ export class JobQueue {
    */
   async getJobs(options: {
     status?: JobStatus
+    userId?: string
+    organizationId?: string
+    collectionId?: string
     limit?: number
     offset?: number
     orderBy?: 'createdAt' | 'startedAt' | 'completedAt'
@@ -254,13 +370,20 @@ export class JobQueue {
     try {
       const {
         status,
+        userId,
+        organizationId,
+        collectionId,
         limit = 50,
         offset = 0,
         orderBy = 'createdAt',
         orderDirection = 'desc'
       } = options
 
-      const where = status ? { status } : {}
+      const where = {
+        ...(status && { status }),
+        ...ownerFilter({ userId, organizationId }),
+        ...(collectionId && { collectionId })
+      }
       
       const [jobs, total] = await Promise.all([
         prisma.ingestionJob.findMany({
@@ -282,7 +405,10 @@ export class JobQueue {
           createdAt: job.createdAt,
           startedAt: job.startedAt || undefined,
           completedAt: job.completedAt || undefined,
-          errorMessage: job.errorMessage || undefined
+          errorMessage: job.errorMessage || undefined,
+          userId: job.userId || undefined,
+          organizationId: job.organizationId || undefined,
+          commitSha: job.commitSha || undefined
         })),
         total
       }
@@ -348,9 +474,13 @@ export class JobQueue {
         throw new Error(`Cannot retry job in ${job.status} status`)
       }
 
-      // Create a new job with the same parameters
+      // Create a new job with the same parameters, carrying over an uploaded file
       const options = JSON.parse(job.options as string) as IngestionOptions
-      return await this.enqueue(job.url, options)
+      const file = isUploadUri(job.url) ? await this.getUploadedFile(jobId) : null
+      return await this.enqueue(job.url, options, {
+        userId: job.userId || undefined,
+        organizationId: job.organizationId || undefined
+      }, file ?? undefined)
     } catch (error) {
       throw new JobError(
         `Failed to retry job: ${error instanceof Error ? error.message : 'Unknown error'}`,
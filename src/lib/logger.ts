@@ -368,9 +368,12 @@ export const loggers = {
   scraper: createLogger('WebScraper'),
   chunker: createLogger('ContentChunker'),
   embedder: createLogger('EmbeddingService'),
+  generator: createLogger('AnswerGenerator'),
+  reranker: createLogger('Reranker'),
   storage: createLogger('VectorStore'),
   vectorStore: createLogger('VectorStore'),
   jobQueue: createLogger('JobQueue'),
+  scheduler: createLogger('SourceScheduler'),
   processor: createLogger('JobProcessor'),
   api: createLogger('API'),
   validator: createLogger('URLValidator'),
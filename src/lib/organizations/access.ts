@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionUserId, unauthorizedResponse } from '../auth/session'
+import { apiKeyStore } from '../api-keys/store'
+import { hasScope } from '../api-keys/scopes'
+import { invalidApiKeyResponse } from '../api-keys/http'
+import { ApiKeyScope } from '../api-keys/types'
+import { loggers } from '../logger'
+import { organizationStore } from './store'
+import { hasRole } from './roles'
+import { forbiddenResponse, insufficientRole, organizationNotFound } from './http'
+import { OrganizationRole } from './types'
+
+// Requests act in an organization's workspace when they carry this header,
+// otherwise in the caller's personal workspace
+export const ORGANIZATION_HEADER = 'x-organization-id'
+
+/**
+ * Who a request acts as and in which workspace. Usable directly as a ResourceOwner:
+ * in an organization, resources belong to the organization rather than the member.
+ */
+export interface AccessScope {
+  userId: string
+  organizationId?: string
+  role: OrganizationRole
+  // Set when the request authenticated with an API key rather than a session
+  apiKeyId?: string
+}
+
+/**
+ * The key from an `Authorization: Bearer` header, if any
+ */
+export function getBearerToken(request: NextRequest): string | null {
+  const header = request.headers.get('authorization')
+  const match = header?.match(/^Bearer\s+(\S+)$/i)
+  return match ? match[1] : null
+}
+
+/**
+ * Authenticate the request and check the caller holds at least `requiredRole` in the
+ * workspace it targets. Endpoints that accept API keys pass the scope a key needs;
+ * elsewhere bearer keys are rejected. Returns the scope, or the error response to send.
+ */
+export async function authorizeRequest(
+  request: NextRequest,
+  requiredRole: OrganizationRole,
+  apiKeyScope?: ApiKeyScope
+): Promise<AccessScope | NextResponse> {
+  const bearerToken = getBearerToken(request)
+  if (bearerToken) {
+    if (!apiKeyScope) {
+      return invalidApiKeyResponse('API keys cannot be used for this endpoint')
+    }
+    return authorizeApiKey(bearerToken, requiredRole, apiKeyScope)
+  }
+
+  const userId = await getSessionUserId()
+  if (!userId) {
+    return unauthorizedResponse()
+  }
+
+  const organizationId = request.headers.get(ORGANIZATION_HEADER)
+  if (!organizationId) {
+    // Everyone owns their personal workspace
+    return { userId, role: 'OWNER' }
+  }
+
+  return authorizeMember(userId, organizationId, requiredRole)
+}
+
+/**
+ * Check a signed-in user holds at least `requiredRole` in an organization. Non-members
+ * get a 404 so organization ids cannot be probed.
+ */
+export async function authorizeMember(
+  userId: string,
+  organizationId: string,
+  requiredRole: OrganizationRole
+): Promise<AccessScope | NextResponse> {
+  const membership = await organizationStore.getMembership(organizationId, userId)
+  if (!membership) {
+    return organizationNotFound(organizationId)
+  }
+
+  if (!hasRole(membership.role, requiredRole)) {
+    return insufficientRole(requiredRole)
+  }
+
+  return { userId, organizationId, role: membership.role }
+}
+
+/**
+ * Keys act in the workspace they were created for, with no more than their creator's
+ * current role there, so removing a member also disables their organization keys.
+ */
+async function authorizeApiKey(
+  token: string,
+  requiredRole: OrganizationRole,
+  requiredScope: ApiKeyScope
+): Promise<AccessScope | NextResponse> {
+  const apiKey = await apiKeyStore.verify(token)
+  if (!apiKey) {
+    return invalidApiKeyResponse()
+  }
+
+  if (!hasScope(apiKey.scopes, requiredScope)) {
+    return forbiddenResponse(`This API key does not have the ${requiredScope.toLowerCase()} scope`)
+  }
+
+  let access: AccessScope = { userId: apiKey.userId, role: 'OWNER', apiKeyId: apiKey.id }
+  if (apiKey.organizationId) {
+    const memberAccess = await authorizeMember(apiKey.userId, apiKey.organizationId, requiredRole)
+    if (memberAccess instanceof NextResponse) {
+      return memberAccess.status === 404 ? invalidApiKeyResponse() : memberAccess
+    }
+    access = { ...memberAccess, apiKeyId: apiKey.id }
+  }
+
+  // Usage tracking must not fail an otherwise valid request
+  await apiKeyStore.recordUsage(apiKey.id).catch(error => {
+    loggers.api.warn('Failed to record API key usage', {
+      apiKeyId: apiKey.id,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    })
+  })
+
+  return access
+}
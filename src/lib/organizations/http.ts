@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server'
+import { Invitation, Membership, OrganizationMembership, OrganizationRole } from './types'
+
+/**
+ * Serialize an organization together with the caller's role in it
+ */
+export function formatOrganization(organization: OrganizationMembership) {
+  return {
+    id: organization.id,
+    name: organization.name,
+    role: organization.role.toLowerCase(),
+    createdAt: organization.createdAt.toISOString(),
+    updatedAt: organization.updatedAt.toISOString()
+  }
+}
+
+export function formatMembership(membership: Membership) {
+  return {
+    userId: membership.userId,
+    organizationId: membership.organizationId,
+    role: membership.role.toLowerCase(),
+    ...(membership.email && { email: membership.email }),
+    ...(membership.name && { name: membership.name }),
+    createdAt: membership.createdAt.toISOString()
+  }
+}
+
+export function formatInvitation(invitation: Invitation) {
+  return {
+    id: invitation.id,
+    organizationId: invitation.organizationId,
+    email: invitation.email,
+    role: invitation.role.toLowerCase(),
+    expiresAt: invitation.expiresAt.toISOString(),
+    createdAt: invitation.createdAt.toISOString()
+  }
+}
+
+/**
+ * 404 response for an organization that does not exist or that the caller is not a member of
+ */
+export function organizationNotFound(organizationId: string) {
+  return NextResponse.json({
+    error: 'Organization not found',
+    message: `No organization found with ID: ${organizationId}`,
+    code: 'ORGANIZATION_NOT_FOUND'
+  }, { status: 404 })
+}
+
+/**
+ * 403 response for a member whose role does not allow the request
+ */
+export function forbiddenResponse(message: string = 'You do not have permission to perform this action') {
+  return NextResponse.json({
+    error: 'Forbidden',
+    message,
+    code: 'FORBIDDEN'
+  }, { status: 403 })
+}
+
+/**
+ * 403 response for a member below the role an operation requires
+ */
+export function insufficientRole(required: OrganizationRole) {
+  return forbiddenResponse(`This action requires the ${required.toLowerCase()} role or higher`)
+}
+
+export function memberNotFound(userId: string) {
+  return NextResponse.json({
+    error: 'Member not found',
+    message: `No member found with user ID: ${userId}`,
+    code: 'MEMBER_NOT_FOUND'
+  }, { status: 404 })
+}
+
+/**
+ * 409 response for a change that would leave an organization without an owner
+ */
+export function lastOwnerResponse() {
+  return NextResponse.json({
+    error: 'Last owner',
+    message: 'An organization must keep at least one owner',
+    code: 'LAST_OWNER'
+  }, { status: 409 })
+}
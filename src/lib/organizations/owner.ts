@@ -0,0 +1,21 @@
+import { ResourceOwner } from '../types'
+
+/**
+ * Owner columns for a new row. Organization resources are shared by every member,
+ * so they are not attributed to the member who created them.
+ */
+export function ownerColumns(owner: ResourceOwner = {}) {
+  return owner.organizationId
+    ? { userId: null, organizationId: owner.organizationId }
+    : { userId: owner.userId ?? null, organizationId: null }
+}
+
+/**
+ * Prisma filter for rows belonging to an owner; an empty owner matches every row
+ */
+export function ownerFilter(owner: ResourceOwner = {}) {
+  if (owner.organizationId) {
+    return { organizationId: owner.organizationId }
+  }
+  return owner.userId ? { userId: owner.userId } : {}
+}
@@ -0,0 +1,15 @@
+import { OrganizationRole } from './types'
+
+const ROLE_RANK: Record<OrganizationRole, number> = {
+  VIEWER: 0,
+  EDITOR: 1,
+  ADMIN: 2,
+  OWNER: 3
+}
+
+/**
+ * Whether a member with `role` may do what requires `required`; each role includes those below it
+ */
+export function hasRole(role: OrganizationRole, required: OrganizationRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required]
+}
@@ -0,0 +1,23 @@
+import { z } from 'zod'
+import { OrganizationRole } from './types'
+
+// Roles are lowercase in the API and uppercase in the database
+export const roleSchema = z.enum(['owner', 'admin', 'editor', 'viewer'])
+  .transform(role => role.toUpperCase() as OrganizationRole)
+
+export const createOrganizationSchema = z.object({
+  name: z.string().trim().min(1, { message: 'Name must not be empty' }).max(100)
+})
+
+export const updateMemberSchema = z.object({
+  role: roleSchema
+})
+
+export const createInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().pipe(z.email({ message: 'Invalid email address' })),
+  role: roleSchema.default('VIEWER')
+})
+
+export const acceptInvitationSchema = z.object({
+  token: z.string().min(1, { message: 'Token is required' })
+})
@@ -0,0 +1,220 @@
+import crypto from 'crypto'
+import { prisma } from '../db'
+import { StorageError, ErrorSeverity } from '../errors'
+import {
+  CreateInvitationInput,
+  Invitation,
+  Membership,
+  Organization,
+  OrganizationMembership,
+  OrganizationRole
+} from './types'
+
+const INVITATION_TOKEN_BYTES = 32
+const INVITATION_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * Invitation tokens are only ever stored hashed, like passwords
+ */
+export function hashInvitationToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+export class OrganizationStore {
+  /**
+   * Create an organization with its creator as the first owner
+   */
+  async create(name: string, ownerId: string): Promise<OrganizationMembership> {
+    return this.run('create organization', async () => {
+      const organization = await prisma.organization.create({
+        data: {
+          name,
+          memberships: {
+            create: { userId: ownerId, role: 'OWNER' }
+          }
+        }
+      })
+      return { ...this.toOrganization(organization), role: 'OWNER' as const }
+    })
+  }
+
+  /**
+   * Organizations the user belongs to, with their role in each
+   */
+  async listForUser(userId: string): Promise<OrganizationMembership[]> {
+    return this.run('list organizations', async () => {
+      const memberships = await prisma.membership.findMany({
+        where: { userId },
+        include: { organization: true },
+        orderBy: { createdAt: 'asc' }
+      })
+      return memberships.map((membership: any) => ({
+        ...this.toOrganization(membership.organization),
+        role: membership.role as OrganizationRole
+      }))
+    })
+  }
+
+  async getMembership(organizationId: string, userId: string): Promise<Membership | null> {
+    return this.run('get membership', async () => {
+      const membership = await prisma.membership.findUnique({
+        where: { organizationId_userId: { organizationId, userId } }
+      })
+      return membership ? this.toMembership(membership) : null
+    })
+  }
+
+  async listMembers(organizationId: string): Promise<Membership[]> {
+    return this.run('list members', async () => {
+      const memberships = await prisma.membership.findMany({
+        where: { organizationId },
+        include: { user: { select: { email: true, name: true } } },
+        orderBy: { createdAt: 'asc' }
+      })
+      return memberships.map((membership: unknown) => this.toMembership(membership))
+    })
+  }
+
+  async countOwners(organizationId: string): Promise<number> {
+    return this.run('count owners', () => prisma.membership.count({
+      where: { organizationId, role: 'OWNER' }
+    }))
+  }
+
+  async updateRole(organizationId: string, userId: string, role: OrganizationRole): Promise<Membership | null> {
+    return this.run('update member role', async () => {
+      const result = await prisma.membership.updateMany({
+        where: { organizationId, userId },
+        data: { role }
+      })
+      if (result.count === 0) {
+        return null
+      }
+      const membership = await prisma.membership.findUnique({
+        where: { organizationId_userId: { organizationId, userId } }
+      })
+      return membership ? this.toMembership(membership) : null
+    })
+  }
+
+  async removeMember(organizationId: string, userId: string): Promise<boolean> {
+    return this.run('remove member', async () => {
+      const result = await prisma.membership.deleteMany({
+        where: { organizationId, userId }
+      })
+      return result.count > 0
+    })
+  }
+
+  /**
+   * Create an invitation. The plain token is returned once for the email link and never stored.
+   */
+  async createInvitation(
+    organizationId: string,
+    input: CreateInvitationInput
+  ): Promise<{ invitation: Invitation; token: string }> {
+    return this.run('create invitation', async () => {
+      const token = crypto.randomBytes(INVITATION_TOKEN_BYTES).toString('hex')
+      const invitation = await prisma.invitation.create({
+        data: {
+          organizationId,
+          email: input.email.toLowerCase(),
+          role: input.role,
+          invitedById: input.invitedById,
+          tokenHash: hashInvitationToken(token),
+          expiresAt: new Date(Date.now() + INVITATION_EXPIRY_MS)
+        }
+      })
+      return { invitation: this.toInvitation(invitation), token }
+    })
+  }
+
+  async findInvitationByToken(token: string): Promise<Invitation | null> {
+    return this.run('find invitation', async () => {
+      const invitation = await prisma.invitation.findUnique({
+        where: { tokenHash: hashInvitationToken(token) }
+      })
+      return invitation ? this.toInvitation(invitation) : null
+    })
+  }
+
+  /**
+   * Add the user to the invitation's organization and mark the invitation used.
+   * An existing member takes the invited role.
+   */
+  async acceptInvitation(invitation: Invitation, userId: string): Promise<Membership> {
+    return this.run('accept invitation', async () => {
+      const [membership] = await prisma.$transaction([
+        prisma.membership.upsert({
+          where: { organizationId_userId: { organizationId: invitation.organizationId, userId } },
+          create: { organizationId: invitation.organizationId, userId, role: invitation.role },
+          update: { role: invitation.role }
+        }),
+        prisma.invitation.update({
+          where: { id: invitation.id },
+          data: { acceptedAt: new Date() }
+        })
+      ])
+      return this.toMembership(membership)
+    })
+  }
+
+  async get(id: string): Promise<Organization | null> {
+    return this.run('get organization', async () => {
+      const organization = await prisma.organization.findUnique({ where: { id } })
+      return organization ? this.toOrganization(organization) : null
+    })
+  }
+
+  private async run<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn()
+    } catch (error) {
+      throw new StorageError(
+        `Failed to ${operation}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        true,
+        ErrorSeverity.MEDIUM,
+        undefined,
+        error instanceof Error ? error : undefined
+      )
+    }
+  }
+
+  private toOrganization(row: any): Organization {
+    return {
+      id: row.id,
+      name: row.name,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt
+    }
+  }
+
+  private toMembership(row: any): Membership {
+    return {
+      id: row.id,
+      organizationId: row.organizationId,
+      userId: row.userId,
+      role: row.role as OrganizationRole,
+      email: row.user?.email || undefined,
+      name: row.user?.name || undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt
+    }
+  }
+
+  private toInvitation(row: any): Invitation {
+    return {
+      id: row.id,
+      organizationId: row.organizationId,
+      email: row.email,
+      role: row.role as OrganizationRole,
+      invitedById: row.invitedById || undefined,
+      expiresAt: row.expiresAt,
+      acceptedAt: row.acceptedAt || undefined,
+      createdAt: row.createdAt
+    }
+  }
+}
+
+// Export singleton instance
+export const organizationStore = new OrganizationStore()
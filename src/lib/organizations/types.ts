@@ -0,0 +1,43 @@
+// Types for organizations whose members share ingested documents, sources and collections
+
+// Roles in descending order of privilege
+export type OrganizationRole = 'OWNER' | 'ADMIN' | 'EDITOR' | 'VIEWER'
+
+export interface Organization {
+  id: string
+  name: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface OrganizationMembership extends Organization {
+  role: OrganizationRole
+}
+
+export interface Membership {
+  id: string
+  organizationId: string
+  userId: string
+  role: OrganizationRole
+  email?: string
+  name?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface Invitation {
+  id: string
+  organizationId: string
+  email: string
+  role: OrganizationRole
+  invitedById?: string
+  expiresAt: Date
+  acceptedAt?: Date
+  createdAt: Date
+}
+
+export interface CreateInvitationInput {
+  email: string
+  role: OrganizationRole
+  invitedById?: string
+}
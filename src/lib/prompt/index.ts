@@ -0,0 +1,3 @@
+// Export all prompt templates
+export { buildGroundedPrompt, formatContextPassages } from './templates'
+export type { GroundedPrompt } from './templates'
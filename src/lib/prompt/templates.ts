@@ -0,0 +1,40 @@
+import { VectorSearchResult } from '../vector/types'
+
+export interface GroundedPrompt {
+  system: string
+  user: string
+}
+
+const GROUNDED_SYSTEM_PROMPT = [
+  'You are a documentation assistant that answers questions using only the provided context.',
+  'Each context passage is numbered like [1], [2].',
+  'Cite every claim with the number of the passage it comes from, e.g. "Tokens expire after an hour [2]."',
+  'If the context does not contain the answer, say that the ingested documentation does not cover it.',
+  'Do not invent APIs, parameters or behaviour that the context does not mention.'
+].join(' ')
+
+/**
+ * Format retrieved chunks as numbered context passages
+ */
+export function formatContextPassages(chunks: VectorSearchResult[]): string {
+  return chunks
+    .map((chunk, index) => {
+      const heading = [chunk.title, chunk.section].filter(Boolean).join(' - ')
+      return `[${index + 1}] ${heading} (${chunk.sourceUrl})\n${chunk.content.trim()}`
+    })
+    .join('\n\n')
+}
+
+/**
+ * Build a prompt that grounds the model in the retrieved chunks
+ */
+export function buildGroundedPrompt(question: string, chunks: VectorSearchResult[]): GroundedPrompt {
+  const context = chunks.length > 0
+    ? formatContextPassages(chunks)
+    : 'No relevant passages were found in the ingested documentation.'
+
+  return {
+    system: GROUNDED_SYSTEM_PROMPT,
+    user: `Context:\n${context}\n\nQuestion: ${question.trim()}\n\nAnswer:`
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+export interface RateLimitOptions {
+  windowMs?: number
+  maxRequests?: number
+  keyPrefix?: string
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  resetTime?: number
+}
+
+/**
+ * Simple fixed-window rate limiter backed by an in-memory store (for production, use Redis)
+ */
+export class RateLimiter {
+  private readonly store = new Map<string, { count: number; resetTime: number }>()
+  readonly windowMs: number
+  readonly maxRequests: number
+  private readonly keyPrefix: string
+
+  constructor(options: RateLimitOptions = {}) {
+    this.windowMs = options.windowMs ?? 60 * 1000 // 1 minute
+    this.maxRequests = options.maxRequests ?? 10 // 10 requests per minute
+    this.keyPrefix = options.keyPrefix ?? 'rate_limit'
+  }
+
+  /**
+   * Build the rate limit key for a request
+   */
+  getKey(request: NextRequest): string {
+    // Use IP address or user ID for rate limiting
+    const forwarded = request.headers.get('x-forwarded-for')
+    const realIp = request.headers.get('x-real-ip')
+    const ip = forwarded ? forwarded.split(',')[0].trim() : realIp || 'unknown'
+    return `${this.keyPrefix}:${ip}`
+  }
+
+  /**
+   * Count a request against the key and report whether it is allowed
+   */
+  check(key: string): RateLimitResult {
+    const now = Date.now()
+    const record = this.store.get(key)
+
+    if (!record || now > record.resetTime) {
+      // Reset or create new record
+      this.store.set(key, { count: 1, resetTime: now + this.windowMs })
+      return { allowed: true }
+    }
+
+    if (record.count >= this.maxRequests) {
+      return { allowed: false, resetTime: record.resetTime }
+    }
+
+    record.count++
+    return { allowed: true }
+  }
+
+  /**
+   * Build the 429 response returned once a client exceeds its budget
+   */
+  createExceededResponse(resetTime: number): NextResponse {
+    const retryAfter = Math.ceil((resetTime - Date.now()) / 1000)
+
+    return NextResponse.json({
+      error: 'Rate limit exceeded',
+      message: 'Too many requests. Please try again later.',
+      retryAfter
+    }, {
+      status: 429,
+      headers: {
+        'Retry-After': retryAfter.toString(),
+        'X-RateLimit-Limit': this.maxRequests.toString(),
+        'X-RateLimit-Remaining': '0',
+        'X-RateLimit-Reset': Math.ceil(resetTime / 1000).toString()
+      }
+    })
+  }
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime'
+import { BedrockReranker, LocalReranker, createReranker } from '../rerankers'
+import { RerankError } from '../../errors'
+
+vi.mock('@aws-sdk/client-bedrock-runtime', () => ({
+  InvokeModelCommand: vi.fn(),
+}))
+
+vi.mock('../../aws-config', () => ({
+  bedrockRuntimeClient: {
+    send: vi.fn(),
+  },
+  RERANK_MODEL_ID: 'cohere.rerank-v3-5:0',
+}))
+
+const bedrockResponse = (body: unknown) => ({
+  body: new TextEncoder().encode(JSON.stringify(body))
+})
+
+describe('Rerankers', () => {
+  const client = { send: vi.fn() }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('BedrockReranker', () => {
+    it('should return relevance scores in document order', async () => {
+      client.send.mockResolvedValue(bedrockResponse({
+        results: [
+          { index: 1, relevance_score: 0.9 },
+          { index: 0, relevance_score: 0.2 }
+        ]
+      }))
+      const reranker = new BedrockReranker(undefined, client as any)
+
+      const scores = await reranker.score('token expiry', ['Webhooks', 'Tokens expire after an hour'])
+
+      expect(scores).toEqual([0.2, 0.9])
+      expect(InvokeModelCommand).toHaveBeenCalledWith(expect.objectContaining({
+        modelId: 'cohere.rerank-v3-5:0',
+        body: JSON.stringify({
+          query: 'token expiry',
+          documents: ['Webhooks', 'Tokens expire after an hour'],
+          top_n: 2,
+          api_version: 2
+        })
+      }))
+    })
+
+    it('should omit the Cohere api_version for Amazon Rerank', async () => {
+      client.send.mockResolvedValue(bedrockResponse({ results: [{ index: 0, relevance_score: 0.5 }] }))
+      const reranker = new BedrockReranker('amazon.rerank-v1:0', client as any)
+
+      await reranker.score('token expiry', ['Tokens'])
+
+      const [input] = vi.mocked(InvokeModelCommand).mock.calls[0]
+      expect(JSON.parse(input.body as string)).not.toHaveProperty('api_version')
+    })
+
+    it('should not call the model without documents', async () => {
+      const reranker = new BedrockReranker(undefined, client as any)
+
+      expect(await reranker.score('token expiry', [])).toEqual([])
+      expect(client.send).not.toHaveBeenCalled()
+    })
+
+    it('should map access errors to non-retryable rerank errors', async () => {
+      client.send.mockRejectedValue(new Error('AccessDeniedException: access denied'))
+      const reranker = new BedrockReranker(undefined, client as any)
+
+      const error = await reranker.score('token expiry', ['Tokens']).catch(e => e)
+
+      expect(error).toBeInstanceOf(RerankError)
+      expect(error.retryable).toBe(false)
+    })
+  })
+
+  describe('LocalReranker', () => {
+    it('should score term coverage and reward the full phrase', async () => {
+      const reranker = new LocalReranker()
+
+      const scores = await reranker.score('refresh token expiry', [
+        'Webhooks are retried five times',
+        'Each refresh token has an expiry',
+        'How refresh token expiry works'
+      ])
+
+      expect(scores[0]).toBe(0)
+      expect(scores[1]).toBeCloseTo(0.8)
+      expect(scores[2]).toBeCloseTo(1)
+    })
+
+    it('should keep identifiers whole', async () => {
+      const reranker = new LocalReranker()
+
+      const [match, partial] = await reranker.score('ERR_TOKEN_EXPIRED', [
+        'Returns ERR_TOKEN_EXPIRED when the token is stale',
+        'The token expired'
+      ])
+
+      expect(match).toBeGreaterThan(partial)
+    })
+  })
+
+  describe('createReranker', () => {
+    it('should build the configured reranker', () => {
+      expect(createReranker('local')).toBeInstanceOf(LocalReranker)
+      expect(createReranker(undefined)).toBeInstanceOf(BedrockReranker)
+    })
+  })
+})
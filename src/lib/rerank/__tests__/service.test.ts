@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest'
+import { RerankService } from '../service'
+import { LocalReranker } from '../rerankers'
+import { maximalMarginalRelevance } from '../mmr'
+import { Reranker } from '../types'
+import { VectorSearchResult } from '../../vector/types'
+
+const result = (id: string, sourceUrl: string, content: string): VectorSearchResult => ({
+  id,
+  content,
+  metadata: {},
+  similarity: 0.8,
+  sourceUrl,
+  title: 'Docs',
+  chunkIndex: 0
+})
+
+describe('RerankService', () => {
+  const candidates = [
+    result('webhooks', 'https://docs.example.com/webhooks', 'Webhooks are retried five times'),
+    result('auth-1', 'https://docs.example.com/auth', 'Refresh token expiry is configurable per client'),
+    result('auth-2', 'https://docs.example.com/auth', 'Refresh token expiry defaults to thirty days'),
+    result('sdk', 'https://docs.example.com/sdk', 'The SDK refreshes the token before expiry')
+  ]
+
+  it('should reorder candidates by model relevance and keep the limit', async () => {
+    const service = new RerankService(new LocalReranker())
+
+    const results = await service.rerank('refresh token expiry', candidates, { limit: 2 })
+
+    expect(results.map(r => r.id)).toEqual(['auth-1', 'auth-2'])
+    expect(results[0].rerankScore).toBeCloseTo(1)
+  })
+
+  it('should prefer other pages when diversifying', async () => {
+    const service = new RerankService(new LocalReranker())
+
+    const results = await service.rerank('refresh token expiry', candidates, { limit: 2, diversity: 0.7 })
+
+    expect(results.map(r => r.id)).toEqual(['auth-1', 'sdk'])
+  })
+
+  it('should keep the retrieval order when the rerank model fails', async () => {
+    const reranker: Reranker = {
+      modelId: 'failing',
+      score: vi.fn().mockRejectedValue(new Error('model unavailable'))
+    }
+    const service = new RerankService(reranker)
+
+    const results = await service.rerank('refresh token expiry', candidates, { limit: 3 })
+
+    expect(results.map(r => r.id)).toEqual(['webhooks', 'auth-1', 'auth-2'])
+    expect(results[0]).not.toHaveProperty('rerankScore')
+  })
+
+  it('should over-fetch candidates within a cap', () => {
+    const service = new RerankService(new LocalReranker())
+
+    expect(service.candidateCount(5)).toBe(20)
+    expect(service.candidateCount(50)).toBe(100)
+  })
+})
+
+describe('maximalMarginalRelevance', () => {
+  const same = (a: string, b: string) => (a[0] === b[0] ? 1 : 0)
+
+  it('should keep relevance order with lambda 1', () => {
+    expect(maximalMarginalRelevance(['a1', 'a2', 'b1'], [0.9, 0.8, 0.1], same, 3, 1)).toEqual(['a1', 'a2', 'b1'])
+  })
+
+  it('should skip items similar to those already picked', () => {
+    expect(maximalMarginalRelevance(['a1', 'a2', 'b1'], [0.9, 0.8, 0.5], same, 2, 0.5)).toEqual(['a1', 'b1'])
+  })
+})
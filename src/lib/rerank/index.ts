@@ -0,0 +1,5 @@
+// Export all reranking functionality
+export { RerankService } from './service'
+export { BedrockReranker, LocalReranker, createReranker } from './rerankers'
+export { maximalMarginalRelevance } from './mmr'
+export * from './types'
@@ -0,0 +1,47 @@
+/**
+ * Maximal marginal relevance: repeatedly pick the item with the best trade-off between its
+ * relevance and its similarity to the items already picked,
+ *   lambda * relevance - (1 - lambda) * max similarity to picked items.
+ * lambda 1 keeps relevance order; lower values favour items unlike those already chosen.
+ * Relevance is min-max normalized first so it is on the same scale as similarity.
+ */
+export function maximalMarginalRelevance<T>(
+  items: T[],
+  relevance: number[],
+  similarity: (a: T, b: T) => number,
+  limit: number,
+  lambda: number
+): T[] {
+  const normalized = normalize(relevance)
+  const remaining = items.map((_, index) => index)
+  const selected: number[] = []
+
+  while (selected.length < limit && remaining.length > 0) {
+    let bestPosition = 0
+    let bestScore = -Infinity
+
+    remaining.forEach((candidate, position) => {
+      const redundancy = selected.length > 0
+        ? Math.max(...selected.map(picked => similarity(items[candidate], items[picked])))
+        : 0
+      const score = lambda * normalized[candidate] - (1 - lambda) * redundancy
+
+      // Strictly greater keeps the earlier item on ties
+      if (score > bestScore) {
+        bestScore = score
+        bestPosition = position
+      }
+    })
+
+    selected.push(remaining[bestPosition])
+    remaining.splice(bestPosition, 1)
+  }
+
+  return selected.map(index => items[index])
+}
+
+function normalize(values: number[]): number[] {
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  return values.map(value => (max > min ? (value - min) / (max - min) : 1))
+}
@@ -0,0 +1,130 @@
+import { InvokeModelCommand, BedrockRuntimeClient } from '@aws-sdk/client-bedrock-runtime'
+import { bedrockRuntimeClient, RERANK_MODEL_ID } from '../aws-config'
+import { Reranker } from './types'
+import { RerankError, ErrorSeverity } from '../errors'
+import { metricsCollector } from '../monitoring/metrics'
+
+/**
+ * Reranker backed by a Bedrock rerank model (Cohere Rerank or Amazon Rerank) through InvokeModel
+ */
+export class BedrockReranker implements Reranker {
+  readonly modelId: string
+  private readonly client: BedrockRuntimeClient
+
+  constructor(modelId: string = RERANK_MODEL_ID, client: BedrockRuntimeClient = bedrockRuntimeClient) {
+    this.modelId = modelId
+    this.client = client
+  }
+
+  async score(query: string, documents: string[]): Promise<number[]> {
+    if (documents.length === 0) {
+      return []
+    }
+
+    const startTime = Date.now()
+
+    try {
+      const response = await this.client.send(new InvokeModelCommand({
+        modelId: this.modelId,
+        contentType: 'application/json',
+        accept: 'application/json',
+        body: JSON.stringify({
+          query,
+          documents,
+          top_n: documents.length,
+          // Cohere Rerank 3.5 requires the v2 request format; Amazon Rerank rejects the field
+          ...(this.modelId.startsWith('cohere.') && { api_version: 2 })
+        })
+      }))
+
+      metricsCollector.recordApiCall('aws_bedrock', 'rerank', Date.now() - startTime, true, {
+        model_id: this.modelId
+      })
+
+      const responseBody = response.body ? JSON.parse(new TextDecoder().decode(response.body)) : null
+      const results: Array<{ index: number; relevance_score: number }> | undefined = responseBody?.results
+
+      if (!Array.isArray(results)) {
+        throw new RerankError('No results found in rerank response', true, ErrorSeverity.HIGH)
+      }
+
+      // Results come back sorted by relevance; put the scores back in document order
+      const scores = new Array<number>(documents.length).fill(0)
+      for (const result of results) {
+        scores[result.index] = result.relevance_score
+      }
+      return scores
+    } catch (error) {
+      if (!(error instanceof RerankError)) {
+        metricsCollector.recordApiCall('aws_bedrock', 'rerank', Date.now() - startTime, false, {
+          model_id: this.modelId,
+          error_type: error instanceof Error ? error.constructor.name : 'unknown'
+        })
+      }
+      throw this.toRerankError(error)
+    }
+  }
+
+  /**
+   * Map AWS SDK errors onto retryable/non-retryable rerank errors
+   */
+  private toRerankError(error: unknown): RerankError {
+    if (error instanceof RerankError) {
+      return error
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    const lowerMessage = message.toLowerCase()
+    const cause = error instanceof Error ? error : undefined
+
+    if (lowerMessage.includes('throttling') || lowerMessage.includes('rate limit') || lowerMessage.includes('429')) {
+      return new RerankError(`AWS Bedrock rate limit exceeded: ${message}`, true, ErrorSeverity.MEDIUM, undefined, cause)
+    }
+
+    if (lowerMessage.includes('unauthorized') || lowerMessage.includes('access denied') || lowerMessage.includes('403')) {
+      return new RerankError(`AWS Bedrock access denied: ${message}`, false, ErrorSeverity.CRITICAL, undefined, cause)
+    }
+
+    return new RerankError(`Failed to rerank results: ${message}`, true, ErrorSeverity.HIGH, undefined, cause)
+  }
+}
+
+/**
+ * Deterministic lexical reranker for tests and offline development. Scores the share of
+ * distinct query terms a document contains, with a bonus when it contains the whole query.
+ */
+export class LocalReranker implements Reranker {
+  readonly modelId = 'local-lexical'
+
+  async score(query: string, documents: string[]): Promise<number[]> {
+    const queryTerms = new Set(tokenize(query))
+    const phrase = tokenize(query).join(' ')
+
+    return documents.map(document => {
+      if (queryTerms.size === 0) {
+        return 0
+      }
+
+      const documentTokens = tokenize(document)
+      const documentTerms = new Set(documentTokens)
+      const matched = Array.from(queryTerms).filter(term => documentTerms.has(term)).length
+      const containsPhrase = queryTerms.size > 1 && documentTokens.join(' ').includes(phrase)
+
+      return 0.8 * (matched / queryTerms.size) + (containsPhrase ? 0.2 : 0)
+    })
+  }
+}
+
+/**
+ * Lower-cased word tokens; identifiers like getUserById or ERR_TOKEN_EXPIRED stay whole
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9_\u00c0-\uffff]+/).filter(token => token.length > 1)
+}
+
+/**
+ * Create the reranker selected by RERANK_PROVIDER ('bedrock' by default, or 'local')
+ */
+export function createReranker(provider: string | undefined = process.env.RERANK_PROVIDER): Reranker {
+  return provider === 'local' ? new LocalReranker() : new BedrockReranker()
+}
@@ -0,0 +1,116 @@
+import { VectorSearchResult } from '../vector/types'
+import { Reranker, RerankOptions } from './types'
+import { maximalMarginalRelevance } from './mmr'
+import { tokenize } from './rerankers'
+import { ErrorContext } from '../errors'
+import { defaultErrorHandler } from '../error-handler'
+import { loggers } from '../logger'
+
+// Candidates retrieved per requested result, and the most sent to the rerank model at once
+const CANDIDATE_MULTIPLIER = 4
+const MAX_CANDIDATES = 100
+
+// Chunks of the same page count as at least this similar when diversifying
+const SAME_SOURCE_SIMILARITY = 0.5
+
+/**
+ * Second-stage ranking for search results: rescore an over-fetched candidate list with a
+ * rerank model, then optionally diversify it so one long page does not fill every slot.
+ */
+export class RerankService {
+  private readonly reranker: Reranker
+  private readonly logger = loggers.reranker
+
+  constructor(reranker: Reranker) {
+    this.reranker = reranker
+  }
+
+  get modelId(): string {
+    return this.reranker.modelId
+  }
+
+  /**
+   * How many candidates to retrieve to end up with `limit` reranked results
+   */
+  candidateCount(limit: number): number {
+    return Math.max(limit, Math.min(limit * CANDIDATE_MULTIPLIER, MAX_CANDIDATES))
+  }
+
+  /**
+   * Rerank candidates for a query and keep the best `limit`. If the rerank model fails the
+   * retrieval order is kept, so search degrades to first-stage results instead of failing.
+   */
+  async rerank(
+    query: string,
+    candidates: VectorSearchResult[],
+    options: RerankOptions
+  ): Promise<VectorSearchResult[]> {
+    if (candidates.length === 0) {
+      return []
+    }
+
+    const context: ErrorContext = {
+      component: 'RerankService',
+      operation: 'rerank',
+      timestamp: new Date(),
+      metadata: { candidateCount: candidates.length, modelId: this.reranker.modelId }
+    }
+
+    const scores = await defaultErrorHandler.handleWithGracefulDegradation<number[] | null>(
+      () => this.reranker.score(query, candidates.map(candidate => this.documentText(candidate))),
+      async () => null,
+      context
+    )
+
+    const scored = scores
+      ? candidates.map((candidate, index) => ({ ...candidate, rerankScore: scores[index] }))
+      : candidates
+    // Without model scores, earlier retrieval positions count as more relevant
+    const relevance = scores ?? candidates.map((_, index) => candidates.length - index)
+
+    const tokens = new Map(scored.map(result => [result.id, new Set(tokenize(result.content))]))
+    const diversity = options.diversity ?? 0
+    const results = maximalMarginalRelevance(
+      scored,
+      relevance,
+      (a, b) => this.similarity(a, b, tokens),
+      options.limit,
+      1 - diversity
+    )
+
+    this.logger.debug('Reranked search results', {
+      candidateCount: candidates.length,
+      resultCount: results.length,
+      diversity,
+      degraded: scores === null
+    }, context)
+
+    return results
+  }
+
+  /**
+   * The text the rerank model reads; titles and headings often carry the strongest signal
+   */
+  private documentText(result: VectorSearchResult): string {
+    return [result.title, result.section, result.content].filter(Boolean).join('\n')
+  }
+
+  /**
+   * Word overlap between two chunks, raised for chunks of the same page
+   */
+  private similarity(
+    a: VectorSearchResult,
+    b: VectorSearchResult,
+    tokens: Map<string, Set<string>>
+  ): number {
+    const aTokens = tokens.get(a.id)!
+    const bTokens = tokens.get(b.id)!
+    const shared = Array.from(aTokens).filter(token => bTokens.has(token)).length
+    const union = aTokens.size + bTokens.size - shared
+    const overlap = union > 0 ? shared / union : 0
+
+    return a.sourceUrl === b.sourceUrl
+      ? SAME_SOURCE_SIMILARITY + (1 - SAME_SOURCE_SIMILARITY) * overlap
+      : overlap
+  }
+}
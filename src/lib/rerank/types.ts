@@ -0,0 +1,18 @@
+// Reranking types and interfaces
+
+/**
+ * A model that scores how well each document answers a query. Unlike embedding similarity it
+ * reads the query and document together, so it is run only on a short list of candidates.
+ */
+export interface Reranker {
+  readonly modelId: string
+  /** Relevance of each document to the query in input order, between 0 and 1 */
+  score(query: string, documents: string[]): Promise<number[]>
+}
+
+export interface RerankOptions {
+  // Number of results to keep
+  limit: number
+  // 0 keeps pure relevance order; towards 1 trades relevance for covering different pages
+  diversity?: number
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { SourceScheduler } from '../scheduler'
+import { SourceStore, nextCrawlTime } from '../store'
+import { JobQueue } from '../../jobs/queue'
+import { Source } from '../types'
+
+vi.mock('../../db', () => ({
+  prisma: {},
+  dbMonitor: {}
+}))
+vi.mock('../../inngest', () => ({
+  inngest: { send: vi.fn() }
+}))
+
+describe('SourceScheduler', () => {
+  const now = new Date('2024-06-01T12:00:00Z')
+  let store: { findDue: ReturnType<typeof vi.fn>; markQueued: ReturnType<typeof vi.fn> }
+  let queue: { enqueue: ReturnType<typeof vi.fn> }
+  let scheduler: SourceScheduler
+
+  const createSource = (overrides: Partial<Source> = {}): Source => ({
+    id: 'source-1',
+    url: 'https://docs.example.com',
+    options: { maxPages: 20 },
+    schedule: 'daily',
+    enabled: true,
+    nextCrawlAt: new Date('2024-06-01T11:00:00Z'),
+    createdAt: new Date('2024-05-01T00:00:00Z'),
+    updatedAt: new Date('2024-05-01T00:00:00Z'),
+    ...overrides
+  })
+
+  beforeEach(() => {
+    store = { findDue: vi.fn(), markQueued: vi.fn().mockResolvedValue(undefined) }
+    queue = { enqueue: vi.fn() }
+    scheduler = new SourceScheduler(store as unknown as SourceStore, queue as unknown as JobQueue)
+  })
+
+  it('should enqueue a recrawl for each due source and record the job', async () => {
+    const first = createSource({ userId: 'user-1' })
+    const second = createSource({ id: 'source-2', url: 'https://api.example.com/docs', options: {} })
+    store.findDue.mockResolvedValue([first, second])
+    queue.enqueue.mockResolvedValueOnce('job-1').mockResolvedValueOnce('job-2')
+
+    const result = await scheduler.enqueueDueSources(now)
+
+    expect(store.findDue).toHaveBeenCalledWith(now, 50)
+    expect(queue.enqueue).toHaveBeenCalledWith('https://docs.example.com', { maxPages: 20 }, {
+      userId: 'user-1',
+      organizationId: undefined
+    })
+    expect(store.markQueued).toHaveBeenCalledWith(first, 'job-1', now)
+    expect(store.markQueued).toHaveBeenCalledWith(second, 'job-2', now)
+    expect(result).toEqual({
+      enqueued: [
+        { sourceId: 'source-1', jobId: 'job-1' },
+        { sourceId: 'source-2', jobId: 'job-2' }
+      ],
+      failed: []
+    })
+  })
+
+  it('should keep going when one source fails to enqueue', async () => {
+    store.findDue.mockResolvedValue([createSource(), createSource({ id: 'source-2' })])
+    queue.enqueue
+      .mockRejectedValueOnce(new Error('Failed to enqueue job: database unavailable'))
+      .mockResolvedValueOnce('job-2')
+
+    const result = await scheduler.enqueueDueSources(now)
+
+    expect(result.enqueued).toEqual([{ sourceId: 'source-2', jobId: 'job-2' }])
+    expect(result.failed).toEqual([
+      { sourceId: 'source-1', error: 'Failed to enqueue job: database unavailable' }
+    ])
+    expect(store.markQueued).toHaveBeenCalledTimes(1)
+  })
+
+  it('should do nothing when no sources are due', async () => {
+    store.findDue.mockResolvedValue([])
+
+    const result = await scheduler.enqueueDueSources(now)
+
+    expect(queue.enqueue).not.toHaveBeenCalled()
+    expect(result).toEqual({ enqueued: [], failed: [] })
+  })
+})
+
+describe('nextCrawlTime', () => {
+  it('should add the schedule interval to the last crawl time', () => {
+    const from = new Date('2024-06-01T12:00:00Z')
+
+    expect(nextCrawlTime('hourly', from)).toEqual(new Date('2024-06-01T13:00:00Z'))
+    expect(nextCrawlTime('daily', from)).toEqual(new Date('2024-06-02T12:00:00Z'))
+    expect(nextCrawlTime('weekly', from)).toEqual(new Date('2024-06-08T12:00:00Z'))
+    expect(nextCrawlTime('monthly', from)).toEqual(new Date('2024-07-01T12:00:00Z'))
+  })
+})
@@ -0,0 +1,23 @@
+import { Source } from './types'
+
+/**
+ * Serialize a source for API responses
+ */
+export function formatSource(source: Source) {
+  return {
+    id: source.id,
+    url: source.url,
+    options: source.options,
+    schedule: source.schedule,
+    enabled: source.enabled,
+    lastCrawl: {
+      jobId: source.lastJobId,
+      status: source.lastCrawlStatus?.toLowerCase(),
+      crawledAt: source.lastCrawledAt?.toISOString(),
+      ...(source.lastError && { error: source.lastError })
+    },
+    nextCrawlAt: source.nextCrawlAt.toISOString(),
+    createdAt: source.createdAt.toISOString(),
+    updatedAt: source.updatedAt.toISOString()
+  }
+}
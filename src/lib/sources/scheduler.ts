@@ -0,0 +1,50 @@
+import { JobQueue, jobQueue } from '../jobs/queue'
+import { loggers } from '../logger'
+import { SourceStore, sourceStore } from './store'
+import { RecrawlResult } from './types'
+
+/**
+ * Enqueues recrawl jobs for registered sources whose schedule says they are due
+ */
+export class SourceScheduler {
+  private readonly logger = loggers.scheduler
+  private readonly store: SourceStore
+  private readonly queue: JobQueue
+
+  constructor(store: SourceStore = sourceStore, queue: JobQueue = jobQueue) {
+    this.store = store
+    this.queue = queue
+  }
+
+  async enqueueDueSources(now: Date = new Date(), limit: number = 50): Promise<RecrawlResult> {
+    const dueSources = await this.store.findDue(now, limit)
+    const result: RecrawlResult = { enqueued: [], failed: [] }
+
+    for (const source of dueSources) {
+      try {
+        const jobId = await this.queue.enqueue(source.url, source.options, {
+          userId: source.userId,
+          organizationId: source.organizationId
+        })
+        await this.store.markQueued(source, jobId, now)
+        result.enqueued.push({ sourceId: source.id, jobId })
+      } catch (error) {
+        // One failing source must not hold back the others; it stays due for the next run
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        this.logger.error('Failed to enqueue recrawl', { sourceId: source.id, url: source.url, error: message })
+        result.failed.push({ sourceId: source.id, error: message })
+      }
+    }
+
+    this.logger.info('Recrawl scheduling completed', {
+      due: dueSources.length,
+      enqueued: result.enqueued.length,
+      failed: result.failed.length
+    })
+
+    return result
+  }
+}
+
+// Export singleton instance
+export const sourceScheduler = new SourceScheduler()
@@ -0,0 +1,32 @@
+import { z } from 'zod'
+import { gitOptionsShape, hasGitUrlTemplate, gitUrlTemplateRequired } from '../ingest/validator'
+
+// Same option rules as POST /api/ingest-url, minus modifiedSince which would go stale between recrawls
+const sourceOptionsSchema = z.object({
+  maxDepth: z.number().min(1).max(10).optional(),
+  followLinks: z.boolean().optional(),
+  respectRobots: z.boolean().optional(),
+  maxPages: z.number().int().min(1).max(500).optional(),
+  mode: z.enum(['crawl', 'sitemap', 'git', 'openapi']).optional(),
+  sitemapUrl: z.string().url({ message: 'Invalid sitemap URL format' }).optional(),
+  pathPrefix: z.string().startsWith('/', { message: 'Path prefix must start with /' }).optional(),
+  collectionId: z.string().min(1).optional(),
+  ...gitOptionsShape
+}).refine(hasGitUrlTemplate, gitUrlTemplateRequired)
+
+const sourceUrlSchema = z.string().trim().url({ message: 'Invalid URL format' }).refine(
+  url => url.startsWith('http://') || url.startsWith('https://'),
+  { message: 'Invalid URL protocol' }
+)
+
+export const createSourceSchema = z.object({
+  url: sourceUrlSchema,
+  options: sourceOptionsSchema.optional(),
+  schedule: z.enum(['hourly', 'daily', 'weekly', 'monthly']).optional(),
+  enabled: z.boolean().optional()
+})
+
+export const updateSourceSchema = createSourceSchema.partial().refine(
+  input => Object.keys(input).length > 0,
+  { message: 'At least one field must be provided' }
+)
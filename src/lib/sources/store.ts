@@ -0,0 +1,204 @@
+import { prisma } from '../db'
+import { IngestionOptions, JobStatus, ResourceOwner } from '../types'
+import { StorageError, ErrorSeverity } from '../errors'
+import { ownerColumns, ownerFilter } from '../organizations/owner'
+import { CreateSourceInput, RecrawlSchedule, Source, UpdateSourceInput } from './types'
+
+const HOUR_MS = 60 * 60 * 1000
+
+const SCHEDULE_INTERVALS: Record<RecrawlSchedule, number> = {
+  hourly: HOUR_MS,
+  daily: 24 * HOUR_MS,
+  weekly: 7 * 24 * HOUR_MS,
+  monthly: 30 * 24 * HOUR_MS
+}
+
+// A crawl still queued or processing after this long is assumed lost and may be retried
+const STALE_CRAWL_MS = 6 * HOUR_MS
+
+/**
+ * When a source on the given schedule is next due, counting from its last crawl
+ */
+export function nextCrawlTime(schedule: RecrawlSchedule, from: Date): Date {
+  return new Date(from.getTime() + SCHEDULE_INTERVALS[schedule])
+}
+
+export class SourceStore {
+  /**
+   * Register a source. It is due immediately so the next scheduler run crawls it.
+   */
+  async create(input: CreateSourceInput, owner?: ResourceOwner): Promise<Source> {
+    return this.run('create source', async () => {
+      const source = await prisma.source.create({
+        data: {
+          url: input.url,
+          ...ownerColumns(owner),
+          options: input.options ?? {},
+          schedule: input.schedule ?? 'daily',
+          enabled: input.enabled ?? true,
+          nextCrawlAt: new Date()
+        }
+      })
+      return this.toSource(source)
+    })
+  }
+
+  /**
+   * Get a source; when an owner is given, sources owned by anyone else are not found
+   */
+  async get(id: string, owner?: ResourceOwner): Promise<Source | null> {
+    return this.run('get source', async () => {
+      const source = await prisma.source.findFirst({ where: { id, ...ownerFilter(owner) } })
+      return source ? this.toSource(source) : null
+    })
+  }
+
+  async list(options: { owner?: ResourceOwner; limit?: number; offset?: number } = {}): Promise<{
+    sources: Source[]
+    total: number
+  }> {
+    const { owner, limit = 50, offset = 0 } = options
+    const where = ownerFilter(owner)
+
+    return this.run('list sources', async () => {
+      const [sources, total] = await Promise.all([
+        prisma.source.findMany({
+          where,
+          skip: offset,
+          take: limit,
+          orderBy: { createdAt: 'desc' }
+        }),
+        prisma.source.count({ where })
+      ])
+
+      return {
+        sources: sources.map((source: unknown) => this.toSource(source)),
+        total
+      }
+    })
+  }
+
+  /**
+   * Update a source; changing the schedule reschedules it from its last crawl
+   */
+  async update(id: string, input: UpdateSourceInput, owner?: ResourceOwner): Promise<Source | null> {
+    return this.run('update source', async () => {
+      const existing = await prisma.source.findFirst({ where: { id, ...ownerFilter(owner) } })
+      if (!existing) {
+        return null
+      }
+
+      const schedule = input.schedule ?? existing.schedule
+      const source = await prisma.source.update({
+        where: { id },
+        data: {
+          ...(input.url !== undefined && { url: input.url }),
+          ...(input.options !== undefined && { options: input.options }),
+          ...(input.enabled !== undefined && { enabled: input.enabled }),
+          ...(input.schedule !== undefined && {
+            schedule,
+            nextCrawlAt: nextCrawlTime(schedule, existing.lastCrawledAt ?? new Date())
+          })
+        }
+      })
+      return this.toSource(source)
+    })
+  }
+
+  async delete(id: string, owner?: ResourceOwner): Promise<boolean> {
+    return this.run('delete source', async () => {
+      const result = await prisma.source.deleteMany({ where: { id, ...ownerFilter(owner) } })
+      return result.count > 0
+    })
+  }
+
+  /**
+   * Enabled sources whose next crawl is due and that have no crawl in flight
+   */
+  async findDue(now: Date = new Date(), limit: number = 50): Promise<Source[]> {
+    return this.run('find due sources', async () => {
+      const sources = await prisma.source.findMany({
+        where: {
+          enabled: true,
+          nextCrawlAt: { lte: now },
+          OR: [
+            { lastCrawlStatus: null },
+            { lastCrawlStatus: { in: ['COMPLETED', 'FAILED'] } },
+            { lastCrawledAt: { lt: new Date(now.getTime() - STALE_CRAWL_MS) } }
+          ]
+        },
+        take: limit,
+        orderBy: { nextCrawlAt: 'asc' }
+      })
+      return sources.map((source: unknown) => this.toSource(source))
+    })
+  }
+
+  /**
+   * Record that a recrawl job was enqueued and schedule the following one
+   */
+  async markQueued(source: Source, jobId: string, now: Date = new Date()): Promise<void> {
+    await this.run('mark source queued', () => prisma.source.update({
+      where: { id: source.id },
+      data: {
+        lastJobId: jobId,
+        lastCrawledAt: now,
+        lastCrawlStatus: 'QUEUED',
+        lastError: null,
+        nextCrawlAt: nextCrawlTime(source.schedule, now)
+      }
+    }))
+  }
+
+  /**
+   * Copy a finished job's outcome onto the source that started it, if any
+   */
+  async recordJobResult(jobId: string, status: JobStatus, errorMessage?: string): Promise<number> {
+    return this.run('record crawl result', async () => {
+      const result = await prisma.source.updateMany({
+        where: { lastJobId: jobId },
+        data: {
+          lastCrawlStatus: status,
+          lastError: errorMessage ?? null
+        }
+      })
+      return result.count
+    })
+  }
+
+  private async run<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn()
+    } catch (error) {
+      throw new StorageError(
+        `Failed to ${operation}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        true,
+        ErrorSeverity.MEDIUM,
+        undefined,
+        error instanceof Error ? error : undefined
+      )
+    }
+  }
+
+  private toSource(row: any): Source {
+    return {
+      id: row.id,
+      url: row.url,
+      options: (row.options as IngestionOptions) || {},
+      schedule: row.schedule as RecrawlSchedule,
+      enabled: row.enabled,
+      userId: row.userId || undefined,
+      organizationId: row.organizationId || undefined,
+      nextCrawlAt: row.nextCrawlAt,
+      lastCrawledAt: row.lastCrawledAt || undefined,
+      lastJobId: row.lastJobId || undefined,
+      lastCrawlStatus: row.lastCrawlStatus || undefined,
+      lastError: row.lastError || undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt
+    }
+  }
+}
+
+// Export singleton instance
+export const sourceStore = new SourceStore()
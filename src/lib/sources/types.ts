@@ -0,0 +1,36 @@
+// Types for registered sources that are recrawled on a schedule
+
+import { IngestionOptions, JobStatus } from '../types'
+
+export type RecrawlSchedule = 'hourly' | 'daily' | 'weekly' | 'monthly'
+
+export interface Source {
+  id: string
+  url: string
+  options: IngestionOptions
+  schedule: RecrawlSchedule
+  enabled: boolean
+  userId?: string
+  organizationId?: string
+  nextCrawlAt: Date
+  lastCrawledAt?: Date
+  lastJobId?: string
+  lastCrawlStatus?: JobStatus
+  lastError?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface CreateSourceInput {
+  url: string
+  options?: IngestionOptions
+  schedule?: RecrawlSchedule
+  enabled?: boolean
+}
+
+export type UpdateSourceInput = Partial<CreateSourceInput>
+
+export interface RecrawlResult {
+  enqueued: Array<{ sourceId: string; jobId: string }>
+  failed: Array<{ sourceId: string; error: string }>
+}
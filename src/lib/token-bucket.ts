@@ -0,0 +1,68 @@
+export interface TokenBucketOptions {
+  tokensPerSecond?: number
+  capacity?: number
+}
+
+/**
+ * Token-bucket limiter for outbound API calls. Allows bursts up to `capacity`
+ * and refills at `tokensPerSecond`; callers wait in FIFO order for a token.
+ */
+export class TokenBucket {
+  readonly tokensPerSecond: number
+  readonly capacity: number
+  private tokens: number
+  private lastRefill: number
+  private queue: Promise<void> = Promise.resolve()
+
+  constructor(options: TokenBucketOptions = {}) {
+    this.tokensPerSecond = options.tokensPerSecond ?? 10
+    this.capacity = options.capacity ?? Math.max(1, Math.ceil(this.tokensPerSecond))
+    this.tokens = this.capacity
+    this.lastRefill = Date.now()
+
+    if (this.tokensPerSecond <= 0) {
+      throw new Error('tokensPerSecond must be greater than 0')
+    }
+  }
+
+  /**
+   * Wait until `count` tokens are available and take them
+   */
+  acquire(count = 1): Promise<void> {
+    if (count > this.capacity) {
+      throw new Error(`Cannot acquire ${count} tokens from a bucket of capacity ${this.capacity}`)
+    }
+
+    // Chain acquisitions so waiters are served in arrival order
+    const acquisition = this.queue.then(() => this.take(count))
+    this.queue = acquisition
+    return acquisition
+  }
+
+  /**
+   * Tokens currently available without waiting
+   */
+  get available(): number {
+    this.refill()
+    return this.tokens
+  }
+
+  private async take(count: number): Promise<void> {
+    this.refill()
+
+    if (this.tokens < count) {
+      const waitMs = ((count - this.tokens) / this.tokensPerSecond) * 1000
+      await new Promise(resolve => setTimeout(resolve, Math.ceil(waitMs)))
+      this.refill()
+    }
+
+    this.tokens -= count
+  }
+
+  private refill(): void {
+    const now = Date.now()
+    const elapsedSeconds = (now - this.lastRefill) / 1000
+    this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.tokensPerSecond)
+    this.lastRefill = now
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { BpeTokenizer, HeuristicTokenizer, createTokenizer } from '../tokenizers'
+import { countTokens } from '../cost'
+
+describe('BpeTokenizer', () => {
+  const tokenizer = new BpeTokenizer()
+
+  it('should count cl100k_base tokens', () => {
+    expect(tokenizer.count('')).toBe(0)
+    expect(tokenizer.count('hello world')).toBe(2)
+    expect(tokenizer.count('Refresh tokens never expire.')).toBe(5)
+  })
+
+  it('should count code denser than the word heuristic', () => {
+    const code = 'const user = await client.users.getById({ id: "u_123" })'
+
+    expect(tokenizer.count(code)).toBeGreaterThan(new HeuristicTokenizer().count(code))
+  })
+
+  it('should treat special tokens in page text as plain text', () => {
+    expect(tokenizer.count('<|endoftext|>')).toBeGreaterThan(1)
+  })
+
+  it('should truncate to a token budget', () => {
+    const text = 'one two three four five six'
+
+    expect(tokenizer.truncate(text, 3)).toBe('one two three')
+    expect(tokenizer.truncate(text, 100)).toBe(text)
+  })
+
+  it('should not leave a partial character when truncating', () => {
+    const truncated = tokenizer.truncate('日本語のドキュメント', 2)
+
+    expect(truncated).not.toContain('�')
+    expect('日本語のドキュメント'.startsWith(truncated)).toBe(true)
+  })
+})
+
+describe('createTokenizer', () => {
+  it('should default to BPE and allow the heuristic', () => {
+    expect(createTokenizer(undefined)).toBeInstanceOf(BpeTokenizer)
+    expect(createTokenizer('heuristic')).toBeInstanceOf(HeuristicTokenizer)
+  })
+})
+
+describe('countTokens', () => {
+  it('should price tokens for known embedding models', () => {
+    const result = countTokens(['hello world', 'Refresh tokens never expire.'], {
+      modelId: 'text-embedding-3-small'
+    })
+
+    expect(result.count).toBe(7)
+    expect(result.estimatedCost).toBeCloseTo(7 / 1000 * 0.00002)
+    expect(result.warnings).toBeUndefined()
+  })
+
+  it('should leave the cost out for unknown models and warn about oversized inputs', () => {
+    const result = countTokens('one two three four five', { modelId: 'local-hashing', maxTokens: 3 })
+
+    expect(result.estimatedCost).toBeUndefined()
+    expect(result.warnings).toEqual(['1 input(s) exceed 3 tokens and will be truncated'])
+  })
+})
@@ -0,0 +1,46 @@
+import { TokenCountResult } from '../types'
+import { TokenCountOptions, Tokenizer } from './types'
+import { defaultTokenizer } from './tokenizers'
+
+/**
+ * On-demand list prices in USD per 1,000 input tokens for the supported embedding models
+ */
+export const EMBEDDING_PRICES_PER_1K_TOKENS: Record<string, number> = {
+  'amazon.titan-embed-text-v1': 0.0001,
+  'amazon.titan-embed-text-v2:0': 0.00002,
+  'cohere.embed-english-v3': 0.0001,
+  'cohere.embed-multilingual-v3': 0.0001,
+  'text-embedding-3-small': 0.00002,
+  'text-embedding-3-large': 0.00013,
+  'text-embedding-ada-002': 0.0001,
+}
+
+/**
+ * Count the tokens in one or more texts and estimate what embedding them costs.
+ * The cost is left out for models without a known price (local or self-hosted ones).
+ */
+export function countTokens(
+  texts: string | string[],
+  options: TokenCountOptions = {},
+  tokenizer: Tokenizer = defaultTokenizer
+): TokenCountResult {
+  const inputs = Array.isArray(texts) ? texts : [texts]
+  const counts = inputs.map(text => tokenizer.count(text))
+  const count = counts.reduce((sum, value) => sum + value, 0)
+  const warnings: string[] = []
+
+  if (options.maxTokens !== undefined) {
+    const oversized = counts.filter(value => value > options.maxTokens!).length
+    if (oversized > 0) {
+      warnings.push(`${oversized} input(s) exceed ${options.maxTokens} tokens and will be truncated`)
+    }
+  }
+
+  const price = options.modelId ? EMBEDDING_PRICES_PER_1K_TOKENS[options.modelId] : undefined
+
+  return {
+    count,
+    ...(price !== undefined && { estimatedCost: (count / 1000) * price }),
+    ...(warnings.length > 0 && { warnings }),
+  }
+}
@@ -0,0 +1,4 @@
+// Export all tokenization functionality
+export { BpeTokenizer, HeuristicTokenizer, createTokenizer, defaultTokenizer } from './tokenizers'
+export { countTokens, EMBEDDING_PRICES_PER_1K_TOKENS } from './cost'
+export * from './types'
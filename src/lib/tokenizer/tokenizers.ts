@@ -0,0 +1,65 @@
+import { Tiktoken } from 'js-tiktoken/lite'
+import cl100k_base from 'js-tiktoken/ranks/cl100k_base'
+import { Tokenizer } from './types'
+import { estimateTokenCount, truncateToTokenLimit } from '../utils'
+
+/**
+ * Byte-pair encoding with the cl100k_base vocabulary, bundled with the app so counting needs no network.
+ * It is exact for OpenAI embedding models and close for Titan and Cohere, whose vocabularies are not published.
+ */
+export class BpeTokenizer implements Tokenizer {
+  readonly name = 'cl100k_base'
+  // Building the encoder parses ~100k ranks, so it is deferred until the first count
+  private encoder: Tiktoken | null = null
+
+  count(text: string): number {
+    return text ? this.encode(text).length : 0
+  }
+
+  truncate(text: string, maxTokens: number): string {
+    const tokens = this.encode(text)
+    if (tokens.length <= maxTokens) {
+      return text
+    }
+
+    // Cutting inside a multi-byte character leaves a replacement character at the end
+    return this.getEncoder().decode(tokens.slice(0, Math.max(0, maxTokens))).replace(/\uFFFD+$/, '')
+  }
+
+  private encode(text: string): number[] {
+    // Special tokens such as <|endoftext|> in scraped pages are encoded as plain text
+    return this.getEncoder().encode(text, [], [])
+  }
+
+  private getEncoder(): Tiktoken {
+    if (!this.encoder) {
+      this.encoder = new Tiktoken(cl100k_base)
+    }
+    return this.encoder
+  }
+}
+
+/**
+ * The word-and-punctuation estimate from utils, for callers that cannot afford BPE encoding
+ */
+export class HeuristicTokenizer implements Tokenizer {
+  readonly name = 'heuristic'
+
+  count(text: string): number {
+    return estimateTokenCount(text)
+  }
+
+  truncate(text: string, maxTokens: number): string {
+    return truncateToTokenLimit(text, maxTokens)
+  }
+}
+
+/**
+ * Build the tokenizer selected by TOKENIZER; BPE unless 'heuristic' is requested
+ */
+export function createTokenizer(name: string | undefined = process.env.TOKENIZER): Tokenizer {
+  return name === 'heuristic' ? new HeuristicTokenizer() : new BpeTokenizer()
+}
+
+// Shared instance so the BPE ranks are loaded once per process
+export const defaultTokenizer = createTokenizer()
@@ -0,0 +1,19 @@
+// Tokenizer types and interfaces
+
+/**
+ * Counts and truncates text in model tokens, so chunk sizes and input limits match
+ * what the embedding model actually sees
+ */
+export interface Tokenizer {
+  readonly name: string
+  count(text: string): number
+  /** Longest prefix of the text that fits in maxTokens */
+  truncate(text: string, maxTokens: number): string
+}
+
+export interface TokenCountOptions {
+  // Embedding model the tokens are sent to, used to price them
+  modelId?: string
+  // Warn when the text exceeds this many tokens
+  maxTokens?: number
+}
@@ -12,6 +12,8 @@ export interface PageMetadata {
   author?: string
   publishedDate?: string
   section?: string
+  // Front matter of Markdown documents, carried onto every chunk
+  frontMatter?: Record<string, unknown>
 }
 
 export interface ScrapedContent {
@@ -20,6 +22,35 @@ export interface ScrapedContent {
   content: string
   metadata: PageMetadata
   links: string[]
+  // Per-page text for paged documents such as PDFs; content holds the pages joined together
+  pages?: ScrapedPage[]
+  // Operations of an API description, each stored as a single chunk; content holds them all
+  operations?: ScrapedOperation[]
+  // How the page was read: fetched and parsed as static HTML, or rendered in a browser
+  strategy?: ScrapeStrategy
+}
+
+export type ScrapeStrategy = 'static' | 'browser'
+
+export interface ScrapedPage {
+  pageNumber: number
+  content: string
+}
+
+export interface ScrapedOperation {
+  method: string
+  path: string
+  operationId?: string
+  tags: string[]
+  // Markdown describing the operation's parameters, request and response schemas and examples
+  content: string
+}
+
+// File uploaded for ingestion instead of a URL to scrape
+export interface UploadedFile {
+  fileName: string
+  contentType: string
+  data: Uint8Array
 }
 
 export interface ScrapingOptions {
@@ -34,6 +65,12 @@ export interface DocumentChunk {
   content: string
   metadata: ChunkMetadata
   tokenCount: number
+  contentHash?: string
+  userId?: string
+  collectionId?: string
+  organizationId?: string
+  // Ingestion job that produced the chunk
+  jobId?: string
 }
 
 export interface ChunkMetadata {
@@ -42,6 +79,18 @@ export interface ChunkMetadata {
   section?: string
   pageNumber?: number
   chunkIndex: number
+  // Whether the chunk contains a fenced code block, and the first block's language
+  hasCode?: boolean
+  language?: string
+  // Headings from the top of the page down to the chunk's section, and that section's level
+  headingPath?: string[]
+  headingLevel?: number
+  frontMatter?: Record<string, unknown>
+  // API operation described by the chunk, for chunks of OpenAPI documents
+  operationId?: string
+  httpMethod?: string
+  apiPath?: string
+  tags?: string[]
 }
 
 export interface EmbeddedChunk extends DocumentChunk {
@@ -54,6 +103,10 @@ export interface StorageResult {
   updated: number
   failed: number
   errors: string[]
+  // Chunks left untouched because their content hash had not changed
+  skipped?: number
+  // Orphaned chunks removed because the page now has fewer chunks
+  deleted?: number
 }
 
 export interface SearchResult {
@@ -65,12 +118,28 @@ export interface IngestionOptions {
   maxDepth?: number
   followLinks?: boolean
   respectRobots?: boolean
+  maxPages?: number
+  mode?: 'crawl' | 'sitemap' | 'git' | 'openapi'
+  sitemapUrl?: string
+  pathPrefix?: string
+  modifiedSince?: string
+  collectionId?: string
+  // Git repository ingestion: branch or tag to check out, globs selecting the documentation
+  // files, and the hosted URL of each file (see documentUrl for placeholders)
+  gitRef?: string
+  include?: string[]
+  exclude?: string[]
+  urlTemplate?: string
 }
 
 export interface JobProgress {
   pagesProcessed: number
   chunksCreated: number
   chunksEmbedded: number
+  // Chunks left as they were, re-embedded over an existing chunk, and removed as stale
+  chunksSkipped?: number
+  chunksUpdated?: number
+  chunksDeleted?: number
   errors: string[]
 }
 
@@ -87,7 +156,17 @@ export interface IngestionJob {
   completedAt?: Date
   errorMessage?: string
   userId?: string
+  organizationId?: string
   priority?: number
+  // Commit a Git repository job ingested
+  commitSha?: string
+}
+
+// Who a resource belongs to: a user's personal workspace, or an organization whose
+// members share it. Organization-owned rows carry no userId.
+export interface ResourceOwner {
+  userId?: string
+  organizationId?: string
 }
 
 export interface TextProcessingOptions {
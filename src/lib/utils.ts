@@ -2,6 +2,8 @@
  * Utility functions for text processing and token counting
  */
 
+import { createHash } from 'crypto'
+
 /**
  * Estimates token count for text using a simple approximation
  * This is a rough estimate - for production use, consider using tiktoken or similar
@@ -36,8 +38,8 @@ export function preprocessText(text: string): string {
     .replace(/[\u200B-\u200D\uFEFF]/g, '')
     // Remove excessive line breaks (but preserve double line breaks)
     .replace(/\n{3,}/g, '\n\n')
-    // Normalize other whitespace but preserve line breaks
-    .replace(/[ \t]+/g, ' ')
+    // Normalize other whitespace but preserve line breaks and leading indentation (code blocks)
+    .replace(/(\S)[ \t]+/g, '$1 ')
     // Trim and ensure clean formatting
     .trim()
 }
@@ -172,3 +174,25 @@ export function validateTextQuality(text: string): {
   }
 }
 
+/**
+ * Stable SHA-256 hex digest of text, used to detect unchanged content between ingestions
+ */
+export function hashContent(...parts: Array<string | undefined>): string {
+  const hash = createHash('sha256')
+  // Separate parts so ('ab', 'c') and ('a', 'bc') hash differently
+  for (const part of parts) {
+    hash.update(part ?? '')
+    hash.update('\u0000')
+  }
+  return hash.digest('hex')
+}
+
+/**
+ * Readable document title from a file name, for documents that don't declare one
+ */
+export function titleFromFileName(fileName: string): string {
+  return fileName
+    .replace(/\.[a-z0-9]+$/i, '')
+    .replace(/[-_]+/g, ' ')
+    .trim()
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import { compileSearchFilters } from '../filters'
+
+describe('compileSearchFilters', () => {
+  it('should continue numbering after the parameters already bound', () => {
+    const params: unknown[] = ['[0.1]', 0.7, 10]
+
+    const conditions = compileSearchFilters({
+      userId: 'user-1',
+      filters: { section: 'Webhooks', jobId: 'job-1' }
+    }, params)
+
+    expect(conditions).toEqual([
+      'AND user_id = $4',
+      'AND section = $5',
+      'AND job_id = $6'
+    ])
+    expect(params).toEqual(['[0.1]', 0.7, 10, 'user-1', 'Webhooks', 'job-1'])
+  })
+
+  it('should scope to the organization rather than the user', () => {
+    const params: unknown[] = []
+
+    const conditions = compileSearchFilters({ userId: 'user-1', organizationId: 'org-1' }, params)
+
+    expect(conditions).toEqual(['AND organization_id = $1'])
+    expect(params).toEqual(['org-1'])
+  })
+
+  it('should bind user input instead of interpolating it', () => {
+    const params: unknown[] = []
+    const hostile = "https://docs.example.com/'; DROP TABLE document_chunks; --"
+
+    const conditions = compileSearchFilters({
+      filters: {
+        sourceUrlPrefix: hostile,
+        metadata: { "owner') OR 1=1 --": 'x' }
+      }
+    }, params)
+
+    expect(conditions.join(' ')).not.toContain('DROP TABLE')
+    expect(conditions.join(' ')).not.toContain('OR 1=1')
+    expect(conditions).toEqual([
+      'AND starts_with(source_url, $1)',
+      'AND metadata @> $2::jsonb'
+    ])
+    expect(params[0]).toBe(hostile)
+  })
+
+  it('should match a domain and its subdomains with one parameter', () => {
+    const params: unknown[] = []
+
+    const [condition] = compileSearchFilters({ filters: { domain: 'Example.com' } }, params)
+
+    expect(params).toEqual(['example.com'])
+    expect(condition).toContain('= $1 OR right(')
+    expect(condition).toContain("= ('.' || $1)")
+  })
+
+  it('should bound the ingestion date range and keep metadata value types', () => {
+    const params: unknown[] = []
+    const after = new Date('2024-05-01T00:00:00Z')
+    const before = new Date('2024-06-01T00:00:00Z')
+
+    const conditions = compileSearchFilters({
+      filters: { ingestedAfter: after, ingestedBefore: before, metadata: { version: 2, beta: false } }
+    }, params)
+
+    expect(conditions).toEqual([
+      'AND updated_at >= $1',
+      'AND updated_at < $2',
+      'AND metadata @> $3::jsonb'
+    ])
+    expect(params).toEqual([after, before, '{"version":2,"beta":false}'])
+  })
+
+  it('should ignore empty metadata filters', () => {
+    const params: unknown[] = []
+
+    expect(compileSearchFilters({ filters: { metadata: {} } }, params)).toEqual([])
+    expect(params).toEqual([])
+  })
+})
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import { reciprocalRankFusion, RRF_K } from '../fusion'
+
+describe('reciprocalRankFusion', () => {
+  it('should score ids by the sum of their reciprocal ranks', () => {
+    const fused = reciprocalRankFusion([
+      ['a', 'b', 'c'],
+      ['c', 'a']
+    ])
+
+    expect(fused.map(item => item.id)).toEqual(['a', 'c', 'b'])
+    expect(fused[0].score).toBeCloseTo(1 / (RRF_K + 1) + 1 / (RRF_K + 2))
+    expect(fused[2].score).toBeCloseTo(1 / (RRF_K + 2))
+  })
+
+  it('should favour ids found by several rankings over a single top hit', () => {
+    const fused = reciprocalRankFusion([
+      ['vector-only', 'shared'],
+      ['keyword-only', 'shared']
+    ])
+
+    expect(fused[0].id).toBe('shared')
+  })
+
+  it('should keep first-seen order for ties', () => {
+    const fused = reciprocalRankFusion([['a'], ['b']])
+
+    expect(fused.map(item => item.id)).toEqual(['a', 'b'])
+  })
+
+  it('should handle empty rankings', () => {
+    expect(reciprocalRankFusion([[], []])).toEqual([])
+  })
+})
@@ -373,10 +373,14 @@ describe('VectorStore Integration Tests', () => {
   describe('statistics and health checks', () => {
     it('should return accurate statistics', async () => {
       mockPrisma.documentChunk.count.mockResolvedValue(10)
-      mockPrisma.documentChunk.groupBy.mockResolvedValue([
-        { sourceUrl: 'url1', _count: 5 },
-        { sourceUrl: 'url2', _count: 5 }
-      ])
+      mockPrisma.documentChunk.groupBy
+        .mockResolvedValueOnce([
+          { collectionId: null, sourceUrl: 'url1', _count: 5 },
+          { collectionId: null, sourceUrl: 'url2', _count: 5 }
+        ])
+        .mockResolvedValueOnce([
+          { collectionId: null, _count: 10, _avg: { tokenCount: 150 }, _max: { updatedAt: new Date() } }
+        ])
       mockPrisma.documentChunk.aggregate.mockResolvedValue({ _avg: { tokenCount: 150 } })
       mockPrisma.documentChunk.findFirst.mockResolvedValue({ updatedAt: new Date() })
 
@@ -16,6 +16,8 @@ vi.mock('../../db', () => ({
       aggregate: vi.fn()
     },
     $queryRawUnsafe: vi.fn(),
+    $queryRaw: vi.fn(),
+    $executeRaw: vi.fn(),
     $disconnect: vi.fn()
   }
 }))
@@ -81,6 +83,7 @@ describe('VectorStore Unit Tests', () => {
       // Verify the correct methods were called
       expect(prisma.documentChunk.findFirst).toHaveBeenCalledWith({
         where: {
+          userId: null,
           sourceUrl: chunk.metadata.sourceUrl,
           chunkIndex: chunk.metadata.chunkIndex
         }
@@ -122,6 +125,20 @@ describe('VectorStore Unit Tests', () => {
       })
     })
 
+    it('should leave chunks with an unchanged content hash untouched', async () => {
+      const chunk = createTestChunk({ contentHash: 'hash-1' })
+
+      vi.mocked(prisma.documentChunk.findFirst).mockResolvedValue({
+        id: 'existing-id',
+        contentHash: 'hash-1'
+      })
+
+      const result = await vectorStore.store(chunk)
+
+      expect(result).toEqual({ id: 'existing-id', created: false, updated: false })
+      expect(prisma.$executeRaw).not.toHaveBeenCalled()
+    })
+
     it('should handle storage errors gracefully', async () => {
       const chunk = createTestChunk()
       
@@ -167,6 +184,82 @@ describe('VectorStore Unit Tests', () => {
       expect(firstResult.similarity).toBe(0.85)
     })
 
+    it('should bind owner and collection filters as query parameters', async () => {
+      vi.mocked(prisma.$queryRawUnsafe).mockResolvedValue([])
+
+      await vectorStore.search([0.1, 0.2], {
+        limit: 5,
+        threshold: 0.5,
+        userId: 'user-1',
+        collectionId: 'collection-1'
+      })
+
+      const [query, ...params] = vi.mocked(prisma.$queryRawUnsafe).mock.calls[0]
+      expect(query).toContain('AND user_id = $4')
+      expect(query).toContain('AND collection_id = $5')
+      expect(params).toEqual(['[0.1,0.2]', 0.5, 5, 'user-1', 'collection-1'])
+    })
+
+    it('should rank keyword matches with full-text search', async () => {
+      vi.mocked(prisma.$queryRawUnsafe).mockResolvedValue([
+        { id: 'chunk-1', content: 'ERR_TOKEN_EXPIRED', metadata: {}, sourceUrl: testSourceUrl, title: 'Errors',
+          section: null, chunkIndex: 0, tokenCount: 3, similarity: 0.41, score: 0.6 }
+      ])
+
+      const results = await vectorStore.search([0.1, 0.2], {
+        mode: 'keyword',
+        query: 'ERR_TOKEN_EXPIRED',
+        limit: 5,
+        organizationId: 'org-1'
+      })
+
+      const [query, ...params] = vi.mocked(prisma.$queryRawUnsafe).mock.calls[0]
+      expect(query).toContain("websearch_to_tsquery('english', $2)")
+      expect(query).toContain('search_vector @@ keywords')
+      expect(query).toContain('AND organization_id = $4')
+      expect(params).toEqual(['[0.1,0.2]', 'ERR_TOKEN_EXPIRED', 5, 'org-1'])
+      expect(results[0]).toMatchObject({ id: 'chunk-1', similarity: 0.41, score: 0.6 })
+    })
+
+    it('should fuse vector and keyword rankings in hybrid mode', async () => {
+      const row = (id: string, similarity: number) => ({
+        id, content: id, metadata: {}, sourceUrl: testSourceUrl, title: 'Docs',
+        section: null, chunkIndex: 0, tokenCount: 3, similarity
+      })
+      vi.mocked(prisma.$queryRawUnsafe).mockImplementation(async (query: string) =>
+        query.includes('websearch_to_tsquery')
+          ? [row('exact-match', 0.3), row('both', 0.8)]
+          : [row('semantic', 0.9), row('both', 0.8)]
+      )
+
+      const results = await vectorStore.search([0.1, 0.2], { mode: 'hybrid', query: 'getUserById', limit: 2 })
+
+      // Both rankings are over-fetched before fusing
+      expect(vi.mocked(prisma.$queryRawUnsafe).mock.calls.every((call: unknown[]) => call[3] === 8)).toBe(true)
+      expect(results.map(result => result.id)).toEqual(['both', 'semantic'])
+      expect(results[0].score).toBeCloseTo(1 / 62 + 1 / 62)
+    })
+
+    it('should expose the heading breadcrumb even without metadata', async () => {
+      vi.mocked(prisma.$queryRawUnsafe).mockResolvedValue([
+        { id: 'chunk-1', content: 'Refresh tokens never expire', sourceUrl: testSourceUrl, title: 'Auth Guide',
+          metadata: { headingPath: ['Auth', 'OAuth', 'Refresh tokens'], headingLevel: 3 },
+          section: 'Refresh tokens', chunkIndex: 0, tokenCount: 5, similarity: 0.8 }
+      ])
+
+      const results = await vectorStore.search([0.1, 0.2], { limit: 5, includeMetadata: false })
+
+      expect(results[0].headingPath).toEqual(['Auth', 'OAuth', 'Refresh tokens'])
+      expect(results[0].metadata).toEqual({})
+    })
+
+    it('should require query text outside vector mode', async () => {
+      await expect(vectorStore.search([0.1, 0.2], { mode: 'hybrid' })).rejects.toThrow(
+        'Query text is required for hybrid search'
+      )
+      expect(prisma.$queryRawUnsafe).not.toHaveBeenCalled()
+    })
+
     it('should handle search errors gracefully', async () => {
       const queryEmbedding = Array.from({ length: 1536 }, () => Math.random() - 0.5)
       
@@ -198,10 +291,19 @@ describe('VectorStore Unit Tests', () => {
   describe('getStats', () => {
     it('should return accurate vector store statistics', async () => {
       vi.mocked(prisma.documentChunk.count).mockResolvedValue(10)
-      vi.mocked(prisma.documentChunk.groupBy).mockResolvedValue([
-        { sourceUrl: 'url1', _count: 5 },
-        { sourceUrl: 'url2', _count: 5 }
-      ])
+      const collectionUpdatedAt = new Date('2024-01-02T00:00:00Z')
+      vi.mocked(prisma.documentChunk.groupBy).mockImplementation(async ({ by }: { by: string[] }) =>
+        by.includes('sourceUrl')
+          ? [
+            { collectionId: 'collection-1', sourceUrl: 'url1', _count: 4 },
+            { collectionId: 'collection-1', sourceUrl: 'url2', _count: 2 },
+            { collectionId: null, sourceUrl: 'url1', _count: 4 }
+          ]
+          : [
+            { collectionId: 'collection-1', _count: 6, _avg: { tokenCount: 120.4 }, _max: { updatedAt: collectionUpdatedAt } },
+            { collectionId: null, _count: 4, _avg: { tokenCount: 195 }, _max: { updatedAt: collectionUpdatedAt } }
+          ]
+      )
       vi.mocked(prisma.documentChunk.aggregate).mockResolvedValue({ _avg: { tokenCount: 150 } })
       vi.mocked(prisma.documentChunk.findFirst).mockResolvedValue({ updatedAt: new Date() })
       
@@ -211,6 +313,22 @@ describe('VectorStore Unit Tests', () => {
       expect(stats.uniqueSources).toBe(2)
       expect(stats.averageTokenCount).toBe(150)
       expect(stats.lastUpdated).toBeInstanceOf(Date)
+      expect(stats.collections).toEqual([
+        {
+          collectionId: 'collection-1',
+          totalChunks: 6,
+          uniqueSources: 2,
+          averageTokenCount: 120,
+          lastUpdated: collectionUpdatedAt
+        },
+        {
+          collectionId: null,
+          totalChunks: 4,
+          uniqueSources: 1,
+          averageTokenCount: 195,
+          lastUpdated: collectionUpdatedAt
+        }
+      ])
     })
   })
 
@@ -230,6 +348,50 @@ describe('VectorStore Unit Tests', () => {
     })
   })
 
+  describe('getSourceHashes', () => {
+    it('should return chunk hashes and the shared page hash', async () => {
+      vi.mocked(prisma.$queryRaw).mockResolvedValue([
+        { chunkIndex: 0, contentHash: 'a', pageHash: 'page-1' },
+        { chunkIndex: 1, contentHash: 'b', pageHash: 'page-1' }
+      ])
+
+      const hashes = await vectorStore.getSourceHashes(testSourceUrl)
+
+      expect(hashes.pageHash).toBe('page-1')
+      expect(hashes.chunkCount).toBe(2)
+      expect(hashes.chunkHashes).toEqual(new Map([[0, 'a'], [1, 'b']]))
+    })
+
+    it('should not report a page hash after a partially stored ingestion', async () => {
+      vi.mocked(prisma.$queryRaw).mockResolvedValue([
+        { chunkIndex: 0, contentHash: 'a', pageHash: 'page-1' },
+        { chunkIndex: 1, contentHash: 'c', pageHash: null }
+      ])
+
+      const hashes = await vectorStore.getSourceHashes(testSourceUrl)
+
+      expect(hashes.pageHash).toBeUndefined()
+      expect(hashes.chunkHashes.get(1)).toBe('c')
+    })
+  })
+
+  describe('pruneSource', () => {
+    it('should delete orphaned chunks and record the page hash', async () => {
+      vi.mocked(prisma.$executeRaw).mockResolvedValueOnce(3).mockResolvedValueOnce(5)
+
+      const deleted = await vectorStore.pruneSource(testSourceUrl, 5, 'page-2')
+
+      expect(deleted).toBe(3)
+      expect(prisma.$executeRaw).toHaveBeenCalledTimes(2)
+    })
+
+    it('should wrap database errors in StorageError', async () => {
+      vi.mocked(prisma.$executeRaw).mockRejectedValue(new Error('Connection failed'))
+
+      await expect(vectorStore.pruneSource(testSourceUrl, 0)).rejects.toThrow('Failed to prune stale chunks')
+    })
+  })
+
   describe('storeBatch', () => {
     it('should store multiple chunks successfully', async () => {
       const chunks = [
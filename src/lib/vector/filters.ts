@@ -0,0 +1,57 @@
+import { VectorSearchOptions } from './types'
+
+// Lower-cased host of a chunk's source URL; a fixed expression, never built from input
+const SOURCE_HOST = `lower(substring(source_url from '^[A-Za-z][A-Za-z0-9+.-]*://([^/?#:]+)'))`
+
+/**
+ * Compile the owner, collection and metadata filters of a search into SQL conditions, each
+ * starting with AND. Every value is appended to `params` and referenced by position, so
+ * caller-supplied text never becomes part of the query string.
+ */
+export function compileSearchFilters(options: VectorSearchOptions, params: unknown[]): string[] {
+  const conditions: string[] = []
+  const bind = (value: unknown): string => {
+    params.push(value)
+    return `$${params.length}`
+  }
+
+  if (options.organizationId) {
+    conditions.push(`AND organization_id = ${bind(options.organizationId)}`)
+  } else if (options.userId) {
+    conditions.push(`AND user_id = ${bind(options.userId)}`)
+  }
+  if (options.collectionId) {
+    conditions.push(`AND collection_id = ${bind(options.collectionId)}`)
+  }
+
+  const filters = options.filters ?? {}
+
+  if (filters.sourceUrlPrefix) {
+    // starts_with avoids LIKE, whose % and _ wildcards would need escaping
+    conditions.push(`AND starts_with(source_url, ${bind(filters.sourceUrlPrefix)})`)
+  }
+  if (filters.domain) {
+    const domain = bind(filters.domain.toLowerCase())
+    conditions.push(
+      `AND (${SOURCE_HOST} = ${domain} OR right(${SOURCE_HOST}, char_length(${domain}) + 1) = ('.' || ${domain}))`
+    )
+  }
+  if (filters.section) {
+    conditions.push(`AND section = ${bind(filters.section)}`)
+  }
+  if (filters.ingestedAfter) {
+    conditions.push(`AND updated_at >= ${bind(filters.ingestedAfter)}`)
+  }
+  if (filters.ingestedBefore) {
+    conditions.push(`AND updated_at < ${bind(filters.ingestedBefore)}`)
+  }
+  if (filters.jobId) {
+    conditions.push(`AND job_id = ${bind(filters.jobId)}`)
+  }
+  if (filters.metadata && Object.keys(filters.metadata).length > 0) {
+    // JSON containment keeps value types: {"version": 2} does not match "2"
+    conditions.push(`AND metadata @> ${bind(JSON.stringify(filters.metadata))}::jsonb`)
+  }
+
+  return conditions
+}
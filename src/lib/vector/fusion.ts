@@ -0,0 +1,27 @@
+// Smoothing constant from the original reciprocal rank fusion paper; larger values
+// flatten the advantage of top-ranked items
+export const RRF_K = 60
+
+export interface FusedRank {
+  id: string
+  score: number
+}
+
+/**
+ * Merge several rankings of ids into one by reciprocal rank fusion: each id scores the sum
+ * of 1 / (k + rank) over the rankings it appears in. Only positions matter, so rankings
+ * scored on different scales (cosine similarity, ts_rank) can be fused without normalizing.
+ * Ties keep the order in which ids were first seen.
+ */
+export function reciprocalRankFusion(rankings: string[][], k: number = RRF_K): FusedRank[] {
+  const scores = new Map<string, number>()
+
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (k + index + 1))
+    })
+  }
+
+  return Array.from(scores, ([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score)
+}
@@ -1,10 +1,16 @@
 // Vector storage module exports
 
 export { VectorStore, vectorStore } from './store'
+export { reciprocalRankFusion } from './fusion'
+export { compileSearchFilters } from './filters'
 export type {
+  SearchMode,
   VectorSearchOptions,
+  VectorSearchFilters,
   VectorSearchResult,
   VectorUpsertResult,
   VectorBatchResult,
-  VectorStoreStats
+  VectorStoreStats,
+  CollectionStats,
+  ChunkScope
 } from './types'
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { z } from 'zod'
+
+export const searchModeSchema = z.enum(['vector', 'keyword', 'hybrid'])
+
+// Dates may be full ISO timestamps or plain calendar dates (midnight UTC)
+const dateSchema = z.union([z.iso.datetime({ offset: true }), z.iso.date()])
+  .transform(value => new Date(value))
+
+export const searchFiltersSchema = z.object({
+  sourceUrlPrefix: z.string().min(1).max(2048).optional(),
+  domain: z.string().trim().toLowerCase()
+    .regex(/^[a-z0-9-]+(\.[a-z0-9-]+)*$/, { message: 'Domain must be a host name such as docs.example.com' })
+    .optional(),
+  section: z.string().min(1).max(500).optional(),
+  ingestedAfter: dateSchema.optional(),
+  ingestedBefore: dateSchema.optional(),
+  jobId: z.string().min(1).optional(),
+  metadata: z.record(
+    z.string().min(1).max(100),
+    z.union([z.string().max(500), z.number(), z.boolean()])
+  ).optional()
+}).refine(
+  filters => !filters.ingestedAfter || !filters.ingestedBefore || filters.ingestedAfter < filters.ingestedBefore,
+  { message: 'ingestedAfter must be before ingestedBefore', path: ['ingestedAfter'] }
+)
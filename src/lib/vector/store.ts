@@ -5,12 +5,45 @@ import {
   VectorSearchResult, 
   VectorUpsertResult, 
   VectorBatchResult,
-  VectorStoreStats 
+  VectorStoreStats,
+  CollectionStats,
+  SourceHashes,
+  ChunkScope
 } from './types'
-import { StorageError, ErrorSeverity } from '../errors'
+import { reciprocalRankFusion } from './fusion'
+import { compileSearchFilters } from './filters'
+import { StorageError, ValidationError, ErrorSeverity } from '../errors'
 import { metricsCollector } from '../monitoring/metrics'
 import { loggers } from '../logger'
 
+// Columns every search query returns, aliased to VectorSearchResult names
+const SEARCH_COLUMNS = `
+  id,
+  content,
+  metadata,
+  source_url as "sourceUrl",
+  title,
+  section,
+  chunk_index as "chunkIndex",
+  token_count as "tokenCount"
+`
+
+// How many candidates per requested result each ranking contributes to hybrid search
+const HYBRID_CANDIDATE_MULTIPLIER = 4
+
+interface SearchRow {
+  id: string
+  content: string
+  metadata: any
+  sourceUrl: string
+  title: string
+  section: string | null
+  chunkIndex: number
+  tokenCount: number
+  similarity: number
+  score?: number
+}
+
 export class VectorStore {
   private readonly logger = loggers.vectorStore
   /**
@@ -18,14 +51,26 @@ export class VectorStore {
    */
   async store(chunk: EmbeddedChunk): Promise<VectorUpsertResult> {
     try {
-      // Check if chunk already exists by sourceUrl and chunkIndex
+      // Check if chunk already exists by owner, collection, sourceUrl and chunkIndex
       const existing = await prisma.documentChunk.findFirst({
         where: {
+          userId: chunk.userId ?? null,
+          organizationId: chunk.organizationId ?? null,
+          collectionId: chunk.collectionId ?? null,
           sourceUrl: chunk.metadata.sourceUrl,
           chunkIndex: chunk.metadata.chunkIndex
         }
       })
 
+      if (existing && chunk.contentHash && existing.contentHash === chunk.contentHash) {
+        // Content is unchanged since the last ingestion; keep the stored embedding
+        return {
+          id: existing.id,
+          created: false,
+          updated: false
+        }
+      }
+
       if (existing) {
         // Update existing chunk using raw SQL for embedding field
         const embeddingVector = `[${chunk.embedding.join(',')}]`
@@ -43,6 +88,8 @@ export class VectorStore {
             token_count = ${chunk.tokenCount},
             embedding = ${embeddingVector}::vector,
             metadata = ${metadata}::jsonb,
+            content_hash = ${chunk.contentHash ?? null},
+            job_id = ${chunk.jobId ?? null},
             updated_at = NOW()
           WHERE id = ${existing.id}
         `
@@ -63,12 +110,14 @@ export class VectorStore {
         await prisma.$executeRaw`
           INSERT INTO document_chunks (
             id, source_url, title, content, section, chunk_index, 
-            token_count, embedding, metadata, created_at, updated_at
+            token_count, embedding, metadata, content_hash, user_id, collection_id,
+            organization_id, job_id, created_at, updated_at
           ) VALUES (
             ${chunk.id}, ${chunk.metadata.sourceUrl}, ${chunk.metadata.title}, 
             ${chunk.content}, ${chunk.metadata.section}, ${chunk.metadata.chunkIndex},
             ${chunk.tokenCount}, ${embeddingVector}::vector, ${metadata}::jsonb,
-            NOW(), NOW()
+            ${chunk.contentHash ?? null}, ${chunk.userId ?? null}, ${chunk.collectionId ?? null},
+            ${chunk.organizationId ?? null}, ${chunk.jobId ?? null}, NOW(), NOW()
           )
         `
 
@@ -156,8 +205,9 @@ export class VectorStore {
         const duration = metricsCollector.endTimer(operationId)
         const stored = results.successful.filter(r => r.created).length
         const updated = results.successful.filter(r => r.updated).length
+        const skipped = results.successful.filter(r => !r.created && !r.updated).length
         const failed = results.failed.length
-        const successRate = Math.round(((stored + updated) / chunks.length) * 100)
+        const successRate = Math.round(((stored + updated + skipped) / chunks.length) * 100)
 
         // Record overall metrics
         metricsCollector.recordMetric({
@@ -169,6 +219,7 @@ export class VectorStore {
             total_chunks: chunks.length.toString(),
             stored: stored.toString(),
             updated: updated.toString(),
+            skipped: skipped.toString(),
             failed: failed.toString()
           }
         })
@@ -182,6 +233,7 @@ export class VectorStore {
         this.logger.info('Vector batch storage completed', {
           stored,
           updated,
+          skipped,
           failed,
           successRate,
           duration
@@ -191,6 +243,7 @@ export class VectorStore {
           stored,
           updated,
           failed,
+          skipped,
           errors: results.failed.map(f => f.error)
         }
       }
@@ -205,7 +258,9 @@ export class VectorStore {
   }
 
   /**
-   * Perform vector similarity search
+   * Search stored chunks. Vector mode ranks by cosine similarity; keyword mode by full-text
+   * rank of the query text; hybrid mode fuses both rankings with reciprocal rank fusion so
+   * exact matches on identifiers and error codes surface alongside semantic matches.
    */
   async search(
     queryEmbedding: number[], 
@@ -214,50 +269,35 @@ export class VectorStore {
     const { 
       limit = 10, 
       threshold = 0.7, 
-      includeMetadata = true 
+      includeMetadata = true,
+      mode = 'vector',
+      query
     } = options
 
+    if (mode !== 'vector' && !query?.trim()) {
+      throw new ValidationError(`Query text is required for ${mode} search`)
+    }
+
     try {
-      // Use raw SQL for vector similarity search with pgvector
-      const query = `
-        SELECT 
-          id,
-          content,
-          metadata,
-          source_url as "sourceUrl",
-          title,
-          section,
-          chunk_index as "chunkIndex",
-          token_count as "tokenCount",
-          1 - (embedding <=> $1::vector) as similarity
-        FROM document_chunks
-        WHERE 1 - (embedding <=> $1::vector) > $2
-        ORDER BY embedding <=> $1::vector
-        LIMIT $3
-      `
+      let rows: SearchRow[]
+      if (mode === 'keyword') {
+        rows = await this.keywordSearch(queryEmbedding, query!, limit, options)
+      } else if (mode === 'hybrid') {
+        rows = await this.hybridSearch(queryEmbedding, query!, limit, threshold, options)
+      } else {
+        rows = await this.similaritySearch(queryEmbedding, limit, threshold, options)
+      }
 
-      const embeddingVector = `[${queryEmbedding.join(',')}]`
-      
-      const results = await prisma.$queryRawUnsafe<Array<{
-        id: string
-        content: string
-        metadata: any
-        sourceUrl: string
-        title: string
-        section: string | null
-        chunkIndex: number
-        tokenCount: number
-        similarity: number
-      }>>(query, embeddingVector, threshold, limit)
-
-      return results.map(row => ({
+      return rows.map(row => ({
         id: row.id,
         content: row.content,
         metadata: includeMetadata ? row.metadata : {},
         similarity: row.similarity,
+        ...(row.score !== undefined && { score: row.score }),
         sourceUrl: row.sourceUrl,
         title: row.title,
         section: row.section || undefined,
+        ...(Array.isArray(row.metadata?.headingPath) && { headingPath: row.metadata.headingPath }),
         chunkIndex: row.chunkIndex
       }))
     } catch (error) {
@@ -271,6 +311,95 @@ export class VectorStore {
     }
   }
 
+  /**
+   * Nearest chunks by cosine similarity above the threshold
+   */
+  private async similaritySearch(
+    queryEmbedding: number[],
+    limit: number,
+    threshold: number,
+    options: VectorSearchOptions
+  ): Promise<SearchRow[]> {
+    // Filters are appended as further positional parameters
+    const params: unknown[] = [`[${queryEmbedding.join(',')}]`, threshold, limit]
+    const filters = compileSearchFilters(options, params)
+
+    // Use raw SQL for vector similarity search with pgvector
+    const query = `
+      SELECT 
+        ${SEARCH_COLUMNS},
+        1 - (embedding <=> $1::vector) as similarity
+      FROM document_chunks
+      WHERE 1 - (embedding <=> $1::vector) > $2
+        ${filters.join(' ')}
+      ORDER BY embedding <=> $1::vector
+      LIMIT $3
+    `
+
+    return prisma.$queryRawUnsafe(query, ...params) as Promise<SearchRow[]>
+  }
+
+  /**
+   * Chunks matching the query text, ranked by ts_rank_cd over the weighted search_vector
+   * (title, then section, then content). Normalization 1 divides by document length and 32
+   * saturates the score as rank / (rank + 1), approximating BM25's length and term-frequency
+   * damping. Similarity is still reported so callers can compare with vector results.
+   */
+  private async keywordSearch(
+    queryEmbedding: number[],
+    queryText: string,
+    limit: number,
+    options: VectorSearchOptions
+  ): Promise<SearchRow[]> {
+    const params: unknown[] = [`[${queryEmbedding.join(',')}]`, queryText, limit]
+    const filters = compileSearchFilters(options, params)
+
+    // websearch_to_tsquery accepts free text, quoted phrases and -exclusions without syntax errors
+    const query = `
+      SELECT
+        ${SEARCH_COLUMNS},
+        1 - (embedding <=> $1::vector) as similarity,
+        ts_rank_cd(search_vector, keywords, 33) as score
+      FROM document_chunks, websearch_to_tsquery('english', $2) keywords
+      WHERE search_vector @@ keywords
+        ${filters.join(' ')}
+      ORDER BY score DESC
+      LIMIT $3
+    `
+
+    return prisma.$queryRawUnsafe(query, ...params) as Promise<SearchRow[]>
+  }
+
+  /**
+   * Fuse the vector and keyword rankings. Each side contributes a deeper candidate list
+   * than the final limit so chunks ranked moderately by both can still win.
+   */
+  private async hybridSearch(
+    queryEmbedding: number[],
+    queryText: string,
+    limit: number,
+    threshold: number,
+    options: VectorSearchOptions
+  ): Promise<SearchRow[]> {
+    const candidates = limit * HYBRID_CANDIDATE_MULTIPLIER
+    const [vectorRows, keywordRows] = await Promise.all([
+      this.similaritySearch(queryEmbedding, candidates, threshold, options),
+      this.keywordSearch(queryEmbedding, queryText, candidates, options)
+    ])
+
+    const rowsById = new Map<string, SearchRow>()
+    for (const row of [...vectorRows, ...keywordRows]) {
+      rowsById.set(row.id, row)
+    }
+
+    return reciprocalRankFusion([
+      vectorRows.map(row => row.id),
+      keywordRows.map(row => row.id)
+    ])
+      .slice(0, limit)
+      .map(({ id, score }) => ({ ...rowsById.get(id)!, score }))
+  }
+
   /**
    * Delete all chunks from a specific source URL
    */
@@ -291,17 +420,106 @@ export class VectorStore {
     }
   }
 
+  /**
+   * Get the content hashes stored for a source URL within a scope, keyed by chunk index. The page
+   * hash is only returned when every stored chunk carries the same one, i.e. the last ingestion completed.
+   */
+  async getSourceHashes(sourceUrl: string, scope: ChunkScope = {}): Promise<SourceHashes> {
+    try {
+      const rows = await prisma.$queryRaw`
+        SELECT chunk_index as "chunkIndex", content_hash as "contentHash", page_hash as "pageHash"
+        FROM document_chunks
+        WHERE source_url = ${sourceUrl}
+          AND user_id IS NOT DISTINCT FROM ${scope.userId ?? null}
+          AND organization_id IS NOT DISTINCT FROM ${scope.organizationId ?? null}
+          AND collection_id IS NOT DISTINCT FROM ${scope.collectionId ?? null}
+      ` as Array<{ chunkIndex: number; contentHash: string | null; pageHash: string | null }>
+
+      const chunkHashes = new Map<number, string>()
+      const pageHashes = new Set<string | null>()
+      for (const row of rows) {
+        if (row.contentHash) {
+          chunkHashes.set(row.chunkIndex, row.contentHash)
+        }
+        pageHashes.add(row.pageHash)
+      }
+
+      const [pageHash] = Array.from(pageHashes)
+      return {
+        pageHash: pageHashes.size === 1 && pageHash ? pageHash : undefined,
+        chunkCount: rows.length,
+        chunkHashes
+      }
+    } catch (error) {
+      throw new StorageError(
+        `Failed to load content hashes: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        true,
+        ErrorSeverity.MEDIUM,
+        undefined,
+        error instanceof Error ? error : undefined
+      )
+    }
+  }
+
+  /**
+   * Delete chunks left over from a longer previous version of a page and, when given,
+   * record the hash of the page version now stored. Returns the number of chunks deleted.
+   */
+  async pruneSource(
+    sourceUrl: string,
+    chunkCount: number,
+    pageHash?: string,
+    scope: ChunkScope = {}
+  ): Promise<number> {
+    try {
+      const deleted = await prisma.$executeRaw`
+        DELETE FROM document_chunks
+        WHERE source_url = ${sourceUrl} AND chunk_index >= ${chunkCount}
+          AND user_id IS NOT DISTINCT FROM ${scope.userId ?? null}
+          AND organization_id IS NOT DISTINCT FROM ${scope.organizationId ?? null}
+          AND collection_id IS NOT DISTINCT FROM ${scope.collectionId ?? null}
+      `
+
+      if (pageHash) {
+        await prisma.$executeRaw`
+          UPDATE document_chunks
+          SET page_hash = ${pageHash}
+          WHERE source_url = ${sourceUrl}
+            AND user_id IS NOT DISTINCT FROM ${scope.userId ?? null}
+            AND organization_id IS NOT DISTINCT FROM ${scope.organizationId ?? null}
+            AND collection_id IS NOT DISTINCT FROM ${scope.collectionId ?? null}
+        `
+      }
+
+      return Number(deleted)
+    } catch (error) {
+      throw new StorageError(
+        `Failed to prune stale chunks: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        true,
+        ErrorSeverity.MEDIUM,
+        undefined,
+        error instanceof Error ? error : undefined
+      )
+    }
+  }
+
   /**
    * Get statistics about the vector store
    */
   async getStats(): Promise<VectorStoreStats> {
     try {
-      const [totalChunks, uniqueSources, avgTokens, lastUpdated] = await Promise.all([
+      const [totalChunks, sourceGroups, collectionGroups, avgTokens, lastUpdated] = await Promise.all([
         prisma.documentChunk.count(),
         prisma.documentChunk.groupBy({
-          by: ['sourceUrl'],
+          by: ['collectionId', 'sourceUrl'],
           _count: true
-        }).then(groups => groups.length),
+        }),
+        prisma.documentChunk.groupBy({
+          by: ['collectionId'],
+          _count: true,
+          _avg: { tokenCount: true },
+          _max: { updatedAt: true }
+        }),
         prisma.documentChunk.aggregate({
           _avg: { tokenCount: true }
         }).then(result => result._avg.tokenCount || 0),
@@ -311,11 +529,26 @@ export class VectorStore {
         }).then(result => result?.updatedAt || new Date())
       ])
 
+      const sourceGroupRows = sourceGroups as Array<{ collectionId: string | null; sourceUrl: string }>
+      const collections: CollectionStats[] = (collectionGroups as Array<{
+        collectionId: string | null
+        _count: number
+        _avg: { tokenCount: number | null }
+        _max: { updatedAt: Date | null }
+      }>).map(group => ({
+        collectionId: group.collectionId,
+        totalChunks: group._count,
+        uniqueSources: sourceGroupRows.filter(row => row.collectionId === group.collectionId).length,
+        averageTokenCount: Math.round(group._avg.tokenCount || 0),
+        lastUpdated: group._max.updatedAt || lastUpdated
+      }))
+
       return {
         totalChunks,
-        uniqueSources,
+        uniqueSources: new Set(sourceGroupRows.map(row => row.sourceUrl)).size,
         averageTokenCount: Math.round(avgTokens),
-        lastUpdated
+        lastUpdated,
+        collections
       }
     } catch (error) {
       throw new StorageError(
@@ -1,9 +1,48 @@
 // Vector storage types and interfaces
 
+// How search ranks chunks: embedding similarity, full-text keyword rank, or both fused
+export type SearchMode = 'vector' | 'keyword' | 'hybrid'
+
 export interface VectorSearchOptions {
   limit?: number
+  // Minimum similarity for vector matches; keyword matches are not held to it
   threshold?: number
   includeMetadata?: boolean
+  // Defaults to 'vector'; 'keyword' and 'hybrid' also need the query text
+  mode?: SearchMode
+  query?: string
+  // Restrict results to chunks ingested by this user
+  userId?: string
+  // Restrict results to an organization's shared chunks; takes precedence over userId
+  organizationId?: string
+  // Restrict results to one collection
+  collectionId?: string
+  filters?: VectorSearchFilters
+}
+
+// Narrow a search by where and when chunks came from. All filters must match.
+export interface VectorSearchFilters {
+  // Source URL starts with this, e.g. https://docs.example.com/api/
+  sourceUrlPrefix?: string
+  // Host of the source URL, including its subdomains
+  domain?: string
+  // Exact section heading
+  section?: string
+  // Bounds on when the chunk was last written, inclusive of ingestedAfter
+  ingestedAfter?: Date
+  ingestedBefore?: Date
+  // Ingestion job that last wrote the chunk
+  jobId?: string
+  // Top-level keys the chunk's JSON metadata must contain with these values
+  metadata?: Record<string, string | number | boolean>
+}
+
+// Owner and collection a chunk is stored under; the same page ingested into two
+// collections is stored, hashed and pruned separately in each
+export interface ChunkScope {
+  userId?: string
+  organizationId?: string
+  collectionId?: string
 }
 
 export interface VectorSearchResult {
@@ -11,9 +50,15 @@ export interface VectorSearchResult {
   content: string
   metadata: Record<string, any>
   similarity: number
+  // Keyword rank in keyword mode, fused reciprocal rank in hybrid mode
+  score?: number
+  // Relevance assigned by the rerank model, when results were reranked
+  rerankScore?: number
   sourceUrl: string
   title: string
   section?: string
+  // Breadcrumb of headings leading to the chunk's section
+  headingPath?: string[]
   chunkIndex: number
 }
 
@@ -32,9 +77,25 @@ export interface VectorBatchResult {
   totalProcessed: number
 }
 
+export interface SourceHashes {
+  pageHash?: string
+  chunkCount: number
+  chunkHashes: Map<number, string>
+}
+
 export interface VectorStoreStats {
   totalChunks: number
   uniqueSources: number
   averageTokenCount: number
   lastUpdated: Date
+  collections: CollectionStats[]
+}
+
+export interface CollectionStats {
+  // null for chunks ingested outside any collection
+  collectionId: string | null
+  totalChunks: number
+  uniqueSources: number
+  averageTokenCount: number
+  lastUpdated: Date
 }
\ No newline at end of file
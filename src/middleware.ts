@@ -17,16 +17,27 @@ const publicRoutes = [
 // Define API routes that don't require authentication
 const publicApiRoutes = [
   '/api/auth',
-  '/api/monitoring/health'
+  '/api/monitoring/health',
+  // Inngest authenticates its own calls with the signing key
+  '/api/inngest'
+]
+
+// API routes that also accept `Authorization: Bearer` API keys. The key is verified
+// and scope-checked by the route itself, since the database is not reachable here.
+const apiKeyRoutes = [
+  '/api/ingest-url',
+  '/api/ingest-file',
+  '/api/ingest-status',
+  '/api/search'
 ]
 
 export default auth((req: NextRequest & { auth: any }) => {
   const { nextUrl } = req
   const isLoggedIn = !!req.auth
 
-  // Check if the route is public
+  // Check if the route is public; '/' only matches the home page itself
   const isPublicRoute = publicRoutes.some(route => 
-    nextUrl.pathname === route || nextUrl.pathname.startsWith(route)
+    nextUrl.pathname === route || (route !== '/' && nextUrl.pathname.startsWith(`${route}/`))
   )
 
   // Check if it's a public API route
@@ -39,6 +50,23 @@ export default auth((req: NextRequest & { auth: any }) => {
     return NextResponse.next()
   }
 
+  // Let API-key requests through to the routes that authenticate them
+  const isApiKeyRoute = apiKeyRoutes.some(route =>
+    nextUrl.pathname === route || nextUrl.pathname.startsWith(`${route}/`)
+  )
+  if (isApiKeyRoute && /^Bearer\s+\S+$/i.test(req.headers.get('authorization') ?? '')) {
+    return NextResponse.next()
+  }
+
+  // API clients get a JSON 401 rather than a redirect to the sign-in page
+  if (!isLoggedIn && nextUrl.pathname.startsWith('/api/')) {
+    return NextResponse.json({
+      error: 'Unauthorized',
+      message: 'Authentication required',
+      code: 'UNAUTHORIZED'
+    }, { status: 401 })
+  }
+
   // Redirect to signin if not authenticated and trying to access protected route
   if (!isLoggedIn) {
     const callbackUrl = nextUrl.pathname + nextUrl.search
@@ -47,7 +75,8 @@ export default auth((req: NextRequest & { auth: any }) => {
     return NextResponse.redirect(signInUrl)
   }
 
-  // Allow authenticated users to access protected routes
+  // Allow authenticated users to access protected routes. Organization roles depend on
+  // the target workspace and are checked by each API route (lib/organizations/access).
   return NextResponse.next()
 })
 
@@ -280,7 +280,7 @@ describe('End-to-End Integration Tests', () => {
       })
 
       // Verify all services were called correctly
-      expect(urlValidator.validate).toHaveBeenCalledWith(testUrl)
+      expect(urlValidator.validate).toHaveBeenCalledWith(testUrl, { respectRobots: true })
       expect(webScraper.scrape).toHaveBeenCalledWith(testUrl, expect.any(Object))
       expect(contentChunker.chunk).toHaveBeenCalledWith(
         mockScrapedContent.content,